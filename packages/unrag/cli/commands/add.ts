@@ -31,7 +31,7 @@ import {
 
 type InitConfig = {
 	installDir: string
-	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql'
+	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 	aliasBase?: string
 	version: number
 	installedFrom?: {unragVersion: string}
@@ -425,7 +425,9 @@ async function patchUnragConfigChunker(args: {
 		}
 
 		const needsModel =
-			args.chunker === 'semantic' || args.chunker === 'agentic'
+			args.chunker === 'semantic' ||
+			args.chunker === 'agentic' ||
+			args.chunker === 'proposition'
 		if (needsModel) {
 			const optionsRegex =
 				/(chunking:\s*{[\s\S]*?options:\s*{)([\s\S]*?)(\n\s*}\s*,?)/
@@ -1337,6 +1339,9 @@ main().catch((err) => {
 		if (!quiet) {
 			const installImportBase = `./${config.installDir.replace(/\\/g, '/')}`
 			const importHint = `import "${installImportBase}/chunkers/${chunker}";`
+			const notes = manifest.chunkers?.find(
+				(c) => c.id === chunker
+			)?.notes
 			outro(
 				[
 					`Installed chunker: ${chunker}.`,
@@ -1347,7 +1352,8 @@ main().catch((err) => {
 						: `- Config: unrag.config.ts (add import: ${importHint})`,
 					'',
 					'Next:',
-					`  - Set chunking.method = "${chunker}" in unrag.config.ts`
+					`  - Set chunking.method = "${chunker}" in unrag.config.ts`,
+					...(notes ? [`  - ${notes}`] : [])
 				].join('\n')
 			)
 		}
@@ -59,7 +59,7 @@ import {patchTsconfigPaths} from '../lib/tsconfig'
 
 type InitConfig = {
 	installDir: string
-	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql'
+	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 	aliasBase?: string
 	embeddingProvider?: EmbeddingProviderName
 	version: number
@@ -121,7 +121,13 @@ const parseInitArgs = (args: string[]): ParsedInitArgs => {
 		}
 		if (a === '--store') {
 			const v = args[i + 1]
-			if (v === 'drizzle' || v === 'prisma' || v === 'raw-sql') {
+			if (
+				v === 'drizzle' ||
+				v === 'prisma' ||
+				v === 'raw-sql' ||
+				v === 'sqlite' ||
+				v === 'pglite'
+			) {
 				out.storeAdapter = v
 				i++
 			}
@@ -399,6 +405,14 @@ export async function initCommand(args: string[]) {
 						{
 							value: 'raw-sql',
 							label: 'Raw SQL (Postgres + pgvector)'
+						},
+						{
+							value: 'sqlite',
+							label: 'SQLite (better-sqlite3 + sqlite-vec)'
+						},
+						{
+							value: 'pglite',
+							label: 'PGlite (embedded Postgres + pgvector, no Docker)'
 						}
 					]
 				})
@@ -880,11 +894,17 @@ export async function initCommand(args: string[]) {
 		aliasBase
 	})
 
+	const dbEnvHint =
+		storeAdapterAnswer === 'sqlite'
+			? '- (optional) DATABASE_PATH=unrag.db'
+			: storeAdapterAnswer === 'pglite'
+				? '- (optional) PGLITE_DATA_DIR=.unrag/pglite'
+				: '- DATABASE_URL=...'
 	const envHint = (() => {
 		if (embeddingProvider === 'ai') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- AI_GATEWAY_API_KEY=...',
 				'- (optional) AI_GATEWAY_MODEL=openai/text-embedding-3-small'
 			]
@@ -892,7 +912,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'openai') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- OPENAI_API_KEY=...',
 				'- (optional) OPENAI_EMBEDDING_MODEL=text-embedding-3-small'
 			]
@@ -900,7 +920,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'google') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- GOOGLE_GENERATIVE_AI_API_KEY=...',
 				'- (optional) GOOGLE_GENERATIVE_AI_EMBEDDING_MODEL=gemini-embedding-001'
 			]
@@ -908,7 +928,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'openrouter') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- OPENROUTER_API_KEY=...',
 				'- (optional) OPENROUTER_EMBEDDING_MODEL=text-embedding-3-small'
 			]
@@ -916,7 +936,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'cohere') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- COHERE_API_KEY=...',
 				'- (optional) COHERE_EMBEDDING_MODEL=embed-english-v3.0'
 			]
@@ -924,7 +944,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'mistral') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- MISTRAL_API_KEY=...',
 				'- (optional) MISTRAL_EMBEDDING_MODEL=mistral-embed'
 			]
@@ -932,7 +952,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'together') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- TOGETHER_AI_API_KEY=...',
 				'- (optional) TOGETHER_AI_EMBEDDING_MODEL=togethercomputer/m2-bert-80M-2k-retrieval'
 			]
@@ -940,7 +960,7 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'voyage') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- VOYAGE_API_KEY=...',
 				'- (optional) VOYAGE_MODEL=voyage-3.5-lite'
 			]
@@ -948,14 +968,14 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'ollama') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- (optional) OLLAMA_EMBEDDING_MODEL=nomic-embed-text'
 			]
 		}
 		if (embeddingProvider === 'azure') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- AZURE_OPENAI_API_KEY=...',
 				'- AZURE_RESOURCE_NAME=...',
 				'- (optional) AZURE_EMBEDDING_MODEL=text-embedding-3-small'
@@ -964,14 +984,14 @@ export async function initCommand(args: string[]) {
 		if (embeddingProvider === 'vertex') {
 			return [
 				'Env:',
-				'- DATABASE_URL=...',
+				dbEnvHint,
 				'- GOOGLE_APPLICATION_CREDENTIALS=... (when outside GCP)',
 				'- (optional) GOOGLE_VERTEX_EMBEDDING_MODEL=text-embedding-004'
 			]
 		}
 		return [
 			'Env:',
-			'- DATABASE_URL=...',
+			dbEnvHint,
 			'- AWS_REGION=... (Bedrock)',
 			'- AWS credentials (when outside AWS)',
 			'- (optional) BEDROCK_EMBEDDING_MODEL=amazon.titan-embed-text-v2:0'
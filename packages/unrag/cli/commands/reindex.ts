@@ -0,0 +1,285 @@
+/**
+ * Reindex command: re-embeds stored chunks with the provider currently set in
+ * `unrag.config.ts`.
+ *
+ * Usage:
+ *   bunx unrag reindex [options]
+ *
+ * Options:
+ *   --batch-size <n>      Chunks embedded and written per round (default: 256)
+ *   --project-root <dir>  Project root (default: nearest package.json)
+ */
+
+import {spawn} from 'node:child_process'
+import {mkdir, readFile, rm, writeFile} from 'node:fs/promises'
+import path from 'node:path'
+import {outro, spinner} from '@clack/prompts'
+import {docsUrl} from '../lib/constants'
+import {DEFAULT_ENV_LOAD_FILES} from '../lib/doctor/doctorConfig'
+import {loadEnvFilesFromList} from '../lib/doctor/env'
+import {exists, tryFindProjectRoot} from '../lib/fs'
+import {
+	REINDEX_RUNNER_PATH,
+	type ReindexRunnerEvent,
+	type ReindexRunnerOptions,
+	type ReindexRunnerResult,
+	isChunkContentStorageDisabled,
+	parseReindexRunnerEvent,
+	renderReindexRunnerScript
+} from '../lib/reindex'
+
+type ParsedReindexArgs = ReindexRunnerOptions & {
+	projectRoot?: string
+	help?: boolean
+}
+
+function parseReindexArgs(args: string[]): ParsedReindexArgs {
+	const out: ParsedReindexArgs = {}
+
+	for (let i = 0; i < args.length; i++) {
+		const a = args[i]
+
+		if (a === '--help' || a === '-h') {
+			out.help = true
+			continue
+		}
+
+		if (a === '--batch-size') {
+			const v = args[i + 1] ?? ''
+			const n = Number.parseInt(v, 10)
+			if (!Number.isInteger(n) || n < 1) {
+				throw new Error(`Invalid --batch-size: ${v}`)
+			}
+			out.batchSize = n
+			i++
+			continue
+		}
+
+		if (a === '--project-root') {
+			const v = args[i + 1]
+			if (v && !v.startsWith('-')) {
+				out.projectRoot = v
+				i++
+			}
+		}
+	}
+
+	return out
+}
+
+function renderReindexHelp(): string {
+	return [
+		'unrag reindex — Re-embed stored chunks with the current embedding provider',
+		'',
+		'Usage:',
+		'  bunx unrag reindex [options]',
+		'',
+		'Options:',
+		'  --batch-size <n>      Chunks embedded and written per round (default: 256)',
+		'  --project-root <dir>  Project root (default: nearest package.json)',
+		'  -h, --help            Show this help',
+		'',
+		'How it works:',
+		'  Chunk text is read back from the store, embedded with the provider in',
+		'  unrag.config.ts and written to a staging index. When every chunk is done',
+		'  the staging vectors replace the live ones in one transaction. If the run',
+		'  is interrupted, run the command again to continue where it stopped.',
+		'',
+		'Requires engine.storage.storeChunkContent (chunk text must be stored).',
+		'Runs your config with Bun, or with tsx when Bun is not installed.',
+		''
+	].join('\n')
+}
+
+type Runtime = {cmd: string; args: string[]}
+
+const inferRuntimes = (script: string): Runtime[] => {
+	const versions = (
+		process as unknown as {versions?: Record<string, unknown>}
+	).versions
+	const runtimes: Runtime[] = []
+	if (typeof versions?.bun === 'string') {
+		runtimes.push({cmd: process.execPath, args: [script]})
+	}
+	runtimes.push({cmd: 'bun', args: [script]})
+	runtimes.push({
+		cmd: process.platform === 'win32' ? 'npx.cmd' : 'npx',
+		args: ['-y', 'tsx', script]
+	})
+	return runtimes
+}
+
+/**
+ * Run the runner script, forwarding its events. Resolves with the exit code,
+ * or `null` when the runtime is not installed.
+ */
+const runRunner = (
+	runtime: Runtime,
+	projectRoot: string,
+	options: ReindexRunnerOptions,
+	onEvent: (event: ReindexRunnerEvent) => void
+) =>
+	new Promise<number | null>((resolve, reject) => {
+		const child = spawn(runtime.cmd, runtime.args, {
+			cwd: projectRoot,
+			stdio: ['ignore', 'pipe', 'inherit'],
+			env: {
+				...process.env,
+				UNRAG_REINDEX_OPTIONS: JSON.stringify(options)
+			}
+		})
+		let buffered = ''
+		child.stdout?.on('data', (data) => {
+			buffered += data.toString()
+			const lines = buffered.split('\n')
+			buffered = lines.pop() ?? ''
+			for (const line of lines) {
+				const event = parseReindexRunnerEvent(line)
+				if (event) {
+					onEvent(event)
+				} else if (line.trim()) {
+					process.stdout.write(`${line}\n`)
+				}
+			}
+		})
+		child.on('error', (err) => {
+			if ((err as {code?: unknown}).code === 'ENOENT') {
+				resolve(null)
+				return
+			}
+			reject(err)
+		})
+		child.on('exit', (code) => resolve(code ?? 1))
+	})
+
+export async function reindexCommand(args: string[]): Promise<void> {
+	const parsed = parseReindexArgs(args)
+	if (parsed.help) {
+		outro(renderReindexHelp())
+		return
+	}
+
+	const projectRoot = path.resolve(
+		parsed.projectRoot ??
+			(await tryFindProjectRoot(process.cwd())) ??
+			process.cwd()
+	)
+	const configPath = path.join(projectRoot, 'unrag.config.ts')
+	if (!(await exists(configPath))) {
+		outro(
+			`No unrag.config.ts found in ${projectRoot}. Run \`unrag init\` first, or pass --project-root.`
+		)
+		process.exitCode = 1
+		return
+	}
+
+	if (isChunkContentStorageDisabled(await readFile(configPath, 'utf8'))) {
+		outro(
+			[
+				'Cannot reindex: engine.storage.storeChunkContent is false in unrag.config.ts.',
+				'Chunk text is not stored, so there is nothing to re-embed.',
+				'Re-run your ingestion (connector syncs) to rebuild vectors instead.',
+				'',
+				`Docs: ${docsUrl('/docs/reference/cli#reindex-command')}`
+			].join('\n')
+		)
+		process.exitCode = 1
+		return
+	}
+
+	// Make .env values visible to the runner (tsx does not load them itself).
+	await loadEnvFilesFromList({
+		projectRoot,
+		files: DEFAULT_ENV_LOAD_FILES.map((f) =>
+			f.replace(/\$\{NODE_ENV\}/g, (process.env.NODE_ENV ?? '').trim())
+		)
+	})
+
+	const runnerPath = path.join(projectRoot, REINDEX_RUNNER_PATH)
+	await mkdir(path.dirname(runnerPath), {recursive: true})
+	await writeFile(
+		runnerPath,
+		renderReindexRunnerScript({configImportPath: '../unrag.config'}),
+		'utf8'
+	)
+
+	const s = spinner()
+	s.start('Reindexing…')
+	const outcome: {result: ReindexRunnerResult | null; error: string | null} =
+		{
+			result: null,
+			error: null
+		}
+
+	try {
+		let exitCode: number | null = null
+		for (const runtime of inferRuntimes(runnerPath)) {
+			exitCode = await runRunner(
+				runtime,
+				projectRoot,
+				{batchSize: parsed.batchSize},
+				(event) => {
+					if (event.type === 'progress') {
+						s.message(
+							`Reindexing… ${event.reembedded.toLocaleString()} chunks embedded${event.skipped ? `, ${event.skipped.toLocaleString()} skipped` : ''}`
+						)
+					} else if (event.type === 'result') {
+						outcome.result = event.result
+					} else {
+						outcome.error = event.message
+					}
+				}
+			)
+			if (exitCode !== null) {
+				break
+			}
+		}
+		if (exitCode === null) {
+			outcome.error =
+				'Could not find a TypeScript runtime. Install Bun, or make sure `npx tsx` works.'
+		} else if (exitCode !== 0 && !outcome.error) {
+			outcome.error = `Reindex runner exited with code ${exitCode}.`
+		}
+	} finally {
+		await rm(runnerPath, {force: true})
+	}
+
+	const finished = outcome.result
+	if (outcome.error || !finished) {
+		s.stop('Reindex failed.')
+		outro(
+			[
+				outcome.error ?? 'Reindex runner ended without a result.',
+				'',
+				'Vectors embedded so far are kept; run `unrag reindex` again to continue.'
+			].join('\n')
+		)
+		process.exitCode = 1
+		return
+	}
+
+	s.stop(
+		`Reindexed ${finished.swapped.toLocaleString()} vectors in index "${finished.index}".`
+	)
+	outro(
+		[
+			`Model: ${finished.embeddingModel}`,
+			`Embedded this run: ${finished.reembedded.toLocaleString()} chunks (${Math.round(finished.durations.totalMs / 1000)}s)`,
+			...(finished.skipped > 0
+				? [
+						'',
+						`Skipped ${finished.skipped.toLocaleString()} chunks without stored text (they keep their old vectors).`,
+						'Re-ingest these sources to rebuild them:',
+						...finished.skippedSourceIds
+							.slice(0, 20)
+							.map((id) => `  - ${id}`),
+						...(finished.skippedSourceIds.length > 20
+							? [
+									`  … and ${finished.skippedSourceIds.length - 20} more`
+								]
+							: [])
+					]
+				: [])
+		].join('\n')
+	)
+}
@@ -33,7 +33,7 @@ import {
 
 type UpgradeConfig = {
 	installDir?: string
-	storeAdapter?: 'drizzle' | 'prisma' | 'raw-sql'
+	storeAdapter?: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 	aliasBase?: string
 	embeddingProvider?: string
 	version?: number
@@ -112,7 +112,10 @@ const isConnectorName = (v: unknown): v is ConnectorName =>
 	v === 'notion' ||
 	v === 'google-drive' ||
 	v === 'onedrive' ||
-	v === 'dropbox'
+	v === 'dropbox' ||
+	v === 'filesystem' ||
+	v === 'git' ||
+	v === 'web'
 
 const isBatteryName = (v: unknown): v is BatteryName =>
 	v === 'reranker' || v === 'eval' || v === 'debug'
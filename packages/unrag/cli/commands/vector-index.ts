@@ -0,0 +1,397 @@
+/**
+ * Index command: creates or rebuilds pgvector HNSW / IVFFlat indexes on the
+ * embeddings table.
+ *
+ * Usage:
+ *   bunx unrag index create [options]
+ *   bunx unrag index rebuild [options]
+ */
+
+import path from 'node:path'
+import {outro, spinner} from '@clack/prompts'
+import {docsUrl} from '../lib/constants'
+import {
+	type PgClient,
+	openPgPool,
+	openPglite,
+	redactConnectionString,
+	resolveDbUrl,
+	resolvePgliteDataDir
+} from '../lib/doctor/dbClient'
+import {getEnvFilesToLoad} from '../lib/doctor/doctorConfig'
+import {loadEnvFilesFromList} from '../lib/doctor/env'
+import {inferInstallState, inferTableNames} from '../lib/doctor/infer'
+import {
+	VECTOR_OPERATOR_CLASSES,
+	type VectorIndexBuildOptions,
+	type VectorIndexMethod,
+	type VectorIndexMetric,
+	type VectorIndexTarget,
+	renderCreateVectorIndexSql,
+	renderDropVectorIndexSql
+} from '../lib/vectorIndex'
+
+type IndexAction = 'create' | 'rebuild'
+
+type ParsedIndexArgs = {
+	action?: IndexAction
+	method?: VectorIndexMethod
+	metric?: VectorIndexMetric
+	index?: string
+	dimensions?: number
+	m?: number
+	efConstruction?: number
+	lists?: number
+	concurrently?: boolean
+	dryRun?: boolean
+	projectRoot?: string
+	schema?: string
+	databaseUrl?: string
+	databaseUrlEnv?: string
+	envFile?: string
+	help?: boolean
+}
+
+const parsePositiveInt = (flag: string, value: string | undefined) => {
+	const n = Number.parseInt(value ?? '', 10)
+	if (!Number.isInteger(n) || n < 1 || String(n) !== value) {
+		throw new Error(`Invalid ${flag}: ${value ?? '(missing)'}`)
+	}
+	return n
+}
+
+function parseIndexArgs(args: string[]): ParsedIndexArgs {
+	const out: ParsedIndexArgs = {}
+
+	for (let i = 0; i < args.length; i++) {
+		const a = args[i]
+
+		if (a === '--help' || a === '-h') {
+			out.help = true
+			continue
+		}
+
+		if (a === 'create' || a === 'rebuild') {
+			out.action = a
+			continue
+		}
+
+		if (a === '--concurrently') {
+			out.concurrently = true
+			continue
+		}
+
+		if (a === '--dry-run') {
+			out.dryRun = true
+			continue
+		}
+
+		if (a === '--method') {
+			const v = args[i + 1]
+			if (v !== 'hnsw' && v !== 'ivfflat') {
+				throw new Error(`Invalid --method: ${v} (use hnsw or ivfflat)`)
+			}
+			out.method = v
+			i++
+			continue
+		}
+
+		if (a === '--metric') {
+			const v = args[i + 1] ?? ''
+			if (!(v in VECTOR_OPERATOR_CLASSES)) {
+				throw new Error(
+					`Invalid --metric: ${v} (use cosine, inner_product or l2)`
+				)
+			}
+			out.metric = v as VectorIndexMetric
+			i++
+			continue
+		}
+
+		if (a === '--dimensions') {
+			out.dimensions = parsePositiveInt(a, args[i + 1])
+			i++
+			continue
+		}
+
+		if (a === '--m') {
+			out.m = parsePositiveInt(a, args[i + 1])
+			i++
+			continue
+		}
+
+		if (a === '--ef-construction') {
+			out.efConstruction = parsePositiveInt(a, args[i + 1])
+			i++
+			continue
+		}
+
+		if (a === '--lists') {
+			out.lists = parsePositiveInt(a, args[i + 1])
+			i++
+			continue
+		}
+
+		if (
+			a === '--index' ||
+			a === '--project-root' ||
+			a === '--schema' ||
+			a === '--database-url' ||
+			a === '--database-url-env' ||
+			a === '--env-file'
+		) {
+			const v = args[i + 1]
+			if (v && !v.startsWith('-')) {
+				const key = (
+					{
+						'--index': 'index',
+						'--project-root': 'projectRoot',
+						'--schema': 'schema',
+						'--database-url': 'databaseUrl',
+						'--database-url-env': 'databaseUrlEnv',
+						'--env-file': 'envFile'
+					} as const
+				)[a]
+				out[key] = v
+				i++
+			}
+		}
+	}
+
+	return out
+}
+
+function renderIndexHelp(): string {
+	return [
+		'unrag index — Create or rebuild vector indexes (HNSW / IVFFlat)',
+		'',
+		'Usage:',
+		'  bunx unrag index create [options]',
+		'  bunx unrag index rebuild [options]',
+		'',
+		'Actions:',
+		'  create      Create missing indexes, one per named index and embedding size found',
+		'  rebuild     Drop and recreate them (e.g. to change method or parameters)',
+		'',
+		'Options:',
+		'  --method <hnsw|ivfflat>      Index type (default: hnsw)',
+		"  --metric <name>              cosine | inner_product | l2; must match the store's distanceMetric (default: cosine)",
+		'  --index <name>               Only this named index (default: all)',
+		'  --dimensions <n>             Only this embedding size; with --index, creates the index before any rows exist',
+		'  --m <n>                      HNSW connections per layer (pgvector default: 16)',
+		'  --ef-construction <n>        HNSW build candidate list (pgvector default: 64)',
+		'  --lists <n>                  IVFFlat lists (default: rows/1000, at least 10)',
+		'  --concurrently               Build without blocking writes (slower)',
+		'  --dry-run                    Print the SQL without running it',
+		'  --schema <name>              Database schema (default: public)',
+		'  --database-url <url>         Database connection string (PGlite: data directory)',
+		'  --database-url-env <VAR>     Env var holding the connection string',
+		'  --env-file <path>            Load this env file first',
+		'  --project-root <dir>         Project root (default: nearest package.json)',
+		'  -h, --help                   Show this help',
+		'',
+		'Tune recall per query with retrieve({ vectorSearch: { efSearch, probes } }).',
+		''
+	].join('\n')
+}
+
+/**
+ * Named index / dimension pairs that have vectors, narrowed by the flags.
+ * `--index` with `--dimensions` also works before anything is stored.
+ */
+async function findTargets(
+	client: PgClient,
+	schema: string,
+	table: string,
+	parsed: ParsedIndexArgs
+): Promise<VectorIndexTarget[]> {
+	const res = await client.query<{
+		index_name: string
+		embedding_dimension: number
+		row_count: string
+	}>(
+		`select index_name, embedding_dimension, count(*) as row_count
+     from "${schema.replace(/"/g, '""')}"."${table.replace(/"/g, '""')}"
+     where embedding_dimension is not null
+     group by index_name, embedding_dimension
+     order by index_name, embedding_dimension`
+	)
+	const targets = res.rows
+		.map((row) => ({
+			index: row.index_name,
+			dimensions: Number(row.embedding_dimension),
+			rowCount: Number.parseInt(String(row.row_count), 10)
+		}))
+		.filter(
+			(t) =>
+				(parsed.index === undefined || t.index === parsed.index) &&
+				(parsed.dimensions === undefined ||
+					t.dimensions === parsed.dimensions)
+		)
+
+	if (
+		targets.length === 0 &&
+		parsed.index !== undefined &&
+		parsed.dimensions !== undefined
+	) {
+		return [
+			{index: parsed.index, dimensions: parsed.dimensions, rowCount: 0}
+		]
+	}
+	return targets
+}
+
+export async function indexCommand(args: string[]): Promise<void> {
+	let parsed: ParsedIndexArgs
+	try {
+		parsed = parseIndexArgs(args)
+	} catch (err) {
+		outro(
+			`${err instanceof Error ? err.message : String(err)}\n\n${renderIndexHelp()}`
+		)
+		process.exitCode = 1
+		return
+	}
+
+	const action = parsed.action
+	if (parsed.help || !action) {
+		outro(renderIndexHelp())
+		if (!parsed.help) {
+			process.exitCode = 1
+		}
+		return
+	}
+
+	const state = await inferInstallState({
+		projectRootOverride: parsed.projectRoot
+			? path.resolve(parsed.projectRoot)
+			: undefined
+	})
+	await loadEnvFilesFromList({
+		projectRoot: state.projectRoot,
+		files: getEnvFilesToLoad(null, parsed.envFile)
+	})
+
+	if (state.storeAdapter === 'sqlite') {
+		outro(
+			'The SQLite store searches every vector exactly with sqlite-vec; there is no vector index to create.'
+		)
+		return
+	}
+
+	const connection = {
+		databaseUrl: parsed.databaseUrl,
+		databaseUrlEnv: parsed.databaseUrlEnv
+	}
+	const pgliteDir =
+		state.storeAdapter === 'pglite'
+			? resolvePgliteDataDir(state, connection)
+			: null
+	const dbUrl = pgliteDir ? null : resolveDbUrl(state, connection)
+	if (!pgliteDir && !dbUrl?.url) {
+		outro(
+			[
+				'Could not determine database connection string.',
+				...(dbUrl?.details ?? []),
+				'',
+				'Set DATABASE_URL, or pass --database-url / --database-url-env.'
+			].join('\n')
+		)
+		process.exitCode = 1
+		return
+	}
+
+	const schema = parsed.schema ?? 'public'
+	const {embeddings: table} = await inferTableNames(
+		state.installDir ? path.join(state.projectRoot, state.installDir) : '',
+		state.storeAdapter
+	)
+	const buildOptions: VectorIndexBuildOptions = {
+		schema,
+		table,
+		method: parsed.method ?? 'hnsw',
+		metric: parsed.metric ?? 'cosine',
+		m: parsed.m,
+		efConstruction: parsed.efConstruction,
+		lists: parsed.lists,
+		concurrently: parsed.concurrently
+	}
+
+	const s = spinner()
+	s.start(
+		`Connecting to ${pgliteDir ? pgliteDir.dir : redactConnectionString(dbUrl?.url ?? '')}…`
+	)
+
+	let client: PgClient | undefined
+	try {
+		client = pgliteDir
+			? await openPglite(state.projectRoot, pgliteDir.dir)
+			: await openPgPool(dbUrl?.url ?? '')
+
+		const targets = await findTargets(client, schema, table, parsed)
+		if (targets.length === 0) {
+			s.stop('Nothing to index.')
+			outro(
+				[
+					`No embeddings found in ${schema}.${table}${parsed.index ? ` for index "${parsed.index}"` : ''}.`,
+					'Ingest some content first, or pass --index and --dimensions to create the index up front.'
+				].join('\n')
+			)
+			return
+		}
+
+		const plans = targets.map((target) => ({
+			target,
+			statements: [
+				...(action === 'rebuild'
+					? renderDropVectorIndexSql(target, buildOptions)
+					: []),
+				renderCreateVectorIndexSql(target, buildOptions)
+			]
+		}))
+
+		if (parsed.dryRun) {
+			s.stop('Dry run: no changes made.')
+			outro(plans.flatMap((p) => p.statements).join('\n\n'))
+			return
+		}
+
+		for (const [i, {target, statements}] of plans.entries()) {
+			s.message(
+				`${action === 'rebuild' ? 'Rebuilding' : 'Creating'} ${buildOptions.method} index ${i + 1}/${plans.length} ("${target.index}", ${target.dimensions} dims, ${target.rowCount.toLocaleString()} rows)…`
+			)
+			// Run one at a time: `concurrently` builds cannot share a transaction.
+			for (const statement of statements) {
+				await client.query(statement)
+			}
+		}
+
+		s.stop(
+			`${action === 'rebuild' ? 'Rebuilt' : 'Created'} ${targets.length} ${buildOptions.method} index${targets.length === 1 ? '' : 'es'}.`
+		)
+		outro(
+			[
+				...targets.map(
+					(t) =>
+						`  - "${t.index}" (${t.dimensions} dims, ${t.rowCount.toLocaleString()} rows)`
+				),
+				'',
+				...(action === 'create'
+					? [
+							'Existing indexes with the same name were left as they are.'
+						]
+					: []),
+				buildOptions.method === 'hnsw'
+					? 'Raise recall per query with retrieve({ vectorSearch: { efSearch: 100 } }).'
+					: 'Raise recall per query with retrieve({ vectorSearch: { probes: 10 } }).',
+				`Docs: ${docsUrl('/docs/concepts/performance#vector-indexes')}`
+			].join('\n')
+		)
+	} catch (err) {
+		s.stop('Index command failed.')
+		outro(`Error: ${err instanceof Error ? err.message : String(err)}`)
+		process.exitCode = 1
+	} finally {
+		await client?.end().catch(() => {})
+	}
+}
@@ -1,29 +1,30 @@
 /**
  * Database checks for doctor command (--db mode).
- * Uses bundled pg to validate connectivity, pgvector, schema, indexes,
- * and embedding dimension consistency.
+ * Uses bundled pg (or the project's PGlite for the pglite adapter) to validate
+ * connectivity, pgvector, schema, indexes, and embedding dimension consistency.
  */
 
+import {existsSync} from 'node:fs'
 import path from 'node:path'
 import {docsUrl} from '../constants'
+import {
+	type DbConnectionOptions,
+	type PgClient,
+	openPgPool,
+	openPglite,
+	redactConnectionString,
+	resolveDbUrl,
+	resolvePgliteDataDir
+} from './dbClient'
 import {inferTableNames} from './infer'
+import {runSqliteDbChecks} from './sqliteChecks'
 import type {CheckResult, InferredInstallState} from './types'
 
-type DbCheckOptions = {
-	databaseUrl?: string
-	databaseUrlEnv?: string
+type DbCheckOptions = DbConnectionOptions & {
 	schema: string
 	scope?: string
 }
 
-type PgClient = {
-	query: <T = Record<string, unknown>>(
-		sql: string,
-		params?: unknown[]
-	) => Promise<{rows: T[]}>
-	end: () => Promise<void>
-}
-
 /**
  * Run database checks.
  */
@@ -31,10 +32,46 @@ export async function runDbChecks(
 	state: InferredInstallState,
 	options: DbCheckOptions
 ): Promise<CheckResult[]> {
+	if (state.storeAdapter === 'sqlite') {
+		return await runSqliteDbChecks(state, options)
+	}
+
 	const results: CheckResult[] = []
 
-	// 1. Resolve database URL
-	const dbUrlResult = resolveDbUrl(state, options)
+	// 1. Resolve database URL (a local data directory for PGlite)
+	const pgliteDir =
+		state.storeAdapter === 'pglite'
+			? resolvePgliteDataDir(state, options)
+			: null
+	if (pgliteDir) {
+		if (!existsSync(pgliteDir.dir)) {
+			results.push({
+				id: 'db-url',
+				title: 'PGlite data directory',
+				status: 'fail',
+				summary: `PGlite data directory not found: ${pgliteDir.dir}`,
+				details: [`Resolved from ${pgliteDir.source}.`],
+				fixHints: [
+					'Set PGLITE_DATA_DIR to your PGlite data directory',
+					'Or use --database-url <path> flag',
+					'Run an ingest once to create the directory and schema'
+				],
+				docsLink: docsUrl('/docs/adapters/pglite')
+			})
+			return results
+		}
+		results.push({
+			id: 'db-url',
+			title: 'PGlite data directory',
+			status: 'pass',
+			summary: `Using ${pgliteDir.source}`,
+			details: [pgliteDir.dir]
+		})
+	}
+
+	const dbUrlResult = pgliteDir
+		? {url: pgliteDir.dir, source: pgliteDir.source, details: []}
+		: resolveDbUrl(state, options)
 	if (!dbUrlResult.url) {
 		results.push({
 			id: 'db-url',
@@ -52,31 +89,27 @@ export async function runDbChecks(
 		return results
 	}
 
-	results.push({
-		id: 'db-url',
-		title: 'Database URL',
-		status: 'pass',
-		summary: `Using ${dbUrlResult.source}`,
-		details: [redactConnectionString(dbUrlResult.url)]
-	})
+	if (!pgliteDir) {
+		results.push({
+			id: 'db-url',
+			title: 'Database URL',
+			status: 'pass',
+			summary: `Using ${dbUrlResult.source}`,
+			details: [redactConnectionString(dbUrlResult.url)]
+		})
+	}
 
 	// 2. Connect and run checks
 	let end: (() => Promise<void>) | undefined
 
 	try {
-		// Dynamic import pg to avoid bundling issues
-		const pg = await import('pg')
-		const Pool = pg.default?.Pool ?? pg.Pool
-
-		const pool = new Pool({connectionString: dbUrlResult.url})
-		end = () => pool.end()
-		const client: PgClient = {
-			query: <T = Record<string, unknown>>(
-				sql: string,
-				params?: unknown[]
-			) => pool.query(sql, params) as unknown as Promise<{rows: T[]}>,
-			end
+		let client: PgClient
+		if (pgliteDir) {
+			client = await openPglite(state.projectRoot, pgliteDir.dir)
+		} else {
+			client = await openPgPool(dbUrlResult.url)
 		}
+		end = client.end
 
 		// Run connectivity check
 		const connectivityResult = await checkConnectivity(client)
@@ -146,11 +179,16 @@ export async function runDbChecks(
 			title: 'Database connection',
 			status: 'fail',
 			summary: `Connection failed: ${message}`,
-			fixHints: [
-				'Check that DATABASE_URL is correct',
-				'Ensure the database server is running',
-				'Check network connectivity and firewall rules'
-			]
+			fixHints: pgliteDir
+				? [
+						'Install @electric-sql/pglite in your project',
+						'Stop other processes using the data directory (PGlite allows one at a time)'
+					]
+				: [
+						'Check that DATABASE_URL is correct',
+						'Ensure the database server is running',
+						'Check network connectivity and firewall rules'
+					]
 		})
 	} finally {
 		if (end) {
@@ -161,87 +199,6 @@ export async function runDbChecks(
 	return results
 }
 
-/**
- * Resolve database URL from various sources.
- */
-function resolveDbUrl(
-	state: InferredInstallState,
-	options: DbCheckOptions
-): {url: string | null; source: string; details: string[]} {
-	const details: string[] = []
-
-	// Priority 1: Explicit --database-url flag
-	if (options.databaseUrl) {
-		return {
-			url: options.databaseUrl,
-			source: '--database-url flag',
-			details: ['Using explicitly provided connection string.']
-		}
-	}
-
-	// Priority 2: --database-url-env flag
-	if (options.databaseUrlEnv) {
-		const value = process.env[options.databaseUrlEnv]
-		if (value) {
-			return {
-				url: value,
-				source: `${options.databaseUrlEnv} (via --database-url-env)`,
-				details: [
-					`Using env var specified by flag: ${options.databaseUrlEnv}`
-				]
-			}
-		}
-		details.push(
-			`${options.databaseUrlEnv} is not set (specified via --database-url-env).`
-		)
-	}
-
-	// Priority 3: Inferred env var from config
-	if (state.inferredDbEnvVar) {
-		const value = process.env[state.inferredDbEnvVar]
-		if (value) {
-			return {
-				url: value,
-				source: `${state.inferredDbEnvVar} (inferred from config)`,
-				details: [
-					`Found ${state.inferredDbEnvVar} in your database configuration.`
-				]
-			}
-		}
-		details.push(
-			`${state.inferredDbEnvVar} inferred from config but not set.`
-		)
-	}
-
-	// Priority 4: DATABASE_URL fallback
-	if (process.env.DATABASE_URL) {
-		return {
-			url: process.env.DATABASE_URL,
-			source: 'DATABASE_URL',
-			details: ['Using standard DATABASE_URL environment variable.']
-		}
-	}
-
-	details.push('DATABASE_URL is not set.')
-	return {url: null, source: '', details}
-}
-
-/**
- * Redact sensitive parts of connection string for display.
- */
-function redactConnectionString(url: string): string {
-	try {
-		const parsed = new URL(url)
-		if (parsed.password) {
-			parsed.password = '****'
-		}
-		return parsed.toString().replace(/\*\*\*\*@/, '****@')
-	} catch {
-		// If URL parsing fails, do basic redaction
-		return url.replace(/:([^:@]+)@/, ':****@')
-	}
-}
-
 /**
  * Check database connectivity and basic info.
  */
@@ -396,6 +353,44 @@ async function checkSchema(
 	return results
 }
 
+/**
+ * Migration SQL for columns added after the initial schema, keyed by
+ * `<logical table>.<column>`. Mirrors "Upgrading an existing schema" in the docs.
+ */
+const COLUMN_MIGRATIONS: Record<string, string> = {
+	'documents.content_hash': 'add column if not exists content_hash text',
+	'embeddings.content_hash': 'add column if not exists content_hash text',
+	'embeddings.index_name':
+		"add column if not exists index_name text not null default 'default'",
+	'embeddings.model': 'add column if not exists model text'
+}
+
+/**
+ * Name and columns of a table's primary key, or null when it has none.
+ */
+async function getPrimaryKey(
+	client: PgClient,
+	schema: string,
+	tableName: string
+): Promise<{name: string; columns: string[]} | null> {
+	const result = await client.query<{
+		constraint_name: string
+		column_name: string
+	}>(
+		`SELECT tc.constraint_name, kcu.column_name
+       FROM information_schema.table_constraints tc
+       JOIN information_schema.key_column_usage kcu
+         ON tc.constraint_name = kcu.constraint_name
+         AND tc.table_schema = kcu.table_schema
+       WHERE tc.constraint_type = 'PRIMARY KEY'
+         AND tc.table_schema = $1
+         AND tc.table_name = $2`,
+		[schema, tableName]
+	)
+	const name = result.rows[0]?.constraint_name
+	return name ? {name, columns: result.rows.map((r) => r.column_name)} : null
+}
+
 /**
  * Check if a table exists and has expected columns.
  */
@@ -406,7 +401,7 @@ async function checkTable(
 	logicalName: string
 ): Promise<CheckResult> {
 	const expectedColumns: Record<string, string[]> = {
-		documents: ['id', 'source_id', 'content', 'metadata'],
+		documents: ['id', 'source_id', 'content', 'metadata', 'content_hash'],
 		chunks: [
 			'id',
 			'document_id',
@@ -416,7 +411,14 @@ async function checkTable(
 			'token_count',
 			'metadata'
 		],
-		embeddings: ['chunk_id', 'embedding', 'embedding_dimension']
+		embeddings: [
+			'chunk_id',
+			'index_name',
+			'model',
+			'embedding',
+			'embedding_dimension',
+			'content_hash'
+		]
 	}
 
 	try {
@@ -458,16 +460,59 @@ async function checkTable(
 			(c) => !actualColumns.includes(c)
 		)
 
-		if (missingColumns.length > 0) {
+		// Named indexes store one vector per chunk and index, so tables created
+		// before them still have a primary key on chunk_id alone.
+		const primaryKey =
+			logicalName === 'embeddings'
+				? await getPrimaryKey(client, schema, tableName)
+				: null
+		const outdatedPrimaryKey =
+			primaryKey && !primaryKey.columns.includes('index_name')
+				? primaryKey
+				: null
+
+		if (missingColumns.length > 0 || outdatedPrimaryKey) {
+			const migrations = missingColumns.flatMap((c) => {
+				const clause = COLUMN_MIGRATIONS[`${logicalName}.${c}`]
+				return clause
+					? [`alter table ${schema}.${tableName} ${clause};`]
+					: []
+			})
+			if (outdatedPrimaryKey) {
+				migrations.push(
+					`alter table ${schema}.${tableName} drop constraint ${outdatedPrimaryKey.name};`,
+					`alter table ${schema}.${tableName} add primary key (chunk_id, index_name);`
+				)
+			}
 			return {
 				id: `db-table-${logicalName}`,
 				title: `Table: ${tableName}`,
 				status: 'warn',
-				summary: `Table exists but missing columns: ${missingColumns.join(', ')}`,
+				summary:
+					missingColumns.length > 0
+						? `Table exists but missing columns: ${missingColumns.join(', ')}`
+						: 'Table exists but its primary key does not include index_name.',
 				details: [
 					`Expected: ${expected.join(', ')}`,
-					`Found: ${actualColumns.join(', ')}`
-				]
+					`Found: ${actualColumns.join(', ')}`,
+					...(outdatedPrimaryKey
+						? [
+								`Primary key: (${outdatedPrimaryKey.columns.join(', ')}), expected (chunk_id, index_name).`
+							]
+						: []),
+					...(missingColumns.includes('content_hash')
+						? [
+								'ingest() writes content_hash and reads it to skip unchanged documents, so add it before ingesting.'
+							]
+						: [])
+				],
+				fixHints: [
+					'Apply the migrations for your Unrag version to upgrade the table.',
+					...migrations
+				],
+				docsLink: docsUrl(
+					'/docs/getting-started/database#upgrading-an-existing-schema'
+				)
 			}
 		}
 
@@ -855,44 +900,77 @@ async function checkIndexes(
 					]
 		})
 
-		// Check for HNSW or IVFFlat index on embeddings
-		const vectorIdx = indexes.find(
+		// Check for HNSW or IVFFlat indexes on embeddings. The column is unsized, so
+		// `unrag index create` builds one per named index and dimension, on
+		// `embedding::vector(n)` and limited to those rows.
+		const vectorIdxs = indexes.filter(
 			(i) =>
 				i.tablename === tableNames.embeddings &&
 				(i.indexdef.toLowerCase().includes('hnsw') ||
 					i.indexdef.toLowerCase().includes('ivfflat'))
 		)
 
-		// Get row count to determine if index is recommended
-		const countResult = await client.query<{count: string}>(
-			`SELECT COUNT(*) as count FROM ${schema}.${tableNames.embeddings}`
+		// Get row counts per index and dimension to determine if an index is recommended
+		const groupResult = await client.query<{
+			index_name: string
+			embedding_dimension: number | null
+			count: string
+		}>(
+			`SELECT index_name, embedding_dimension, COUNT(*) as count
+       FROM ${schema}.${tableNames.embeddings}
+       GROUP BY index_name, embedding_dimension`
+		)
+		const groups = groupResult.rows.map((row) => ({
+			index: row.index_name,
+			dimensions: row.embedding_dimension,
+			count: Number.parseInt(row.count, 10)
+		}))
+		const rowCount = groups.reduce((sum, g) => sum + g.count, 0)
+		const uncovered = groups.filter(
+			(g) =>
+				g.count > 50000 &&
+				!vectorIdxs.some(
+					(i) =>
+						// An index on the plain column means the column itself is sized.
+						!i.indexdef.includes('::vector(') ||
+						(i.indexdef.includes(`vector(${g.dimensions})`) &&
+							i.indexdef.includes(
+								`'${g.index.replace(/'/g, "''")}'`
+							))
+				)
 		)
-		const rowCount = Number.parseInt(countResult.rows[0]?.count ?? '0', 10)
 
-		if (vectorIdx) {
-			results.push({
-				id: 'db-index-vector',
-				title: 'Vector index',
-				status: 'pass',
-				summary: 'Vector index found for similarity search.',
-				details: [vectorIdx.indexdef],
-				meta: {rowCount}
-			})
-		} else if (rowCount > 50000) {
+		if (uncovered.length > 0) {
 			results.push({
 				id: 'db-index-vector',
 				title: 'Vector index',
 				status: 'warn',
-				summary: `No vector index found (${rowCount.toLocaleString()} embeddings).`,
+				summary:
+					vectorIdxs.length > 0
+						? `Vector indexes do not cover ${uncovered.length} large index${uncovered.length === 1 ? '' : 'es'}.`
+						: `No vector index found (${rowCount.toLocaleString()} embeddings).`,
 				details: [
+					...uncovered.map(
+						(g) =>
+							`"${g.index}" (${g.dimensions} dims): ${g.count.toLocaleString()} embeddings`
+					),
 					'Large datasets benefit significantly from HNSW indexing.',
 					'Without an index, similarity search scans all rows.'
 				],
 				fixHints: [
-					`CREATE INDEX IF NOT EXISTS ${tableNames.embeddings}_hnsw_idx`,
-					`ON ${tableNames.embeddings} USING hnsw (embedding vector_cosine_ops);`
+					'Run: bunx unrag index create',
+					'Preview the SQL first with: bunx unrag index create --dry-run'
 				],
-				docsLink: docsUrl('/docs/concepts/performance'),
+				docsLink: docsUrl('/docs/concepts/performance#vector-indexes'),
+				meta: {rowCount}
+			})
+		} else if (vectorIdxs.length > 0) {
+			results.push({
+				id: 'db-index-vector',
+				title: 'Vector index',
+				status: 'pass',
+				summary: 'Vector index found for similarity search.',
+				details: vectorIdxs.map((i) => i.indexdef),
 				meta: {rowCount}
 			})
 		} else {
@@ -903,7 +981,7 @@ async function checkIndexes(
 				summary: `No vector index (${rowCount.toLocaleString()} embeddings).`,
 				details: [
 					'Current dataset size is small enough for sequential scan.',
-					'Consider adding HNSW index when exceeding ~50k embeddings.'
+					'Consider adding HNSW index when exceeding ~50k embeddings (bunx unrag index create).'
 				],
 				meta: {rowCount}
 			})
@@ -966,29 +1044,60 @@ async function checkDimensionConsistency(
 			})
 		}
 
-		// Check for mixed dimensions
+		// Check for mixed dimensions within each named index
 		const dimSql = scope
-			? `SELECT e.embedding_dimension, COUNT(*) as count
+			? `SELECT e.index_name, e.embedding_dimension, COUNT(*) as count
          FROM ${schema}.${tableNames.embeddings} e
          JOIN ${schema}.${tableNames.chunks} c ON e.chunk_id = c.id
          WHERE c.source_id LIKE $1
            AND e.embedding_dimension IS NOT NULL AND e.embedding_dimension > 0
-         GROUP BY e.embedding_dimension
+         GROUP BY e.index_name, e.embedding_dimension
          ORDER BY count DESC`
-			: `SELECT e.embedding_dimension, COUNT(*) as count
+			: `SELECT e.index_name, e.embedding_dimension, COUNT(*) as count
          FROM ${schema}.${tableNames.embeddings} e
          WHERE e.embedding_dimension IS NOT NULL AND e.embedding_dimension > 0
-         GROUP BY e.embedding_dimension
+         GROUP BY e.index_name, e.embedding_dimension
          ORDER BY count DESC`
 
 		const dimResult = await client.query<{
+			index_name: string
 			embedding_dimension: number
 			count: string
 		}>(dimSql, scope ? [`${scope}%`] : [])
 
-		const dimensions = dimResult.rows
+		const indexNames = new Set(dimResult.rows.map((d) => d.index_name))
+		const mixedIndexes = new Set(
+			dimResult.rows
+				.map((d) => d.index_name)
+				.filter((name, i, all) => all.indexOf(name) !== i)
+		)
+		// Different indexes may use different models; only mixing within one is a problem.
+		const dimensions = dimResult.rows.filter(
+			(d) => indexNames.size === 1 || mixedIndexes.has(d.index_name)
+		)
 
-		if (dimensions.length === 0) {
+		if (indexNames.size > 1 && mixedIndexes.size === 0) {
+			results.push({
+				id: 'db-dim-consistency',
+				title: 'Dimension consistency',
+				status: 'pass',
+				summary: `Each of ${indexNames.size} indexes uses a single dimension.`,
+				details: [
+					...dimResult.rows.map(
+						(d) =>
+							`${d.index_name}: ${d.embedding_dimension} dimensions, ${Number.parseInt(d.count, 10).toLocaleString()} embeddings`
+					),
+					scope ? `Scope: ${scope}*` : 'All embeddings checked.'
+				],
+				meta: {
+					dimensions: dimResult.rows.map((d) => ({
+						index: d.index_name,
+						dimension: d.embedding_dimension,
+						count: Number.parseInt(d.count, 10)
+					}))
+				}
+			})
+		} else if (dimensions.length === 0) {
 			results.push({
 				id: 'db-dim-consistency',
 				title: 'Dimension consistency',
@@ -1025,7 +1134,7 @@ async function checkDimensionConsistency(
 		} else {
 			const details = dimensions.map(
 				(d) =>
-					`${d.embedding_dimension} dimensions: ${Number.parseInt(d.count, 10).toLocaleString()} embeddings`
+					`${indexNames.size > 1 ? `${d.index_name}: ` : ''}${d.embedding_dimension} dimensions: ${Number.parseInt(d.count, 10).toLocaleString()} embeddings`
 			)
 
 			results.push({
@@ -1040,6 +1149,7 @@ async function checkDimensionConsistency(
 					'This typically happens when changing embedding models.'
 				],
 				fixHints: [
+					'Keep each embedding model in its own named index',
 					'Use --scope to isolate different embedding sets',
 					'Re-ingest documents with the current model',
 					'Or separate content by sourceId prefix'
@@ -0,0 +1,189 @@
+/**
+ * Database connections shared by `doctor --db` and `unrag index`: resolves the
+ * connection string (or PGlite data directory) and opens a minimal client.
+ */
+
+import {createRequire} from 'node:module'
+import path from 'node:path'
+import {pathToFileURL} from 'node:url'
+import type {InferredInstallState} from './types'
+
+export type DbConnectionOptions = {
+	databaseUrl?: string
+	databaseUrlEnv?: string
+}
+
+export type PgClient = {
+	query: <T = Record<string, unknown>>(
+		sql: string,
+		params?: unknown[]
+	) => Promise<{rows: T[]}>
+	end: () => Promise<void>
+}
+
+export const DEFAULT_PGLITE_DATA_DIR = '.unrag/pglite'
+
+/**
+ * Resolve database URL from various sources.
+ */
+export function resolveDbUrl(
+	state: InferredInstallState,
+	options: DbConnectionOptions
+): {url: string | null; source: string; details: string[]} {
+	const details: string[] = []
+
+	// Priority 1: Explicit --database-url flag
+	if (options.databaseUrl) {
+		return {
+			url: options.databaseUrl,
+			source: '--database-url flag',
+			details: ['Using explicitly provided connection string.']
+		}
+	}
+
+	// Priority 2: --database-url-env flag
+	if (options.databaseUrlEnv) {
+		const value = process.env[options.databaseUrlEnv]
+		if (value) {
+			return {
+				url: value,
+				source: `${options.databaseUrlEnv} (via --database-url-env)`,
+				details: [
+					`Using env var specified by flag: ${options.databaseUrlEnv}`
+				]
+			}
+		}
+		details.push(
+			`${options.databaseUrlEnv} is not set (specified via --database-url-env).`
+		)
+	}
+
+	// Priority 3: Inferred env var from config
+	if (state.inferredDbEnvVar) {
+		const value = process.env[state.inferredDbEnvVar]
+		if (value) {
+			return {
+				url: value,
+				source: `${state.inferredDbEnvVar} (inferred from config)`,
+				details: [
+					`Found ${state.inferredDbEnvVar} in your database configuration.`
+				]
+			}
+		}
+		details.push(
+			`${state.inferredDbEnvVar} inferred from config but not set.`
+		)
+	}
+
+	// Priority 4: DATABASE_URL fallback
+	if (process.env.DATABASE_URL) {
+		return {
+			url: process.env.DATABASE_URL,
+			source: 'DATABASE_URL',
+			details: ['Using standard DATABASE_URL environment variable.']
+		}
+	}
+
+	details.push('DATABASE_URL is not set.')
+	return {url: null, source: '', details}
+}
+
+/**
+ * Resolve the PGlite data directory from flags, env, or the default used by `unrag init`.
+ */
+export function resolvePgliteDataDir(
+	state: InferredInstallState,
+	options: DbConnectionOptions
+): {dir: string; source: string} {
+	const toDir = (value: string) =>
+		path.resolve(state.projectRoot, value.replace(/^file:\/\//, ''))
+
+	if (options.databaseUrl) {
+		return {dir: toDir(options.databaseUrl), source: '--database-url flag'}
+	}
+	if (options.databaseUrlEnv && process.env[options.databaseUrlEnv]) {
+		return {
+			dir: toDir(process.env[options.databaseUrlEnv] ?? ''),
+			source: `${options.databaseUrlEnv} (via --database-url-env)`
+		}
+	}
+	if (process.env.PGLITE_DATA_DIR) {
+		return {
+			dir: toDir(process.env.PGLITE_DATA_DIR),
+			source: 'PGLITE_DATA_DIR'
+		}
+	}
+	return {
+		dir: toDir(DEFAULT_PGLITE_DATA_DIR),
+		source: `default directory (${DEFAULT_PGLITE_DATA_DIR})`
+	}
+}
+
+/**
+ * Open a PGlite data directory with the project's own PGlite and pgvector extension,
+ * so the same SQL checks run against the embedded database.
+ */
+export async function openPglite(
+	projectRoot: string,
+	dir: string
+): Promise<PgClient> {
+	const require = createRequire(path.join(projectRoot, 'package.json'))
+	const load = async (id: string) =>
+		(await import(pathToFileURL(require.resolve(id)).href)) as Record<
+			string,
+			unknown
+		>
+
+	const {PGlite} = (await load('@electric-sql/pglite')) as {
+		PGlite: new (
+			dataDir: string,
+			options: {extensions: Record<string, unknown>}
+		) => {
+			query: (
+				sql: string,
+				params?: unknown[]
+			) => Promise<{rows: unknown[]}>
+			close: () => Promise<void>
+		}
+	}
+	const {vector} = await load('@electric-sql/pglite/vector')
+
+	const db = new PGlite(dir, {extensions: {vector}})
+	return {
+		query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) =>
+			db.query(sql, params) as Promise<{rows: T[]}>,
+		end: () => db.close()
+	}
+}
+
+/**
+ * Redact sensitive parts of connection string for display.
+ */
+export function redactConnectionString(url: string): string {
+	try {
+		const parsed = new URL(url)
+		if (parsed.password) {
+			parsed.password = '****'
+		}
+		return parsed.toString().replace(/\*\*\*\*@/, '****@')
+	} catch {
+		// If URL parsing fails, do basic redaction
+		return url.replace(/:([^:@]+)@/, ':****@')
+	}
+}
+
+/**
+ * Open a pg pool for a connection string.
+ */
+export async function openPgPool(url: string): Promise<PgClient> {
+	// Dynamic import pg to avoid bundling issues
+	const pg = await import('pg')
+	const Pool = pg.default?.Pool ?? pg.Pool
+
+	const pool = new Pool({connectionString: url})
+	return {
+		query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) =>
+			pool.query(sql, params) as unknown as Promise<{rows: T[]}>,
+		end: () => pool.end()
+	}
+}
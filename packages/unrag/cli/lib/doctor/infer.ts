@@ -72,7 +72,13 @@ export async function inferInstallState(options: {
 	)
 
 	// 5. Determine store adapter
-	let storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | null = null
+	let storeAdapter:
+		| 'drizzle'
+		| 'prisma'
+		| 'raw-sql'
+		| 'sqlite'
+		| 'pglite'
+		| null = null
 
 	if (unragJson?.storeAdapter) {
 		storeAdapter = unragJson.storeAdapter
@@ -193,7 +199,7 @@ async function inferInstallDirFromFilesystem(
  */
 async function inferStoreAdapterFromFilesystem(
 	installDir: string
-): Promise<'drizzle' | 'prisma' | 'raw-sql' | null> {
+): Promise<'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite' | null> {
 	const storeDir = path.join(installDir, 'store')
 	if (!(await exists(storeDir))) {
 		return null
@@ -203,6 +209,11 @@ async function inferStoreAdapterFromFilesystem(
 		const entries = await readdir(storeDir, {withFileTypes: true})
 		const dirs = entries.filter((e) => e.isDirectory()).map((e) => e.name)
 
+		// The pglite store vendors raw-sql alongside it, so check it first.
+		if (dirs.some((dir) => dir.includes('pglite'))) {
+			return 'pglite'
+		}
+
 		// Check for adapter folder names (may include provider suffix)
 		for (const dir of dirs) {
 			if (dir.includes('drizzle')) {
@@ -214,6 +225,9 @@ async function inferStoreAdapterFromFilesystem(
 			if (dir.includes('raw-sql')) {
 				return 'raw-sql'
 			}
+			if (dir.includes('sqlite')) {
+				return 'sqlite'
+			}
 		}
 	} catch {
 		// ignore
@@ -549,7 +563,7 @@ async function resolveImportPath(
  */
 export async function inferTableNames(
 	installDir: string,
-	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | null
+	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite' | null
 ): Promise<{documents: string; chunks: string; embeddings: string}> {
 	const defaults = {
 		documents: 'documents',
@@ -588,7 +602,7 @@ export async function inferTableNames(
 			}
 		}
 
-		// For prisma/raw-sql, check store.ts for table names in SQL
+		// For prisma/raw-sql/sqlite, check store.ts for table names in SQL
 		const storePath = path.join(adapterPath, 'store.ts')
 		if (await exists(storePath)) {
 			const content = await readFile(storePath, 'utf8')
@@ -0,0 +1,341 @@
+/**
+ * Database checks for doctor command (--db mode) with the sqlite store adapter.
+ * Opens the database file read-only with the project's SQLite driver and
+ * validates sqlite-vec, schema, indexes, and embedding dimension consistency.
+ */
+
+import {existsSync} from 'node:fs'
+import {createRequire} from 'node:module'
+import path from 'node:path'
+import {docsUrl} from '../constants'
+import type {CheckResult, InferredInstallState} from './types'
+
+type SqliteCheckOptions = {
+	databaseUrl?: string
+	databaseUrlEnv?: string
+	scope?: string
+}
+
+type SqliteHandle = {
+	prepare: (sql: string) => {
+		all: (...params: unknown[]) => unknown[]
+		get: (...params: unknown[]) => unknown
+	}
+	close: () => void
+}
+
+const DEFAULT_SQLITE_PATH = 'unrag.db'
+
+/**
+ * Run database checks against a SQLite file.
+ */
+export async function runSqliteDbChecks(
+	state: InferredInstallState,
+	options: SqliteCheckOptions
+): Promise<CheckResult[]> {
+	const results: CheckResult[] = []
+
+	// 1. Resolve database file
+	const resolved = resolveSqlitePath(state, options)
+	if (!existsSync(resolved.file)) {
+		results.push({
+			id: 'db-url',
+			title: 'Database file',
+			status: 'fail',
+			summary: `SQLite database not found: ${resolved.file}`,
+			details: [`Resolved from ${resolved.source}.`],
+			fixHints: [
+				'Set DATABASE_PATH to your SQLite database file',
+				'Or use --database-url <path> flag',
+				'Run an ingest once to create the file and schema'
+			],
+			docsLink: docsUrl('/docs/adapters/sqlite-vec')
+		})
+		return results
+	}
+
+	results.push({
+		id: 'db-url',
+		title: 'Database file',
+		status: 'pass',
+		summary: `Using ${resolved.source}`,
+		details: [resolved.file]
+	})
+
+	// 2. Open and run checks
+	const require = createRequire(path.join(state.projectRoot, 'package.json'))
+	let db: SqliteHandle | undefined
+
+	try {
+		db = await openReadonly(require, resolved.file)
+		const version = db
+			.prepare('select sqlite_version() as version')
+			.get() as {version?: string} | undefined
+		results.push({
+			id: 'db-connectivity',
+			title: 'Database connectivity',
+			status: 'pass',
+			summary: 'Successfully opened SQLite database.',
+			details: [`Version: SQLite ${version?.version ?? 'unknown'}`]
+		})
+
+		results.push(checkSqliteVec(require, db))
+		results.push(...checkSqliteSchema(db))
+		results.push(...checkSqliteDimensions(db, options.scope))
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err)
+		results.push({
+			id: 'db-connection',
+			title: 'Database connection',
+			status: 'fail',
+			summary: `Could not open database: ${message}`,
+			fixHints: [
+				'Install the driver: npm install better-sqlite3',
+				'Check that the file is a SQLite database and is readable'
+			]
+		})
+	} finally {
+		db?.close()
+	}
+
+	return results
+}
+
+/**
+ * Resolve the SQLite file from flags, env, or the default used by `unrag init`.
+ */
+function resolveSqlitePath(
+	state: InferredInstallState,
+	options: SqliteCheckOptions
+): {file: string; source: string} {
+	const toFile = (value: string) =>
+		path.resolve(state.projectRoot, value.replace(/^file:/, ''))
+
+	if (options.databaseUrl) {
+		return {
+			file: toFile(options.databaseUrl),
+			source: '--database-url flag'
+		}
+	}
+	if (options.databaseUrlEnv && process.env[options.databaseUrlEnv]) {
+		return {
+			file: toFile(process.env[options.databaseUrlEnv] ?? ''),
+			source: `${options.databaseUrlEnv} (via --database-url-env)`
+		}
+	}
+	if (process.env.DATABASE_PATH) {
+		return {
+			file: toFile(process.env.DATABASE_PATH),
+			source: 'DATABASE_PATH'
+		}
+	}
+	return {
+		file: toFile(DEFAULT_SQLITE_PATH),
+		source: `default path (${DEFAULT_SQLITE_PATH})`
+	}
+}
+
+/**
+ * Open the file read-only with better-sqlite3, falling back to bun:sqlite under Bun.
+ */
+async function openReadonly(
+	require: NodeRequire,
+	file: string
+): Promise<SqliteHandle> {
+	try {
+		const Database = require('better-sqlite3') as new (
+			file: string,
+			options: {readonly: boolean; fileMustExist: boolean}
+		) => SqliteHandle
+		return new Database(file, {readonly: true, fileMustExist: true})
+	} catch (err) {
+		if (!process.versions.bun) {
+			throw err
+		}
+		const {Database} = await import('bun:sqlite')
+		return new Database(file, {readonly: true}) as unknown as SqliteHandle
+	}
+}
+
+/**
+ * Check that sqlite-vec is installed and loads into the connection.
+ */
+function checkSqliteVec(require: NodeRequire, db: SqliteHandle): CheckResult {
+	try {
+		const sqliteVec = require('sqlite-vec') as {
+			load: (db: unknown) => void
+		}
+		sqliteVec.load(db)
+		const row = db.prepare('select vec_version() as version').get() as
+			| {version?: string}
+			| undefined
+		return {
+			id: 'db-sqlite-vec',
+			title: 'sqlite-vec extension',
+			status: 'pass',
+			summary: `sqlite-vec ${row?.version ?? 'unknown'} loaded and working.`
+		}
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err)
+		return {
+			id: 'db-sqlite-vec',
+			title: 'sqlite-vec extension',
+			status: 'fail',
+			summary: `sqlite-vec could not be loaded: ${message}`,
+			fixHints: [
+				'Install the extension: npm install sqlite-vec',
+				'Call sqliteVec.load(db) before creating the store'
+			],
+			docsLink: docsUrl('/docs/adapters/sqlite-vec')
+		}
+	}
+}
+
+/**
+ * Check tables, the FTS5 keyword index, and recommended indexes.
+ */
+function checkSqliteSchema(db: SqliteHandle): CheckResult[] {
+	const results: CheckResult[] = []
+	const objects = db
+		.prepare(
+			"select name, type from sqlite_master where type in ('table', 'index')"
+		)
+		.all() as Array<{name: string; type: string}>
+	const has = (name: string) => objects.some((o) => o.name === name)
+
+	for (const table of ['documents', 'chunks', 'embeddings']) {
+		results.push(
+			has(table)
+				? {
+						id: `db-table-${table}`,
+						title: `Table: ${table}`,
+						status: 'pass',
+						summary: 'Table exists.'
+					}
+				: {
+						id: `db-table-${table}`,
+						title: `Table: ${table}`,
+						status: 'fail',
+						summary: `Table ${table} does not exist.`,
+						fixHints: [
+							'Create the store once with createSchema enabled (the default).'
+						],
+						docsLink: docsUrl('/docs/adapters/sqlite-vec')
+					}
+		)
+	}
+
+	results.push({
+		id: 'db-table-chunks-fts',
+		title: 'Table: chunks_fts',
+		status: has('chunks_fts') ? 'pass' : 'warn',
+		summary: has('chunks_fts')
+			? 'FTS5 keyword index exists.'
+			: 'FTS5 table chunks_fts not found; keyword and hybrid retrieval will fail.'
+	})
+
+	const indexes = [
+		['chunks_source_id_idx', 'chunks(source_id)'],
+		['chunks_document_idx_idx', 'chunks(document_id, idx)']
+	] as const
+	for (const [name, target] of indexes) {
+		results.push({
+			id: `db-index-${name}`,
+			title: `Index: ${target}`,
+			status: has(name) ? 'pass' : 'warn',
+			summary: has(name)
+				? 'Index exists.'
+				: `Recommended index ${name} not found.`
+		})
+	}
+
+	return results
+}
+
+/**
+ * Check that all embeddings share one dimension and match their BLOB length.
+ */
+function checkSqliteDimensions(
+	db: SqliteHandle,
+	scope?: string
+): CheckResult[] {
+	try {
+		const scopeSql = scope
+			? 'join chunks as c on c.id = e.chunk_id where instr(c.source_id, ?) = 1'
+			: ''
+		const params = scope ? [scope] : []
+		const dimensions = db
+			.prepare(
+				`select e.embedding_dimension as dimension, count(*) as count
+         from embeddings as e ${scopeSql}
+         group by e.embedding_dimension
+         order by count desc`
+			)
+			.all(...params) as Array<{dimension: number | null; count: number}>
+		const mismatched = db
+			.prepare(
+				`select count(*) as count
+         from embeddings as e ${scopeSql}
+         ${scope ? 'and' : 'where'} length(e.embedding) != e.embedding_dimension * 4`
+			)
+			.get(...params) as {count?: number} | undefined
+
+		const scopeDetail = scope
+			? `Scope: ${scope}*`
+			: 'All embeddings checked.'
+		const results: CheckResult[] = []
+		if (dimensions.length <= 1) {
+			const dim = dimensions[0]
+			results.push({
+				id: 'db-dim-consistency',
+				title: 'Dimension consistency',
+				status: 'pass',
+				summary: dim
+					? `All embeddings use ${dim.dimension} dimensions.`
+					: 'No embeddings found to check.',
+				details: [scopeDetail]
+			})
+		} else {
+			results.push({
+				id: 'db-dim-consistency',
+				title: 'Dimension consistency',
+				status: 'warn',
+				summary: `Mixed dimensions found (${dimensions.length} different values).`,
+				details: [
+					...dimensions.map(
+						(d) =>
+							`${d.dimension} dimensions: ${d.count} embeddings`
+					),
+					scopeDetail
+				],
+				fixHints: [
+					'Use --scope to isolate different embedding sets',
+					'Re-ingest documents with the current model'
+				]
+			})
+		}
+
+		if (Number(mismatched?.count ?? 0) > 0) {
+			results.push({
+				id: 'db-dim-mismatch',
+				title: 'Dimension metadata',
+				status: 'warn',
+				summary: `${mismatched?.count} rows have dimension mismatch.`,
+				details: [
+					"embedding_dimension doesn't match the float32 BLOB length."
+				]
+			})
+		}
+		return results
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err)
+		return [
+			{
+				id: 'db-dimensions',
+				title: 'Dimension checks',
+				status: 'warn',
+				summary: `Could not check dimensions: ${message}`
+			}
+		]
+	}
+}
@@ -197,7 +197,7 @@ async function runInstallChecks(
 			status: 'warn',
 			summary: 'Could not determine store adapter.',
 			details: [
-				'Expected to find drizzle, prisma, or raw-sql adapter folder.'
+				'Expected to find drizzle, prisma, raw-sql, sqlite, or pglite adapter folder.'
 			]
 		})
 	}
@@ -299,7 +299,7 @@ async function runEnvChecks(
 ): Promise<CheckResult[]> {
 	const results: CheckResult[] = []
 
-	// 1. DATABASE_URL check
+	// 1. DATABASE_URL check (the sqlite and pglite adapters use a local path instead)
 	const dbUrl =
 		process.env.DATABASE_URL ||
 		(state.inferredDbEnvVar
@@ -312,7 +312,27 @@ async function runEnvChecks(
 			? state.inferredDbEnvVar
 			: null
 
-	if (dbUrl) {
+	if (state.storeAdapter === 'sqlite') {
+		results.push({
+			id: 'env-database-url',
+			title: 'Database path',
+			status: 'pass',
+			summary: process.env.DATABASE_PATH
+				? `DATABASE_PATH is set (${process.env.DATABASE_PATH}).`
+				: 'DATABASE_PATH is not set; the default unrag.db is used.',
+			meta: {envVar: 'DATABASE_PATH'}
+		})
+	} else if (state.storeAdapter === 'pglite') {
+		results.push({
+			id: 'env-database-url',
+			title: 'PGlite data directory',
+			status: 'pass',
+			summary: process.env.PGLITE_DATA_DIR
+				? `PGLITE_DATA_DIR is set (${process.env.PGLITE_DATA_DIR}).`
+				: 'PGLITE_DATA_DIR is not set; the default .unrag/pglite is used.',
+			meta: {envVar: 'PGLITE_DATA_DIR'}
+		})
+	} else if (dbUrl) {
 		// Basic validation
 		const isValidFormat =
 			dbUrl.startsWith('postgres://') || dbUrl.startsWith('postgresql://')
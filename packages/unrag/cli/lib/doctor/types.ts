@@ -53,7 +53,7 @@ export type InferredInstallState = {
 	unragJsonParseable: boolean
 	unragJson: UnragJsonConfig | null
 	configFileExists: boolean
-	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | null
+	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite' | null
 	embeddingProvider: string | null
 	installedExtractors: string[]
 	installedConnectors: string[]
@@ -65,7 +65,7 @@ export type InferredInstallState = {
 
 export type UnragJsonConfig = {
 	installDir?: string
-	storeAdapter?: 'drizzle' | 'prisma' | 'raw-sql'
+	storeAdapter?: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 	aliasBase?: string
 	embeddingProvider?: string
 	version?: number
@@ -145,7 +145,7 @@ export const EMBEDDING_PROVIDER_ENV_VARS: Record<
  * Expected store adapter dependencies.
  */
 export const STORE_ADAPTER_DEPS: Record<
-	'drizzle' | 'prisma' | 'raw-sql',
+	'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite',
 	{required: string[]; devRequired: string[]}
 > = {
 	drizzle: {
@@ -159,6 +159,14 @@ export const STORE_ADAPTER_DEPS: Record<
 	'raw-sql': {
 		required: ['pg'],
 		devRequired: ['@types/pg']
+	},
+	sqlite: {
+		required: ['better-sqlite3', 'sqlite-vec'],
+		devRequired: ['@types/better-sqlite3']
+	},
+	pglite: {
+		required: ['@electric-sql/pglite'],
+		devRequired: ['@types/pg']
 	}
 }
 
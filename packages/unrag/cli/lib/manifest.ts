@@ -56,6 +56,8 @@ export type RegistryManifestV1 = {
 		label?: string
 		description?: string
 		status?: 'available' | 'coming-soon'
+		/** Printed after install, e.g. when the chunker needs a custom provider. */
+		notes?: string
 		deps?: Record<string, string>
 		devDeps?: Record<string, string>
 	}>
@@ -115,7 +115,9 @@ export function mergeDeps(
 	return {pkg: next, changes}
 }
 
-export function depsForAdapter(adapter: 'drizzle' | 'prisma' | 'raw-sql') {
+export function depsForAdapter(
+	adapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
+) {
 	const deps: Record<string, string> = {
 		ai: '^6.0.3'
 	}
@@ -138,10 +140,29 @@ export function depsForAdapter(adapter: 'drizzle' | 'prisma' | 'raw-sql') {
 		devDeps.prisma = '^6.0.0'
 	}
 
+	if (adapter === 'sqlite') {
+		deps['better-sqlite3'] = '^12.4.1'
+		deps['sqlite-vec'] = '^0.1.6'
+		devDeps['@types/better-sqlite3'] = '^7.6.13'
+	}
+
+	if (adapter === 'pglite') {
+		deps['@electric-sql/pglite'] = '^0.3.7'
+		// The pglite store reuses the raw-sql adapter, which is typed against pg.
+		devDeps['@types/pg'] = '^8.16.0'
+	}
+
 	return {deps, devDeps}
 }
 
-export type ConnectorName = 'notion' | 'google-drive' | 'onedrive' | 'dropbox'
+export type ConnectorName =
+	| 'notion'
+	| 'google-drive'
+	| 'onedrive'
+	| 'dropbox'
+	| 'filesystem'
+	| 'git'
+	| 'web'
 
 export function depsForConnector(connector: ConnectorName) {
 	const deps: Record<string, string> = {}
@@ -180,6 +201,9 @@ export type ChunkerName =
 	| 'hierarchical'
 	| 'code'
 	| 'agentic'
+	| 'late'
+	| 'maxmin'
+	| 'proposition'
 
 export function depsForExtractor(extractor: ExtractorName) {
 	const deps: Record<string, string> = {}
@@ -234,7 +258,11 @@ export function depsForChunker(_chunker: ChunkerName) {
 	const deps: Record<string, string> = {}
 	const devDeps: Record<string, string> = {}
 
-	if (_chunker === 'semantic' || _chunker === 'agentic') {
+	if (
+		_chunker === 'semantic' ||
+		_chunker === 'agentic' ||
+		_chunker === 'proposition'
+	) {
 		deps.ai = '^6.0.3'
 	}
 
@@ -5,7 +5,7 @@ export type PresetPayloadV1 = {
 	createdAt?: string
 	install: {
 		installDir: string
-		storeAdapter: 'drizzle' | 'prisma' | 'raw-sql'
+		storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 		aliasBase: string
 	}
 	modules: {
@@ -39,7 +39,7 @@ function isPresetPayloadV1(x: unknown): x is PresetPayloadV1 {
 		return false
 	}
 	if (
-		!['drizzle', 'prisma', 'raw-sql'].includes(
+		!['drizzle', 'prisma', 'raw-sql', 'sqlite', 'pglite'].includes(
 			String(installObj.storeAdapter)
 		)
 	) {
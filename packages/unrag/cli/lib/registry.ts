@@ -8,7 +8,7 @@ export type RegistrySelection = {
 	projectRoot: string
 	registryRoot: string
 	installDir: string // project-relative posix
-	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql'
+	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 	aliasBase: string // e.g. "@unrag"
 	embeddingProvider?: EmbeddingProviderName
 	full?: boolean
@@ -308,6 +308,44 @@ const renderUnragConfig = (content: string, selection: RegistrySelection) => {
 			'',
 			'  const store = createRawSqlVectorStore(pool);'
 		)
+	} else if (selection.storeAdapter === 'sqlite') {
+		storeImports.push(
+			`import { createSqliteVectorStore } from "${installImportBase}/store/sqlite";`,
+			`import Database from "better-sqlite3";`,
+			`import * as sqliteVec from "sqlite-vec";`
+		)
+		storeCreateLines.push(
+			'  const globalForUnrag = globalThis as unknown as {',
+			'    __unragSqlite?: Database.Database;',
+			'  };',
+			'  let db = globalForUnrag.__unragSqlite;',
+			'  if (!db) {',
+			'    db = new Database(process.env.DATABASE_PATH ?? "unrag.db");',
+			'    sqliteVec.load(db);',
+			'    globalForUnrag.__unragSqlite = db;',
+			'  }',
+			'',
+			'  const store = createSqliteVectorStore(db);'
+		)
+	} else if (selection.storeAdapter === 'pglite') {
+		storeImports.push(
+			`import { createPgliteVectorStore } from "${installImportBase}/store/pglite";`,
+			`import { PGlite } from "@electric-sql/pglite";`,
+			`import { vector } from "@electric-sql/pglite/vector";`
+		)
+		storeCreateLines.push(
+			'  const globalForUnrag = globalThis as unknown as {',
+			'    __unragPglite?: PGlite;',
+			'  };',
+			'  const db =',
+			'    globalForUnrag.__unragPglite ??',
+			'    new PGlite(process.env.PGLITE_DATA_DIR ?? ".unrag/pglite", {',
+			'      extensions: { vector },',
+			'    });',
+			'  globalForUnrag.__unragPglite = db;',
+			'',
+			'  const store = createPgliteVectorStore(db);'
+		)
 	} else {
 		storeImports.push(
 			`import { createPrismaVectorStore } from "${installImportBase}/store/prisma";`,
@@ -731,7 +769,9 @@ const renderDocs = (content: string, selection: RegistrySelection) => {
 			'};',
 			'```',
 			'',
-			'Then run Drizzle migrations from your app as usual.'
+			'Then run Drizzle migrations from your app as usual.',
+			'',
+			'If you use `createDrizzleEmbeddingCache`, also add `embeddingCache: rag.embeddingCache` to that object. It is left out of `rag.schema` so the table is only created when you opt in.'
 		)
 	} else if (selection.storeAdapter === 'prisma') {
 		notes.push(
@@ -742,6 +782,20 @@ const renderDocs = (content: string, selection: RegistrySelection) => {
 			'If you want Prisma models, pgvector is typically represented as `Unsupported("vector")`.',
 			'You can still run migrations however you prefer (SQL migrations are the simplest for pgvector).'
 		)
+	} else if (selection.storeAdapter === 'sqlite') {
+		notes.push(
+			'## Store adapter: SQLite',
+			'',
+			'This adapter stores everything in a single SQLite file using `better-sqlite3` (or `bun:sqlite`) with the `sqlite-vec` extension.',
+			'The tables, FTS5 keyword index and indexes are created automatically on first use; no Postgres is required.'
+		)
+	} else if (selection.storeAdapter === 'pglite') {
+		notes.push(
+			'## Store adapter: PGlite',
+			'',
+			'This adapter runs Postgres in-process with `@electric-sql/pglite` and its pgvector extension, storing data in a local directory.',
+			'It reuses the raw-sql adapter (vendored alongside it) against the schema above, which is created automatically on first use; no Docker or Postgres server is required.'
+		)
 	} else {
 		notes.push(
 			'## Store adapter: Raw SQL',
@@ -755,7 +809,11 @@ const renderDocs = (content: string, selection: RegistrySelection) => {
 		'## Environment variables',
 		'',
 		'Add these to your environment:',
-		'- `DATABASE_URL` (Postgres connection string)'
+		selection.storeAdapter === 'sqlite'
+			? '- Optional: `DATABASE_PATH` (SQLite file, defaults to `unrag.db`)'
+			: selection.storeAdapter === 'pglite'
+				? '- Optional: `PGLITE_DATA_DIR` (PGlite data directory, defaults to `.unrag/pglite`)'
+				: '- `DATABASE_URL` (Postgres connection string)'
 	]
 
 	if (embeddingProvider === 'ai') {
@@ -873,6 +931,10 @@ export async function copyRegistryFiles(
 			src: path.join(selection.registryRoot, 'core/chunking.ts'),
 			dest: path.join(installBaseAbs, 'core/chunking.ts')
 		},
+		{
+			src: path.join(selection.registryRoot, 'core/concurrency.ts'),
+			dest: path.join(installBaseAbs, 'core/concurrency.ts')
+		},
 		{
 			src: path.join(selection.registryRoot, 'core/config.ts'),
 			dest: path.join(installBaseAbs, 'core/config.ts')
@@ -885,6 +947,14 @@ export async function copyRegistryFiles(
 			src: path.join(selection.registryRoot, 'core/context-engine.ts'),
 			dest: path.join(installBaseAbs, 'core/context-engine.ts')
 		},
+		{
+			src: path.join(selection.registryRoot, 'core/embedding-cache.ts'),
+			dest: path.join(installBaseAbs, 'core/embedding-cache.ts')
+		},
+		{
+			src: path.join(selection.registryRoot, 'core/embedding-retry.ts'),
+			dest: path.join(installBaseAbs, 'core/embedding-retry.ts')
+		},
 		{
 			src: path.join(selection.registryRoot, 'core/delete.ts'),
 			dest: path.join(installBaseAbs, 'core/delete.ts')
@@ -893,10 +963,22 @@ export async function copyRegistryFiles(
 			src: path.join(selection.registryRoot, 'core/ingest.ts'),
 			dest: path.join(installBaseAbs, 'core/ingest.ts')
 		},
+		{
+			src: path.join(selection.registryRoot, 'core/ingest-many.ts'),
+			dest: path.join(installBaseAbs, 'core/ingest-many.ts')
+		},
+		{
+			src: path.join(selection.registryRoot, 'core/reindex.ts'),
+			dest: path.join(installBaseAbs, 'core/reindex.ts')
+		},
 		{
 			src: path.join(selection.registryRoot, 'core/retrieve.ts'),
 			dest: path.join(installBaseAbs, 'core/retrieve.ts')
 		},
+		{
+			src: path.join(selection.registryRoot, 'core/query-transform.ts'),
+			dest: path.join(installBaseAbs, 'core/query-transform.ts')
+		},
 		{
 			src: path.join(selection.registryRoot, 'core/rerank.ts'),
 			dest: path.join(installBaseAbs, 'core/rerank.ts')
@@ -980,6 +1062,12 @@ export async function copyRegistryFiles(
 		})
 	}
 
+	// The offline hash provider is always available (used by tests and CI).
+	fileMappings.push({
+		src: path.join(selection.registryRoot, 'embedding/hash.ts'),
+		dest: path.join(installBaseAbs, 'embedding/hash.ts')
+	})
+
 	// store
 	if (selection.storeAdapter === 'drizzle') {
 		fileMappings.push(
@@ -1003,6 +1091,16 @@ export async function copyRegistryFiles(
 					'store/drizzle/store.ts'
 				),
 				dest: path.join(installBaseAbs, 'store/drizzle/store.ts')
+			},
+			{
+				src: path.join(
+					selection.registryRoot,
+					'store/drizzle/embedding-cache.ts'
+				),
+				dest: path.join(
+					installBaseAbs,
+					'store/drizzle/embedding-cache.ts'
+				)
 			}
 		)
 	} else if (selection.storeAdapter === 'raw-sql') {
@@ -1020,8 +1118,49 @@ export async function copyRegistryFiles(
 					'store/raw-sql/store.ts'
 				),
 				dest: path.join(installBaseAbs, 'store/raw-sql/store.ts')
+			},
+			{
+				src: path.join(
+					selection.registryRoot,
+					'store/raw-sql/embedding-cache.ts'
+				),
+				dest: path.join(
+					installBaseAbs,
+					'store/raw-sql/embedding-cache.ts'
+				)
 			}
 		)
+	} else if (selection.storeAdapter === 'sqlite') {
+		fileMappings.push(
+			...['index.ts', 'store.ts', 'schema.ts', 'embedding-cache.ts'].map(
+				(file) => ({
+					src: path.join(
+						selection.registryRoot,
+						'store/sqlite',
+						file
+					),
+					dest: path.join(installBaseAbs, 'store/sqlite', file)
+				})
+			)
+		)
+	} else if (selection.storeAdapter === 'pglite') {
+		fileMappings.push(
+			...['index.ts', 'store.ts', 'schema.ts', 'embedding-cache.ts'].map(
+				(file) => ({
+					src: path.join(
+						selection.registryRoot,
+						'store/pglite',
+						file
+					),
+					dest: path.join(installBaseAbs, 'store/pglite', file)
+				})
+			),
+			// The pglite store runs the raw-sql adapter's queries.
+			...['store.ts', 'embedding-cache.ts'].map((file) => ({
+				src: path.join(selection.registryRoot, 'store/raw-sql', file),
+				dest: path.join(installBaseAbs, 'store/raw-sql', file)
+			}))
+		)
 	} else {
 		fileMappings.push(
 			{
@@ -1031,10 +1170,28 @@ export async function copyRegistryFiles(
 			{
 				src: path.join(selection.registryRoot, 'store/prisma/store.ts'),
 				dest: path.join(installBaseAbs, 'store/prisma/store.ts')
+			},
+			{
+				src: path.join(
+					selection.registryRoot,
+					'store/prisma/embedding-cache.ts'
+				),
+				dest: path.join(
+					installBaseAbs,
+					'store/prisma/embedding-cache.ts'
+				)
 			}
 		)
 	}
 
+	// In-memory store, installed alongside every adapter for tests and CI.
+	fileMappings.push(
+		...['index.ts', 'store.ts'].map((file) => ({
+			src: path.join(selection.registryRoot, 'store/memory', file),
+			dest: path.join(installBaseAbs, 'store/memory', file)
+		}))
+	)
+
 	const nonInteractive = Boolean(selection.yes) || !process.stdin.isTTY
 	const overwritePolicy = selection.overwrite ?? 'skip'
 
@@ -0,0 +1,87 @@
+/**
+ * Helpers for `unrag reindex`.
+ *
+ * The CLI cannot import the project's `unrag.config.ts` itself (it runs under
+ * plain Node and the config imports the project's dependencies), so it writes a
+ * small runner script into the project and executes it with a TypeScript-aware
+ * runtime. The runner reports back as JSON lines on stdout.
+ */
+
+export const REINDEX_RUNNER_PATH = '.unrag/reindex-runner.ts'
+
+export type ReindexRunnerOptions = {
+	batchSize?: number
+}
+
+/** Mirrors `ReindexResult` from the vendored core. */
+export type ReindexRunnerResult = {
+	index: string
+	embeddingModel: string
+	reembedded: number
+	skipped: number
+	skippedSourceIds: string[]
+	swapped: number
+	durations: {totalMs: number; embeddingMs: number}
+}
+
+export type ReindexRunnerEvent =
+	| {type: 'progress'; reembedded: number; skipped: number}
+	| {type: 'result'; result: ReindexRunnerResult}
+	| {type: 'error'; message: string}
+
+export function renderReindexRunnerScript(opts: {
+	configImportPath: string
+}): string {
+	return `// Generated by \`unrag reindex\`; removed when the run ends.
+import { createUnragEngine } from ${JSON.stringify(opts.configImportPath)};
+
+const emit = (event: unknown) => {
+  process.stdout.write(\`\${JSON.stringify(event)}\\n\`);
+};
+
+try {
+  const options = JSON.parse(process.env.UNRAG_REINDEX_OPTIONS ?? "{}");
+  const engine = createUnragEngine();
+  const result = await engine.reindex({
+    ...options,
+    onProgress: (progress) => emit({ type: "progress", ...progress }),
+  });
+  emit({ type: "result", result });
+  process.exit(0);
+} catch (err) {
+  emit({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  process.exit(1);
+}
+`
+}
+
+/**
+ * Parse one stdout line from the runner. Lines that are not runner events
+ * (e.g. the app's own logging) return `null`.
+ */
+export function parseReindexRunnerEvent(
+	line: string
+): ReindexRunnerEvent | null {
+	const trimmed = line.trim()
+	if (!trimmed.startsWith('{')) {
+		return null
+	}
+	try {
+		const event = JSON.parse(trimmed) as {type?: unknown}
+		return event.type === 'progress' ||
+			event.type === 'result' ||
+			event.type === 'error'
+			? (event as ReindexRunnerEvent)
+			: null
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Whether the generated config turns off `storage.storeChunkContent`.
+ * Checked up front so the CLI can refuse before starting a runtime.
+ */
+export function isChunkContentStorageDisabled(configSource: string): boolean {
+	return /storeChunkContent\s*:\s*false\b/.test(configSource)
+}
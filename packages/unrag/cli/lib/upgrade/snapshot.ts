@@ -15,7 +15,7 @@ import type {
 type SnapshotConfig = {
 	projectRoot: string
 	installDir: string
-	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql'
+	storeAdapter: 'drizzle' | 'prisma' | 'raw-sql' | 'sqlite' | 'pglite'
 	aliasBase: string
 	embeddingProvider?: EmbeddingProviderName
 	extractors: ExtractorName[]
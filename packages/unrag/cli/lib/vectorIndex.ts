@@ -0,0 +1,112 @@
+/**
+ * SQL for `unrag index`: pgvector HNSW / IVFFlat indexes on the embeddings table.
+ *
+ * `embeddings.embedding` is an unsized `vector` so one table can hold several
+ * models. pgvector can only index sized vectors, so each index covers
+ * `embedding::vector(n)` for the rows of one named index and dimension (a
+ * partial expression index). The Postgres stores query with the same cast.
+ * Keep names and definitions in sync with `vectorIndex()` in the Drizzle schema.
+ */
+
+export type VectorIndexMethod = 'hnsw' | 'ivfflat'
+
+export type VectorIndexMetric = 'cosine' | 'inner_product' | 'l2'
+
+export const VECTOR_INDEX_METHODS: VectorIndexMethod[] = ['hnsw', 'ivfflat']
+
+export const VECTOR_OPERATOR_CLASSES: Record<VectorIndexMetric, string> = {
+	cosine: 'vector_cosine_ops',
+	inner_product: 'vector_ip_ops',
+	l2: 'vector_l2_ops'
+}
+
+export type VectorIndexTarget = {
+	/** Named index (`embeddings.index_name`). */
+	index: string
+	dimensions: number
+	/** Rows currently stored for this index and dimension. */
+	rowCount: number
+}
+
+export type VectorIndexBuildOptions = {
+	schema: string
+	table: string
+	method: VectorIndexMethod
+	metric: VectorIndexMetric
+	/** HNSW max connections per layer (pgvector default 16). */
+	m?: number
+	/** HNSW candidate list size while building (pgvector default 64). */
+	efConstruction?: number
+	/** IVFFlat list count. Default: derived from the row count. */
+	lists?: number
+	/** Build without locking out writes (`create index concurrently`). */
+	concurrently?: boolean
+}
+
+const quoteIdent = (value: string) => `"${value.replace(/"/g, '""')}"`
+
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`
+
+export function vectorIndexName(
+	table: string,
+	target: Pick<VectorIndexTarget, 'index' | 'dimensions'>,
+	method: VectorIndexMethod
+): string {
+	const slug = target.index
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '_')
+		.replace(/^_+|_+$/g, '')
+	return `${table}_${slug}_${target.dimensions}_${method}_idx`
+}
+
+/**
+ * pgvector's starting point for IVFFlat: rows / 1000 up to 1M rows, then
+ * sqrt(rows). Never below 10.
+ */
+export function recommendedIvfflatLists(rowCount: number): number {
+	const lists =
+		rowCount <= 1_000_000
+			? Math.floor(rowCount / 1000)
+			: Math.floor(Math.sqrt(rowCount))
+	return Math.max(10, lists)
+}
+
+export function renderCreateVectorIndexSql(
+	target: VectorIndexTarget,
+	options: VectorIndexBuildOptions
+): string {
+	const {schema, table, method, metric} = options
+	const withParams =
+		method === 'hnsw'
+			? [
+					...(options.m !== undefined ? [`m = ${options.m}`] : []),
+					...(options.efConstruction !== undefined
+						? [`ef_construction = ${options.efConstruction}`]
+						: [])
+				]
+			: [
+					`lists = ${options.lists ?? recommendedIvfflatLists(target.rowCount)}`
+				]
+
+	return [
+		`create index ${options.concurrently ? 'concurrently ' : ''}if not exists ${quoteIdent(vectorIndexName(table, target, method))}`,
+		`on ${quoteIdent(schema)}.${quoteIdent(table)}`,
+		`using ${method} ((embedding::vector(${target.dimensions})) ${VECTOR_OPERATOR_CLASSES[metric]})`,
+		...(withParams.length > 0 ? [`with (${withParams.join(', ')})`] : []),
+		`where index_name = ${quoteLiteral(target.index)} and embedding_dimension = ${target.dimensions};`
+	].join('\n')
+}
+
+/**
+ * Drops the indexes `unrag index create` may have built for a target, whichever
+ * method was used.
+ */
+export function renderDropVectorIndexSql(
+	target: Pick<VectorIndexTarget, 'index' | 'dimensions'>,
+	options: Pick<VectorIndexBuildOptions, 'schema' | 'table' | 'concurrently'>
+): string[] {
+	return VECTOR_INDEX_METHODS.map(
+		(method) =>
+			`drop index ${options.concurrently ? 'concurrently ' : ''}if exists ${quoteIdent(options.schema)}.${quoteIdent(vectorIndexName(options.table, target, method))};`
+	)
+}
@@ -5,7 +5,9 @@ import {addCommand} from './commands/add'
 import {debugCommand} from './commands/debug'
 import {doctorCommand} from './commands/doctor'
 import {initCommand} from './commands/init'
+import {reindexCommand} from './commands/reindex'
 import {upgradeCommand} from './commands/upgrade'
+import {indexCommand} from './commands/vector-index'
 import {readCliPackageVersion} from './lib/cliVersion'
 import {UNRAG_GITHUB_REPO_URL, docsUrl} from './lib/constants'
 import {findUp} from './lib/fs'
@@ -37,6 +39,8 @@ function renderHelp() {
 		'  add chunker <name>  Install a chunker plugin (semantic, markdown, etc.)',
 		'  add skills          Install Unrag agent skills for your IDE/agent',
 		'  upgrade             Upgrade vendored sources (git-style merge)',
+		'  reindex             Re-embed stored chunks with the current embedding provider',
+		'  index <action>      Create or rebuild vector indexes (create | rebuild)',
 		'  doctor              Validate installation and configuration',
 		'  doctor setup        Generate project-specific doctor config and scripts',
 		'  debug               Open real-time debug TUI (requires UNRAG_DEBUG=true in app)',
@@ -47,7 +51,7 @@ function renderHelp() {
 		'  -y, --yes            Non-interactive; accept defaults',
 		'',
 		'init options:',
-		'  --store <adapter>    drizzle | prisma | raw-sql',
+		'  --store <adapter>    drizzle | prisma | raw-sql | sqlite | pglite',
 		'  --dir <path>         Install directory (alias: --install-dir)',
 		'  --alias <@name>      Import alias base (e.g. @unrag)',
 		'  --preset <id|url>    Install from a web-generated preset (non-interactive)',
@@ -66,6 +70,13 @@ function renderHelp() {
 		'  --json               Output JSON for CI',
 		'  --strict             Treat warnings as failures',
 		'',
+		'reindex options:',
+		'  --batch-size <n>     Chunks embedded and written per round (default: 256)',
+		'',
+		'index options:',
+		'  --method <hnsw|ivfflat>  Index type (default: hnsw)',
+		'  --dry-run            Print the SQL without running it',
+		'',
 		'Examples:',
 		'  bunx unrag@latest init',
 		'  bunx unrag@latest init --yes --store drizzle --dir lib/unrag --alias @unrag',
@@ -75,6 +86,8 @@ function renderHelp() {
 		'  bunx unrag add battery reranker --yes',
 		'  bunx unrag add chunker semantic --yes',
 		'  bunx unrag upgrade',
+		'  bunx unrag reindex',
+		'  bunx unrag index create --method hnsw',
 		'  bunx unrag doctor',
 		'  bunx unrag doctor --db',
 		'  bunx unrag doctor setup',
@@ -133,6 +146,16 @@ export async function run(argv: string[]) {
 		return
 	}
 
+	if (command === 'reindex') {
+		await reindexCommand(rest)
+		return
+	}
+
+	if (command === 'index') {
+		await indexCommand(rest)
+		return
+	}
+
 	if (command === 'debug') {
 		await debugCommand(rest)
 		return
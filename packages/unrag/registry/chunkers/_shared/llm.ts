@@ -77,3 +77,46 @@ export async function splitWithLlm(args: {
 		return null
 	}
 }
+
+export async function extractPropositionsWithLlm(args: {
+	content: string
+	model?: string
+}): Promise<string[] | null> {
+	const model = args.model?.trim() || DEFAULT_LLM_MODEL
+
+	try {
+		const result = await generateText({
+			model,
+			messages: [
+				{
+					role: 'system',
+					content:
+						'You are a proposition extraction tool. Return ONLY a JSON array of strings.'
+				},
+				{
+					role: 'user',
+					content: [
+						'Decompose the input into an ordered JSON array of propositions.',
+						'Rules:',
+						'- Each proposition states exactly one fact or claim from the input.',
+						'- Each proposition must be understandable on its own: replace pronouns and references with the entities they refer to.',
+						'- Do not add information that is not in the input.',
+						'- Avoid empty strings.',
+						'Return JSON only.'
+					].join('\n')
+				},
+				{role: 'user', content: args.content}
+			]
+		})
+
+		const parsed = extractJsonArray(result.text ?? '')
+		if (!parsed) {
+			return null
+		}
+
+		const propositions = parsed.map((p) => p.trim()).filter(Boolean)
+		return propositions.length > 0 ? propositions : null
+	} catch {
+		return null
+	}
+}
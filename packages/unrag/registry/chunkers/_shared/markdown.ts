@@ -0,0 +1,59 @@
+export type MarkdownHeading = {
+	/** Character offset of the heading line in the source text. */
+	offset: number
+	level: number
+	title: string
+}
+
+const isFence = (line: string): boolean =>
+	line.trim().startsWith('```') || line.trim().startsWith('~~~')
+
+/**
+ * Collect ATX headings (`#` … `######`) outside fenced code blocks.
+ */
+export const collectHeadings = (text: string): MarkdownHeading[] => {
+	const headings: MarkdownHeading[] = []
+	let offset = 0
+	let inCodeBlock = false
+
+	for (const line of text.split('\n')) {
+		if (isFence(line)) {
+			inCodeBlock = !inCodeBlock
+		} else if (!inCodeBlock) {
+			const match = line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/)
+			if (match?.[1] && match[2]) {
+				headings.push({
+					offset,
+					level: match[1].length,
+					title: match[2].trim()
+				})
+			}
+		}
+		offset += line.length + 1
+	}
+
+	return headings
+}
+
+/**
+ * Heading trail (outermost first) in effect at `offset`, e.g. `['Guide', 'Install']`.
+ */
+export const headingPathAt = (
+	headings: MarkdownHeading[],
+	offset: number
+): string[] => {
+	const stack: MarkdownHeading[] = []
+	for (const heading of headings) {
+		if (heading.offset > offset) {
+			break
+		}
+		while (
+			stack.length > 0 &&
+			(stack[stack.length - 1]?.level ?? 0) >= heading.level
+		) {
+			stack.pop()
+		}
+		stack.push(heading)
+	}
+	return stack.map((h) => h.title)
+}
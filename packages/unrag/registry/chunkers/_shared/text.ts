@@ -117,3 +117,34 @@ export const mergeSplits = (
 
 	return chunks
 }
+
+export const splitSentences = (text: string): string[] => {
+	const splits: string[] = []
+	let buffer = ''
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i]
+		buffer += ch
+
+		if (ch === '.' || ch === '!' || ch === '?') {
+			const next = text[i + 1]
+			if (!next || /\s/.test(next)) {
+				if (buffer.trim()) {
+					splits.push(buffer)
+				}
+				buffer = ''
+			}
+		} else if (ch === '\n' && text[i + 1] === '\n') {
+			if (buffer.trim()) {
+				splits.push(buffer)
+			}
+			buffer = ''
+		}
+	}
+
+	if (buffer.trim()) {
+		splits.push(buffer)
+	}
+
+	return splits
+}
@@ -1,6 +1,7 @@
 import {requireOptional} from '@registry/chunkers/_shared/optional'
 import {countTokens, mergeSplits} from '@registry/chunkers/_shared/text'
 import {
+	locateChunkSpans,
 	registerChunkerPlugin,
 	resolveChunkingOptions
 } from '@registry/core/chunking'
@@ -13,16 +14,21 @@ import type {
 	MetadataValue
 } from '@registry/core/types'
 
+type TreeSitterNode = {
+	type: string
+	text?: string
+	startIndex: number
+	endIndex: number
+	namedChildren?: TreeSitterNode[]
+	childForFieldName?: (name: string) => TreeSitterNode | null
+}
+
 type TreeSitterModule = {
 	default?: new () => {
 		setLanguage: (lang: unknown) => void
 		parse: (input: string) => {
 			rootNode: {
-				namedChildren: Array<{
-					type: string
-					startIndex: number
-					endIndex: number
-				}>
+				namedChildren: TreeSitterNode[]
 			}
 		}
 	}
@@ -164,16 +170,38 @@ const loadParser = () => {
 		setLanguage: (lang: unknown) => void
 		parse: (input: string) => {
 			rootNode: {
-				namedChildren: Array<{
-					type: string
-					startIndex: number
-					endIndex: number
-				}>
+				namedChildren: TreeSitterNode[]
 			}
 		}
 	}
 }
 
+type CodeSymbol = {
+	name: string
+	kind: string
+	start: number
+	end: number
+}
+
+/**
+ * Resolve the declared name of a top-level node. Wrapper nodes
+ * (`lexical_declaration`, `type_declaration`, `decorated_definition`, exports)
+ * carry the name on a named child rather than on the node itself.
+ */
+const symbolNameOf = (node: TreeSitterNode): string | undefined => {
+	const direct = node.childForFieldName?.('name')?.text
+	if (direct) {
+		return direct
+	}
+	for (const child of node.namedChildren ?? []) {
+		const nested = child.childForFieldName?.('name')?.text
+		if (nested) {
+			return nested
+		}
+	}
+	return undefined
+}
+
 const loadLanguage = (language: string) => {
 	if (language === 'typescript') {
 		const module = requireOptional<LanguageModule>({
@@ -226,6 +254,7 @@ export const codeChunker: Chunker = (
 	const majorTypes = MAJOR_TYPES[language] ?? fallbackMajorTypes
 
 	let blocks: string[] = []
+	const symbols: CodeSymbol[] = []
 	try {
 		const Parser = loadParser()
 		const parser = new Parser()
@@ -250,6 +279,15 @@ export const codeChunker: Chunker = (
 			if (block.trim()) {
 				blocks.push(block)
 			}
+			const name = symbolNameOf(child)
+			if (name) {
+				symbols.push({
+					name,
+					kind: child.type,
+					start: child.startIndex,
+					end: child.endIndex
+				})
+			}
 			cursor = child.endIndex
 		}
 
@@ -259,6 +297,7 @@ export const codeChunker: Chunker = (
 		}
 	} catch {
 		blocks = [content]
+		symbols.length = 0
 	}
 
 	if (blocks.length === 0) {
@@ -266,12 +305,39 @@ export const codeChunker: Chunker = (
 	}
 
 	const chunks = mergeSplits(blocks, chunkSize, chunkOverlap, minChunkSize)
+	const spans = locateChunkSpans(content, chunks)
+
+	return chunks.map((chunkContent, index) => {
+		const span = spans[index]
+		if (!span) {
+			return {
+				index,
+				content: chunkContent,
+				tokenCount: countTokens(chunkContent)
+			}
+		}
 
-	return chunks.map((chunkContent, index) => ({
-		index,
-		content: chunkContent,
-		tokenCount: countTokens(chunkContent)
-	}))
+		const overlapping = symbols.filter(
+			(s) => s.start < span.charEnd && s.end > span.charStart
+		)
+		const first = overlapping[0]
+		return {
+			index,
+			content: chunkContent,
+			tokenCount: countTokens(chunkContent),
+			metadata: {
+				...span,
+				language,
+				...(first
+					? {
+							symbolName: first.name,
+							symbolKind: first.kind,
+							symbols: overlapping.map((s) => s.name)
+						}
+					: {})
+			}
+		}
+	})
 }
 
 export const createCodeChunkerPlugin = (): ChunkerPlugin => ({
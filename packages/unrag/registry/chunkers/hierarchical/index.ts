@@ -1,5 +1,10 @@
+import {
+	collectHeadings,
+	headingPathAt
+} from '@registry/chunkers/_shared/markdown'
 import {countTokens} from '@registry/chunkers/_shared/text'
 import {
+	locateChunkSpans,
 	recursiveChunker,
 	registerChunkerPlugin,
 	resolveChunkingOptions
@@ -18,6 +23,8 @@ const isHeading = (line: string): boolean => /^#{1,6}\s+/.test(line)
 
 type Section = {
 	header?: string
+	/** Character offset of the header line (or 0 for a leading header-less section). */
+	offset: number
 	body: string
 }
 
@@ -25,18 +32,23 @@ const splitSections = (text: string): Section[] => {
 	const lines = text.split('\n')
 	const sections: Section[] = []
 	let currentHeader: string | undefined
+	let currentOffset = 0
 	let current: string[] = []
 	let inCodeBlock = false
+	let offset = 0
 
 	const flush = () => {
 		const body = current.join('\n').trim()
 		if (body || currentHeader) {
-			sections.push({header: currentHeader, body})
+			sections.push({header: currentHeader, offset: currentOffset, body})
 		}
 		current = []
 	}
 
 	for (const line of lines) {
+		const lineOffset = offset
+		offset += line.length + 1
+
 		if (isFence(line)) {
 			inCodeBlock = !inCodeBlock
 			current.push(line)
@@ -46,6 +58,7 @@ const splitSections = (text: string): Section[] => {
 		if (!inCodeBlock && isHeading(line)) {
 			flush()
 			currentHeader = line.trim()
+			currentOffset = lineOffset
 			continue
 		}
 
@@ -68,10 +81,17 @@ export const hierarchicalChunker: Chunker = async (
 	}
 
 	const sections = splitSections(content)
+	const headings = collectHeadings(content)
 	const chunks: ChunkText[] = []
+	// Source text of each chunk without its prepended header, used to locate spans.
+	const sourceTexts: string[] = []
+	const headingPaths: string[][] = []
 
 	for (const section of sections) {
 		const body = section.body
+		const headingPath = section.header
+			? headingPathAt(headings, section.offset)
+			: []
 		if (!body && section.header) {
 			const headerOnly = section.header
 			chunks.push({
@@ -79,6 +99,8 @@ export const hierarchicalChunker: Chunker = async (
 				content: headerOnly,
 				tokenCount: countTokens(headerOnly)
 			})
+			sourceTexts.push(headerOnly)
+			headingPaths.push(headingPath)
 			continue
 		}
 
@@ -97,6 +119,20 @@ export const hierarchicalChunker: Chunker = async (
 				content: contentWithHeader,
 				tokenCount: countTokens(contentWithHeader)
 			})
+			sourceTexts.push(chunk.content)
+			headingPaths.push(headingPath)
+		}
+	}
+
+	const spans = locateChunkSpans(content, sourceTexts)
+	for (const [i, chunk] of chunks.entries()) {
+		const span = spans[i]
+		const headingPath = headingPaths[i] ?? []
+		if (span || headingPath.length > 0) {
+			chunk.metadata = {
+				...(span ?? {}),
+				...(headingPath.length > 0 ? {headingPath} : {})
+			}
 		}
 	}
 
@@ -0,0 +1,153 @@
+import {recursiveChunker, registerChunkerPlugin} from '@registry/core/chunking'
+import {defaultEmbeddingProcessingConfig} from '@registry/core/config'
+import {withEmbeddingRetry} from '@registry/core/embedding-retry'
+import type {
+	ChunkText,
+	Chunker,
+	ChunkerPlugin,
+	ChunkingOptions
+} from '@registry/core/types'
+
+export type LateChunkingOptions = ChunkingOptions & {
+	/**
+	 * Maximum tokens sent to `embedTokens()` in one call. Longer documents are
+	 * embedded in consecutive windows of whole chunks. Default: 8192
+	 */
+	maxContextTokens?: number
+}
+
+const DEFAULT_MAX_CONTEXT_TOKENS = 8192
+
+type Window = {
+	start: number
+	end: number
+	tokens: number
+	chunks: ChunkText[]
+}
+
+const spanOf = (chunk: ChunkText): [number, number] | undefined => {
+	const start = chunk.metadata?.charStart
+	const end = chunk.metadata?.charEnd
+	return typeof start === 'number' && typeof end === 'number'
+		? [start, end]
+		: undefined
+}
+
+const meanPool = (vectors: number[][]): number[] | undefined => {
+	const first = vectors[0]
+	if (!first) {
+		return undefined
+	}
+	const sum = new Array<number>(first.length).fill(0)
+	for (const vector of vectors) {
+		for (let i = 0; i < sum.length; i++) {
+			sum[i] = (sum[i] ?? 0) + (vector[i] ?? 0)
+		}
+	}
+	return sum.map((v) => v / vectors.length)
+}
+
+/**
+ * Late chunking: the document is embedded token by token with full context, then
+ * each chunk's embedding is the mean of the token embeddings inside its span.
+ *
+ * Chunk boundaries come from the recursive chunker. Requires an embedding provider
+ * with `embedTokens()`; otherwise chunks are returned without embeddings and
+ * `ingest()` embeds them as usual.
+ */
+export const lateChunker: Chunker = async (
+	content: string,
+	options: LateChunkingOptions
+): Promise<ChunkText[]> => {
+	const chunks = await recursiveChunker(content, options)
+	const embedTokens = options.embedding?.embedTokens
+	if (!embedTokens || chunks.length === 0) {
+		return chunks
+	}
+
+	const processing =
+		options.embeddingProcessing ?? defaultEmbeddingProcessingConfig
+	const maxContextTokens = Math.max(
+		1,
+		options.maxContextTokens ?? DEFAULT_MAX_CONTEXT_TOKENS
+	)
+
+	// Consecutive chunks with known spans share a window; a chunk without a span
+	// (or one that would overflow the window) starts a new one.
+	const windows: Window[] = []
+	let current: Window | undefined
+	for (const chunk of chunks) {
+		const span = spanOf(chunk)
+		if (!span) {
+			current = undefined
+			continue
+		}
+		if (current && current.tokens + chunk.tokenCount <= maxContextTokens) {
+			current.end = Math.max(current.end, span[1])
+			current.tokens += chunk.tokenCount
+			current.chunks.push(chunk)
+			continue
+		}
+		current = {
+			start: span[0],
+			end: span[1],
+			tokens: chunk.tokenCount,
+			chunks: [chunk]
+		}
+		windows.push(current)
+	}
+
+	const embeddings = new Map<ChunkText, number[]>()
+	for (let w = 0; w < windows.length; w++) {
+		const window = windows[w]
+		if (!window) {
+			continue
+		}
+		const input = {
+			text: content.slice(window.start, window.end),
+			metadata: options.metadata ?? {},
+			position: w,
+			sourceId: options.sourceId ?? '',
+			documentId: ''
+		}
+		const tokens = await withEmbeddingRetry(
+			processing,
+			{operation: 'embedTokens', estimateTokens: () => window.tokens},
+			() => embedTokens(input)
+		)
+
+		for (const chunk of window.chunks) {
+			const span = spanOf(chunk)
+			if (!span) {
+				continue
+			}
+			const start = span[0] - window.start
+			const end = span[1] - window.start
+			const inside = tokens.embeddings.filter((_, i) => {
+				const offset = tokens.offsets[i]
+				return offset ? offset[0] < end && offset[1] > start : false
+			})
+			const pooled = meanPool(inside)
+			if (pooled) {
+				embeddings.set(chunk, pooled)
+			}
+		}
+	}
+
+	return chunks.map((chunk) => {
+		const embedding = embeddings.get(chunk)
+		return embedding ? {...chunk, embedding} : chunk
+	})
+}
+
+export const createLateChunkerPlugin = (): ChunkerPlugin => ({
+	name: 'late',
+	createChunker: (pluginOptions) => (content, options) =>
+		lateChunker(content, {...pluginOptions, ...options})
+})
+
+export const registerLateChunker = (): void => {
+	registerChunkerPlugin(createLateChunkerPlugin())
+}
+
+registerLateChunker()
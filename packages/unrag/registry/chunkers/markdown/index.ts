@@ -1,5 +1,10 @@
+import {
+	collectHeadings,
+	headingPathAt
+} from '@registry/chunkers/_shared/markdown'
 import {countTokens, mergeSplits} from '@registry/chunkers/_shared/text'
 import {
+	locateChunkSpans,
 	registerChunkerPlugin,
 	resolveChunkingOptions
 } from '@registry/core/chunking'
@@ -65,12 +70,26 @@ export const markdownChunker: Chunker = (
 
 	const blocks = splitMarkdownBlocks(content)
 	const chunks = mergeSplits(blocks, chunkSize, chunkOverlap, minChunkSize)
-
-	return chunks.map((chunkContent, index) => ({
-		index,
-		content: chunkContent,
-		tokenCount: countTokens(chunkContent)
-	}))
+	const spans = locateChunkSpans(content, chunks)
+	const headings = collectHeadings(content)
+
+	return chunks.map((chunkContent, index) => {
+		const span = spans[index]
+		const headingPath = span ? headingPathAt(headings, span.charStart) : []
+		return {
+			index,
+			content: chunkContent,
+			tokenCount: countTokens(chunkContent),
+			...(span
+				? {
+						metadata: {
+							...span,
+							...(headingPath.length > 0 ? {headingPath} : {})
+						}
+					}
+				: {})
+		}
+	})
 }
 
 export const createMarkdownChunkerPlugin = (): ChunkerPlugin => ({
@@ -0,0 +1,208 @@
+import {
+	countTokens,
+	mergeSplits,
+	splitSentences
+} from '@registry/chunkers/_shared/text'
+import {
+	registerChunkerPlugin,
+	resolveChunkingOptions
+} from '@registry/core/chunking'
+import {mapWithConcurrency} from '@registry/core/concurrency'
+import {defaultEmbeddingProcessingConfig} from '@registry/core/config'
+import {withEmbeddingRetry} from '@registry/core/embedding-retry'
+import type {
+	ChunkText,
+	Chunker,
+	ChunkerPlugin,
+	ChunkingOptions,
+	EmbeddingInput,
+	EmbeddingProvider
+} from '@registry/core/types'
+
+export type MaxMinChunkingOptions = ChunkingOptions & {
+	/**
+	 * Similarity a sentence needs to join a single-sentence chunk, where there is
+	 * no intra-chunk similarity to compare against yet. Default: 0.6
+	 */
+	initialThreshold?: number
+}
+
+const DEFAULT_INITIAL_THRESHOLD = 0.6
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+	let dot = 0
+	let normA = 0
+	let normB = 0
+	for (let i = 0; i < a.length; i++) {
+		const x = a[i] ?? 0
+		const y = b[i] ?? 0
+		dot += x * y
+		normA += x * x
+		normB += y * y
+	}
+	if (normA === 0 || normB === 0) {
+		return 0
+	}
+	return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+const embedSentences = async (
+	embedding: EmbeddingProvider,
+	sentences: string[],
+	options: ChunkingOptions
+): Promise<number[][]> => {
+	const processing =
+		options.embeddingProcessing ?? defaultEmbeddingProcessingConfig
+	const inputs = sentences.map((text, position) => ({
+		text,
+		metadata: options.metadata ?? {},
+		position,
+		sourceId: options.sourceId ?? '',
+		documentId: ''
+	}))
+
+	const embedMany = embedding.embedMany
+	if (embedMany) {
+		const batchSize = Math.max(1, Math.floor(processing.batchSize || 1))
+		const batches: EmbeddingInput[][] = []
+		for (let i = 0; i < inputs.length; i += batchSize) {
+			batches.push(inputs.slice(i, i + batchSize))
+		}
+		const results = await mapWithConcurrency(
+			batches,
+			processing.concurrency,
+			(batch) =>
+				withEmbeddingRetry(
+					processing,
+					{
+						operation: 'embedMany',
+						estimateTokens: () =>
+							batch.reduce(
+								(sum, b) => sum + countTokens(b.text),
+								0
+							)
+					},
+					() => embedMany(batch)
+				)
+		)
+		return results.flat()
+	}
+
+	return mapWithConcurrency(inputs, processing.concurrency, (input) =>
+		withEmbeddingRetry(
+			processing,
+			{operation: 'embed', estimateTokens: () => countTokens(input.text)},
+			() => embedding.embed(input)
+		)
+	)
+}
+
+type Group = {
+	sentences: string[]
+	embeddings: number[][]
+	tokens: number
+	/** Lowest pairwise similarity between sentences in the group. */
+	minSimilarity: number
+}
+
+/**
+ * Max-min semantic chunking: sentences are embedded with the engine's provider and
+ * a sentence joins the current chunk when its highest similarity to the chunk is
+ * at least the chunk's lowest internal similarity. Without an embedding provider
+ * (e.g. when called outside `ingest()`), falls back to sentence merging.
+ */
+export const maxminChunker: Chunker = async (
+	content: string,
+	options: MaxMinChunkingOptions
+): Promise<ChunkText[]> => {
+	const resolved = resolveChunkingOptions(options)
+	const {chunkSize, chunkOverlap, minChunkSize = 24} = resolved
+
+	if (!content.trim()) {
+		return []
+	}
+
+	const sentences = splitSentences(content)
+	const embedding = options.embedding
+	if (!embedding || sentences.length < 2) {
+		return mergeSplits(
+			sentences,
+			chunkSize,
+			chunkOverlap,
+			minChunkSize
+		).map((chunkContent, index) => ({
+			index,
+			content: chunkContent,
+			tokenCount: countTokens(chunkContent)
+		}))
+	}
+
+	const initialThreshold =
+		options.initialThreshold ?? DEFAULT_INITIAL_THRESHOLD
+	const vectors = await embedSentences(embedding, sentences, options)
+
+	const groups: Group[] = []
+	let current: Group | undefined
+
+	for (let i = 0; i < sentences.length; i++) {
+		const sentence = sentences[i] ?? ''
+		const vector = vectors[i] ?? []
+		const tokens = countTokens(sentence)
+
+		if (current) {
+			const similarities = current.embeddings.map((e) =>
+				cosineSimilarity(vector, e)
+			)
+			const maxSimilarity = Math.max(...similarities)
+			const threshold =
+				current.sentences.length === 1
+					? initialThreshold
+					: current.minSimilarity
+			const fits = current.tokens + tokens <= chunkSize
+			const belongs =
+				maxSimilarity >= threshold || current.tokens < minChunkSize
+
+			if (fits && belongs) {
+				current.sentences.push(sentence)
+				current.embeddings.push(vector)
+				current.tokens += tokens
+				current.minSimilarity = Math.min(
+					current.minSimilarity,
+					...similarities
+				)
+				continue
+			}
+		}
+
+		current = {
+			sentences: [sentence],
+			embeddings: [vector],
+			tokens,
+			minSimilarity: 1
+		}
+		groups.push(current)
+	}
+
+	// Oversized single sentences still go through the token-limit splitter.
+	const chunks = groups.flatMap((group) =>
+		mergeSplits([group.sentences.join('')], chunkSize, chunkOverlap, 0)
+	)
+
+	return chunks.map((chunkContent, index) => ({
+		index,
+		content: chunkContent,
+		tokenCount: countTokens(chunkContent)
+	}))
+}
+
+export const createMaxMinChunkerPlugin = (): ChunkerPlugin => ({
+	name: 'maxmin',
+	createChunker: (pluginOptions) => (content, options) =>
+		maxminChunker(content, {...pluginOptions, ...options})
+})
+
+export const registerMaxMinChunker = (): void => {
+	registerChunkerPlugin(createMaxMinChunkerPlugin())
+}
+
+registerMaxMinChunker()
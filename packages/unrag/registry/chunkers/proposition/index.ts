@@ -0,0 +1,75 @@
+import {extractPropositionsWithLlm} from '@registry/chunkers/_shared/llm'
+import {
+	countTokens,
+	mergeSplits,
+	splitSentences
+} from '@registry/chunkers/_shared/text'
+import {
+	locateChunkSpans,
+	registerChunkerPlugin,
+	resolveChunkingOptions
+} from '@registry/core/chunking'
+import type {
+	ChunkText,
+	Chunker,
+	ChunkerPlugin,
+	ChunkingOptions
+} from '@registry/core/types'
+
+/**
+ * Proposition chunking: the document is cut into windows of up to `chunkSize`
+ * tokens and an LLM rewrites each window as standalone, single-fact propositions.
+ * Every proposition becomes one chunk; its span metadata points at the source
+ * window. Windows the LLM fails on are kept as-is.
+ */
+export const propositionChunker: Chunker = async (
+	content: string,
+	options: ChunkingOptions
+): Promise<ChunkText[]> => {
+	const resolved = resolveChunkingOptions(options)
+	const {chunkSize, minChunkSize = 24} = resolved
+
+	if (!content.trim()) {
+		return []
+	}
+
+	const windows = mergeSplits(
+		splitSentences(content),
+		chunkSize,
+		0,
+		minChunkSize
+	)
+	const spans = locateChunkSpans(content, windows)
+
+	const chunks: ChunkText[] = []
+	for (let w = 0; w < windows.length; w++) {
+		const window = windows[w] ?? ''
+		const span = spans[w]
+		const propositions = (await extractPropositionsWithLlm({
+			content: window,
+			model: options.model
+		})) ?? [window]
+
+		for (const proposition of propositions) {
+			chunks.push({
+				index: chunks.length,
+				content: proposition,
+				tokenCount: countTokens(proposition),
+				...(span ? {metadata: {...span}} : {})
+			})
+		}
+	}
+
+	return chunks
+}
+
+export const createPropositionChunkerPlugin = (): ChunkerPlugin => ({
+	name: 'proposition',
+	createChunker: () => propositionChunker
+})
+
+export const registerPropositionChunker = (): void => {
+	registerChunkerPlugin(createPropositionChunkerPlugin())
+}
+
+registerPropositionChunker()
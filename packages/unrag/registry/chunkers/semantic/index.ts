@@ -1,5 +1,9 @@
 import {splitWithLlm} from '@registry/chunkers/_shared/llm'
-import {countTokens, mergeSplits} from '@registry/chunkers/_shared/text'
+import {
+	countTokens,
+	mergeSplits,
+	splitSentences
+} from '@registry/chunkers/_shared/text'
 import {
 	registerChunkerPlugin,
 	resolveChunkingOptions
@@ -11,37 +15,6 @@ import type {
 	ChunkingOptions
 } from '@registry/core/types'
 
-const splitSentences = (text: string): string[] => {
-	const splits: string[] = []
-	let buffer = ''
-
-	for (let i = 0; i < text.length; i++) {
-		const ch = text[i]
-		buffer += ch
-
-		if (ch === '.' || ch === '!' || ch === '?') {
-			const next = text[i + 1]
-			if (!next || /\s/.test(next)) {
-				if (buffer.trim()) {
-					splits.push(buffer)
-				}
-				buffer = ''
-			}
-		} else if (ch === '\n' && text[i + 1] === '\n') {
-			if (buffer.trim()) {
-				splits.push(buffer)
-			}
-			buffer = ''
-		}
-	}
-
-	if (buffer.trim()) {
-		splits.push(buffer)
-	}
-
-	return splits
-}
-
 const fallbackSemanticSplits = (content: string): string[] => {
 	return splitSentences(content)
 }
@@ -0,0 +1,97 @@
+/**
+ * Minimal glob matching for include/exclude filters.
+ *
+ * Supports `**`, `*`, `?`, `{a,b}` and `[...]` classes, matched against
+ * forward-slash paths relative to the sync root. Patterns without a `/`
+ * match the file name at any depth, like `.gitignore`.
+ */
+
+const escapeRegExp = (c: string) => c.replace(/[.+^$()|\\]/g, '\\$&')
+
+export function globToRegExp(pattern: string): RegExp {
+	let glob = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '/**')
+	if (!glob.includes('/')) {
+		glob = `**/${glob}`
+	} else if (glob.startsWith('/')) {
+		glob = glob.slice(1)
+	}
+
+	let re = ''
+	let braceDepth = 0
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i] as string
+		if (c === '*') {
+			if (glob[i + 1] === '*') {
+				const atStart = i === 0 || glob[i - 1] === '/'
+				const atEnd = i + 2 === glob.length || glob[i + 2] === '/'
+				if (atStart && atEnd) {
+					// `**/` matches zero or more directories; a trailing `**` matches everything below.
+					re += i + 2 === glob.length ? '.*' : '(?:.*/)?'
+					i += 2
+					continue
+				}
+				i++
+			}
+			re += '[^/]*'
+		} else if (c === '?') {
+			re += '[^/]'
+		} else if (c === '[') {
+			const end = glob.indexOf(']', i + 1)
+			if (end === -1) {
+				re += '\\['
+			} else {
+				const body = glob.slice(i + 1, end).replace(/^!/, '^')
+				re += `[${body.replace(/\\/g, '\\\\')}]`
+				i = end
+			}
+		} else if (c === '{') {
+			braceDepth++
+			re += '(?:'
+		} else if (c === '}' && braceDepth > 0) {
+			braceDepth--
+			re += ')'
+		} else if (c === ',' && braceDepth > 0) {
+			re += '|'
+		} else {
+			re += escapeRegExp(c)
+		}
+	}
+	return new RegExp(`^${re}$`)
+}
+
+export type PathFilter = {
+	/** True if the file should be synced. */
+	matches: (relativePath: string) => boolean
+	/** True if nothing below the directory can be synced, so the walk can skip it. */
+	skipsDirectory: (relativePath: string) => boolean
+}
+
+export function createPathFilter(args: {
+	include?: string[]
+	exclude?: string[]
+}): PathFilter {
+	const include = (args.include ?? []).filter(Boolean).map(globToRegExp)
+	const exclude = (args.exclude ?? []).filter(Boolean).map(globToRegExp)
+
+	const excluded = (p: string) => exclude.some((re) => re.test(p))
+	// A directory is skipped when an exclude pattern matches the directory
+	// itself (`node_modules`) or everything below it (`dist/**`).
+	const skipsDirectory = (p: string) => excluded(p) || excluded(`${p}/`)
+	const inSkippedDirectory = (p: string) => {
+		const parts = p.split('/')
+		for (let i = 1; i < parts.length; i++) {
+			if (skipsDirectory(parts.slice(0, i).join('/'))) {
+				return true
+			}
+		}
+		return false
+	}
+
+	return {
+		matches: (p) =>
+			!excluded(p) &&
+			(include.length === 0 || include.some((re) => re.test(p))) &&
+			!inSkippedDirectory(p),
+		skipsDirectory
+	}
+}
@@ -0,0 +1,12 @@
+export {
+	createPathFilter,
+	globToRegExp
+} from '@registry/connectors/filesystem/glob'
+export {
+	buildFilesystemSourceId,
+	filesystemConnector,
+	streamDirectory,
+	toFilesystemIngestPayload,
+	watchDirectory
+} from '@registry/connectors/filesystem/sync'
+export * from '@registry/connectors/filesystem/types'
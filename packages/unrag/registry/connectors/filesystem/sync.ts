@@ -0,0 +1,422 @@
+import {createHash} from 'node:crypto'
+import {watch as fsWatch} from 'node:fs'
+import {readFile, readdir, stat} from 'node:fs/promises'
+import path from 'node:path'
+import {
+	type PathFilter,
+	createPathFilter
+} from '@registry/connectors/filesystem/glob'
+import type {
+	FilesystemCheckpoint,
+	FilesystemFileState,
+	StreamFilesystemInput,
+	WatchFilesystemInput
+} from '@registry/connectors/filesystem/types'
+import type {ConnectorStream} from '@registry/core/connectors'
+import type {AssetInput, Metadata} from '@registry/core/types'
+
+const DEFAULT_MAX_BYTES = 15 * 1024 * 1024 // 15MB
+const DEFAULT_EXCLUDE = ['node_modules', '.*']
+const CHECKPOINT_EVERY = 100
+
+const joinPrefix = (prefix: string | undefined, rest: string) => {
+	const p = (prefix ?? '').trim()
+	if (!p) {
+		return rest
+	}
+	return p.endsWith(':') ? p + rest : `${p}:${rest}`
+}
+
+export const buildFilesystemSourceId = (
+	prefix: string | undefined,
+	relativePath: string
+) => joinPrefix(prefix, `fs:path:${relativePath}`)
+
+const asMessage = (err: unknown): string => {
+	if (err instanceof Error) {
+		return err.message
+	}
+	try {
+		return typeof err === 'string' ? err : JSON.stringify(err)
+	} catch {
+		return String(err)
+	}
+}
+
+const isNotFound = (err: unknown) =>
+	(err as {code?: unknown} | null)?.code === 'ENOENT'
+
+/**
+ * Media types for files that are routed to extractors as assets instead of
+ * being decoded as text. HTML goes through `file:text`, which strips markup.
+ */
+const ASSET_TYPES: Record<
+	string,
+	{kind: AssetInput['kind']; mediaType: string}
+> = {
+	pdf: {kind: 'pdf', mediaType: 'application/pdf'},
+	docx: {
+		kind: 'file',
+		mediaType:
+			'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+	},
+	pptx: {
+		kind: 'file',
+		mediaType:
+			'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+	},
+	xlsx: {
+		kind: 'file',
+		mediaType:
+			'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+	},
+	html: {kind: 'file', mediaType: 'text/html'},
+	htm: {kind: 'file', mediaType: 'text/html'},
+	png: {kind: 'image', mediaType: 'image/png'},
+	jpg: {kind: 'image', mediaType: 'image/jpeg'},
+	jpeg: {kind: 'image', mediaType: 'image/jpeg'},
+	gif: {kind: 'image', mediaType: 'image/gif'},
+	webp: {kind: 'image', mediaType: 'image/webp'},
+	mp3: {kind: 'audio', mediaType: 'audio/mpeg'},
+	wav: {kind: 'audio', mediaType: 'audio/wav'},
+	m4a: {kind: 'audio', mediaType: 'audio/mp4'},
+	mp4: {kind: 'video', mediaType: 'video/mp4'},
+	mov: {kind: 'video', mediaType: 'video/quicktime'},
+	webm: {kind: 'video', mediaType: 'video/webm'}
+}
+
+/** A NUL byte in the first 8KB is the usual "this is binary" heuristic. */
+const looksBinary = (bytes: Uint8Array) => bytes.subarray(0, 8192).includes(0)
+
+/**
+ * Turn file bytes into ingest content: known document/media types and other
+ * binary files become a single bytes asset, everything else is UTF-8 text.
+ */
+export function toFilesystemIngestPayload(
+	relativePath: string,
+	bytes: Uint8Array
+): {content: string; assets: AssetInput[]} {
+	const filename = path.posix.basename(relativePath)
+	const ext = path.posix.extname(filename).slice(1).toLowerCase()
+	const known = ASSET_TYPES[ext]
+	if (!known && !looksBinary(bytes)) {
+		return {
+			content: new TextDecoder('utf-8', {fatal: false}).decode(bytes),
+			assets: []
+		}
+	}
+	return {
+		content: '',
+		assets: [
+			{
+				assetId: relativePath,
+				kind: known?.kind ?? 'file',
+				data: {
+					kind: 'bytes',
+					bytes,
+					mediaType: known?.mediaType ?? 'application/octet-stream',
+					filename
+				}
+			}
+		]
+	}
+}
+
+const toPosix = (p: string) => p.split(path.sep).join('/')
+
+async function* walkFiles(
+	rootDir: string,
+	filter: PathFilter,
+	dir = ''
+): AsyncGenerator<string> {
+	const entries = await readdir(path.join(rootDir, dir), {
+		withFileTypes: true
+	})
+	entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+	for (const entry of entries) {
+		const rel = dir ? `${dir}/${entry.name}` : entry.name
+		// Symlinks are not followed, so links out of the root can't leak in.
+		if (entry.isDirectory()) {
+			if (!filter.skipsDirectory(rel)) {
+				yield* walkFiles(rootDir, filter, rel)
+			}
+		} else if (entry.isFile() && filter.matches(rel)) {
+			yield rel
+		}
+	}
+}
+
+type SyncContext = {
+	rootDir: string
+	input: StreamFilesystemInput
+	filter: PathFilter
+	maxBytesPerFile: number
+	deleteOnRemoved: boolean
+	files: Record<string, FilesystemFileState>
+}
+
+const createSyncContext = (input: StreamFilesystemInput): SyncContext => {
+	const rootDir = path.resolve(String(input.rootDir ?? '').trim() || '.')
+	const options = input.options ?? {}
+	if (
+		input.checkpoint &&
+		path.resolve(input.checkpoint.rootDir) !== rootDir
+	) {
+		throw new Error(
+			`Filesystem checkpoint is for ${input.checkpoint.rootDir}, not ${rootDir}`
+		)
+	}
+	return {
+		rootDir,
+		input,
+		filter: createPathFilter({
+			include: options.include,
+			exclude: options.exclude ?? DEFAULT_EXCLUDE
+		}),
+		maxBytesPerFile: options.maxBytesPerFile ?? DEFAULT_MAX_BYTES,
+		deleteOnRemoved: options.deleteOnRemoved ?? true,
+		files: {...input.checkpoint?.files}
+	}
+}
+
+const checkpointOf = (ctx: SyncContext): FilesystemCheckpoint => ({
+	rootDir: ctx.rootDir,
+	files: {...ctx.files}
+})
+
+/**
+ * Compare one path with the checkpoint and emit what changed: an upsert for
+ * new or edited files, a delete for files that are gone, nothing otherwise.
+ */
+async function* syncPath(
+	ctx: SyncContext,
+	rel: string,
+	current?: number
+): ConnectorStream<FilesystemCheckpoint> {
+	const sourceId = buildFilesystemSourceId(ctx.input.sourceIdPrefix, rel)
+	const previous = ctx.files[rel]
+	const abs = path.join(ctx.rootDir, rel)
+
+	try {
+		const info = await stat(abs)
+		if (!info.isFile() || !ctx.filter.matches(rel)) {
+			throw Object.assign(new Error('not a synced file'), {
+				code: 'ENOENT'
+			})
+		}
+		if (
+			previous &&
+			previous.mtimeMs === info.mtimeMs &&
+			previous.size === info.size
+		) {
+			return
+		}
+		if (info.size > ctx.maxBytesPerFile) {
+			yield {
+				type: 'warning',
+				code: 'file_skipped',
+				message: `Skipping file because it exceeds maxBytesPerFile (${ctx.maxBytesPerFile}).`,
+				data: {path: rel, sourceId, reason: 'too_large'}
+			}
+			return
+		}
+
+		const bytes = new Uint8Array(await readFile(abs))
+		const hash = createHash('sha256').update(bytes).digest('hex')
+		ctx.files[rel] = {mtimeMs: info.mtimeMs, size: info.size, hash}
+		if (previous?.hash === hash) {
+			// Touched but not edited.
+			return
+		}
+
+		yield {
+			type: 'progress',
+			message: 'file:start',
+			current,
+			sourceId,
+			entityId: rel
+		}
+
+		const {content, assets} = toFilesystemIngestPayload(rel, bytes)
+		const metadata: Metadata = {
+			connector: 'filesystem',
+			kind: 'file',
+			path: rel,
+			name: path.posix.basename(rel),
+			extension: path.posix.extname(rel).slice(1).toLowerCase(),
+			size: info.size,
+			modifiedAt: info.mtime.toISOString(),
+			contentHash: hash
+		}
+		yield {type: 'upsert', input: {sourceId, content, assets, metadata}}
+
+		yield {
+			type: 'progress',
+			message: 'file:success',
+			current,
+			sourceId,
+			entityId: rel
+		}
+	} catch (err) {
+		if (!isNotFound(err)) {
+			yield {
+				type: 'warning',
+				code: 'file_error',
+				message: asMessage(err),
+				data: {path: rel, sourceId}
+			}
+			return
+		}
+		if (previous) {
+			delete ctx.files[rel]
+			if (ctx.deleteOnRemoved) {
+				yield {type: 'delete', input: {sourceId}}
+			}
+		}
+	}
+}
+
+async function* syncDirectory(
+	ctx: SyncContext
+): ConnectorStream<FilesystemCheckpoint> {
+	const seen = new Set<string>()
+	let processed = 0
+
+	for await (const rel of walkFiles(ctx.rootDir, ctx.filter)) {
+		seen.add(rel)
+		processed += 1
+		yield* syncPath(ctx, rel, processed)
+		// Files not reached yet keep their old state, so an interrupted run
+		// resumes without re-reading finished files or deleting pending ones.
+		if (processed % CHECKPOINT_EVERY === 0) {
+			yield {type: 'checkpoint', checkpoint: checkpointOf(ctx)}
+		}
+	}
+
+	for (const rel of Object.keys(ctx.files)) {
+		if (!seen.has(rel)) {
+			yield* syncPath(ctx, rel)
+		}
+	}
+
+	yield {type: 'checkpoint', checkpoint: checkpointOf(ctx)}
+}
+
+/**
+ * Stream a local directory as connector events.
+ *
+ * New and edited files are emitted as upserts and, with `deleteOnRemoved`,
+ * files listed in the checkpoint but gone from disk as deletes.
+ */
+export async function* streamDirectory(
+	input: StreamFilesystemInput
+): ConnectorStream<FilesystemCheckpoint> {
+	yield* syncDirectory(createSyncContext(input))
+}
+
+/**
+ * Sync a directory, then keep streaming changes as files are edited, added or
+ * removed, until `signal` aborts. Uses recursive `fs.watch`, so it needs
+ * Node 20+ (or Bun) on Linux.
+ */
+export async function* watchDirectory(
+	input: WatchFilesystemInput
+): ConnectorStream<FilesystemCheckpoint> {
+	const ctx = createSyncContext(input)
+	const debounceMs = input.debounceMs ?? 200
+	if (input.signal?.aborted) {
+		return
+	}
+
+	// Start watching before the initial sync so edits made during it are not lost.
+	const pending = new Set<string>()
+	let wake: (() => void) | undefined
+	const notify = () => {
+		wake?.()
+		wake = undefined
+	}
+	const watcher = fsWatch(ctx.rootDir, {recursive: true}, (_event, file) => {
+		if (file) {
+			pending.add(toPosix(String(file)))
+			notify()
+		}
+	})
+	const onAbort = () => notify()
+	input.signal?.addEventListener('abort', onAbort)
+
+	const nextEvent = () =>
+		new Promise<void>((resolve) => {
+			wake = resolve
+		})
+	const quietPeriod = async () => {
+		while (!input.signal?.aborted) {
+			const ticked = await Promise.race([
+				nextEvent().then(() => true),
+				new Promise<false>((resolve) =>
+					setTimeout(() => resolve(false), debounceMs)
+				)
+			])
+			if (!ticked) {
+				return
+			}
+		}
+	}
+
+	try {
+		yield* syncDirectory(ctx)
+
+		while (!input.signal?.aborted) {
+			if (pending.size === 0) {
+				await nextEvent()
+				continue
+			}
+			await quietPeriod()
+			if (input.signal?.aborted) {
+				break
+			}
+
+			const batch = [...pending].sort()
+			pending.clear()
+			for (const changed of batch) {
+				// A directory event (rename, delete) covers every known file below it.
+				const known = Object.keys(ctx.files).filter((rel) =>
+					rel.startsWith(`${changed}/`)
+				)
+				const info = await stat(path.join(ctx.rootDir, changed)).catch(
+					() => null
+				)
+				if (info?.isDirectory()) {
+					if (!ctx.filter.skipsDirectory(changed)) {
+						const onDisk = new Set<string>()
+						const walk = walkFiles(ctx.rootDir, ctx.filter, changed)
+						for await (const rel of walk) {
+							onDisk.add(rel)
+							yield* syncPath(ctx, rel)
+						}
+						for (const rel of known) {
+							if (!onDisk.has(rel)) {
+								yield* syncPath(ctx, rel)
+							}
+						}
+					}
+					continue
+				}
+				for (const rel of [changed, ...known]) {
+					yield* syncPath(ctx, rel)
+				}
+			}
+			yield {type: 'checkpoint', checkpoint: checkpointOf(ctx)}
+		}
+	} finally {
+		input.signal?.removeEventListener('abort', onAbort)
+		watcher.close()
+	}
+}
+
+/**
+ * Exported connector surface for local files.
+ */
+export const filesystemConnector = {
+	streamDirectory,
+	watch: watchDirectory
+}
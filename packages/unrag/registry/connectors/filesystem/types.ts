@@ -0,0 +1,61 @@
+/**
+ * What the connector remembers about a synced file.
+ * Unchanged `mtimeMs` + `size` skip the read; otherwise the hash decides.
+ */
+export type FilesystemFileState = {
+	mtimeMs: number
+	size: number
+	/** sha256 of the file bytes (hex). */
+	hash: string
+}
+
+/**
+ * Opaque, JSON-serializable checkpoint for incremental directory syncs.
+ * Store this in your DB/KV and pass it back to `streamDirectory` / `watchDirectory`.
+ * Files in the checkpoint that are no longer on disk are emitted as deletes.
+ */
+export type FilesystemCheckpoint = {
+	/** Root directory being synced (for sanity checks). */
+	rootDir: string
+	/** Known files keyed by their path relative to `rootDir` (forward slashes). */
+	files: Record<string, FilesystemFileState>
+}
+
+export type StreamFilesystemOptions = {
+	/**
+	 * Globs (relative to `rootDir`) of files to sync. Default: every file.
+	 * Patterns without a `/` match at any depth (`*.md` matches `docs/a.md`).
+	 */
+	include?: string[]
+	/**
+	 * Globs of files or directories to skip. Excludes win over includes.
+	 * Default: `node_modules`, `.git` and dotfiles.
+	 */
+	exclude?: string[]
+	/** Max bytes to read per file. Default: 15MB. */
+	maxBytesPerFile?: number
+	/** Emit delete events for files that disappeared since the checkpoint. Default: true. */
+	deleteOnRemoved?: boolean
+}
+
+export type StreamFilesystemInput = {
+	/** Directory to sync. Relative paths resolve against `process.cwd()`. */
+	rootDir: string
+	/**
+	 * Optional namespace prefix, useful for multi-tenant apps:
+	 * `tenant:acme:` -> `tenant:acme:fs:path:<relativePath>`
+	 */
+	sourceIdPrefix?: string
+	options?: StreamFilesystemOptions
+	/**
+	 * Optional checkpoint from a previous run. Without one, every file is emitted.
+	 */
+	checkpoint?: FilesystemCheckpoint
+}
+
+export type WatchFilesystemInput = StreamFilesystemInput & {
+	/** Stops watching (the stream then ends). */
+	signal?: AbortSignal
+	/** Quiet period before a burst of file events is synced. Default: 200ms. */
+	debounceMs?: number
+}
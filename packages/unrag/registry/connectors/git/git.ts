@@ -0,0 +1,237 @@
+import {spawn} from 'node:child_process'
+
+/**
+ * Thin wrappers around the `git` CLI. The connector shells out instead of
+ * depending on a git library, so `git` must be on the PATH.
+ */
+
+const gitError = (args: string[], exitCode: number | null, stderr: string) =>
+	Object.assign(
+		new Error(
+			`git ${args.join(' ')} failed${exitCode === null ? '' : ` (exit ${exitCode})`}: ${stderr.trim() || 'no output'}`
+		),
+		{exitCode}
+	)
+
+export function runGit(
+	repoDir: string,
+	args: string[],
+	input?: string
+): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const child = spawn('git', ['-C', repoDir, ...args], {
+			stdio: ['pipe', 'pipe', 'pipe']
+		})
+		const stdout: Buffer[] = []
+		const stderr: Buffer[] = []
+		child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk))
+		child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk))
+		child.on('error', reject)
+		child.on('close', (code) => {
+			if (code === 0) {
+				resolve(Buffer.concat(stdout))
+			} else {
+				reject(gitError(args, code, Buffer.concat(stderr).toString()))
+			}
+		})
+		child.stdin.end(input)
+	})
+}
+
+/** Split NUL-terminated `-z` output. */
+const splitNul = (out: Buffer) => out.toString('utf8').split('\0').slice(0, -1)
+
+/** Full SHA of the commit `ref` points to. */
+export async function resolveCommit(
+	repoDir: string,
+	ref: string
+): Promise<string> {
+	const out = await runGit(repoDir, [
+		'rev-parse',
+		'--verify',
+		'--end-of-options',
+		`${ref}^{commit}`
+	])
+	return out.toString('utf8').trim()
+}
+
+export async function commitExists(
+	repoDir: string,
+	commit: string
+): Promise<boolean> {
+	try {
+		await runGit(repoDir, ['cat-file', '-e', `${commit}^{commit}`])
+		return true
+	} catch {
+		return false
+	}
+}
+
+export type GitTreeEntry = {
+	path: string
+	/** Blob SHA. */
+	blob: string
+	size: number
+}
+
+/**
+ * Regular files tracked at `commit`, keyed by path. Symlinks and submodules
+ * are left out since they have no content of their own.
+ */
+export async function listTree(
+	repoDir: string,
+	commit: string
+): Promise<Map<string, GitTreeEntry>> {
+	const out = await runGit(repoDir, ['ls-tree', '-r', '-z', '--long', commit])
+	const entries = new Map<string, GitTreeEntry>()
+	for (const line of splitNul(out)) {
+		// `<mode> SP <type> SP <object> SP+ <size> TAB <path>`
+		const tab = line.indexOf('\t')
+		const [mode, type, blob, size] = line.slice(0, tab).split(/\s+/)
+		if (type !== 'blob' || mode === '120000' || !blob) {
+			continue
+		}
+		const p = line.slice(tab + 1)
+		entries.set(p, {path: p, blob, size: Number(size)})
+	}
+	return entries
+}
+
+export type GitChange = {
+	status: 'upsert' | 'delete'
+	path: string
+	/** The path existed in the older commit, so an earlier sync may have ingested it. */
+	existed?: boolean
+}
+
+/**
+ * Files that differ between two commits. Renames are reported as a delete of
+ * the old path plus an upsert of the new one.
+ */
+export async function diffCommits(
+	repoDir: string,
+	from: string,
+	to: string
+): Promise<GitChange[]> {
+	const out = await runGit(repoDir, [
+		'diff',
+		'--name-status',
+		'--no-renames',
+		'-z',
+		from,
+		to
+	])
+	const fields = splitNul(out)
+	const changes: GitChange[] = []
+	for (let i = 0; i + 1 < fields.length; i += 2) {
+		const status = fields[i] as string
+		const p = fields[i + 1] as string
+		changes.push({
+			status: status === 'D' ? 'delete' : 'upsert',
+			path: p,
+			existed: status !== 'A'
+		})
+	}
+	return changes
+}
+
+/**
+ * Paths matched by the repository's ignore rules (`.gitignore`,
+ * `.git/info/exclude`, `core.excludesFile`), checked without regard to
+ * whether they are tracked. Returns an empty set for bare repositories.
+ */
+export async function ignoredPaths(
+	repoDir: string,
+	paths: string[]
+): Promise<Set<string>> {
+	if (paths.length === 0) {
+		return new Set()
+	}
+	try {
+		const out = await runGit(
+			repoDir,
+			['check-ignore', '--no-index', '-z', '--stdin'],
+			`${paths.join('\0')}\0`
+		)
+		return new Set(splitNul(out))
+	} catch (err) {
+		// Exit code 1 means nothing matched; 128 means there is no work tree.
+		if (
+			typeof (err as {exitCode?: unknown} | null)?.exitCode === 'number'
+		) {
+			return new Set()
+		}
+		throw err
+	}
+}
+
+export type BlobReader = {
+	read: (blob: string) => Promise<Uint8Array>
+	close: () => void
+}
+
+/**
+ * Read blobs through one long-lived `git cat-file --batch` process instead of
+ * spawning git per file.
+ */
+export function createBlobReader(repoDir: string): BlobReader {
+	const child = spawn('git', ['-C', repoDir, 'cat-file', '--batch'], {
+		stdio: ['pipe', 'pipe', 'ignore']
+	})
+	const pending: {
+		resolve: (bytes: Uint8Array) => void
+		reject: (err: Error) => void
+	}[] = []
+	let buffer: Buffer = Buffer.alloc(0)
+
+	const failAll = (err: Error) => {
+		for (const p of pending.splice(0)) {
+			p.reject(err)
+		}
+	}
+
+	child.stdout.on('data', (chunk: Buffer) => {
+		buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk])
+		while (pending.length > 0) {
+			const newline = buffer.indexOf(10)
+			if (newline === -1) {
+				return
+			}
+			// `<sha> <type> <size>\n<bytes>\n` or `<object> missing\n`
+			const header = buffer
+				.subarray(0, newline)
+				.toString('utf8')
+				.split(' ')
+			if (header[1] === 'missing') {
+				buffer = buffer.subarray(newline + 1)
+				pending
+					.shift()
+					?.reject(new Error(`git object ${header[0]} is missing`))
+				continue
+			}
+			const size = Number(header[2])
+			const end = newline + 1 + size
+			if (buffer.length < end + 1) {
+				return
+			}
+			const bytes = new Uint8Array(buffer.subarray(newline + 1, end))
+			buffer = buffer.subarray(end + 1)
+			pending.shift()?.resolve(bytes)
+		}
+	})
+	child.on('error', failAll)
+	child.on('close', () => failAll(new Error('git cat-file exited')))
+	// Writes after close are surfaced through the pending rejection above.
+	child.stdin.on('error', () => {})
+
+	return {
+		read: (blob) =>
+			new Promise((resolve, reject) => {
+				pending.push({resolve, reject})
+				child.stdin.write(`${blob}\n`)
+			}),
+		close: () => {
+			child.stdin.end()
+		}
+	}
+}
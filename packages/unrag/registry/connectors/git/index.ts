@@ -0,0 +1,12 @@
+export {createPathFilter, globToRegExp} from '@registry/connectors/git/glob'
+export {
+	CODE_CHUNKER_LANGUAGES,
+	detectGitFileLanguage
+} from '@registry/connectors/git/language'
+export {
+	buildGitSourceId,
+	gitConnector,
+	streamRepository,
+	toGitIngestPayload
+} from '@registry/connectors/git/sync'
+export * from '@registry/connectors/git/types'
@@ -0,0 +1,79 @@
+import path from 'node:path'
+
+/**
+ * Language names by file extension. Names match what the `code` chunker
+ * accepts as `chunking.language` where it supports the language.
+ */
+const EXTENSION_LANGUAGE: Record<string, string> = {
+	ts: 'typescript',
+	tsx: 'typescript',
+	mts: 'typescript',
+	cts: 'typescript',
+	js: 'javascript',
+	jsx: 'javascript',
+	mjs: 'javascript',
+	cjs: 'javascript',
+	py: 'python',
+	pyi: 'python',
+	go: 'go',
+	rs: 'rust',
+	java: 'java',
+	kt: 'kotlin',
+	kts: 'kotlin',
+	scala: 'scala',
+	swift: 'swift',
+	c: 'c',
+	h: 'c',
+	cc: 'cpp',
+	cpp: 'cpp',
+	cxx: 'cpp',
+	hpp: 'cpp',
+	cs: 'csharp',
+	rb: 'ruby',
+	php: 'php',
+	ex: 'elixir',
+	exs: 'elixir',
+	lua: 'lua',
+	dart: 'dart',
+	sh: 'shell',
+	bash: 'shell',
+	zsh: 'shell',
+	sql: 'sql',
+	graphql: 'graphql',
+	gql: 'graphql',
+	proto: 'protobuf',
+	vue: 'vue',
+	svelte: 'svelte',
+	css: 'css',
+	scss: 'scss',
+	html: 'html',
+	md: 'markdown',
+	mdx: 'markdown',
+	json: 'json',
+	yaml: 'yaml',
+	yml: 'yaml',
+	toml: 'toml',
+	xml: 'xml'
+}
+
+const FILENAME_LANGUAGE: Record<string, string> = {
+	dockerfile: 'dockerfile',
+	makefile: 'makefile'
+}
+
+/** Languages the `code` chunker can split along syntax boundaries. */
+export const CODE_CHUNKER_LANGUAGES = new Set([
+	'typescript',
+	'javascript',
+	'python',
+	'go'
+])
+
+/** Language of a file from its name, or `undefined` if unknown. */
+export function detectGitFileLanguage(filePath: string): string | undefined {
+	const name = path.posix.basename(filePath).toLowerCase()
+	const ext = path.posix.extname(name).slice(1)
+	return (
+		FILENAME_LANGUAGE[name] ?? (ext ? EXTENSION_LANGUAGE[ext] : undefined)
+	)
+}
@@ -0,0 +1,310 @@
+import path from 'node:path'
+import {
+	type GitChange,
+	commitExists,
+	createBlobReader,
+	diffCommits,
+	ignoredPaths,
+	listTree,
+	resolveCommit
+} from '@registry/connectors/git/git'
+import {createPathFilter} from '@registry/connectors/git/glob'
+import {
+	CODE_CHUNKER_LANGUAGES,
+	detectGitFileLanguage
+} from '@registry/connectors/git/language'
+import type {
+	GitCheckpoint,
+	StreamGitInput
+} from '@registry/connectors/git/types'
+import {getChunkerPlugin} from '@registry/core/chunking'
+import type {ConnectorStream} from '@registry/core/connectors'
+import type {AssetInput, IngestInput, Metadata} from '@registry/core/types'
+
+const DEFAULT_MAX_BYTES = 1024 * 1024 // 1MB
+
+const joinPrefix = (prefix: string | undefined, rest: string) => {
+	const p = (prefix ?? '').trim()
+	if (!p) {
+		return rest
+	}
+	return p.endsWith(':') ? p + rest : `${p}:${rest}`
+}
+
+export const buildGitSourceId = (
+	prefix: string | undefined,
+	filePath: string
+) => joinPrefix(prefix, `git:path:${filePath}`)
+
+const asMessage = (err: unknown): string => {
+	if (err instanceof Error) {
+		return err.message
+	}
+	try {
+		return typeof err === 'string' ? err : JSON.stringify(err)
+	} catch {
+		return String(err)
+	}
+}
+
+/**
+ * Documents committed alongside code that are routed to extractors as assets.
+ * Other binary files (fonts, archives, builds) are skipped.
+ */
+const ASSET_TYPES: Record<
+	string,
+	{kind: AssetInput['kind']; mediaType: string}
+> = {
+	pdf: {kind: 'pdf', mediaType: 'application/pdf'},
+	docx: {
+		kind: 'file',
+		mediaType:
+			'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+	},
+	pptx: {
+		kind: 'file',
+		mediaType:
+			'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+	},
+	xlsx: {
+		kind: 'file',
+		mediaType:
+			'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+	},
+	png: {kind: 'image', mediaType: 'image/png'},
+	jpg: {kind: 'image', mediaType: 'image/jpeg'},
+	jpeg: {kind: 'image', mediaType: 'image/jpeg'},
+	gif: {kind: 'image', mediaType: 'image/gif'},
+	webp: {kind: 'image', mediaType: 'image/webp'}
+}
+
+/** A NUL byte in the first 8KB is the usual "this is binary" heuristic. */
+const looksBinary = (bytes: Uint8Array) => bytes.subarray(0, 8192).includes(0)
+
+/**
+ * Turn a file at `filePath` into ingest fields: text files become content
+ * with a `chunking.language` hint (and the code chunker, when it supports the
+ * language), known document types become a bytes asset. Returns `null` for
+ * other binary files.
+ */
+export function toGitIngestPayload(
+	filePath: string,
+	bytes: Uint8Array,
+	codeChunker?: IngestInput['chunker']
+): Pick<IngestInput, 'content' | 'assets' | 'chunker' | 'chunking'> | null {
+	const filename = path.posix.basename(filePath)
+	const ext = path.posix.extname(filename).slice(1).toLowerCase()
+	const known = ASSET_TYPES[ext]
+	if (known) {
+		return {
+			content: '',
+			assets: [
+				{
+					assetId: filePath,
+					kind: known.kind,
+					data: {
+						kind: 'bytes',
+						bytes,
+						mediaType: known.mediaType,
+						filename
+					}
+				}
+			]
+		}
+	}
+	if (looksBinary(bytes)) {
+		return null
+	}
+
+	const content = new TextDecoder('utf-8', {fatal: false}).decode(bytes)
+	const language = detectGitFileLanguage(filePath)
+	if (!language) {
+		return {content, assets: []}
+	}
+	const routed = codeChunker && CODE_CHUNKER_LANGUAGES.has(language)
+	return {
+		content,
+		assets: [],
+		chunking: {language},
+		...(routed ? {chunker: codeChunker} : {})
+	}
+}
+
+/**
+ * Stream the files of a local git repository at `ref` as connector events.
+ *
+ * Without a checkpoint every tracked file is emitted as an upsert. With one,
+ * only files changed between the checkpointed commit and `ref` are emitted,
+ * as upserts or (with `deleteOnRemoved`) deletes.
+ */
+export async function* streamRepository(
+	input: StreamGitInput
+): ConnectorStream<GitCheckpoint> {
+	const repoDir = path.resolve(String(input.repoDir ?? '').trim() || '.')
+	const ref = String(input.ref ?? '').trim() || 'HEAD'
+	const options = input.options ?? {}
+	const maxBytesPerFile = options.maxBytesPerFile ?? DEFAULT_MAX_BYTES
+	const deleteOnRemoved = options.deleteOnRemoved ?? true
+	const filter = createPathFilter({
+		include: options.include,
+		exclude: options.exclude
+	})
+	const previous = input.checkpoint
+	if (previous && path.resolve(previous.repoDir) !== repoDir) {
+		throw new Error(
+			`Git checkpoint is for ${previous.repoDir}, not ${repoDir}`
+		)
+	}
+
+	const commit = await resolveCommit(repoDir, ref)
+	const checkpoint: GitCheckpoint = {repoDir, ref, commit}
+	if (previous?.commit === commit) {
+		yield {type: 'checkpoint', checkpoint}
+		return
+	}
+
+	const tree = await listTree(repoDir, commit)
+	let changes: GitChange[]
+	if (previous && (await commitExists(repoDir, previous.commit))) {
+		changes = await diffCommits(repoDir, previous.commit, commit)
+	} else {
+		if (previous) {
+			yield {
+				type: 'warning',
+				code: 'checkpoint_unreachable',
+				message: `Checkpoint commit ${previous.commit} is not in the repository (history rewritten?); re-syncing every file. Files deleted since then are not removed.`,
+				data: {commit: previous.commit, ref}
+			}
+		}
+		changes = [...tree.keys()].map((p) => ({status: 'upsert', path: p}))
+	}
+	changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+
+	const ignored =
+		(options.respectGitignore ?? true)
+			? await ignoredPaths(
+					repoDir,
+					changes
+						.filter((c) => c.status === 'upsert')
+						.map((c) => c.path)
+				)
+			: new Set<string>()
+	const codeChunker =
+		options.codeChunker === false
+			? undefined
+			: (options.codeChunker ?? getChunkerPlugin('code')?.createChunker())
+
+	const reader = createBlobReader(repoDir)
+	try {
+		let processed = 0
+		for (const change of changes) {
+			const rel = change.path
+			if (!filter.matches(rel)) {
+				continue
+			}
+			const sourceId = buildGitSourceId(input.sourceIdPrefix, rel)
+			const entry = tree.get(rel)
+			// Deleted, or replaced by a symlink/submodule.
+			if (change.status === 'delete' || !entry) {
+				if (deleteOnRemoved) {
+					yield {type: 'delete', input: {sourceId}}
+				}
+				continue
+			}
+			// A changed file that is now ignored, binary or too large loses
+			// its earlier version too, instead of keeping stale content.
+			const dropStale = deleteOnRemoved && change.existed === true
+			if (ignored.has(rel)) {
+				if (dropStale) {
+					yield {type: 'delete', input: {sourceId}}
+				}
+				continue
+			}
+			if (entry.size > maxBytesPerFile) {
+				yield {
+					type: 'warning',
+					code: 'file_skipped',
+					message: `Skipping file because it exceeds maxBytesPerFile (${maxBytesPerFile}).`,
+					data: {path: rel, sourceId, reason: 'too_large'}
+				}
+				if (dropStale) {
+					yield {type: 'delete', input: {sourceId}}
+				}
+				continue
+			}
+
+			processed += 1
+			try {
+				const bytes = await reader.read(entry.blob)
+				const payload = toGitIngestPayload(rel, bytes, codeChunker)
+				if (!payload) {
+					yield {
+						type: 'warning',
+						code: 'file_skipped',
+						message: 'Skipping binary file.',
+						data: {path: rel, sourceId, reason: 'binary'}
+					}
+					if (dropStale) {
+						yield {type: 'delete', input: {sourceId}}
+					}
+					continue
+				}
+
+				yield {
+					type: 'progress',
+					message: 'file:start',
+					current: processed,
+					sourceId,
+					entityId: rel
+				}
+
+				const language = payload.chunking?.language
+				const metadata: Metadata = {
+					connector: 'git',
+					kind: 'file',
+					repo: path.basename(repoDir),
+					ref,
+					commit,
+					path: rel,
+					name: path.posix.basename(rel),
+					extension: path.posix.extname(rel).slice(1).toLowerCase(),
+					...(language ? {language} : {}),
+					size: entry.size,
+					blob: entry.blob
+				}
+				yield {
+					type: 'upsert',
+					input: {sourceId, ...payload, metadata}
+				}
+
+				yield {
+					type: 'progress',
+					message: 'file:success',
+					current: processed,
+					sourceId,
+					entityId: rel
+				}
+			} catch (err) {
+				yield {
+					type: 'warning',
+					code: 'file_error',
+					message: asMessage(err),
+					data: {path: rel, sourceId}
+				}
+			}
+		}
+	} finally {
+		reader.close()
+	}
+
+	// The commit is only recorded once every change is emitted, so an
+	// interrupted run repeats the whole diff next time.
+	yield {type: 'checkpoint', checkpoint}
+}
+
+/**
+ * Exported connector surface for local git repositories.
+ */
+export const gitConnector = {
+	streamRepository
+}
@@ -0,0 +1,60 @@
+import type {Chunker} from '@registry/core/types'
+
+/**
+ * Opaque, JSON-serializable checkpoint for incremental repository syncs.
+ * Store this in your DB/KV and pass it back to `streamRepository`.
+ * The next run only emits files changed between `commit` and the new ref.
+ */
+export type GitCheckpoint = {
+	/** Repository being synced (absolute top-level path, for sanity checks). */
+	repoDir: string
+	/** Ref the checkpoint was taken from, as passed in (e.g. `main`). */
+	ref: string
+	/** Full SHA of the last synced commit. */
+	commit: string
+}
+
+export type StreamGitOptions = {
+	/**
+	 * Globs (relative to the repository root) of files to sync. Default: every tracked file.
+	 * Patterns without a `/` match at any depth (`*.ts` matches `src/a.ts`).
+	 */
+	include?: string[]
+	/** Globs of files or directories to skip. Excludes win over includes. */
+	exclude?: string[]
+	/**
+	 * Also skip tracked files matched by `.gitignore` (for example a committed
+	 * `dist/` that was ignored later). Default: true.
+	 */
+	respectGitignore?: boolean
+	/** Max blob size to ingest. Larger files are skipped. Default: 1MB. */
+	maxBytesPerFile?: number
+	/**
+	 * Chunker for files in languages the `code` chunker parses (TypeScript,
+	 * JavaScript, Python, Go). Default: the registered `code` chunker plugin,
+	 * if installed. Pass `false` to use the engine's chunker for every file.
+	 */
+	codeChunker?: Chunker | false
+	/**
+	 * Emit delete events for files removed since the checkpoint, and for changed
+	 * files that are now ignored, binary or over `maxBytesPerFile`. Default: true.
+	 */
+	deleteOnRemoved?: boolean
+}
+
+export type StreamGitInput = {
+	/** Path to the repository (or any directory inside its work tree). */
+	repoDir: string
+	/** Branch, tag or commit to read. Default: `HEAD`. */
+	ref?: string
+	/**
+	 * Optional namespace prefix, useful for multi-tenant apps:
+	 * `repo:api:` -> `repo:api:git:path:<path>`
+	 */
+	sourceIdPrefix?: string
+	options?: StreamGitOptions
+	/**
+	 * Optional checkpoint from a previous run. Without one, every tracked file is emitted.
+	 */
+	checkpoint?: GitCheckpoint
+}
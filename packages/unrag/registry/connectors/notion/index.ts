@@ -4,11 +4,25 @@ export {
 	normalizeNotionPageId32,
 	toUuidHyphenated
 } from '@registry/connectors/notion/ids'
-export {renderNotionBlocksToText} from '@registry/connectors/notion/render'
+export {
+	notionPropertiesToMetadata,
+	notionPropertyToMetadataValue
+} from '@registry/connectors/notion/query'
+export {
+	collectNotionMentions,
+	renderNotionBlocksToMarkdown,
+	renderNotionBlocksToText
+} from '@registry/connectors/notion/render'
+export type {
+	NotionMentionNames,
+	RenderNotionMarkdownOptions
+} from '@registry/connectors/notion/render'
 export {
 	buildNotionPageIngestInput,
 	loadNotionPageDocument,
 	notionConnector,
-	streamPages
+	streamDatabase,
+	streamPages,
+	streamWorkspace
 } from '@registry/connectors/notion/sync'
 export * from '@registry/connectors/notion/types'
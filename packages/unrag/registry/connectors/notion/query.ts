@@ -0,0 +1,175 @@
+import type {Metadata, MetadataValue} from '@registry/core'
+
+/**
+ * Minimal structural view of a Notion page property value.
+ * (Kept structural so this module has no runtime dependency on @notionhq/client.)
+ */
+export type NotionPropertyValue = {
+	type: string
+	[key: string]: unknown
+}
+
+type NamedItem = {name?: string | null}
+type RichTextItem = {plain_text?: string}
+type DateValue = {start?: string | null; end?: string | null} | null
+
+const richText = (value: unknown): string =>
+	Array.isArray(value)
+		? (value as RichTextItem[]).map((t) => t.plain_text ?? '').join('')
+		: ''
+
+const dateStart = (value: unknown): string | null =>
+	(value as DateValue)?.start ?? null
+
+const formulaValue = (value: unknown): MetadataValue => {
+	const f = (value ?? {}) as {type?: string} & Record<string, unknown>
+	switch (f.type) {
+		case 'string':
+			return (f.string as string | null) ?? null
+		case 'number':
+			return (f.number as number | null) ?? null
+		case 'boolean':
+			return (f.boolean as boolean | null) ?? null
+		case 'date':
+			return dateStart(f.date)
+		default:
+			return null
+	}
+}
+
+/**
+ * Convert a single Notion property value into a metadata value.
+ * Returns `undefined` for property types that have no useful plain form
+ * (files, rollups, buttons, verification, ...).
+ */
+export function notionPropertyToMetadataValue(
+	property: NotionPropertyValue
+): MetadataValue | MetadataValue[] | undefined {
+	const value = property[property.type]
+	switch (property.type) {
+		case 'title':
+		case 'rich_text':
+			return richText(value)
+		case 'number':
+		case 'checkbox':
+		case 'url':
+		case 'email':
+		case 'phone_number':
+		case 'created_time':
+		case 'last_edited_time':
+			return (value as MetadataValue | undefined) ?? null
+		case 'select':
+		case 'status':
+			return (value as NamedItem | null)?.name ?? null
+		case 'multi_select':
+			return ((value as NamedItem[] | null) ?? []).map(
+				(o) => o.name ?? ''
+			)
+		case 'people':
+			return (
+				(value as Array<NamedItem & {id: string}> | null) ?? []
+			).map((p) => p.name ?? p.id)
+		case 'created_by':
+		case 'last_edited_by': {
+			const user = value as (NamedItem & {id?: string}) | null
+			return user?.name ?? user?.id ?? null
+		}
+		case 'relation':
+			return ((value as Array<{id: string}> | null) ?? []).map(
+				(r) => r.id
+			)
+		case 'date':
+			return dateStart(value)
+		case 'formula':
+			return formulaValue(value)
+		case 'unique_id': {
+			const id = value as {prefix?: string | null; number?: number | null}
+			if (id?.number === null || id?.number === undefined) {
+				return null
+			}
+			return id.prefix ? `${id.prefix}-${id.number}` : id.number
+		}
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Map Notion page properties into flat metadata, keyed by property name.
+ * Pass `names` to keep only some properties.
+ */
+export function notionPropertiesToMetadata(
+	properties: Record<string, NotionPropertyValue>,
+	names?: string[]
+): Metadata {
+	const out: Metadata = {}
+	const keep = names ? new Set(names) : null
+	for (const [name, property] of Object.entries(properties ?? {})) {
+		if (keep && !keep.has(name)) {
+			continue
+		}
+		const value = notionPropertyToMetadataValue(property)
+		if (value !== undefined) {
+			out[name] = value
+		}
+	}
+	return out
+}
+
+/**
+ * AND a `last_edited_time` lower bound into a database query filter.
+ * Top-level `and` filters are extended in place to stay within Notion's
+ * two-level nesting limit.
+ */
+export function withLastEditedSince(
+	filter: Record<string, unknown> | undefined,
+	since: string | undefined
+): Record<string, unknown> | undefined {
+	if (!since) {
+		return filter
+	}
+	const bound = {
+		timestamp: 'last_edited_time',
+		last_edited_time: {on_or_after: since}
+	}
+	if (!filter) {
+		return bound
+	}
+	if (Array.isArray(filter.and)) {
+		return {...filter, and: [...filter.and, bound]}
+	}
+	return {and: [filter, bound]}
+}
+
+/**
+ * The checkpoint to save after each page of a sync, in processing order.
+ *
+ * Pages may arrive in any order (custom sorts), so after page `i` the safe
+ * resume point is the oldest edit among pages not yet processed; after the
+ * last page it is the newest edit seen. Notion rounds `last_edited_time` to
+ * the minute, so the next sync starts on (not after) it and re-emits pages
+ * edited in that minute.
+ */
+export function lastEditedCheckpoints(
+	since: string | undefined,
+	lastEditedTimes: string[]
+): Array<string | undefined> {
+	const ms = (t: string | undefined) => (t ? Date.parse(t) : Number.NaN)
+	const out: Array<string | undefined> = new Array(lastEditedTimes.length)
+
+	let newest = since
+	for (const t of lastEditedTimes) {
+		if (!(ms(t) <= ms(newest))) {
+			newest = t || newest
+		}
+	}
+	let oldestRemaining: string | undefined
+	for (let i = lastEditedTimes.length - 1; i >= 0; i--) {
+		out[i] = oldestRemaining ?? newest
+		const t = lastEditedTimes[i]
+		if (t && !(ms(t) >= ms(oldestRemaining))) {
+			oldestRemaining = t
+		}
+	}
+	return out
+}
@@ -1,6 +1,24 @@
 import type {AssetInput, AssetKind, Metadata} from '@registry/core'
 
-type RichText = {plain_text?: string}
+type RichText = {
+	type?: string
+	plain_text?: string
+	href?: string | null
+	annotations?: {
+		bold?: boolean
+		italic?: boolean
+		strikethrough?: boolean
+		code?: boolean
+	}
+	equation?: {expression?: string}
+	mention?: {
+		type?: string
+		user?: {id?: string; name?: string | null}
+		page?: {id?: string}
+		database?: {id?: string}
+		date?: {start?: string | null; end?: string | null}
+	}
+}
 
 export type NotionBlock = {
 	id: string
@@ -27,6 +45,16 @@ interface BlockPayload {
 	external?: {url?: string}
 	file?: {url?: string}
 	media_type?: string
+	is_toggleable?: boolean
+	expression?: string
+	title?: string
+	url?: string
+	icon?: {type?: string; emoji?: string}
+	cells?: RichText[][]
+	has_column_header?: boolean
+	has_row_header?: boolean
+	page_id?: string
+	database_id?: string
 }
 
 /**
@@ -48,8 +76,6 @@ const rt = (value: unknown): string => {
 	return items.map((t) => t?.plain_text ?? '').join('')
 }
 
-const indent = (n: number) => (n > 0 ? '  '.repeat(n) : '')
-
 const asString = (v: unknown) => String(v ?? '').trim()
 
 const supportedAssetKinds = new Set<AssetKind>([
@@ -146,110 +172,355 @@ export function extractNotionAssets(
 	return out
 }
 
-export function renderNotionBlocksToText(
+/**
+ * Names for mentioned users and pages, keyed by id (either id form).
+ * Notion only includes user names when the integration has user-information
+ * capability, and mentions of pages not shared with it read "Untitled".
+ */
+export type NotionMentionNames = {
+	users?: Record<string, string>
+	pages?: Record<string, string>
+}
+
+export type RenderNotionMarkdownOptions = {
+	maxDepth?: number
+	mentions?: NotionMentionNames
+}
+
+const compactId = (id: string | undefined) =>
+	String(id ?? '').replaceAll('-', '')
+
+const lookupName = (
+	names: Record<string, string> | undefined,
+	id: string | undefined
+): string | undefined =>
+	id ? (names?.[id] ?? names?.[compactId(id)]) : undefined
+
+const notionUrl = (id: string | undefined) =>
+	`https://www.notion.so/${compactId(id)}`
+
+/**
+ * Collect mentioned users without a name and mentioned pages that read
+ * "Untitled", so callers can look them up before rendering.
+ */
+export function collectNotionMentions(nodes: NotionBlockNode[]): {
+	userIds: string[]
+	pageIds: string[]
+} {
+	const userIds = new Set<string>()
+	const pageIds = new Set<string>()
+
+	const visitRichText = (items: RichText[] | undefined) => {
+		for (const item of items ?? []) {
+			const mention = item?.mention
+			if (item?.type !== 'mention' || !mention) {
+				continue
+			}
+			if (
+				mention.type === 'user' &&
+				mention.user?.id &&
+				!mention.user.name
+			) {
+				userIds.add(mention.user.id)
+			}
+			if (
+				mention.type === 'page' &&
+				mention.page?.id &&
+				(!item.plain_text || item.plain_text === 'Untitled')
+			) {
+				pageIds.add(mention.page.id)
+			}
+		}
+	}
+
+	const walk = (node: NotionBlockNode) => {
+		const payload = getBlockPayload(node.block, node.block.type)
+		visitRichText(payload?.rich_text)
+		visitRichText(payload?.caption)
+		for (const cell of payload?.cells ?? []) {
+			visitRichText(cell)
+		}
+		for (const child of node.children) {
+			walk(child)
+		}
+	}
+
+	for (const node of nodes) {
+		walk(node)
+	}
+	return {userIds: [...userIds], pageIds: [...pageIds]}
+}
+
+/** Split text into leading whitespace, content and trailing whitespace. */
+const splitEdges = (text: string): [string, string, string] => {
+	const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)
+	return [match?.[1] ?? '', match?.[2] ?? '', match?.[3] ?? '']
+}
+
+/**
+ * Wrap text in a Markdown marker, keeping surrounding whitespace outside it
+ * (`** bold **` does not render as bold).
+ */
+const wrap = (text: string, marker: string): string => {
+	const [lead, core, trail] = splitEdges(text)
+	return core ? `${lead}${marker}${core}${marker}${trail}` : text
+}
+
+const wrapLink = (text: string, href: string): string => {
+	const [lead, core, trail] = splitEdges(text)
+	return core ? `${lead}[${core}](${href})${trail}` : text
+}
+
+const renderMention = (
+	item: RichText,
+	mentions: NotionMentionNames | undefined
+): string => {
+	const mention = item.mention ?? {}
+	const fallback = item.plain_text ?? ''
+	switch (mention.type) {
+		case 'user': {
+			const name =
+				mention.user?.name ??
+				lookupName(mentions?.users, mention.user?.id) ??
+				fallback.replace(/^@/, '')
+			return `@${name}`
+		}
+		case 'page':
+		case 'database': {
+			const id = mention.page?.id ?? mention.database?.id
+			const title = lookupName(mentions?.pages, id) ?? fallback
+			return `[${title}](${item.href ?? notionUrl(id)})`
+		}
+		case 'date': {
+			const {start, end} = mention.date ?? {}
+			return start ? (end ? `${start} → ${end}` : start) : fallback
+		}
+		default:
+			return item.href ? `[${fallback}](${item.href})` : fallback
+	}
+}
+
+/**
+ * Render Notion rich text as inline Markdown: annotations, links, inline
+ * equations and mentions.
+ */
+const md = (value: unknown, mentions?: NotionMentionNames): string => {
+	const items = Array.isArray(value) ? (value as RichText[]) : []
+	return items
+		.map((item) => {
+			if (item?.type === 'equation') {
+				return `$${item.equation?.expression ?? item.plain_text ?? ''}$`
+			}
+			if (item?.type === 'mention') {
+				return renderMention(item, mentions)
+			}
+			let text = item?.plain_text ?? ''
+			const a = item?.annotations ?? {}
+			if (a.code) {
+				text = wrap(text, '`')
+			}
+			if (a.bold) {
+				text = wrap(text, '**')
+			}
+			if (a.italic) {
+				text = wrap(text, '_')
+			}
+			if (a.strikethrough) {
+				text = wrap(text, '~~')
+			}
+			return item?.href ? wrapLink(text, item.href) : text
+		})
+		.join('')
+}
+
+const tableCell = (
+	cell: RichText[] | undefined,
+	mentions?: NotionMentionNames
+) => md(cell, mentions).replaceAll('|', '\\|').replace(/\r?\n/g, '<br>').trim()
+
+const LIST_TYPES = new Set([
+	'bulleted_list_item',
+	'numbered_list_item',
+	'to_do'
+])
+
+/** Prefix every line; blank lines keep the trimmed prefix. */
+const prefixLines = (text: string, prefix: string) =>
+	text
+		.split('\n')
+		.map((line) => (line ? prefix + line : prefix.trimEnd()))
+		.join('\n')
+
+const indentLines = (text: string, width: number) =>
+	text
+		.split('\n')
+		.map((line) => (line ? ' '.repeat(width) + line : line))
+		.join('\n')
+
+/**
+ * Render a Notion block tree as Markdown.
+ *
+ * Headings become `#` headings (so the markdown chunker can split on them),
+ * tables become GFM tables, callouts and quotes become blockquotes, and
+ * toggles, columns and synced blocks are flattened into their content.
+ * Child pages and databases render as links. Files and media are returned
+ * separately as assets by `extractNotionAssets`.
+ */
+export function renderNotionBlocksToMarkdown(
 	nodes: NotionBlockNode[],
-	opts: {maxDepth?: number} = {}
+	opts: RenderNotionMarkdownOptions = {}
 ): string {
 	const maxDepth = opts.maxDepth ?? 6
-	const lines: string[] = []
+	const mentions = opts.mentions
 
-	const walk = (node: NotionBlockNode, depth: number, listDepth: number) => {
-		if (depth > maxDepth) {
-			return
+	const renderTable = (node: NotionBlockNode): string => {
+		const payload = getBlockPayload(node.block, 'table')
+		const rows = node.children
+			.filter((c) => c.block.type === 'table_row')
+			.map((c) => getBlockPayload(c.block, 'table_row')?.cells ?? [])
+		const width = Math.max(0, ...rows.map((r) => r.length))
+		if (width === 0) {
+			return ''
 		}
+		const line = (cells: string[]) => `| ${cells.join(' | ')} |`
+		const cellsOf = (row: RichText[][]) =>
+			Array.from({length: width}, (_, i) => tableCell(row[i], mentions))
+
+		const header = payload?.has_column_header
+			? cellsOf(rows.shift() ?? [])
+			: Array.from({length: width}, () => '')
+		return [
+			line(header),
+			line(Array.from({length: width}, () => '---')),
+			...rows.map((r) => line(cellsOf(r)))
+		].join('\n')
+	}
+
+	const renderBlock = (
+		node: NotionBlockNode,
+		depth: number,
+		listNumber: number
+	): string => {
 		const b = node.block
 		const t = b.type
+		const payload = getBlockPayload(b, t)
+		const text = md(payload?.rich_text, mentions)
+		const children = () =>
+			depth < maxDepth ? renderSiblings(node.children, depth + 1) : ''
+		const withChildren = (head: string, body = children()) =>
+			[head, body].filter((part) => part.trim()).join('\n\n')
 
-		if (t === 'paragraph') {
-			const payload = getBlockPayload(b, 'paragraph')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(text)
-			}
-		} else if (t === 'heading_1') {
-			const payload = getBlockPayload(b, 'heading_1')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(`# ${text}`)
-			}
-		} else if (t === 'heading_2') {
-			const payload = getBlockPayload(b, 'heading_2')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(`## ${text}`)
-			}
-		} else if (t === 'heading_3') {
-			const payload = getBlockPayload(b, 'heading_3')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(`### ${text}`)
-			}
-		} else if (t === 'bulleted_list_item') {
-			const payload = getBlockPayload(b, 'bulleted_list_item')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(`${indent(listDepth)}- ${text}`)
-			}
-		} else if (t === 'numbered_list_item') {
-			const payload = getBlockPayload(b, 'numbered_list_item')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(`${indent(listDepth)}- ${text}`)
-			}
-		} else if (t === 'to_do') {
-			const payload = getBlockPayload(b, 'to_do')
-			const text = rt(payload?.rich_text)
-			const checked = Boolean(payload?.checked)
-			if (text.trim()) {
-				lines.push(
-					`${indent(listDepth)}- [${checked ? 'x' : ' '}] ${text}`
+		switch (t) {
+			case 'paragraph':
+				return withChildren(text)
+			case 'heading_1':
+			case 'heading_2':
+			case 'heading_3': {
+				const level = Number(t.slice(-1))
+				return withChildren(
+					text.trim() ? `${'#'.repeat(level)} ${text}` : ''
 				)
 			}
-		} else if (t === 'quote') {
-			const payload = getBlockPayload(b, 'quote')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(`> ${text}`)
-			}
-		} else if (t === 'callout') {
-			const payload = getBlockPayload(b, 'callout')
-			const text = rt(payload?.rich_text)
-			if (text.trim()) {
-				lines.push(text)
-			}
-		} else if (t === 'code') {
-			const payload = getBlockPayload(b, 'code')
-			const text = rt(payload?.rich_text)
-			const lang = String(payload?.language ?? '').trim()
-			lines.push(`\`\`\`${lang}`)
-			if (text.trim()) {
-				lines.push(text)
-			}
-			lines.push('```')
-		} else if (t === 'divider') {
-			lines.push('---')
-		} else {
-			// Unsupported block types are ignored for v1.
-			// This keeps the output focused and avoids surprises.
-		}
-
-		// Render children (nested blocks). For list items, increase listDepth.
-		const nextListDepth =
-			t === 'bulleted_list_item' ||
-			t === 'numbered_list_item' ||
-			t === 'to_do'
-				? listDepth + 1
-				: listDepth
-
-		for (const child of node.children) {
-			walk(child, depth + 1, nextListDepth)
+			case 'bulleted_list_item':
+			case 'numbered_list_item':
+			case 'to_do': {
+				const marker =
+					t === 'numbered_list_item'
+						? `${listNumber}.`
+						: t === 'to_do'
+							? `- [${payload?.checked ? 'x' : ' '}]`
+							: '-'
+				const body = children()
+				const markerWidth =
+					t === 'numbered_list_item' ? marker.length + 1 : 2
+				return body
+					? `${marker} ${text}\n${indentLines(body, markerWidth)}`
+					: `${marker} ${text}`
+			}
+			case 'quote':
+				return prefixLines(withChildren(text), '> ')
+			case 'callout': {
+				const icon =
+					payload?.icon?.type === 'emoji' ? payload.icon.emoji : ''
+				return prefixLines(
+					withChildren([icon, text].filter(Boolean).join(' ')),
+					'> '
+				)
+			}
+			case 'toggle':
+				return withChildren(text)
+			case 'code': {
+				const lang = String(payload?.language ?? '').trim()
+				const code = rt(payload?.rich_text)
+				const fence = code.includes('```') ? '````' : '```'
+				return [
+					`${fence}${lang === 'plain text' ? '' : lang}`,
+					...(code ? [code] : []),
+					fence
+				].join('\n')
+			}
+			case 'equation':
+				return `$$\n${asString(payload?.expression)}\n$$`
+			case 'divider':
+				return '---'
+			case 'table':
+				return renderTable(node)
+			case 'column_list':
+			case 'column':
+			case 'synced_block':
+				return children()
+			case 'child_page':
+			case 'child_database':
+				return `[${asString(payload?.title) || 'Untitled'}](${notionUrl(b.id)})`
+			case 'link_to_page': {
+				const id = payload?.page_id ?? payload?.database_id
+				const title = lookupName(mentions?.pages, id) ?? 'Linked page'
+				return `[${title}](${notionUrl(id)})`
+			}
+			case 'bookmark':
+			case 'embed':
+			case 'link_preview': {
+				const url = asString(payload?.url)
+				const caption = md(payload?.caption, mentions).trim()
+				return url ? `[${caption || url}](${url})` : ''
+			}
+			default:
+				// Media/files become assets; table_of_contents, breadcrumb and
+				// unsupported blocks carry no text.
+				return ''
 		}
 	}
 
-	for (const node of nodes) {
-		walk(node, 0, 0)
-		lines.push('')
+	function renderSiblings(
+		siblings: NotionBlockNode[],
+		depth: number
+	): string {
+		let out = ''
+		let prevType = ''
+		let listNumber = 0
+		for (const node of siblings) {
+			const t = node.block.type
+			listNumber =
+				t === 'numbered_list_item' && prevType === t
+					? listNumber + 1
+					: 1
+			const rendered = renderBlock(node, depth, listNumber)
+			if (!rendered.trim()) {
+				continue
+			}
+			// Consecutive items of one list stay together; everything else is a
+			// separate Markdown block.
+			const sameList = LIST_TYPES.has(t) && prevType === t
+			out += out ? (sameList ? '\n' : '\n\n') + rendered : rendered
+			prevType = t
+		}
+		return out
 	}
 
-	return lines.join('\n').trim()
+	return renderSiblings(nodes, 0).trim()
 }
+
+/**
+ * @deprecated Use `renderNotionBlocksToMarkdown`; pages now render as Markdown.
+ */
+export const renderNotionBlocksToText = renderNotionBlocksToMarkdown
@@ -2,27 +2,41 @@ import {isFullPage} from '@notionhq/client'
 import type {
 	GetPageResponse,
 	ListBlockChildrenResponse,
-	RichTextItemResponse
+	QueryDatabaseResponse,
+	RichTextItemResponse,
+	SearchResponse
 } from '@notionhq/client/build/src/api-endpoints'
 import {
 	type NotionClient,
 	createNotionClient
 } from '@registry/connectors/notion/client'
 import {
+	normalizeNotionId32,
 	normalizeNotionPageId32,
 	toUuidHyphenated
 } from '@registry/connectors/notion/ids'
+import {
+	type NotionPropertyValue,
+	lastEditedCheckpoints,
+	notionPropertiesToMetadata,
+	withLastEditedSince
+} from '@registry/connectors/notion/query'
 import {
 	type NotionBlock,
 	type NotionBlockNode,
+	type NotionMentionNames,
+	collectNotionMentions,
 	extractNotionAssets,
-	renderNotionBlocksToText
+	renderNotionBlocksToMarkdown
 } from '@registry/connectors/notion/render'
 import type {
 	BuildNotionPageIngestInputArgs,
 	NotionCheckpoint,
 	NotionPageDocument,
-	StreamNotionPagesInput
+	NotionSyncCheckpoint,
+	StreamNotionDatabaseInput,
+	StreamNotionPagesInput,
+	StreamNotionWorkspaceInput
 } from '@registry/connectors/notion/types'
 import type {Metadata} from '@registry/core'
 import type {ConnectorStream} from '@registry/core/connectors'
@@ -107,7 +121,10 @@ async function buildBlockTree(
 
 	for (const block of children) {
 		let grandChildren: NotionBlockNode[] = []
-		if (block.has_children && depth < maxDepth) {
+		// Child pages and databases are separate documents; they render as links.
+		const isChildDocument =
+			block.type === 'child_page' || block.type === 'child_database'
+		if (block.has_children && depth < maxDepth && !isChildDocument) {
 			grandChildren = await buildBlockTree(
 				notion,
 				block.id,
@@ -121,6 +138,44 @@ async function buildBlockTree(
 	return nodes
 }
 
+/**
+ * Look up names the block payloads leave out (see `collectNotionMentions`).
+ * Lookups that fail (no access, missing capability) keep Notion's text.
+ */
+async function resolveNotionMentionNames(
+	notion: NotionClient,
+	tree: NotionBlockNode[]
+): Promise<NotionMentionNames> {
+	const {userIds, pageIds} = collectNotionMentions(tree)
+	const users: Record<string, string> = {}
+	const pages: Record<string, string> = {}
+
+	for (const userId of userIds) {
+		try {
+			const user = await notion.users.retrieve({user_id: userId})
+			if (user?.name) {
+				users[userId] = String(user.name)
+			}
+		} catch {
+			// Keep the mention text Notion returned.
+		}
+	}
+	for (const pageId of pageIds) {
+		try {
+			const title = getNotionPageTitle(
+				await notion.pages.retrieve({page_id: pageId})
+			)
+			if (title) {
+				pages[pageId] = title
+			}
+		} catch {
+			// Keep the mention text Notion returned.
+		}
+	}
+
+	return {users, pages}
+}
+
 export async function loadNotionPageDocument(args: {
 	notion: NotionClient
 	pageIdOrUrl: string
@@ -128,21 +183,38 @@ export async function loadNotionPageDocument(args: {
 	maxDepth?: number
 }): Promise<NotionPageDocument> {
 	const pageId = normalizeNotionPageId32(args.pageIdOrUrl)
-	const apiId = toUuidHyphenated(pageId)
-
 	const page: GetPageResponse = await args.notion.pages.retrieve({
-		page_id: apiId
+		page_id: toUuidHyphenated(pageId)
 	})
+	return buildNotionPageDocument({...args, pageId, page})
+}
+
+/**
+ * Render an already-fetched page (e.g. a database query or search result)
+ * into a document. `metadata` is merged under the connector's own keys.
+ */
+async function buildNotionPageDocument(args: {
+	notion: NotionClient
+	pageId: string
+	page: GetPageResponse
+	sourceIdPrefix?: string
+	maxDepth?: number
+	metadata?: Metadata
+}): Promise<NotionPageDocument> {
+	const {page, pageId} = args
+	const apiId = toUuidHyphenated(pageId)
 	const title = getNotionPageTitle(page)
 	const url = isFullPage(page) ? page.url : ''
 	const lastEditedTime = isFullPage(page) ? page.last_edited_time : ''
 
 	const tree = await buildBlockTree(args.notion, apiId, 0, args.maxDepth ?? 4)
-	const body = renderNotionBlocksToText(tree)
+	const mentions = await resolveNotionMentionNames(args.notion, tree)
+	const body = renderNotionBlocksToMarkdown(tree, {mentions})
 	const content = [title.trim(), body.trim()].filter(Boolean).join('\n\n')
 	const assets = extractNotionAssets(tree)
 
 	const metadata: Metadata = {
+		...args.metadata,
 		connector: 'notion',
 		kind: 'page',
 		pageId,
@@ -309,11 +381,238 @@ export async function* streamPages(
 	}
 }
 
+type NotionPageCandidate = {
+	page: GetPageResponse
+	pageId: string
+	lastEditedTime: string
+	metadata?: Metadata
+}
+
+const toCandidate = (
+	page: GetPageResponse,
+	metadata?: Metadata
+): NotionPageCandidate => ({
+	page,
+	pageId: normalizeNotionId32(page.id),
+	lastEditedTime: isFullPage(page) ? page.last_edited_time : '',
+	metadata
+})
+
+const isArchived = (page: GetPageResponse): boolean =>
+	isFullPage(page) && Boolean(page.archived || page.in_trash)
+
+/**
+ * Emit pages that were listed up front, checkpointing by `last_edited_time`
+ * so an interrupted or later run resumes with only the pages edited since.
+ */
+async function* syncNotionPages(args: {
+	notion: NotionClient
+	candidates: NotionPageCandidate[]
+	input: StreamNotionDatabaseInput | StreamNotionWorkspaceInput
+	databaseId?: string
+}): ConnectorStream<NotionSyncCheckpoint> {
+	const {notion, candidates, input, databaseId} = args
+	const since = input.checkpoint?.lastEditedTime
+	const checkpoints = lastEditedCheckpoints(
+		since,
+		candidates.map((c) => c.lastEditedTime)
+	)
+
+	for (const [i, candidate] of candidates.entries()) {
+		const {pageId} = candidate
+		const sourceId = joinPrefix(
+			input.sourceIdPrefix,
+			`notion:page:${pageId}`
+		)
+
+		if (isArchived(candidate.page)) {
+			if (input.deleteArchived) {
+				yield {type: 'delete', input: {sourceId}}
+			}
+		} else {
+			yield {
+				type: 'progress',
+				message: 'page:start',
+				current: i + 1,
+				total: candidates.length,
+				sourceId,
+				entityId: pageId
+			}
+
+			try {
+				const doc = await buildNotionPageDocument({
+					notion,
+					pageId,
+					page: candidate.page,
+					sourceIdPrefix: input.sourceIdPrefix,
+					maxDepth: input.maxDepth,
+					metadata: candidate.metadata
+				})
+
+				yield {
+					type: 'upsert',
+					input: {
+						sourceId: doc.sourceId,
+						content: doc.content,
+						assets: doc.assets,
+						metadata: doc.metadata
+					}
+				}
+
+				yield {
+					type: 'progress',
+					message: 'page:success',
+					current: i + 1,
+					total: candidates.length,
+					sourceId,
+					entityId: pageId
+				}
+			} catch (err) {
+				yield {
+					type: 'warning',
+					code: isNotFound(err) ? 'page_not_found' : 'page_error',
+					message: isNotFound(err)
+						? 'Notion page not found or inaccessible.'
+						: asMessage(err),
+					data: {pageId, sourceId}
+				}
+			}
+		}
+
+		yield {
+			type: 'checkpoint',
+			checkpoint: {
+				lastEditedTime: checkpoints[i],
+				...(databaseId ? {databaseId} : {}),
+				pageId
+			}
+		}
+	}
+
+	if (candidates.length === 0) {
+		yield {
+			type: 'checkpoint',
+			checkpoint: {
+				lastEditedTime: since,
+				...(databaseId ? {databaseId} : {})
+			}
+		}
+	}
+}
+
+/**
+ * Stream the pages of a Notion database as connector events.
+ *
+ * Page properties are copied into document metadata. With a checkpoint from a
+ * previous run, only pages edited since then are queried and re-emitted.
+ * Deleted pages drop out of the query, so they are not detected here.
+ */
+export async function* streamDatabase(
+	input: StreamNotionDatabaseInput
+): ConnectorStream<NotionSyncCheckpoint> {
+	const databaseId = normalizeNotionId32(input.databaseId)
+	if (
+		input.checkpoint?.databaseId &&
+		input.checkpoint.databaseId !== databaseId
+	) {
+		throw new Error(
+			`Notion checkpoint is for database ${input.checkpoint.databaseId}, not ${databaseId}`
+		)
+	}
+	const notion = createNotionClient({token: input.token})
+	const filter = withLastEditedSince(
+		input.filter,
+		input.checkpoint?.lastEditedTime
+	)
+	const sorts = input.sorts ?? [
+		{timestamp: 'last_edited_time', direction: 'ascending'}
+	]
+
+	const candidates: NotionPageCandidate[] = []
+	let cursor: string | undefined = undefined
+	while (true) {
+		const res: QueryDatabaseResponse = await notion.databases.query({
+			database_id: toUuidHyphenated(databaseId),
+			...(filter ? {filter} : {}),
+			sorts,
+			start_cursor: cursor,
+			page_size: 100
+		})
+		for (const page of res.results as GetPageResponse[]) {
+			if (!isFullPage(page)) {
+				continue
+			}
+			const properties =
+				input.properties === false
+					? {}
+					: notionPropertiesToMetadata(
+							page.properties as Record<
+								string,
+								NotionPropertyValue
+							>,
+							input.properties
+						)
+			candidates.push(toCandidate(page, {...properties, databaseId}))
+		}
+		cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined
+		if (!cursor) {
+			break
+		}
+	}
+
+	yield* syncNotionPages({notion, candidates, input, databaseId})
+}
+
+/**
+ * Stream every page shared with the integration (Notion search API).
+ *
+ * Search can't filter by edit time, so results are read newest-first and the
+ * listing stops at the checkpoint. Pages are then emitted oldest-first.
+ */
+export async function* streamWorkspace(
+	input: StreamNotionWorkspaceInput
+): ConnectorStream<NotionSyncCheckpoint> {
+	const notion = createNotionClient({token: input.token})
+	const since = input.checkpoint?.lastEditedTime
+	const sinceMs = since ? Date.parse(since) : Number.NEGATIVE_INFINITY
+
+	const candidates: NotionPageCandidate[] = []
+	let cursor: string | undefined = undefined
+	let reachedCheckpoint = false
+	while (!reachedCheckpoint) {
+		const res: SearchResponse = await notion.search({
+			...(input.query ? {query: input.query} : {}),
+			filter: {property: 'object', value: 'page'},
+			sort: {timestamp: 'last_edited_time', direction: 'descending'},
+			start_cursor: cursor,
+			page_size: 100
+		})
+		for (const page of res.results as GetPageResponse[]) {
+			if (!isFullPage(page)) {
+				continue
+			}
+			if (Date.parse(page.last_edited_time) < sinceMs) {
+				reachedCheckpoint = true
+				break
+			}
+			candidates.push(toCandidate(page))
+		}
+		cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined
+		if (!cursor) {
+			break
+		}
+	}
+
+	yield* syncNotionPages({notion, candidates: candidates.reverse(), input})
+}
+
 /**
  * Exported connector surface for Notion.
  *
  * This keeps connector-related functionality namespaced and future-proof.
  */
 export const notionConnector = {
-	streamPages
+	streamPages,
+	streamDatabase,
+	streamWorkspace
 }
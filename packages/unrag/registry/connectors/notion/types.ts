@@ -39,6 +39,69 @@ export type StreamNotionPagesInput = {
 	checkpoint?: NotionCheckpoint
 }
 
+/**
+ * Checkpoint for incremental database / workspace syncs.
+ * Store this in your DB/KV and pass it back to `streamDatabase` / `streamWorkspace`;
+ * only pages edited since `lastEditedTime` are emitted again.
+ */
+export type NotionSyncCheckpoint = {
+	/** ISO timestamp; pages with `last_edited_time` on or after it are synced. */
+	lastEditedTime?: string
+	/** Database being synced (for sanity checks). */
+	databaseId?: string
+	/** Last page processed (for debugging). */
+	pageId?: string
+}
+
+type StreamNotionSyncBaseInput = {
+	/**
+	 * Server-side Notion integration token.
+	 * Keep this server-only (env var).
+	 */
+	token: string
+	/**
+	 * Optional namespace prefix, useful for multi-tenant apps:
+	 * `tenant:acme:` -> `tenant:acme:notion:page:<id>`
+	 */
+	sourceIdPrefix?: string
+	/**
+	 * When true, archived / trashed pages emit a delete event for the
+	 * previously ingested document (exact sourceId).
+	 */
+	deleteArchived?: boolean
+	/**
+	 * Optional max depth for block traversal (defaults to 4).
+	 */
+	maxDepth?: number
+	/**
+	 * Optional checkpoint from a previous run. Without one, every page is synced.
+	 */
+	checkpoint?: NotionSyncCheckpoint
+}
+
+export type StreamNotionDatabaseInput = StreamNotionSyncBaseInput & {
+	/** Notion database ID or URL. */
+	databaseId: string
+	/**
+	 * Database query filter, passed to Notion as-is
+	 * (see Notion's "Query a database" filter docs).
+	 * The checkpoint's `last_edited_time` bound is ANDed in.
+	 */
+	filter?: Record<string, unknown>
+	/** Database query sorts, passed to Notion as-is. */
+	sorts?: Record<string, unknown>[]
+	/**
+	 * Page properties to copy into document metadata, keyed by property name.
+	 * Defaults to all properties; pass `false` to copy none.
+	 */
+	properties?: string[] | false
+}
+
+export type StreamNotionWorkspaceInput = StreamNotionSyncBaseInput & {
+	/** Optional search text; by default every page shared with the integration is synced. */
+	query?: string
+}
+
 export type NotionPageDocument = {
 	sourceId: string
 	content: string
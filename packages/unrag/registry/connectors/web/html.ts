@@ -0,0 +1,716 @@
+/**
+ * Small, dependency-free HTML parsing and HTML → Markdown conversion for
+ * crawled pages. It is tolerant rather than spec-complete: good enough for
+ * documentation sites, not for arbitrary web apps.
+ */
+
+export type HtmlElement = {
+	type: 'element'
+	tag: string
+	attrs: Record<string, string>
+	children: HtmlNode[]
+}
+
+export type HtmlNode = {type: 'text'; text: string} | HtmlElement
+
+const VOID_TAGS = new Set([
+	'area',
+	'base',
+	'br',
+	'col',
+	'embed',
+	'hr',
+	'img',
+	'input',
+	'link',
+	'meta',
+	'source',
+	'track',
+	'wbr'
+])
+
+/** Elements whose content is raw text up to the matching end tag. */
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title'])
+
+const BLOCK_TAGS = new Set([
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'body',
+	'dd',
+	'details',
+	'dialog',
+	'div',
+	'dl',
+	'dt',
+	'fieldset',
+	'figcaption',
+	'figure',
+	'footer',
+	'form',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'header',
+	'hr',
+	'html',
+	'li',
+	'main',
+	'nav',
+	'ol',
+	'p',
+	'pre',
+	'section',
+	'summary',
+	'table',
+	'tbody',
+	'td',
+	'tfoot',
+	'th',
+	'thead',
+	'tr',
+	'ul'
+])
+
+/**
+ * Opening one of these closes an open element of the listed kinds, as long
+ * as no element from the "scope" list sits in between (`<li>` closes the
+ * previous `<li>` of the same list, not of an outer one).
+ */
+const IMPLIED_END: Record<string, {closes: string[]; scope: string[]}> = {
+	li: {closes: ['li'], scope: ['ul', 'ol']},
+	dt: {closes: ['dt', 'dd'], scope: ['dl']},
+	dd: {closes: ['dt', 'dd'], scope: ['dl']},
+	tr: {closes: ['tr', 'td', 'th'], scope: ['table']},
+	td: {closes: ['td', 'th'], scope: ['tr', 'table']},
+	th: {closes: ['td', 'th'], scope: ['tr', 'table']},
+	option: {closes: ['option'], scope: ['select']}
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	laquo: '«',
+	raquo: '»',
+	copy: '©',
+	reg: '®',
+	trade: '™',
+	middot: '·',
+	bull: '•',
+	times: '×',
+	rarr: '→',
+	larr: '←'
+}
+
+export function decodeHtmlEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, body) => {
+		const b = String(body)
+		if (b[0] === '#') {
+			const code =
+				b[1] === 'x' || b[1] === 'X'
+					? Number.parseInt(b.slice(2), 16)
+					: Number.parseInt(b.slice(1), 10)
+			return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+				? String.fromCodePoint(code)
+				: match
+		}
+		return NAMED_ENTITIES[b.toLowerCase()] ?? match
+	})
+}
+
+const ATTR_RE = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+const parseAttrs = (raw: string): Record<string, string> => {
+	const attrs: Record<string, string> = {}
+	for (const m of raw.matchAll(ATTR_RE)) {
+		const name = String(m[1]).toLowerCase()
+		if (!(name in attrs)) {
+			attrs[name] = decodeHtmlEntities(m[2] ?? m[3] ?? m[4] ?? '')
+		}
+	}
+	return attrs
+}
+
+/** Index of the `>` closing a tag that starts at `from`, skipping quoted values. */
+const findTagEnd = (html: string, from: number) => {
+	let quote: string | null = null
+	for (let i = from; i < html.length; i++) {
+		const c = html[i]
+		if (quote) {
+			if (c === quote) {
+				quote = null
+			}
+		} else if (c === '"' || c === "'") {
+			quote = c
+		} else if (c === '>') {
+			return i
+		}
+	}
+	return -1
+}
+
+/** Parse HTML into a loose element tree rooted at a synthetic `#root`. */
+export function parseHtml(html: string): HtmlElement {
+	const root: HtmlElement = {
+		type: 'element',
+		tag: '#root',
+		attrs: {},
+		children: []
+	}
+	const stack: HtmlElement[] = [root]
+	const current = () => stack[stack.length - 1] as HtmlElement
+	const pushText = (text: string) => {
+		if (text) {
+			current().children.push({
+				type: 'text',
+				text: decodeHtmlEntities(text)
+			})
+		}
+	}
+	const closeTo = (index: number) => {
+		stack.length = Math.max(1, index)
+	}
+	const openIndex = (tags: string[], scope: string[]) => {
+		for (let i = stack.length - 1; i > 0; i--) {
+			const tag = (stack[i] as HtmlElement).tag
+			if (tags.includes(tag)) {
+				return i
+			}
+			if (scope.includes(tag)) {
+				return -1
+			}
+		}
+		return -1
+	}
+
+	let i = 0
+	while (i < html.length) {
+		const lt = html.indexOf('<', i)
+		if (lt === -1) {
+			pushText(html.slice(i))
+			break
+		}
+		pushText(html.slice(i, lt))
+
+		if (html.startsWith('<!--', lt)) {
+			const end = html.indexOf('-->', lt + 4)
+			i = end === -1 ? html.length : end + 3
+			continue
+		}
+		if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+			const end = html.indexOf('>', lt)
+			i = end === -1 ? html.length : end + 1
+			continue
+		}
+
+		const closing = html[lt + 1] === '/'
+		const nameMatch = /^[a-zA-Z][a-zA-Z0-9-]*/.exec(
+			html.slice(lt + (closing ? 2 : 1), lt + 64)
+		)
+		if (!nameMatch) {
+			pushText('<')
+			i = lt + 1
+			continue
+		}
+		const tag = nameMatch[0].toLowerCase()
+		const end = findTagEnd(html, lt + 1)
+		if (end === -1) {
+			pushText(html.slice(lt))
+			break
+		}
+		i = end + 1
+
+		if (closing) {
+			const index = openIndex([tag], [])
+			if (index > 0) {
+				closeTo(index)
+			}
+			continue
+		}
+
+		const rawAttrs = html.slice(lt + 1 + tag.length, end)
+		const el: HtmlElement = {
+			type: 'element',
+			tag,
+			attrs: parseAttrs(rawAttrs.replace(/\/$/, '')),
+			children: []
+		}
+		const implied = IMPLIED_END[tag]
+		if (implied) {
+			const index = openIndex(implied.closes, implied.scope)
+			if (index > 0) {
+				closeTo(index)
+			}
+		} else if (BLOCK_TAGS.has(tag) && current().tag === 'p') {
+			stack.pop()
+		}
+		current().children.push(el)
+
+		if (RAW_TEXT_TAGS.has(tag)) {
+			const closeRe = new RegExp(`</${tag}\\s*>`, 'i')
+			const rest = html.slice(i)
+			const m = closeRe.exec(rest)
+			const text = m ? rest.slice(0, m.index) : rest
+			if (text) {
+				el.children.push({
+					type: 'text',
+					text:
+						tag === 'script' || tag === 'style'
+							? text
+							: decodeHtmlEntities(text)
+				})
+			}
+			i = m ? i + m.index + m[0].length : html.length
+			continue
+		}
+		if (!VOID_TAGS.has(tag) && !rawAttrs.trimEnd().endsWith('/')) {
+			stack.push(el)
+		}
+	}
+	return root
+}
+
+const findAll = (
+	node: HtmlElement,
+	pred: (el: HtmlElement) => boolean,
+	found: HtmlElement[] = []
+) => {
+	for (const child of node.children) {
+		if (child.type === 'element') {
+			if (pred(child)) {
+				found.push(child)
+			}
+			findAll(child, pred, found)
+		}
+	}
+	return found
+}
+
+export const textContent = (node: HtmlNode): string =>
+	node.type === 'text' ? node.text : node.children.map(textContent).join('')
+
+/** Tags that never carry page content. */
+const SKIPPED_TAGS = new Set([
+	'script',
+	'style',
+	'noscript',
+	'template',
+	'svg',
+	'canvas',
+	'iframe',
+	'object',
+	'button',
+	'input',
+	'select',
+	'textarea',
+	'nav',
+	'footer',
+	'aside',
+	'dialog',
+	'head',
+	'title',
+	'meta',
+	'link'
+])
+
+const BOILERPLATE_ROLES = new Set([
+	'navigation',
+	'banner',
+	'contentinfo',
+	'complementary',
+	'search',
+	'dialog'
+])
+
+/** Class or id tokens used for chrome around the content on common doc sites. */
+const BOILERPLATE_TOKEN =
+	/^(?:nav|navbar|navigation|sidebar|breadcrumbs?|toc|table-of-contents|site-header|site-footer|footer|cookie-?(?:banner|consent|notice)|skip-?link|skip-to-content|edit-?this-?page|pagination)$/i
+
+const isBoilerplate = (el: HtmlElement, inContent: boolean) => {
+	if (SKIPPED_TAGS.has(el.tag)) {
+		return true
+	}
+	// A page-level <header> is site chrome; one inside <main>/<article> usually holds the title.
+	if (el.tag === 'header' && !inContent) {
+		return true
+	}
+	if (BOILERPLATE_ROLES.has((el.attrs.role ?? '').toLowerCase())) {
+		return true
+	}
+	if ('hidden' in el.attrs || el.attrs['aria-hidden'] === 'true') {
+		return true
+	}
+	const tokens = `${el.attrs.class ?? ''} ${el.attrs.id ?? ''}`
+		.split(/\s+/)
+		.filter(Boolean)
+	return tokens.some((t) => BOILERPLATE_TOKEN.test(t))
+}
+
+/**
+ * The element holding the page's main content: `<main>`, `[role=main]`, a
+ * single `<article>`, or `<body>`.
+ */
+const findContentRoot = (root: HtmlElement): HtmlElement => {
+	const main =
+		findAll(root, (el) => el.tag === 'main')[0] ??
+		findAll(root, (el) => el.attrs.role === 'main')[0]
+	if (main) {
+		return main
+	}
+	const articles = findAll(root, (el) => el.tag === 'article')
+	if (articles.length === 1) {
+		return articles[0] as HtmlElement
+	}
+	return findAll(root, (el) => el.tag === 'body')[0] ?? root
+}
+
+type RenderContext = {
+	baseUrl: string
+	inContent: boolean
+}
+
+const resolveUrl = (href: string, baseUrl: string): string | undefined => {
+	const h = href.trim()
+	if (
+		!h ||
+		h.startsWith('#') ||
+		/^(?:javascript|mailto|tel|data):/i.test(h)
+	) {
+		return undefined
+	}
+	try {
+		return new URL(h, baseUrl).toString()
+	} catch {
+		return undefined
+	}
+}
+
+/** Keep surrounding whitespace outside of markers: ` **bold** ` not `** bold **`. */
+const wrap = (inner: string, open: string, close = open) => {
+	const m = /^(\s*)([\s\S]*?)(\s*)$/.exec(inner)
+	if (!m?.[2]) {
+		return inner
+	}
+	return `${m[1]}${open}${m[2]}${close}${m[3]}`
+}
+
+const renderInline = (nodes: HtmlNode[], ctx: RenderContext): string =>
+	nodes.map((node) => renderInlineNode(node, ctx)).join('')
+
+const renderInlineNode = (node: HtmlNode, ctx: RenderContext): string => {
+	if (node.type === 'text') {
+		return node.text.replace(/\s+/g, ' ')
+	}
+	if (isBoilerplate(node, ctx.inContent)) {
+		return ''
+	}
+	const inner = () => renderInline(node.children, ctx)
+	switch (node.tag) {
+		case 'br':
+			return '\n'
+		case 'strong':
+		case 'b':
+			return wrap(inner(), '**')
+		case 'em':
+		case 'i':
+			return wrap(inner(), '_')
+		case 's':
+		case 'del':
+		case 'strike':
+			return wrap(inner(), '~~')
+		case 'code':
+		case 'kbd':
+		case 'samp': {
+			const text = textContent(node).replace(/\s+/g, ' ')
+			if (!text.trim()) {
+				return text
+			}
+			const fence = text.includes('`') ? '``' : '`'
+			return `${fence}${text}${fence}`
+		}
+		case 'a': {
+			const text = inner()
+			const href = resolveUrl(node.attrs.href ?? '', ctx.baseUrl)
+			return href ? wrap(text, '[', `](${href})`) : text
+		}
+		case 'img': {
+			const alt = (node.attrs.alt ?? '').trim()
+			const src = resolveUrl(node.attrs.src ?? '', ctx.baseUrl)
+			// Images without alt text add nothing searchable.
+			return alt && src ? `![${alt}](${src})` : ''
+		}
+		default:
+			return inner()
+	}
+}
+
+const cleanInline = (text: string) =>
+	text
+		.split('\n')
+		.map((line) => line.replace(/[ \t ]+/g, ' ').trim())
+		.filter((line, i, lines) => line || (i > 0 && lines[i - 1]))
+		.join('\n')
+		.trim()
+
+const indent = (text: string, prefix: string) =>
+	text
+		.split('\n')
+		.map((line) => (line ? prefix + line : line))
+		.join('\n')
+
+const renderList = (el: HtmlElement, ctx: RenderContext): string => {
+	const ordered = el.tag === 'ol'
+	let n = Number.parseInt(el.attrs.start ?? '1', 10)
+	if (!Number.isFinite(n)) {
+		n = 1
+	}
+	const items: string[] = []
+	for (const child of el.children) {
+		if (child.type !== 'element' || child.tag !== 'li') {
+			continue
+		}
+		const marker = ordered ? `${n++}. ` : '- '
+		const body = renderBlocks(child.children, ctx).join('\n')
+		if (!body) {
+			continue
+		}
+		const pad = ' '.repeat(marker.length)
+		items.push(marker + indent(body, pad).slice(pad.length))
+	}
+	return items.join('\n')
+}
+
+const renderCodeBlock = (el: HtmlElement) => {
+	const code = el.children.find(
+		(c): c is HtmlElement => c.type === 'element' && c.tag === 'code'
+	)
+	const className = `${code?.attrs.class ?? ''} ${el.attrs.class ?? ''}`
+	const language = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(className)?.[1]
+	const text = textContent(el).replace(/^\n/, '').replace(/\s+$/, '')
+	const fence = text.includes('```') ? '````' : '```'
+	return `${fence}${language ?? ''}\n${text}\n${fence}`
+}
+
+const renderTable = (el: HtmlElement, ctx: RenderContext): string => {
+	const rows = findAll(el, (c) => c.tag === 'tr').map((tr) =>
+		tr.children
+			.filter(
+				(c): c is HtmlElement =>
+					c.type === 'element' && (c.tag === 'td' || c.tag === 'th')
+			)
+			.map((cell) =>
+				cleanInline(renderInline(cell.children, ctx))
+					.replace(/\n/g, ' ')
+					.replace(/\|/g, '\\|')
+			)
+	)
+	const width = Math.max(0, ...rows.map((r) => r.length))
+	if (width === 0) {
+		return ''
+	}
+	const line = (cells: string[]) =>
+		`| ${Array.from({length: width}, (_, i) => cells[i] ?? '').join(' | ')} |`
+	const [header = [], ...body] = rows
+	return [
+		line(header),
+		line(Array.from({length: width}, () => '---')),
+		...body.map(line)
+	].join('\n')
+}
+
+const renderBlockElement = (el: HtmlElement, ctx: RenderContext): string[] => {
+	const heading = /^h([1-6])$/.exec(el.tag)
+	if (heading) {
+		const text = cleanInline(renderInline(el.children, ctx)).replace(
+			/\n/g,
+			' '
+		)
+		return text ? [`${'#'.repeat(Number(heading[1]))} ${text}`] : []
+	}
+	switch (el.tag) {
+		case 'p':
+		case 'dt':
+		case 'dd':
+		case 'summary':
+		case 'figcaption': {
+			const text = cleanInline(renderInline(el.children, ctx))
+			if (!text) {
+				return []
+			}
+			return [
+				el.tag === 'dt' || el.tag === 'summary'
+					? wrap(text, '**')
+					: text
+			]
+		}
+		case 'pre':
+			return [renderCodeBlock(el)]
+		case 'ul':
+		case 'ol': {
+			const list = renderList(el, ctx)
+			return list ? [list] : []
+		}
+		case 'blockquote': {
+			const body = renderBlocks(el.children, ctx).join('\n\n')
+			return body
+				? [
+						body
+							.split('\n')
+							.map((line) => (line ? `> ${line}` : '>'))
+							.join('\n')
+					]
+				: []
+		}
+		case 'hr':
+			return ['---']
+		case 'table': {
+			const table = renderTable(el, ctx)
+			return table ? [table] : []
+		}
+		default:
+			return renderBlocks(el.children, {
+				...ctx,
+				inContent:
+					ctx.inContent || el.tag === 'main' || el.tag === 'article'
+			})
+	}
+}
+
+const isBlock = (node: HtmlNode) =>
+	node.type === 'element' && BLOCK_TAGS.has(node.tag)
+
+/** Render children as Markdown blocks, grouping runs of inline content into paragraphs. */
+const renderBlocks = (nodes: HtmlNode[], ctx: RenderContext): string[] => {
+	const blocks: string[] = []
+	let inline: HtmlNode[] = []
+	const flush = () => {
+		const text = cleanInline(renderInline(inline, ctx))
+		if (text) {
+			blocks.push(text)
+		}
+		inline = []
+	}
+	for (const node of nodes) {
+		if (!isBlock(node)) {
+			inline.push(node)
+			continue
+		}
+		flush()
+		if (!isBoilerplate(node as HtmlElement, ctx.inContent)) {
+			blocks.push(...renderBlockElement(node as HtmlElement, ctx))
+		}
+	}
+	flush()
+	return blocks
+}
+
+export type ParsedWebPage = {
+	title?: string
+	description?: string
+	lang?: string
+	canonicalUrl?: string
+	/** Main content as Markdown, with navigation, headers and footers stripped. */
+	markdown: string
+	/** Absolute http(s) URLs of every followable link on the page, fragments removed. */
+	links: string[]
+	/** `<meta name="robots">` directives. */
+	noindex: boolean
+	nofollow: boolean
+}
+
+const metaContent = (root: HtmlElement, key: string) =>
+	findAll(
+		root,
+		(el) =>
+			el.tag === 'meta' &&
+			(el.attrs.name ?? el.attrs.property ?? '').toLowerCase() === key
+	)[0]?.attrs.content?.trim() || undefined
+
+/**
+ * Parse a crawled HTML page: its Markdown content, title and metadata, and
+ * the links to follow. `url` is the page's URL, used to resolve relative links.
+ */
+export function parseWebPage(html: string, url: string): ParsedWebPage {
+	const root = parseHtml(html)
+	const baseHref = findAll(root, (el) => el.tag === 'base')[0]?.attrs.href
+	const baseUrl = (baseHref && resolveUrl(baseHref, url)) || url
+
+	const robots = (metaContent(root, 'robots') ?? '').toLowerCase()
+	const noindex = /\b(?:noindex|none)\b/.test(robots)
+	const nofollow = /\b(?:nofollow|none)\b/.test(robots)
+
+	const links = new Set<string>()
+	if (!nofollow) {
+		for (const a of findAll(
+			root,
+			(el) => el.tag === 'a' && !!el.attrs.href
+		)) {
+			if (/\bnofollow\b/i.test(a.attrs.rel ?? '')) {
+				continue
+			}
+			const href = resolveUrl(a.attrs.href ?? '', baseUrl)
+			if (href && /^https?:/i.test(href)) {
+				const u = new URL(href)
+				u.hash = ''
+				links.add(u.toString())
+			}
+		}
+	}
+
+	const contentRoot = findContentRoot(root)
+	const markdown = renderBlocks(contentRoot.children, {
+		baseUrl,
+		inContent:
+			contentRoot.tag === 'main' ||
+			contentRoot.tag === 'article' ||
+			contentRoot.attrs.role === 'main'
+	})
+		.join('\n\n')
+		.trim()
+
+	const titleEl = findAll(root, (el) => el.tag === 'title')[0]
+	const h1 = findAll(contentRoot, (el) => el.tag === 'h1')[0]
+	const title =
+		(titleEl && textContent(titleEl).replace(/\s+/g, ' ').trim()) ||
+		metaContent(root, 'og:title') ||
+		(h1 && textContent(h1).replace(/\s+/g, ' ').trim()) ||
+		undefined
+	const htmlEl = findAll(root, (el) => el.tag === 'html')[0]
+	const canonical = findAll(
+		root,
+		(el) =>
+			el.tag === 'link' &&
+			(el.attrs.rel ?? '')
+				.toLowerCase()
+				.split(/\s+/)
+				.includes('canonical')
+	)[0]?.attrs.href
+
+	return {
+		title,
+		description:
+			metaContent(root, 'description') ??
+			metaContent(root, 'og:description'),
+		lang: htmlEl?.attrs.lang || undefined,
+		canonicalUrl: canonical ? resolveUrl(canonical, baseUrl) : undefined,
+		markdown,
+		links: [...links],
+		noindex,
+		nofollow
+	}
+}
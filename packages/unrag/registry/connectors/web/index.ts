@@ -0,0 +1,16 @@
+export {
+	decodeHtmlEntities,
+	parseHtml,
+	parseWebPage
+} from '@registry/connectors/web/html'
+export type {ParsedWebPage} from '@registry/connectors/web/html'
+export {parseRobotsTxt} from '@registry/connectors/web/robots'
+export type {RobotsRules} from '@registry/connectors/web/robots'
+export {parseSitemap} from '@registry/connectors/web/sitemap'
+export {
+	buildWebSourceId,
+	normalizeWebUrl,
+	streamSite,
+	webConnector
+} from '@registry/connectors/web/sync'
+export * from '@registry/connectors/web/types'
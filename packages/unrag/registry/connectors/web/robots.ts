@@ -0,0 +1,127 @@
+/**
+ * robots.txt parsing (RFC 9309): user-agent groups, Allow/Disallow with `*`
+ * and `$`, longest match wins and Allow wins ties. `Crawl-delay` and
+ * `Sitemap` lines are read too, although they are not part of the RFC.
+ */
+
+export type RobotsRules = {
+	isAllowed: (pathWithQuery: string) => boolean
+	/** Crawl-delay for the matched group, in milliseconds. */
+	crawlDelayMs?: number
+	/** Sitemap URLs listed in the file. */
+	sitemaps: string[]
+}
+
+type Rule = {allow: boolean; pattern: string; re: RegExp}
+
+type Group = {agents: string[]; rules: Rule[]; crawlDelayMs?: number}
+
+const patternToRegExp = (pattern: string) => {
+	const anchored = pattern.endsWith('$')
+	const body = (anchored ? pattern.slice(0, -1) : pattern)
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*')
+	return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/** Percent-encode what robots.txt authors typically leave raw, so paths compare consistently. */
+const normalizePath = (p: string) => {
+	try {
+		return encodeURI(decodeURI(p))
+	} catch {
+		return p
+	}
+}
+
+export const ALLOW_ALL: RobotsRules = {isAllowed: () => true, sitemaps: []}
+
+/**
+ * Parse robots.txt for a crawler whose product token is `userAgent`
+ * (e.g. `unrag` for `unrag/1.0 (+https://…)`).
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+	const groups: Group[] = []
+	const sitemaps: string[] = []
+	let group: Group | undefined
+	// Consecutive user-agent lines share one group.
+	let collectingAgents = false
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim()
+		const colon = line.indexOf(':')
+		if (colon === -1) {
+			continue
+		}
+		const key = line.slice(0, colon).trim().toLowerCase()
+		const value = line.slice(colon + 1).trim()
+
+		if (key === 'user-agent') {
+			if (!collectingAgents || !group) {
+				group = {agents: [], rules: []}
+				groups.push(group)
+			}
+			group.agents.push(value.toLowerCase())
+			collectingAgents = true
+			continue
+		}
+		collectingAgents = false
+
+		if (key === 'sitemap') {
+			if (value) {
+				sitemaps.push(value)
+			}
+		} else if (!group) {
+			// Rules before any user-agent line are ignored.
+		} else if ((key === 'allow' || key === 'disallow') && value) {
+			const pattern = normalizePath(value)
+			group.rules.push({
+				allow: key === 'allow',
+				pattern,
+				re: patternToRegExp(pattern)
+			})
+		} else if (key === 'crawl-delay') {
+			const seconds = Number(value)
+			if (Number.isFinite(seconds) && seconds >= 0) {
+				group.crawlDelayMs = seconds * 1000
+			}
+		}
+	}
+
+	const token = userAgent.split('/')[0]?.trim().toLowerCase() ?? ''
+	const named = groups.filter((g) =>
+		g.agents.some((a) => a !== '*' && token.length > 0 && token.includes(a))
+	)
+	const matched =
+		named.length > 0 ? named : groups.filter((g) => g.agents.includes('*'))
+	const rules = matched.flatMap((g) => g.rules)
+	const crawlDelays = matched.flatMap((g) =>
+		g.crawlDelayMs === undefined ? [] : [g.crawlDelayMs]
+	)
+
+	return {
+		isAllowed: (pathWithQuery) => {
+			const p = normalizePath(pathWithQuery)
+			if (p === '/robots.txt') {
+				return true
+			}
+			let best: Rule | undefined
+			for (const rule of rules) {
+				if (!rule.re.test(p)) {
+					continue
+				}
+				if (
+					!best ||
+					rule.pattern.length > best.pattern.length ||
+					(rule.pattern.length === best.pattern.length && rule.allow)
+				) {
+					best = rule
+				}
+			}
+			return best?.allow ?? true
+		},
+		crawlDelayMs:
+			crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined,
+		sitemaps
+	}
+}
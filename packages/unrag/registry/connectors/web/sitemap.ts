@@ -0,0 +1,47 @@
+import {decodeHtmlEntities} from '@registry/connectors/web/html'
+
+export type ParsedSitemap = {
+	/** Page URLs from a `<urlset>`. */
+	urls: {loc: string; lastmod?: string}[]
+	/** Child sitemap URLs from a `<sitemapindex>`. */
+	sitemaps: string[]
+}
+
+const blocks = (xml: string, tag: string) =>
+	[
+		...xml.matchAll(
+			new RegExp(
+				`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`,
+				'gi'
+			)
+		)
+	].map((m) => m[1] ?? '')
+
+const field = (block: string, tag: string) => {
+	const raw = blocks(block, tag)[0]
+	if (raw === undefined) {
+		return undefined
+	}
+	const text = raw.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim()
+	return text ? decodeHtmlEntities(text) : undefined
+}
+
+/**
+ * Parse a sitemap (`<urlset>`) or sitemap index (`<sitemapindex>`) document.
+ * Gzipped sitemaps must be decompressed by the caller.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+	const urls: ParsedSitemap['urls'] = []
+	for (const block of blocks(xml, 'url')) {
+		const loc = field(block, 'loc')
+		if (loc) {
+			const lastmod = field(block, 'lastmod')
+			urls.push(lastmod ? {loc, lastmod} : {loc})
+		}
+	}
+	const sitemaps = blocks(xml, 'sitemap').flatMap((block) => {
+		const loc = field(block, 'loc')
+		return loc ? [loc] : []
+	})
+	return {urls, sitemaps}
+}
@@ -0,0 +1,674 @@
+import {createHash} from 'node:crypto'
+import {gunzipSync} from 'node:zlib'
+import {parseWebPage} from '@registry/connectors/web/html'
+import {
+	ALLOW_ALL,
+	type RobotsRules,
+	parseRobotsTxt
+} from '@registry/connectors/web/robots'
+import {parseSitemap} from '@registry/connectors/web/sitemap'
+import type {
+	StreamWebInput,
+	WebCheckpoint,
+	WebPageState
+} from '@registry/connectors/web/types'
+import type {ConnectorEvent, ConnectorStream} from '@registry/core/connectors'
+import type {AssetInput, Metadata} from '@registry/core/types'
+import {
+	type UrlFetchPolicy,
+	assertUrlAllowed,
+	readResponseBytes
+} from '@registry/extractors/_shared/fetch'
+
+const DEFAULT_USER_AGENT = 'unrag-web-connector/1.0'
+const DEFAULT_MAX_DEPTH = 3
+const DEFAULT_MAX_PAGES = 1000
+const DEFAULT_REQUESTS_PER_SECOND = 2
+const DEFAULT_TIMEOUT_MS = 15_000
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024 // 5MB
+const MAX_REDIRECTS = 5
+const MAX_SITEMAPS = 50
+const CHECKPOINT_EVERY = 50
+
+const joinPrefix = (prefix: string | undefined, rest: string) => {
+	const p = (prefix ?? '').trim()
+	if (!p) {
+		return rest
+	}
+	return p.endsWith(':') ? p + rest : `${p}:${rest}`
+}
+
+export const buildWebSourceId = (prefix: string | undefined, url: string) =>
+	joinPrefix(prefix, `web:url:${url}`)
+
+const asMessage = (err: unknown): string => {
+	if (err instanceof Error) {
+		return err.message
+	}
+	try {
+		return typeof err === 'string' ? err : JSON.stringify(err)
+	} catch {
+		return String(err)
+	}
+}
+
+/**
+ * Canonical form used for sourceIds and checkpoint keys: absolute http(s),
+ * no fragment. Returns `undefined` for anything else.
+ */
+export function normalizeWebUrl(
+	raw: string,
+	base?: string
+): string | undefined {
+	try {
+		const u = new URL(raw.trim(), base)
+		if (u.protocol !== 'https:' && u.protocol !== 'http:') {
+			return undefined
+		}
+		u.hash = ''
+		return u.toString()
+	} catch {
+		return undefined
+	}
+}
+
+type CrawlContext = {
+	input: StreamWebInput
+	policy: UrlFetchPolicy & {allowedHosts: string[]}
+	pathPrefixes: string[]
+	userAgent: string
+	headers: Record<string, string>
+	timeoutMs: number
+	maxBytes: number
+	minIntervalMs: number
+	respectRobotsTxt: boolean
+	deleteOnRemoved: boolean
+	pages: Record<string, WebPageState>
+	/** URLs already crawled (or redirected to) in this run. */
+	visited: Set<string>
+	/** robots.txt rules per origin; `null` when robots.txt was unreachable. */
+	robots: Map<string, RobotsRules | null>
+	lastRequestAt: Map<string, number>
+}
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const inScope = (ctx: CrawlContext, url: string) => {
+	const u = new URL(url)
+	if (u.protocol === 'http:' && !ctx.policy.allowHttp) {
+		return false
+	}
+	if (!ctx.policy.allowedHosts.includes(u.hostname)) {
+		return false
+	}
+	return (
+		ctx.pathPrefixes.length === 0 ||
+		ctx.pathPrefixes.some((prefix) => u.pathname.startsWith(prefix))
+	)
+}
+
+/** Space out requests to the same host by the rate limit (or robots.txt `Crawl-delay`, if longer). */
+const throttle = async (ctx: CrawlContext, url: URL) => {
+	const crawlDelay = ctx.robots.get(url.origin)?.crawlDelayMs ?? 0
+	const interval = Math.max(ctx.minIntervalMs, crawlDelay)
+	const last = ctx.lastRequestAt.get(url.host)
+	if (last !== undefined) {
+		const wait = last + interval - Date.now()
+		if (wait > 0) {
+			await sleep(wait)
+		}
+	}
+	ctx.lastRequestAt.set(url.host, Date.now())
+}
+
+/**
+ * Fetch with the SSRF checks from `extractors/_shared/fetch` applied to the
+ * URL and to every redirect hop, so a redirect can't leave the allowed hosts.
+ */
+async function fetchPage(
+	ctx: CrawlContext,
+	url: string,
+	headers: Record<string, string> = {}
+): Promise<{res: Response; url: string}> {
+	let current = url
+	for (let hop = 0; ; hop++) {
+		const u = assertUrlAllowed(current, ctx.policy, 'web')
+		await throttle(ctx, u)
+		const res = await fetch(current, {
+			headers: {'user-agent': ctx.userAgent, ...ctx.headers, ...headers},
+			redirect: 'manual',
+			signal: AbortSignal.timeout(ctx.timeoutMs)
+		})
+		const location = res.headers.get('location')
+		if (res.status < 300 || res.status >= 400 || !location) {
+			return {res, url: current}
+		}
+		await res.body?.cancel()
+		if (hop >= MAX_REDIRECTS) {
+			throw new Error(`Too many redirects (${MAX_REDIRECTS}) from ${url}`)
+		}
+		const next = normalizeWebUrl(location, current)
+		if (!next) {
+			throw new Error(`Unsupported redirect target: ${location}`)
+		}
+		current = next
+	}
+}
+
+/**
+ * robots.txt rules for the URL's origin, or `null` when robots.txt could not
+ * be fetched. Callers skip such an origin for this run but keep its pages:
+ * an outage says nothing about whether a page is still allowed.
+ */
+async function* loadRobots(
+	ctx: CrawlContext,
+	url: string
+): AsyncGenerator<ConnectorEvent<WebCheckpoint>, RobotsRules | null> {
+	const {origin} = new URL(url)
+	const cached = ctx.robots.get(origin)
+	if (cached !== undefined) {
+		return cached
+	}
+	if (!ctx.respectRobotsTxt) {
+		ctx.robots.set(origin, ALLOW_ALL)
+		return ALLOW_ALL
+	}
+
+	let rules: RobotsRules | null
+	try {
+		const {res} = await fetchPage(ctx, `${origin}/robots.txt`)
+		if (res.ok) {
+			const bytes = await readResponseBytes(
+				res,
+				ctx.maxBytes,
+				'robots.txt'
+			)
+			rules = parseRobotsTxt(
+				new TextDecoder().decode(bytes),
+				ctx.userAgent
+			)
+		} else if (res.status < 500) {
+			// No robots.txt (or not readable): everything is allowed.
+			await res.body?.cancel()
+			rules = ALLOW_ALL
+		} else {
+			await res.body?.cancel()
+			throw new Error(`robots.txt returned ${res.status}`)
+		}
+	} catch (err) {
+		// RFC 9309: an unreachable robots.txt means "assume complete disallow".
+		rules = null
+		yield {
+			type: 'warning',
+			code: 'robots_unavailable',
+			message: `Skipping ${origin} because robots.txt could not be fetched: ${asMessage(err)}`,
+			data: {origin}
+		}
+	}
+	ctx.robots.set(origin, rules)
+	return rules
+}
+
+type TextEncodingLabel = ConstructorParameters<typeof TextDecoder>[0]
+
+const decodeText = (bytes: Uint8Array, contentType: string) => {
+	const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1]
+	try {
+		// Unknown labels throw; fall back to UTF-8.
+		return new TextDecoder(
+			(charset ?? 'utf-8') as TextEncodingLabel
+		).decode(bytes)
+	} catch {
+		return new TextDecoder('utf-8').decode(bytes)
+	}
+}
+
+/** Page URLs listed in the given sitemaps, following sitemap indexes. */
+async function* loadSitemaps(
+	ctx: CrawlContext,
+	sitemapUrls: string[]
+): AsyncGenerator<ConnectorEvent<WebCheckpoint>, string[]> {
+	const pending = [...sitemapUrls]
+	const seen = new Set<string>()
+	const urls: string[] = []
+	while (pending.length > 0 && seen.size < MAX_SITEMAPS) {
+		const sitemapUrl = pending.shift() as string
+		if (seen.has(sitemapUrl)) {
+			continue
+		}
+		seen.add(sitemapUrl)
+		try {
+			const {res} = await fetchPage(ctx, sitemapUrl)
+			if (!res.ok) {
+				await res.body?.cancel()
+				throw new Error(`HTTP ${res.status}`)
+			}
+			let bytes = await readResponseBytes(res, ctx.maxBytes, 'Sitemap')
+			if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+				bytes = new Uint8Array(gunzipSync(bytes))
+			}
+			const parsed = parseSitemap(new TextDecoder().decode(bytes))
+			for (const child of parsed.sitemaps) {
+				const next = normalizeWebUrl(child, sitemapUrl)
+				if (next) {
+					pending.push(next)
+				}
+			}
+			for (const entry of parsed.urls) {
+				const next = normalizeWebUrl(entry.loc, sitemapUrl)
+				if (next) {
+					urls.push(next)
+				}
+			}
+		} catch (err) {
+			yield {
+				type: 'warning',
+				code: 'sitemap_error',
+				message: `Could not read sitemap ${sitemapUrl}: ${asMessage(err)}`,
+				data: {url: sitemapUrl}
+			}
+		}
+	}
+	return urls
+}
+
+type FetchedDocument = {
+	content: string
+	assets: AssetInput[]
+	title?: string
+	description?: string
+	lang?: string
+	canonicalUrl?: string
+	links: string[]
+	noindex: boolean
+}
+
+const toDocument = (
+	url: string,
+	contentType: string,
+	bytes: Uint8Array
+): FetchedDocument | null => {
+	const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? ''
+	if (mediaType === 'text/html' || mediaType === 'application/xhtml+xml') {
+		const page = parseWebPage(decodeText(bytes, contentType), url)
+		return {
+			content: page.markdown,
+			assets: [],
+			title: page.title,
+			description: page.description,
+			lang: page.lang,
+			canonicalUrl: page.canonicalUrl,
+			links: page.links,
+			noindex: page.noindex
+		}
+	}
+	if (mediaType === 'text/plain' || mediaType === 'text/markdown') {
+		return {
+			content: decodeText(bytes, contentType),
+			assets: [],
+			links: [],
+			noindex: false
+		}
+	}
+	if (mediaType === 'application/pdf') {
+		const filename = decodeURIComponent(
+			new URL(url).pathname.split('/').pop() || 'document.pdf'
+		)
+		return {
+			content: '',
+			assets: [
+				{
+					assetId: url,
+					kind: 'pdf',
+					data: {kind: 'bytes', bytes, mediaType, filename}
+				}
+			],
+			links: [],
+			noindex: false
+		}
+	}
+	return null
+}
+
+const hashDocument = (doc: FetchedDocument) => {
+	const h = createHash('sha256').update(doc.content)
+	for (const asset of doc.assets) {
+		if (asset.data.kind === 'bytes') {
+			h.update(asset.data.bytes)
+		}
+	}
+	return h.digest('hex')
+}
+
+const checkpointOf = (ctx: CrawlContext): WebCheckpoint => ({
+	pages: {...ctx.pages}
+})
+
+function* forget(
+	ctx: CrawlContext,
+	url: string
+): Generator<ConnectorEvent<WebCheckpoint>> {
+	if (!ctx.pages[url]) {
+		return
+	}
+	delete ctx.pages[url]
+	if (ctx.deleteOnRemoved) {
+		yield {
+			type: 'delete',
+			input: {sourceId: buildWebSourceId(ctx.input.sourceIdPrefix, url)}
+		}
+	}
+}
+
+/**
+ * Fetch one page and emit what changed. Returns the links to follow, or
+ * `undefined` when the page offered none (unchanged, gone or failed).
+ * A redirect to an in-scope URL is crawled in place of the original.
+ */
+async function* crawlPage(
+	ctx: CrawlContext,
+	requestedUrl: string,
+	depth: number,
+	current: number
+): AsyncGenerator<ConnectorEvent<WebCheckpoint>, string[] | undefined> {
+	const requested = ctx.pages[requestedUrl]
+	const conditional: Record<string, string> = {}
+	if (requested?.etag) {
+		conditional['if-none-match'] = requested.etag
+	}
+	if (requested?.lastModified) {
+		conditional['if-modified-since'] = requested.lastModified
+	}
+
+	let fetched: {res: Response; url: string}
+	try {
+		fetched = await fetchPage(ctx, requestedUrl, conditional)
+	} catch (err) {
+		yield {
+			type: 'warning',
+			code: 'page_error',
+			message: asMessage(err),
+			data: {
+				url: requestedUrl,
+				sourceId: buildWebSourceId(
+					ctx.input.sourceIdPrefix,
+					requestedUrl
+				)
+			}
+		}
+		return undefined
+	}
+
+	const {res, url} = fetched
+	if (url !== requestedUrl) {
+		// The old URL is an alias now; its document moves to the target.
+		yield* forget(ctx, requestedUrl)
+		const robots = yield* loadRobots(ctx, url)
+		const target = new URL(url)
+		if (
+			ctx.visited.has(url) ||
+			!inScope(ctx, url) ||
+			!robots?.isAllowed(`${target.pathname}${target.search}`)
+		) {
+			await res.body?.cancel()
+			return undefined
+		}
+		ctx.visited.add(url)
+	}
+	const sourceId = buildWebSourceId(ctx.input.sourceIdPrefix, url)
+	const previous = ctx.pages[url]
+
+	if (res.status === 304 && previous) {
+		await res.body?.cancel()
+		ctx.pages[url] = {...previous, depth: Math.min(previous.depth, depth)}
+		return undefined
+	}
+	if (res.status === 404 || res.status === 410) {
+		await res.body?.cancel()
+		yield* forget(ctx, url)
+		return undefined
+	}
+	if (!res.ok) {
+		await res.body?.cancel()
+		yield {
+			type: 'warning',
+			code: 'page_error',
+			message: `HTTP ${res.status} ${res.statusText}`.trim(),
+			data: {url, sourceId, status: res.status}
+		}
+		return undefined
+	}
+
+	let doc: FetchedDocument | null
+	try {
+		const contentType = res.headers.get('content-type') ?? ''
+		const bytes = await readResponseBytes(res, ctx.maxBytes, 'Page')
+		doc = toDocument(url, contentType, bytes)
+		if (!doc) {
+			yield {
+				type: 'warning',
+				code: 'page_skipped',
+				message: `Skipping unsupported content type ${contentType || '(none)'}.`,
+				data: {url, sourceId, reason: 'content_type'}
+			}
+			return undefined
+		}
+	} catch (err) {
+		yield {
+			type: 'warning',
+			code: 'page_error',
+			message: asMessage(err),
+			data: {url, sourceId}
+		}
+		return undefined
+	}
+
+	const links = doc.links
+	if (doc.noindex) {
+		yield* forget(ctx, url)
+		return links
+	}
+	if (!doc.content.trim() && doc.assets.length === 0) {
+		yield {
+			type: 'warning',
+			code: 'page_skipped',
+			message:
+				'Skipping page without extractable content (client-side rendered?).',
+			data: {url, sourceId, reason: 'empty'}
+		}
+		return links
+	}
+
+	const hash = hashDocument(doc)
+	const etag = res.headers.get('etag') ?? undefined
+	const lastModified = res.headers.get('last-modified') ?? undefined
+	ctx.pages[url] = {
+		depth,
+		...(etag ? {etag} : {}),
+		...(lastModified ? {lastModified} : {}),
+		hash
+	}
+	if (previous?.hash === hash) {
+		// Revalidated without conditional support, content unchanged.
+		return links
+	}
+
+	yield {
+		type: 'progress',
+		message: 'page:start',
+		current,
+		sourceId,
+		entityId: url
+	}
+
+	const u = new URL(url)
+	const metadata: Metadata = {
+		connector: 'web',
+		kind: 'page',
+		url,
+		host: u.host,
+		path: u.pathname,
+		depth,
+		...(doc.title ? {title: doc.title} : {}),
+		...(doc.description ? {description: doc.description} : {}),
+		...(doc.lang ? {lang: doc.lang} : {}),
+		...(doc.canonicalUrl ? {canonicalUrl: doc.canonicalUrl} : {}),
+		...(etag ? {etag} : {}),
+		...(lastModified ? {lastModified} : {}),
+		contentHash: hash
+	}
+	yield {
+		type: 'upsert',
+		input: {sourceId, content: doc.content, assets: doc.assets, metadata}
+	}
+
+	yield {
+		type: 'progress',
+		message: 'page:success',
+		current,
+		sourceId,
+		entityId: url
+	}
+	return links
+}
+
+/**
+ * Crawl a website from seed URLs and/or sitemaps and stream its pages as
+ * connector events.
+ *
+ * HTML pages are converted to Markdown with navigation and footer chrome
+ * removed. Pages in the checkpoint are revalidated with `If-None-Match` /
+ * `If-Modified-Since`, so unchanged pages cost one cheap request and no
+ * upsert; pages that now return 404/410 are emitted as deletes.
+ */
+export async function* streamSite(
+	input: StreamWebInput
+): ConnectorStream<WebCheckpoint> {
+	const options = input.options ?? {}
+	const seeds = (input.seeds ?? []).flatMap((s) => normalizeWebUrl(s) ?? [])
+	const sitemaps = (input.sitemaps ?? []).flatMap(
+		(s) => normalizeWebUrl(s) ?? []
+	)
+	if (seeds.length === 0 && sitemaps.length === 0) {
+		throw new Error('Web connector needs at least one seed URL or sitemap')
+	}
+
+	const allowedHosts = (
+		options.allowedHosts ??
+		[...seeds, ...sitemaps].map((u) => new URL(u).hostname)
+	).map((h) => h.toLowerCase())
+	const requestsPerSecond =
+		options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND
+	const ctx: CrawlContext = {
+		input,
+		policy: {
+			allowedHosts: [...new Set(allowedHosts)],
+			allowHttp: options.allowHttp ?? false,
+			allowPrivateHosts: options.allowPrivateHosts ?? false
+		},
+		pathPrefixes: options.pathPrefixes ?? [],
+		userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+		headers: options.headers ?? {},
+		timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+		maxBytes: options.maxBytesPerPage ?? DEFAULT_MAX_BYTES,
+		minIntervalMs: requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0,
+		respectRobotsTxt: options.respectRobotsTxt ?? true,
+		deleteOnRemoved: options.deleteOnRemoved ?? true,
+		pages: {...input.checkpoint?.pages},
+		visited: new Set(),
+		robots: new Map(),
+		lastRequestAt: new Map()
+	}
+	// Fail fast on seeds the SSRF policy would reject on every request.
+	for (const url of [...seeds, ...sitemaps]) {
+		assertUrlAllowed(url, ctx.policy, 'web')
+	}
+	const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH
+	const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+
+	// Pending URLs with the smallest depth they were reached at.
+	const queue: string[] = []
+	const depths = new Map<string, number>()
+	const enqueue = (url: string, depth: number) => {
+		if (ctx.visited.has(url)) {
+			return
+		}
+		const known = depths.get(url)
+		if (known === undefined) {
+			queue.push(url)
+		}
+		if (known === undefined || depth < known) {
+			depths.set(url, depth)
+		}
+	}
+
+	for (const seed of seeds) {
+		enqueue(seed, 0)
+	}
+	for (const url of yield* loadSitemaps(ctx, sitemaps)) {
+		enqueue(url, 0)
+	}
+	// Revisit every known page, so removed ones are noticed even when nothing links to them.
+	for (const [url, state] of Object.entries(ctx.pages)) {
+		enqueue(url, state.depth)
+	}
+
+	let fetched = 0
+	while (queue.length > 0) {
+		const url = queue.shift() as string
+		const depth = depths.get(url) ?? 0
+		depths.delete(url)
+		if (ctx.visited.has(url)) {
+			// Reached earlier through a redirect.
+			continue
+		}
+		ctx.visited.add(url)
+
+		if (!inScope(ctx, url)) {
+			yield* forget(ctx, url)
+			continue
+		}
+		const robots = yield* loadRobots(ctx, url)
+		if (!robots) {
+			// Skipped for this run; checkpointed pages stay indexed.
+			continue
+		}
+		const u = new URL(url)
+		if (!robots.isAllowed(`${u.pathname}${u.search}`)) {
+			yield* forget(ctx, url)
+			continue
+		}
+		if (fetched >= maxPages) {
+			yield {
+				type: 'warning',
+				code: 'max_pages_reached',
+				message: `Stopping after maxPages (${maxPages}); ${queue.length + 1} URLs were not crawled.`,
+				data: {maxPages}
+			}
+			break
+		}
+
+		fetched += 1
+		const links = yield* crawlPage(ctx, url, depth, fetched)
+		if (links && depth < maxDepth) {
+			for (const link of links) {
+				if (inScope(ctx, link)) {
+					enqueue(link, depth + 1)
+				}
+			}
+		}
+		if (fetched % CHECKPOINT_EVERY === 0) {
+			yield {type: 'checkpoint', checkpoint: checkpointOf(ctx)}
+		}
+	}
+
+	yield {type: 'checkpoint', checkpoint: checkpointOf(ctx)}
+}
+
+/**
+ * Exported connector surface for websites.
+ */
+export const webConnector = {
+	streamSite
+}
@@ -0,0 +1,78 @@
+/**
+ * What the connector remembers about a crawled page. `etag` and
+ * `lastModified` drive conditional requests; the hash catches servers that
+ * send neither.
+ */
+export type WebPageState = {
+	/** Link depth from the nearest seed or sitemap entry. */
+	depth: number
+	etag?: string
+	lastModified?: string
+	/** sha256 of the extracted content (hex). */
+	hash: string
+}
+
+/**
+ * Opaque, JSON-serializable checkpoint for incremental recrawls.
+ * Store this in your DB/KV and pass it back to `streamSite`.
+ * Every page in the checkpoint is revalidated on the next crawl.
+ */
+export type WebCheckpoint = {
+	/** Known pages keyed by normalized URL. */
+	pages: Record<string, WebPageState>
+}
+
+export type StreamWebOptions = {
+	/**
+	 * Hostnames the crawler may fetch. Default: the hosts of `seeds` and
+	 * `sitemaps`. Links to other hosts are not followed.
+	 */
+	allowedHosts?: string[]
+	/** Follow links this many hops from a seed or sitemap page. Default: 3. */
+	maxDepth?: number
+	/** Stop after fetching this many pages. Default: 1000. */
+	maxPages?: number
+	/**
+	 * Only crawl URLs whose path starts with one of these prefixes
+	 * (e.g. `/docs/`). Default: every path on allowed hosts.
+	 */
+	pathPrefixes?: string[]
+	/** Requests per second to each host. A robots.txt `Crawl-delay` can lower it. Default: 2. */
+	requestsPerSecond?: number
+	/** Obey robots.txt. Default: true. */
+	respectRobotsTxt?: boolean
+	/** User-Agent header; its product token is matched against robots.txt groups. Default: `unrag-web-connector`. */
+	userAgent?: string
+	/** Extra request headers (e.g. auth for a private docs site). */
+	headers?: Record<string, string>
+	/** Per-request timeout in milliseconds. Default: 15000. */
+	timeoutMs?: number
+	/** Max bytes per response. Default: 5MB. */
+	maxBytesPerPage?: number
+	/** Emit delete events for checkpointed pages that now 404/410 or drop out of scope. Default: true. */
+	deleteOnRemoved?: boolean
+	/** Allow plain http:// URLs. Default: false (https only). */
+	allowHttp?: boolean
+	/**
+	 * Allow localhost and private-network IP addresses. Only for trusted
+	 * setups such as tests or intranet docs. Default: false.
+	 */
+	allowPrivateHosts?: boolean
+}
+
+export type StreamWebInput = {
+	/** Start URLs. Links are followed from here up to `maxDepth`. */
+	seeds?: string[]
+	/** `sitemap.xml` (or sitemap index) URLs; every listed page is crawled at depth 0. */
+	sitemaps?: string[]
+	/**
+	 * Optional namespace prefix, useful for multi-tenant apps:
+	 * `docs:` -> `docs:web:url:<url>`
+	 */
+	sourceIdPrefix?: string
+	options?: StreamWebOptions
+	/**
+	 * Optional checkpoint from a previous crawl. Without one, every page is emitted.
+	 */
+	checkpoint?: WebCheckpoint
+}
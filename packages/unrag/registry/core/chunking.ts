@@ -258,6 +258,112 @@ const forceSplitByTokens = (
 	return chunks
 }
 
+// ---------------------------------------------------------------------------
+// Chunk spans
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a chunk sits in its source text.
+ * `charEnd` is exclusive; lines are 1-based and inclusive.
+ */
+export type ChunkSpan = {
+	charStart: number
+	charEnd: number
+	lineStart: number
+	lineEnd: number
+}
+
+/**
+ * Locate chunk texts in the source they were split from.
+ *
+ * Chunks are searched in order from the previous chunk's start, so overlapping
+ * chunks resolve correctly. Chunks that are not exact substrings (splitters drop
+ * separators when merging pieces) are matched on their non-whitespace characters.
+ * Returns `undefined` for chunks that cannot be located.
+ */
+export const locateChunkSpans = (
+	source: string,
+	chunks: string[]
+): Array<ChunkSpan | undefined> => {
+	const lineStarts = [0]
+	for (let i = 0; i < source.length; i++) {
+		if (source[i] === '\n') {
+			lineStarts.push(i + 1)
+		}
+	}
+
+	const lineAt = (offset: number): number => {
+		let lo = 0
+		let hi = lineStarts.length - 1
+		while (lo < hi) {
+			const mid = (lo + hi + 1) >> 1
+			if ((lineStarts[mid] ?? 0) <= offset) {
+				lo = mid
+			} else {
+				hi = mid - 1
+			}
+		}
+		return lo + 1
+	}
+
+	// Source with whitespace removed, plus each kept character's original offset.
+	let compact: {text: string; offsets: number[]} | undefined
+	const compactSource = () => {
+		if (!compact) {
+			const offsets: number[] = []
+			let text = ''
+			for (let i = 0; i < source.length; i++) {
+				const ch = source[i] ?? ''
+				if (!/\s/.test(ch)) {
+					text += ch
+					offsets.push(i)
+				}
+			}
+			compact = {text, offsets}
+		}
+		return compact
+	}
+
+	let cursor = 0
+	return chunks.map((chunk) => {
+		const probe = chunk.trim()
+		if (!probe) {
+			return undefined
+		}
+
+		let start = source.indexOf(probe, cursor)
+		let end = start + probe.length
+		if (start === -1) {
+			const {text, offsets} = compactSource()
+			const needle = probe.replace(/\s+/g, '')
+			let from = 0
+			let hi = offsets.length
+			while (from < hi) {
+				const mid = (from + hi) >> 1
+				if ((offsets[mid] ?? 0) < cursor) {
+					from = mid + 1
+				} else {
+					hi = mid
+				}
+			}
+			const at = text.indexOf(needle, from)
+			if (at === -1) {
+				return undefined
+			}
+			start = offsets[at] ?? 0
+			end = (offsets[at + needle.length - 1] ?? start) + 1
+		}
+
+		cursor = start + 1
+		return {
+			charStart: start,
+			charEnd: end,
+			lineStart: lineAt(start),
+			lineEnd: lineAt(Math.max(start, end - 1))
+		}
+	})
+}
+
 /**
  * Token-based recursive text splitter (default chunker).
  *
@@ -270,6 +376,7 @@ const forceSplitByTokens = (
  * - 10-level separator hierarchy (paragraphs → sentences → words → characters)
  * - Minimum chunk size threshold to avoid tiny chunks
  * - Token-based overlap for context preservation
+ * - Per-chunk `charStart`/`charEnd`/`lineStart`/`lineEnd` metadata
  *
  * @example
  * ```typescript
@@ -304,12 +411,18 @@ export const recursiveChunker: Chunker = (
 		minChunkSize
 	)
 
+	const spans = locateChunkSpans(content, chunks)
+
 	// Convert to ChunkText format with accurate token counts
-	return chunks.map((chunkContent, index) => ({
-		index,
-		content: chunkContent,
-		tokenCount: countTokens(chunkContent)
-	}))
+	return chunks.map((chunkContent, index) => {
+		const span = spans[index]
+		return {
+			index,
+			content: chunkContent,
+			tokenCount: countTokens(chunkContent),
+			...(span ? {metadata: {...span}} : {})
+		}
+	})
 }
 
 /**
@@ -347,6 +460,31 @@ export const tokenChunker: Chunker = (
 	}))
 }
 
+// ---------------------------------------------------------------------------
+// Chunker names
+// ---------------------------------------------------------------------------
+
+const chunkerNames = new WeakMap<Chunker, string>()
+
+/**
+ * Tag a chunker with the method or plugin name it implements. `ingest()` hashes
+ * the name, so switching chunkers re-chunks documents whose content is unchanged.
+ */
+export const nameChunker = <T extends Chunker>(chunker: T, name: string): T => {
+	chunkerNames.set(chunker, name)
+	return chunker
+}
+
+/**
+ * Name a chunker was tagged with by `nameChunker()`; `"custom"` for untagged
+ * functions.
+ */
+export const getChunkerName = (chunker: Chunker): string =>
+	chunkerNames.get(chunker) ?? 'custom'
+
+nameChunker(recursiveChunker, 'recursive')
+nameChunker(tokenChunker, 'token')
+
 // ---------------------------------------------------------------------------
 // Default chunker
 // ---------------------------------------------------------------------------
@@ -367,7 +505,11 @@ const loadedPlugins = new Map<string, ChunkerPlugin>()
  * Plugins are typically auto-registered when installed via `bunx unrag add chunker:<name>`.
  */
 export const registerChunkerPlugin = (plugin: ChunkerPlugin): void => {
-	loadedPlugins.set(plugin.name, plugin)
+	loadedPlugins.set(plugin.name, {
+		...plugin,
+		createChunker: (options) =>
+			nameChunker(plugin.createChunker(options), plugin.name)
+	})
 }
 
 /**
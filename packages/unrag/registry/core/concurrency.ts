@@ -0,0 +1,33 @@
+/**
+ * Map `items` through `fn` with at most `concurrency` calls in flight.
+ * Results keep the order of `items`.
+ */
+export const mapWithConcurrency = async <T, R>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T, idx: number) => Promise<R>
+): Promise<R[]> => {
+	const limit = Math.max(1, Math.floor(concurrency || 1))
+	const results: R[] = new Array(items.length)
+	let nextIdx = 0
+
+	const workers = Array.from(
+		{length: Math.min(limit, items.length)},
+		async () => {
+			while (true) {
+				const i = nextIdx++
+				if (i >= items.length) {
+					break
+				}
+				const item = items[i]
+				if (item === undefined) {
+					continue
+				}
+				results[i] = await fn(item, i)
+			}
+		}
+	)
+
+	await Promise.all(workers)
+	return results
+}
@@ -1,5 +1,10 @@
-import {defaultChunker, resolveChunkingOptions} from '@registry/core/chunking'
+import {
+	defaultChunker,
+	getChunkerName,
+	resolveChunkingOptions
+} from '@registry/core/chunking'
 import {mergeDeep} from '@registry/core/deep-merge'
+import {withEmbeddingCache} from '@registry/core/embedding-cache'
 import type {
 	AssetProcessingConfig,
 	Chunker,
@@ -7,6 +12,8 @@ import type {
 	ContextEngineConfig,
 	DeepPartial,
 	EmbeddingProcessingConfig,
+	EmbeddingProvider,
+	EmbeddingRetryConfig,
 	ResolvedContextEngineConfig
 } from '@registry/core/types'
 
@@ -16,6 +23,9 @@ export const defineConfig = (
 
 const defaultIdGenerator = () => crypto.randomUUID()
 
+/** Index used when the engine config or a store call does not name one. */
+export const defaultIndexName = 'default'
+
 const DEFAULT_PDF_LLM_MODEL = 'google/gemini-2.0-flash'
 const DEFAULT_IMAGE_OCR_MODEL = 'google/gemini-2.0-flash'
 const DEFAULT_IMAGE_CAPTION_MODEL = 'google/gemini-2.0-flash'
@@ -142,9 +152,20 @@ export const defaultContentStorageConfig: ContentStorageConfig = {
 	storeDocumentContent: true
 }
 
+export const defaultEmbeddingRetryConfig: EmbeddingRetryConfig = {
+	maxAttempts: 3,
+	initialDelayMs: 500,
+	maxDelayMs: 20_000,
+	backoffMultiplier: 2,
+	jitter: true,
+	respectRetryAfter: true,
+	tokensPerMinute: undefined
+}
+
 export const defaultEmbeddingProcessingConfig: EmbeddingProcessingConfig = {
 	concurrency: 4,
-	batchSize: 32
+	batchSize: 32,
+	retry: defaultEmbeddingRetryConfig
 }
 
 export const resolveAssetProcessingConfig = (
@@ -164,19 +185,32 @@ export const resolveConfig = (
 	config: ContextEngineConfig
 ): ResolvedContextEngineConfig => {
 	const chunker: Chunker = config.chunker ?? defaultChunker
+	const withCache = (provider: EmbeddingProvider) =>
+		config.embeddingCache
+			? withEmbeddingCache(provider, config.embeddingCache)
+			: provider
 
 	return {
-		embedding: config.embedding,
+		embedding: withCache(config.embedding),
 		store: config.store,
 		defaults: resolveChunkingOptions(config.defaults),
 		chunker,
+		chunkerName: getChunkerName(chunker),
 		idGenerator: config.idGenerator ?? defaultIdGenerator,
 		extractors: config.extractors ?? [],
 		reranker: config.reranker,
+		queryTransform: config.queryTransform,
 		storage: resolveContentStorageConfig(config.storage),
 		assetProcessing: resolveAssetProcessingConfig(config.assetProcessing),
 		embeddingProcessing: resolveEmbeddingProcessingConfig(
 			config.embeddingProcessing
+		),
+		index: config.index ?? defaultIndexName,
+		indexes: Object.fromEntries(
+			Object.entries(config.indexes ?? {}).map(([name, provider]) => [
+				name,
+				withCache(provider)
+			])
 		)
 	}
 }
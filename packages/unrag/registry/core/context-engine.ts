@@ -7,6 +7,8 @@ import {
 } from '@registry/core/connectors'
 import {deleteDocuments} from '@registry/core/delete'
 import {ingest, planIngest} from '@registry/core/ingest'
+import {ingestMany} from '@registry/core/ingest-many'
+import {reindex} from '@registry/core/reindex'
 import {rerank} from '@registry/core/rerank'
 import {retrieve} from '@registry/core/retrieve'
 import type {
@@ -16,8 +18,12 @@ import type {
 	DeleteInput,
 	EmbeddingProvider,
 	IngestInput,
+	IngestManyOptions,
+	IngestManyResult,
 	IngestPlanResult,
 	IngestResult,
+	ReindexOptions,
+	ReindexResult,
 	RerankInput,
 	RerankResult,
 	ResolvedContextEngineConfig,
@@ -115,6 +121,48 @@ export class ContextEngine {
 		return ingest(this.config, input)
 	}
 
+	/**
+	 * Ingest many documents with bounded concurrency.
+	 *
+	 * Embedding inputs from documents in flight are pooled so `embedMany` calls
+	 * are filled up to `embeddingProcessing.batchSize`. Failures are reported per
+	 * document instead of rejecting the whole run.
+	 *
+	 * @example
+	 * ```ts
+	 * const report = await engine.ingestMany(docs, { concurrency: 8 });
+	 * for (const item of report.items) {
+	 *   if (item.status === "failed") console.error(item.sourceId, item.error);
+	 * }
+	 * ```
+	 */
+	async ingestMany(
+		inputs: IngestInput[],
+		options?: IngestManyOptions
+	): Promise<IngestManyResult> {
+		return ingestMany(this.config, inputs, options)
+	}
+
+	/**
+	 * Re-embed all stored chunks with the current embedding provider, e.g. after
+	 * changing the model or its dimensions.
+	 *
+	 * Vectors are rebuilt from stored chunk text into a staging index and swapped
+	 * in atomically once every chunk is done. Running it again after an
+	 * interruption continues where it stopped. Requires
+	 * `storage.storeChunkContent`.
+	 *
+	 * @example
+	 * ```ts
+	 * const result = await engine.reindex({
+	 *   onProgress: ({ reembedded }) => console.log(`${reembedded} chunks`),
+	 * });
+	 * ```
+	 */
+	async reindex(options?: ReindexOptions): Promise<ReindexResult> {
+		return reindex(this.config, options)
+	}
+
 	/**
 	 * Dry-run for ingestion. Returns which assets would be processed and by which extractors,
 	 * without calling external services.
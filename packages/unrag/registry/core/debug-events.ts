@@ -5,7 +5,12 @@
  * debugging of RAG operations via the debug TUI.
  */
 
-import type {RetrieveScope} from '@registry/core/types'
+import type {
+	DocumentScoreAggregation,
+	QueryVariant,
+	RetrieveMode,
+	RetrieveScope
+} from '@registry/core/types'
 
 /**
  * Base type for all debug events.
@@ -71,6 +76,27 @@ export type IngestEmbeddingBatchEvent = DebugEventBase & {
 	durationMs: number
 }
 
+/**
+ * A failed embedding provider call that will be retried.
+ */
+type EmbeddingRetryDetails = {
+	operation: 'embed' | 'embedMany' | 'embedImage' | 'embedTokens'
+	embeddingProvider: string
+	/** The attempt that failed (1-based). */
+	attempt: number
+	maxAttempts: number
+	delayMs: number
+	statusCode?: number
+	error: string
+}
+
+export type IngestEmbeddingRetryEvent = DebugEventBase &
+	EmbeddingRetryDetails & {
+		type: 'ingest:embedding-retry'
+		sourceId: string
+		documentId: string
+	}
+
 export type IngestEmbeddingCompleteEvent = DebugEventBase & {
 	type: 'ingest:embedding-complete'
 	sourceId: string
@@ -94,6 +120,8 @@ export type IngestCompleteEvent = DebugEventBase & {
 	totalChunks: number
 	totalDurationMs: number
 	warnings: string[]
+	skipped?: boolean
+	reusedEmbeddings?: number
 }
 
 export type IngestErrorEvent = DebugEventBase & {
@@ -107,11 +135,32 @@ export type IngestErrorEvent = DebugEventBase & {
 // Retrieve Events
 // ============================================================================
 
+/**
+ * The query variant a retrieve sub-step ran for. Set on embedding, database,
+ * keyword and fusion events when a query transform produced variants.
+ */
+export type RetrieveVariantRef = {
+	index: number
+	kind: string
+	text: string
+}
+
 export type RetrieveStartEvent = DebugEventBase & {
 	type: 'retrieve:start'
 	query: string
 	topK: number
 	scope?: RetrieveScope
+	mode?: RetrieveMode
+}
+
+export type RetrieveQueryTransformedEvent = DebugEventBase & {
+	type: 'retrieve:query-transformed'
+	query: string
+	transform: string
+	variants: QueryVariant[]
+	durationMs: number
+	/** Set when the transform threw and the original query was searched instead. */
+	error?: string
 }
 
 export type RetrieveEmbeddingCompleteEvent = DebugEventBase & {
@@ -120,12 +169,81 @@ export type RetrieveEmbeddingCompleteEvent = DebugEventBase & {
 	embeddingProvider: string
 	embeddingDimension: number
 	durationMs: number
+	variant?: RetrieveVariantRef
 }
 
+export type RetrieveEmbeddingRetryEvent = DebugEventBase &
+	EmbeddingRetryDetails & {
+		type: 'retrieve:embedding-retry'
+		query: string
+		variant?: RetrieveVariantRef
+	}
+
 export type RetrieveDatabaseQueryCompleteEvent = DebugEventBase & {
 	type: 'retrieve:database-complete'
 	query: string
 	resultsCount: number
+	/** Hits dropped by `minScore`. Only set when `minScore` was given. */
+	belowMinScore?: number
+	durationMs: number
+	variant?: RetrieveVariantRef
+}
+
+export type RetrieveKeywordQueryCompleteEvent = DebugEventBase & {
+	type: 'retrieve:keyword-complete'
+	query: string
+	resultsCount: number
+	durationMs: number
+	variant?: RetrieveVariantRef
+}
+
+export type RetrieveFusionCompleteEvent = DebugEventBase & {
+	type: 'retrieve:fusion-complete'
+	query: string
+	method: 'rrf' | 'weighted'
+	vectorCount: number
+	keywordCount: number
+	resultsCount: number
+	durationMs: number
+	variant?: RetrieveVariantRef
+}
+
+export type RetrieveVariantsFusedEvent = DebugEventBase & {
+	type: 'retrieve:variants-fused'
+	query: string
+	variantsCount: number
+	candidatesCount: number
+	resultsCount: number
+	durationMs: number
+}
+
+export type RetrieveDiversifiedEvent = DebugEventBase & {
+	type: 'retrieve:diversified'
+	query: string
+	lambda: number
+	maxPerSource?: number
+	candidatesCount: number
+	resultsCount: number
+	durationMs: number
+}
+
+export type RetrieveDocumentsGroupedEvent = DebugEventBase & {
+	type: 'retrieve:documents-grouped'
+	query: string
+	aggregate: DocumentScoreAggregation
+	candidatesCount: number
+	documentsCount: number
+	durationMs: number
+}
+
+export type RetrieveContextExpandedEvent = DebugEventBase & {
+	type: 'retrieve:context-expanded'
+	query: string
+	before: number
+	after: number
+	hitsCount: number
+	chunksCount: number
+	passagesCount: number
 	durationMs: number
 }
 
@@ -137,6 +255,7 @@ export type RetrieveCompleteEvent = DebugEventBase & {
 	totalDurationMs: number
 	embeddingMs: number
 	retrievalMs: number
+	mode?: RetrieveMode
 }
 
 // ============================================================================
@@ -192,14 +311,23 @@ export type DebugEvent =
 	| IngestChunkingCompleteEvent
 	| IngestEmbeddingStartEvent
 	| IngestEmbeddingBatchEvent
+	| IngestEmbeddingRetryEvent
 	| IngestEmbeddingCompleteEvent
 	| IngestStorageCompleteEvent
 	| IngestCompleteEvent
 	| IngestErrorEvent
 	// Retrieve events
 	| RetrieveStartEvent
+	| RetrieveQueryTransformedEvent
 	| RetrieveEmbeddingCompleteEvent
+	| RetrieveEmbeddingRetryEvent
 	| RetrieveDatabaseQueryCompleteEvent
+	| RetrieveKeywordQueryCompleteEvent
+	| RetrieveFusionCompleteEvent
+	| RetrieveVariantsFusedEvent
+	| RetrieveDiversifiedEvent
+	| RetrieveDocumentsGroupedEvent
+	| RetrieveContextExpandedEvent
 	| RetrieveCompleteEvent
 	// Rerank events
 	| RerankStartEvent
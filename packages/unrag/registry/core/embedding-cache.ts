@@ -0,0 +1,155 @@
+import type {
+	EmbeddingCache,
+	EmbeddingInput,
+	EmbeddingProvider
+} from '@registry/core/types'
+
+const sha256Hex = async (value: string): Promise<string> => {
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(value)
+	)
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('')
+}
+
+/**
+ * Cache key for a text embedding: provider name plus a hash of the text.
+ */
+export const embeddingCacheKey = async (
+	providerName: string,
+	text: string
+): Promise<string> => `${providerName}:${await sha256Hex(text)}`
+
+/**
+ * Wrap an embedding provider so text embeddings are served from the cache when
+ * possible. `embedMany` sends only the misses (deduplicated) to the provider.
+ * `embedImage` is passed through unchanged.
+ */
+export const withEmbeddingCache = (
+	provider: EmbeddingProvider,
+	cache: EmbeddingCache
+): EmbeddingProvider => {
+	const embedMany = provider.embedMany
+
+	return {
+		...provider,
+		embed: async (input) => {
+			const key = await embeddingCacheKey(provider.name, input.text)
+			const [cached] = await cache.getMany([key])
+			if (cached) {
+				return cached
+			}
+			const embedding = await provider.embed(input)
+			await cache.setMany([{key, embedding}])
+			return embedding
+		},
+		...(embedMany
+			? {
+					embedMany: async (inputs: EmbeddingInput[]) => {
+						const keys = await Promise.all(
+							inputs.map((i) =>
+								embeddingCacheKey(provider.name, i.text)
+							)
+						)
+						const cached = await cache.getMany(keys)
+						const results: Array<number[] | undefined> = [...cached]
+
+						// Identical texts within a batch are embedded once.
+						const missIndexes = new Map<string, number[]>()
+						const missInputs: EmbeddingInput[] = []
+						for (let i = 0; i < inputs.length; i++) {
+							const key = keys[i]
+							const input = inputs[i]
+							if (results[i] || key === undefined || !input) {
+								continue
+							}
+							const existing = missIndexes.get(key)
+							if (existing) {
+								existing.push(i)
+								continue
+							}
+							missIndexes.set(key, [i])
+							missInputs.push(input)
+						}
+
+						if (missInputs.length > 0) {
+							const embeddings = await embedMany(missInputs)
+							if (
+								!Array.isArray(embeddings) ||
+								embeddings.length !== missInputs.length
+							) {
+								throw new Error(
+									`embedMany() returned ${Array.isArray(embeddings) ? embeddings.length : 'non-array'} embeddings for a batch of ${missInputs.length}`
+								)
+							}
+							const entries: Array<{
+								key: string
+								embedding: number[]
+							}> = []
+							let missIdx = 0
+							for (const [key, indexes] of missIndexes) {
+								const embedding = embeddings[missIdx]
+								missIdx++
+								if (!embedding) {
+									continue
+								}
+								entries.push({key, embedding})
+								for (const i of indexes) {
+									results[i] = embedding
+								}
+							}
+							await cache.setMany(entries)
+						}
+
+						return results.map((embedding) => {
+							if (!embedding) {
+								throw new Error(
+									'Internal error: missing embedding for cached batch'
+								)
+							}
+							return embedding
+						})
+					}
+				}
+			: {})
+	}
+}
+
+/**
+ * In-memory LRU embedding cache. Useful for repeated queries and eval runs
+ * within one process; entries are lost on restart.
+ */
+export const createMemoryEmbeddingCache = (
+	options: {maxEntries?: number} = {}
+): EmbeddingCache => {
+	const maxEntries = Math.max(1, options.maxEntries ?? 10_000)
+	// Map iteration order is insertion order; re-inserting on read keeps it LRU.
+	const entries = new Map<string, number[]>()
+
+	return {
+		getMany: async (keys) =>
+			keys.map((key) => {
+				const embedding = entries.get(key)
+				if (embedding) {
+					entries.delete(key)
+					entries.set(key, embedding)
+				}
+				return embedding
+			}),
+		setMany: async (items) => {
+			for (const {key, embedding} of items) {
+				entries.delete(key)
+				entries.set(key, embedding)
+			}
+			while (entries.size > maxEntries) {
+				const oldest = entries.keys().next().value
+				if (oldest === undefined) {
+					break
+				}
+				entries.delete(oldest)
+			}
+		}
+	}
+}
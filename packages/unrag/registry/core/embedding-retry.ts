@@ -0,0 +1,301 @@
+/**
+ * Retry, backoff and rate-limit handling for embedding provider calls.
+ *
+ * Providers throw whatever their SDK throws, so status codes and headers are
+ * read defensively from the common error shapes (AI SDK `APICallError`/`RetryError`,
+ * fetch-style `response`, plain `status`/`statusCode` fields).
+ */
+
+import type {
+	EmbeddingProcessingConfig,
+	EmbeddingRetryConfig
+} from '@registry/core/types'
+
+export type EmbeddingOperation =
+	| 'embed'
+	| 'embedMany'
+	| 'embedImage'
+	| 'embedTokens'
+
+/**
+ * Details of a failed attempt that is about to be retried.
+ */
+export type EmbeddingRetryAttempt = {
+	operation: EmbeddingOperation
+	/** The attempt that failed (1-based). */
+	attempt: number
+	maxAttempts: number
+	/** How long we wait before the next attempt. */
+	delayMs: number
+	error: unknown
+	statusCode?: number
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429])
+
+const RETRYABLE_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'EAI_AGAIN',
+	'UND_ERR_SOCKET',
+	'UND_ERR_CONNECT_TIMEOUT'
+])
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+	value && typeof value === 'object'
+		? (value as Record<string, unknown>)
+		: undefined
+
+/**
+ * The error itself plus the errors it wraps (`lastError` from AI SDK retries, `cause`).
+ */
+const errorChain = (err: unknown): Record<string, unknown>[] => {
+	const chain: Record<string, unknown>[] = []
+	let current: unknown = err
+	while (chain.length < 4) {
+		const record = asRecord(current)
+		if (!record || chain.includes(record)) {
+			break
+		}
+		chain.push(record)
+		current = record.lastError ?? record.cause
+	}
+	return chain
+}
+
+const statusOf = (record: Record<string, unknown>): number | undefined => {
+	const candidates = [
+		record.statusCode,
+		record.status,
+		asRecord(record.response)?.status
+	]
+	for (const candidate of candidates) {
+		if (typeof candidate === 'number' && Number.isFinite(candidate)) {
+			return candidate
+		}
+	}
+	return undefined
+}
+
+export const getEmbeddingErrorStatus = (err: unknown): number | undefined => {
+	for (const record of errorChain(err)) {
+		const status = statusOf(record)
+		if (status !== undefined) {
+			return status
+		}
+	}
+	return undefined
+}
+
+/**
+ * Whether an embedding error is worth retrying: rate limits, timeouts, 5xx
+ * and transient network failures.
+ */
+export const isRetryableEmbeddingError = (err: unknown): boolean => {
+	const status = getEmbeddingErrorStatus(err)
+	if (status !== undefined) {
+		return RETRYABLE_STATUS.has(status) || status >= 500
+	}
+
+	for (const record of errorChain(err)) {
+		if (typeof record.isRetryable === 'boolean') {
+			return record.isRetryable
+		}
+		if (
+			typeof record.code === 'string' &&
+			RETRYABLE_CODES.has(record.code)
+		) {
+			return true
+		}
+		if (record.name === 'TimeoutError') {
+			return true
+		}
+		if (
+			record.name === 'TypeError' &&
+			String(record.message ?? '').includes('fetch failed')
+		) {
+			return true
+		}
+	}
+	return false
+}
+
+const readHeader = (headers: unknown, name: string): string | undefined => {
+	if (!headers || typeof headers !== 'object') {
+		return undefined
+	}
+	const getter = (headers as {get?: unknown}).get
+	if (typeof getter === 'function') {
+		const value = getter.call(headers, name)
+		return typeof value === 'string' ? value : undefined
+	}
+	for (const [key, value] of Object.entries(headers)) {
+		if (key.toLowerCase() === name && typeof value === 'string') {
+			return value
+		}
+	}
+	return undefined
+}
+
+/**
+ * Delay requested by the provider via `retry-after-ms` or `Retry-After`
+ * (seconds or HTTP date), if any.
+ */
+export const getRetryAfterMs = (err: unknown): number | undefined => {
+	for (const record of errorChain(err)) {
+		const sources = [
+			record.responseHeaders,
+			record.headers,
+			asRecord(record.response)?.headers
+		]
+		for (const headers of sources) {
+			const msValue = readHeader(headers, 'retry-after-ms')
+			if (msValue && Number.isFinite(Number(msValue))) {
+				return Math.max(0, Number(msValue))
+			}
+			const value = readHeader(headers, 'retry-after')
+			if (!value) {
+				continue
+			}
+			const seconds = Number(value)
+			if (Number.isFinite(seconds)) {
+				return Math.max(0, seconds * 1000)
+			}
+			const date = Date.parse(value)
+			if (Number.isFinite(date)) {
+				return Math.max(0, date - Date.now())
+			}
+		}
+	}
+	return undefined
+}
+
+/**
+ * Delay before the next attempt, or undefined when the provider's Retry-After
+ * exceeds `maxDelayMs`: retrying sooner would only be rejected again.
+ */
+const computeDelayMs = (
+	policy: EmbeddingRetryConfig,
+	attempt: number,
+	err: unknown
+): number | undefined => {
+	const base = Math.min(
+		policy.maxDelayMs,
+		policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1)
+	)
+	const backoff = policy.jitter ? base * (0.5 + Math.random() / 2) : base
+	const retryAfter = policy.respectRetryAfter
+		? getRetryAfterMs(err)
+		: undefined
+	if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+		return undefined
+	}
+	return Math.round(Math.max(backoff, retryAfter ?? 0))
+}
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+// ---------------------------------------------------------------------------
+// Token budget
+// ---------------------------------------------------------------------------
+
+const WINDOW_MS = 60_000
+
+type TokenBudget = {
+	acquire: (tokens: number) => Promise<void>
+}
+
+/**
+ * Rolling one-minute token budget. A request larger than the whole budget is
+ * let through once the window is empty, so it can't block forever.
+ */
+const createTokenBudget = (tokensPerMinute: number): TokenBudget => {
+	const spent: Array<{at: number; tokens: number}> = []
+
+	return {
+		acquire: async (tokens) => {
+			for (;;) {
+				const time = Date.now()
+				while (spent[0] && spent[0].at <= time - WINDOW_MS) {
+					spent.shift()
+				}
+				const used = spent.reduce((sum, entry) => sum + entry.tokens, 0)
+				const oldest = spent[0]
+				if (!oldest || used + tokens <= tokensPerMinute) {
+					spent.push({at: time, tokens})
+					return
+				}
+				await sleep(oldest.at + WINDOW_MS - time)
+			}
+		}
+	}
+}
+
+// Budgets are per resolved retry policy, i.e. shared by all operations of one engine.
+const budgets = new WeakMap<EmbeddingRetryConfig, TokenBudget>()
+
+const budgetFor = (policy: EmbeddingRetryConfig): TokenBudget | undefined => {
+	const limit = policy.tokensPerMinute
+	if (!limit || limit <= 0) {
+		return undefined
+	}
+	let budget = budgets.get(policy)
+	if (!budget) {
+		budget = createTokenBudget(limit)
+		budgets.set(policy, budget)
+	}
+	return budget
+}
+
+/**
+ * Run one embedding provider call under the configured retry policy and token budget.
+ *
+ * `estimateTokens` is only invoked when a token budget is configured.
+ */
+export const withEmbeddingRetry = async <T>(
+	processing: EmbeddingProcessingConfig,
+	args: {
+		operation: EmbeddingOperation
+		estimateTokens?: () => number
+		onRetry?: (attempt: EmbeddingRetryAttempt) => void
+	},
+	call: () => Promise<T>
+): Promise<T> => {
+	const policy = processing.retry
+	const maxAttempts = Math.max(1, Math.floor(policy?.maxAttempts ?? 1))
+	const budget = policy ? budgetFor(policy) : undefined
+	const tokens = budget ? (args.estimateTokens?.() ?? 0) : 0
+
+	for (let attempt = 1; ; attempt++) {
+		if (budget && tokens > 0) {
+			await budget.acquire(tokens)
+		}
+		try {
+			return await call()
+		} catch (err) {
+			if (
+				!policy ||
+				attempt >= maxAttempts ||
+				!isRetryableEmbeddingError(err)
+			) {
+				throw err
+			}
+			const delayMs = computeDelayMs(policy, attempt, err)
+			if (delayMs === undefined) {
+				throw err
+			}
+			args.onRetry?.({
+				operation: args.operation,
+				attempt,
+				maxAttempts,
+				delayMs,
+				error: err,
+				statusCode: getEmbeddingErrorStatus(err)
+			})
+			await sleep(delayMs)
+		}
+	}
+}
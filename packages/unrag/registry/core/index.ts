@@ -6,17 +6,33 @@ export {
 } from '@registry/core/context-engine'
 export {deleteDocuments} from '@registry/core/delete'
 export {ingest, planIngest} from '@registry/core/ingest'
+export {ingestMany} from '@registry/core/ingest-many'
+export {reindex} from '@registry/core/reindex'
 export {rerank} from '@registry/core/rerank'
 export {retrieve} from '@registry/core/retrieve'
+export {
+	createConversationalRewriteTransform,
+	createHydeTransform,
+	createMultiQueryTransform,
+	dedupeQueryVariants,
+	pipeQueryTransforms
+} from '@registry/core/query-transform'
+export type {
+	LlmQueryTransformOptions,
+	QueryTransformGenerate
+} from '@registry/core/query-transform'
 export * from '@registry/core/connectors'
 export {
 	countTokens,
 	defaultChunker,
 	defaultChunkingOptions,
 	getAvailableChunkers,
+	getChunkerName,
 	getChunkerPlugin,
 	isChunkerAvailable,
 	listChunkerPlugins,
+	locateChunkSpans,
+	nameChunker,
 	recursiveChunker,
 	tokenChunker,
 	registerChunkerPlugin,
@@ -29,6 +45,12 @@ export {
 	resolveAssetProcessingConfig,
 	resolveContentStorageConfig
 } from '@registry/core/config'
+export type {ChunkSpan} from '@registry/core/chunking'
+export {
+	createMemoryEmbeddingCache,
+	embeddingCacheKey,
+	withEmbeddingCache
+} from '@registry/core/embedding-cache'
 export {getChunkAssetRef, isAssetChunk} from '@registry/core/assets'
 export type {ChunkAssetRef} from '@registry/core/assets'
 export * from '@registry/core/types'
@@ -0,0 +1,280 @@
+import {isRetryableEmbeddingError} from '@registry/core/embedding-retry'
+import {ingest} from '@registry/core/ingest'
+import type {
+	EmbeddingInput,
+	EmbeddingProvider,
+	IngestInput,
+	IngestManyItemResult,
+	IngestManyOptions,
+	IngestManyResult,
+	ResolvedContextEngineConfig
+} from '@registry/core/types'
+
+const now = () => performance.now()
+
+const DEFAULT_INGEST_MANY_CONCURRENCY = 4
+
+/**
+ * How long a partially filled batch waits for other documents to contribute
+ * inputs before it is sent anyway.
+ */
+const BATCH_LINGER_MS = 10
+
+type EmbedRequest = {
+	embeddings: number[][]
+	remaining: number
+	settled: boolean
+	resolve: (embeddings: number[][]) => void
+	reject: (err: unknown) => void
+}
+
+type QueuedInput = {
+	request: EmbedRequest
+	offset: number
+	input: EmbeddingInput
+}
+
+/**
+ * Wrap a provider so `embedMany` calls from concurrently ingested documents are
+ * pooled into shared, full-size batches.
+ *
+ * Each caller still gets back exactly the embeddings for its own inputs. When a
+ * batch shared by several documents fails with a non-retryable error, each
+ * document's inputs are resent on their own so one bad input only fails the
+ * document it belongs to. Retryable errors fail the whole batch.
+ */
+const withSharedEmbeddingBatches = (
+	provider: EmbeddingProvider,
+	options: {batchSize: number; concurrency: number}
+): EmbeddingProvider => {
+	const embedMany = provider.embedMany
+	if (!embedMany) {
+		return provider
+	}
+
+	const batchSize = Math.max(1, Math.floor(options.batchSize || 1))
+	const concurrency = Math.max(1, Math.floor(options.concurrency || 1))
+	let queue: QueuedInput[] = []
+	let isolated: QueuedInput[][] = []
+	let inFlight = 0
+	let lingerTimer: ReturnType<typeof setTimeout> | null = null
+
+	const fail = (request: EmbedRequest, err: unknown) => {
+		if (request.settled) {
+			return
+		}
+		request.settled = true
+		queue = queue.filter((item) => item.request !== request)
+		isolated = isolated.filter((batch) => batch[0]?.request !== request)
+		request.reject(err)
+	}
+
+	const send = async (batch: QueuedInput[]) => {
+		inFlight++
+		try {
+			const embeddings = await embedMany(batch.map((item) => item.input))
+			if (
+				!Array.isArray(embeddings) ||
+				embeddings.length !== batch.length
+			) {
+				throw new Error(
+					`embedMany() returned ${Array.isArray(embeddings) ? embeddings.length : 'non-array'} embeddings for a batch of ${batch.length}`
+				)
+			}
+			for (let i = 0; i < batch.length; i++) {
+				const item = batch[i]
+				const embedding = embeddings[i]
+				if (!item || item.request.settled) {
+					continue
+				}
+				if (!embedding) {
+					fail(
+						item.request,
+						new Error('Internal error: missing embedding for input')
+					)
+					continue
+				}
+				item.request.embeddings[item.offset] = embedding
+				item.request.remaining--
+				if (item.request.remaining === 0) {
+					item.request.settled = true
+					item.request.resolve(item.request.embeddings)
+				}
+			}
+		} catch (err) {
+			const requests = [
+				...new Set(
+					batch
+						.filter((item) => !item.request.settled)
+						.map((item) => item.request)
+				)
+			]
+			// Transient failures go back to every document so each one backs off
+			// through its own retry policy; only input errors are worth isolating.
+			if (requests.length > 1 && !isRetryableEmbeddingError(err)) {
+				for (const request of requests) {
+					isolated.push(
+						batch.filter((item) => item.request === request)
+					)
+				}
+			} else {
+				for (const item of batch) {
+					fail(item.request, err)
+				}
+			}
+		} finally {
+			inFlight--
+			pump()
+		}
+	}
+
+	const pump = () => {
+		while (inFlight < concurrency && isolated.length > 0) {
+			const batch = isolated.shift()
+			if (batch) {
+				void send(batch)
+			}
+		}
+		while (inFlight < concurrency && queue.length >= batchSize) {
+			void send(queue.splice(0, batchSize))
+		}
+		if (queue.length === 0 || inFlight >= concurrency || lingerTimer) {
+			return
+		}
+		lingerTimer = setTimeout(() => {
+			lingerTimer = null
+			if (queue.length > 0 && inFlight < concurrency) {
+				void send(queue.splice(0, batchSize))
+			}
+			pump()
+		}, BATCH_LINGER_MS)
+	}
+
+	return {
+		...provider,
+		embedMany: (inputs) => {
+			if (inputs.length === 0) {
+				return Promise.resolve([])
+			}
+			return new Promise<number[][]>((resolve, reject) => {
+				const request: EmbedRequest = {
+					embeddings: new Array(inputs.length),
+					remaining: inputs.length,
+					settled: false,
+					resolve,
+					reject
+				}
+				inputs.forEach((input, offset) => {
+					queue.push({request, offset, input})
+				})
+				pump()
+			})
+		}
+	}
+}
+
+const toError = (err: unknown): Error => {
+	if (err instanceof Error) {
+		return err
+	}
+	return new Error(typeof err === 'string' ? err : String(err))
+}
+
+export const ingestMany = async (
+	config: ResolvedContextEngineConfig,
+	inputs: IngestInput[],
+	options: IngestManyOptions = {}
+): Promise<IngestManyResult> => {
+	const totalStart = now()
+	const concurrency = Math.max(
+		1,
+		Math.floor(options.concurrency ?? DEFAULT_INGEST_MANY_CONCURRENCY)
+	)
+	const onError = options.onError ?? 'continue'
+
+	const sharedConfig: ResolvedContextEngineConfig = {
+		...config,
+		embedding: withSharedEmbeddingBatches(
+			config.embedding,
+			config.embeddingProcessing
+		)
+	}
+
+	const items: Array<IngestManyItemResult | undefined> = new Array(
+		inputs.length
+	)
+	let nextIdx = 0
+	let completed = 0
+	let succeeded = 0
+	let failed = 0
+	let aborted = false
+
+	const workers = Array.from(
+		{length: Math.min(concurrency, inputs.length)},
+		async () => {
+			while (!aborted) {
+				const index = nextIdx++
+				const input = inputs[index]
+				if (index >= inputs.length || !input) {
+					break
+				}
+
+				let item: Exclude<IngestManyItemResult, {status: 'cancelled'}>
+				try {
+					const result = await ingest(sharedConfig, input)
+					item = {
+						index,
+						sourceId: input.sourceId,
+						status: 'succeeded',
+						result
+					}
+					succeeded++
+				} catch (err) {
+					item = {
+						index,
+						sourceId: input.sourceId,
+						status: 'failed',
+						error: toError(err)
+					}
+					failed++
+					if (onError === 'abort') {
+						aborted = true
+					}
+				}
+
+				items[index] = item
+				completed++
+				options.onProgress?.({
+					item,
+					completed,
+					succeeded,
+					failed,
+					total: inputs.length
+				})
+			}
+		}
+	)
+
+	await Promise.all(workers)
+
+	let cancelled = 0
+	const results = inputs.map((input, index): IngestManyItemResult => {
+		const item = items[index]
+		if (item) {
+			return item
+		}
+		cancelled++
+		return {index, sourceId: input.sourceId, status: 'cancelled'}
+	})
+
+	return {
+		items: results,
+		succeeded,
+		failed,
+		cancelled,
+		aborted,
+		durations: {
+			totalMs: now() - totalStart
+		}
+	}
+}
@@ -1,5 +1,12 @@
+import {countTokens, getChunkerName} from '@registry/core/chunking'
+import {mapWithConcurrency} from '@registry/core/concurrency'
+import {defaultIndexName} from '@registry/core/config'
 import {getDebugEmitter} from '@registry/core/debug-emitter'
 import {mergeDeep} from '@registry/core/deep-merge'
+import {
+	type EmbeddingRetryAttempt,
+	withEmbeddingRetry
+} from '@registry/core/embedding-retry'
 import type {
 	AssetExtractor,
 	AssetExtractorContext,
@@ -12,7 +19,8 @@ import type {
 	IngestResult,
 	IngestWarning,
 	Metadata,
-	ResolvedContextEngineConfig
+	ResolvedContextEngineConfig,
+	StoredDocumentState
 } from '@registry/core/types'
 import {getAssetBytes} from '@registry/extractors/_shared/fetch'
 
@@ -39,36 +47,50 @@ const asMessage = (err: unknown) => {
 	}
 }
 
-const mapWithConcurrency = async <T, R>(
-	items: T[],
-	concurrency: number,
-	fn: (item: T, idx: number) => Promise<R>
-): Promise<R[]> => {
-	const limit = Math.max(1, Math.floor(concurrency || 1))
-	const results: R[] = new Array(items.length)
-	let nextIdx = 0
-
-	const workers = Array.from(
-		{length: Math.min(limit, items.length)},
-		async () => {
-			while (true) {
-				const i = nextIdx++
-				if (i >= items.length) {
-					break
-				}
-				const item = items[i]
-				if (item === undefined) {
-					continue
-				}
-				results[i] = await fn(item, i)
-			}
-		}
-	)
+/**
+ * JSON serialization with sorted object keys, so equal values hash equally
+ * regardless of property insertion order.
+ */
+const stableStringify = (value: unknown): string => {
+	if (value instanceof Uint8Array) {
+		return JSON.stringify(Array.from(value))
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map((v) => stableStringify(v ?? null)).join(',')}]`
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, v]) => v !== undefined && typeof v !== 'function')
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		return `{${entries
+			.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+			.join(',')}}`
+	}
+	return JSON.stringify(value) ?? 'null'
+}
 
-	await Promise.all(workers)
-	return results
+export const sha256Hex = async (data: string | Uint8Array): Promise<string> => {
+	const bytes =
+		typeof data === 'string' ? new TextEncoder().encode(data) : data
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		bytes as Uint8Array<ArrayBuffer>
+	)
+	return Array.from(new Uint8Array(digest), (b) =>
+		b.toString(16).padStart(2, '0')
+	).join('')
 }
 
+/**
+ * Hash identifying a chunk's embedding input for a provider, stored as
+ * `Chunk.contentHash`. `inputHash` is the SHA-256 of the text or image bytes.
+ */
+export const chunkContentHash = (
+	embeddingProvider: string,
+	kind: 'text' | 'image',
+	inputHash: string
+) => sha256Hex(`${embeddingProvider}:${kind}:${inputHash}`)
+
 export const ingest = async (
 	config: ResolvedContextEngineConfig,
 	input: IngestInput
@@ -85,12 +107,15 @@ export const ingest = async (
 	const storeChunkContent = config.storage.storeChunkContent
 	const storeDocumentContent = config.storage.storeDocumentContent
 	const storedDocumentContent = storeDocumentContent ? input.content : ''
+	const index = config.index ?? defaultIndexName
 
 	const chunkingOptions = {
 		...config.defaults,
 		...input.chunking,
 		sourceId: input.sourceId,
-		metadata: input.metadata ?? {}
+		metadata: input.metadata ?? {},
+		embedding: config.embedding,
+		embeddingProcessing: config.embeddingProcessing
 	}
 
 	const chunker = input.chunker ?? config.chunker
@@ -115,8 +140,83 @@ export const ingest = async (
 		input.assetProcessing
 	)
 
+	// Hash everything that affects the stored representation. Asset bytes are hashed
+	// separately to keep the hash input small; URL assets are identified by URL only.
+	// The index is left out: engines writing to different indexes share documents,
+	// and whether this index holds the vectors is checked separately below.
+	const documentContentHash = await sha256Hex(
+		stableStringify({
+			content: input.content,
+			metadata,
+			chunking: {...config.defaults, ...input.chunking},
+			chunker: input.chunker
+				? getChunkerName(input.chunker)
+				: (config.chunkerName ?? getChunkerName(config.chunker)),
+			embeddingProvider: config.embedding.name,
+			storage: config.storage,
+			assetProcessing,
+			assets: await Promise.all(
+				assets.map(async (asset) => ({
+					...asset,
+					data:
+						asset.data.kind === 'bytes'
+							? {
+									...asset.data,
+									bytes: await sha256Hex(asset.data.bytes)
+								}
+							: asset.data
+				}))
+			)
+		})
+	)
+
+	const existing: StoredDocumentState | null = config.store.getDocumentState
+		? await config.store.getDocumentState({sourceId: input.sourceId, index})
+		: null
+
+	if (
+		!input.force &&
+		existing &&
+		existing.contentHash === documentContentHash &&
+		(existing.embeddedChunkCount ?? existing.chunkCount) ===
+			existing.chunkCount
+	) {
+		const totalMs = now() - totalStart
+
+		debug.emit({
+			type: 'ingest:complete',
+			sourceId: input.sourceId,
+			documentId: existing.documentId,
+			totalChunks: existing.chunkCount,
+			totalDurationMs: totalMs,
+			warnings: [],
+			skipped: true,
+			reusedEmbeddings: 0,
+			opName: 'ingest',
+			opId,
+			spanId: rootSpanId
+		})
+
+		return {
+			documentId: existing.documentId,
+			chunkCount: existing.chunkCount,
+			embeddingModel: config.embedding.name,
+			warnings: [],
+			skipped: true,
+			reusedEmbeddings: 0,
+			durations: {
+				totalMs,
+				chunkingMs: 0,
+				embeddingMs: 0,
+				storageMs: 0
+			}
+		}
+	}
+
 	type PreparedChunk = {
 		chunk: Chunk
+		/** Embedding supplied by the chunker, if any. */
+		embedding?: number[]
 		embed:
 			| {kind: 'text'; text: string}
 			| {
@@ -140,9 +240,10 @@ export const ingest = async (
 				index: c.index,
 				content: storeChunkContent ? c.content : '',
 				tokenCount: storeChunkContent ? c.tokenCount : 0,
-				metadata,
+				metadata: c.metadata ? {...metadata, ...c.metadata} : metadata,
 				documentContent: storedDocumentContent
 			},
+			...(c.embedding ? {embedding: c.embedding} : {}),
 			embed: {kind: 'text', text: c.content}
 		})
 	}
@@ -230,6 +331,7 @@ export const ingest = async (
 							metadata: {
 								...args.assetMeta,
 								...(res?.metadata ?? {}),
+								...(c.metadata ?? {}),
 								extractor: ex.name,
 								extractorLabel: item.label,
 								...(item.confidence !== undefined
@@ -416,7 +518,11 @@ export const ingest = async (
 						sourceId: input.sourceId,
 						content: storeChunkContent ? c.content : '',
 						tokenCount: storeChunkContent ? c.tokenCount : 0,
-						metadata: {...assetMeta, extractor: 'image:caption'},
+						metadata: {
+							...assetMeta,
+							...(c.metadata ?? {}),
+							extractor: 'image:caption'
+						},
 						documentContent: storedDocumentContent,
 						embed: {kind: 'text', text: c.content},
 						storedContent: storeChunkContent ? c.content : '',
@@ -624,6 +730,35 @@ export const ingest = async (
 
 	const embeddingStart = now()
 
+	// Hash each chunk's embedding input so unchanged chunks can reuse stored vectors.
+	await mapWithConcurrency(prepared, 8, async (item) => {
+		const hashInput =
+			item.embed.kind === 'text'
+				? await sha256Hex(item.embed.text)
+				: await sha256Hex(item.embed.data)
+		item.chunk.contentHash = await chunkContentHash(
+			config.embedding.name,
+			item.embed.kind,
+			hashInput
+		)
+		item.chunk.documentContentHash = documentContentHash
+		item.chunk.embeddingModel = config.embedding.name
+	})
+
+	const reusableEmbeddings = new Map<string, number[]>()
+	if (existing && config.store.getChunkEmbeddings && prepared.length > 0) {
+		const stored = await config.store.getChunkEmbeddings({
+			sourceId: input.sourceId,
+			index,
+			contentHashes: Array.from(
+				new Set(prepared.map((p) => p.chunk.contentHash ?? ''))
+			)
+		})
+		for (const row of stored) {
+			reusableEmbeddings.set(row.contentHash, row.embedding)
+		}
+	}
+
 	debug.emit({
 		type: 'ingest:embedding-start',
 		sourceId: input.sourceId,
@@ -664,12 +799,26 @@ export const ingest = async (
 		}
 	}> = []
 
+	let reusedEmbeddings = 0
+
 	for (let i = 0; i < prepared.length; i++) {
 		const preparedItem = prepared[i]
 		if (!preparedItem) {
 			continue
 		}
 		const {chunk, embed} = preparedItem
+		if (preparedItem.embedding) {
+			embeddedChunks[i] = {...chunk, embedding: preparedItem.embedding}
+			continue
+		}
+		const reused = chunk.contentHash
+			? reusableEmbeddings.get(chunk.contentHash)
+			: undefined
+		if (reused) {
+			embeddedChunks[i] = {...chunk, embedding: reused}
+			reusedEmbeddings++
+			continue
+		}
 		if (embed.kind === 'image') {
 			imageSpecs.push({
 				idx: i,
@@ -702,6 +851,25 @@ export const ingest = async (
 
 	const concurrency = config.embeddingProcessing.concurrency
 
+	const emitRetry = (retry: EmbeddingRetryAttempt) => {
+		debug.emit({
+			type: 'ingest:embedding-retry',
+			sourceId: input.sourceId,
+			documentId,
+			operation: retry.operation,
+			embeddingProvider: config.embedding.name,
+			attempt: retry.attempt,
+			maxAttempts: retry.maxAttempts,
+			delayMs: retry.delayMs,
+			statusCode: retry.statusCode,
+			error: asMessage(retry.error),
+			opName: 'ingest',
+			opId,
+			spanId: embeddingSpanId,
+			parentSpanId: rootSpanId
+		})
+	}
+
 	// Text embeddings (prefer batch when supported).
 	if (textSpecs.length > 0) {
 		const embedMany = config.embedding.embedMany
@@ -720,8 +888,18 @@ export const ingest = async (
 				concurrency,
 				async (batch, batchIndex) => {
 					const batchStart = now()
-					const embeddings = await embedMany(
-						batch.map((b) => b.input)
+					const embeddings = await withEmbeddingRetry(
+						config.embeddingProcessing,
+						{
+							operation: 'embedMany',
+							estimateTokens: () =>
+								batch.reduce(
+									(sum, b) => sum + countTokens(b.input.text),
+									0
+								),
+							onRetry: emitRetry
+						},
+						() => embedMany(batch.map((b) => b.input))
 					)
 					if (
 						!Array.isArray(embeddings) ||
@@ -775,7 +953,16 @@ export const ingest = async (
 			const embeddings = await mapWithConcurrency(
 				textSpecs,
 				concurrency,
-				async (spec) => config.embedding.embed(spec.input)
+				async (spec) =>
+					withEmbeddingRetry(
+						config.embeddingProcessing,
+						{
+							operation: 'embed',
+							estimateTokens: () => countTokens(spec.input.text),
+							onRetry: emitRetry
+						},
+						() => config.embedding.embed(spec.input)
+					)
 			)
 			for (let i = 0; i < textSpecs.length; i++) {
 				const spec = textSpecs[i]
@@ -808,7 +995,12 @@ export const ingest = async (
 		const embeddings = await mapWithConcurrency(
 			imageSpecs,
 			concurrency,
-			async (spec) => embedImage(spec.input)
+			async (spec) =>
+				withEmbeddingRetry(
+					config.embeddingProcessing,
+					{operation: 'embedImage', onRetry: emitRetry},
+					() => embedImage(spec.input)
+				)
 		)
 		for (let i = 0; i < imageSpecs.length; i++) {
 			const spec = imageSpecs[i]
@@ -851,8 +1043,10 @@ export const ingest = async (
 
 	const storageStart = now()
 
-	const {documentId: canonicalDocumentId} =
-		await config.store.upsert(embeddedChunks)
+	const {documentId: canonicalDocumentId} = await config.store.upsert(
+		embeddedChunks,
+		{index}
+	)
 
 	const storageMs = now() - storageStart
 
@@ -877,6 +1071,8 @@ export const ingest = async (
 		totalChunks: embeddedChunks.length,
 		totalDurationMs: totalMs,
 		warnings: warnings.map((w) => w.message),
+		skipped: false,
+		reusedEmbeddings,
 		opName: 'ingest',
 		opId,
 		spanId: rootSpanId
@@ -887,6 +1083,8 @@ export const ingest = async (
 		chunkCount: embeddedChunks.length,
 		embeddingModel: config.embedding.name,
 		warnings,
+		skipped: false,
+		reusedEmbeddings,
 		durations: {
 			totalMs,
 			chunkingMs,
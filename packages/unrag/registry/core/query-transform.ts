@@ -0,0 +1,272 @@
+/**
+ * Built-in query transforms: LLM multi-query expansion, HyDE (hypothetical
+ * document embeddings) and conversational rewriting.
+ *
+ * Transforms never fail retrieval: when the LLM call fails or returns nothing
+ * usable, the original query is searched.
+ */
+
+import type {
+	ChatMessage,
+	QueryTransform,
+	QueryVariant
+} from '@registry/core/types'
+import {type LanguageModel, generateText} from 'ai'
+
+const DEFAULT_LLM_MODEL = 'openai/gpt-5-mini'
+const DEFAULT_MULTI_QUERY_COUNT = 3
+const DEFAULT_HISTORY_TURNS = 6
+
+/**
+ * Model reference type that accepts both string gateway IDs and LanguageModel instances.
+ */
+type ModelRef = string | LanguageModel
+
+/**
+ * Text generation used by the built-in transforms. Defaults to the AI SDK's
+ * `generateText`; pass your own to use a different client.
+ */
+export type QueryTransformGenerate = (args: {
+	system: string
+	prompt: string
+}) => Promise<string>
+
+export type LlmQueryTransformOptions = {
+	/** Model for the default `generate`. Default: `"openai/gpt-5-mini"`. */
+	model?: ModelRef
+	generate?: QueryTransformGenerate
+	/** Abort the LLM call after this many milliseconds. Default: 10000 */
+	timeoutMs?: number
+}
+
+const resolveGenerate = (
+	options: LlmQueryTransformOptions
+): QueryTransformGenerate => {
+	if (options.generate) {
+		return options.generate
+	}
+	const model = options.model ?? DEFAULT_LLM_MODEL
+	const timeoutMs = options.timeoutMs ?? 10_000
+	return async ({system, prompt}) => {
+		const result = await generateText({
+			model,
+			abortSignal: AbortSignal.timeout(timeoutMs),
+			system,
+			prompt
+		})
+		return result.text ?? ''
+	}
+}
+
+const original = (query: string): QueryVariant => ({
+	text: query,
+	kind: 'original'
+})
+
+/**
+ * Non-empty, trimmed lines with list markers and surrounding quotes removed.
+ */
+const parseLines = (text: string): string[] =>
+	text
+		.split('\n')
+		.map((line) =>
+			line
+				.trim()
+				.replace(/^(?:[-*•]|\d+[.)])\s*/, '')
+				.replace(/^"(.*)"$/, '$1')
+				.trim()
+		)
+		.filter(Boolean)
+
+/**
+ * Drop variants whose text repeats an earlier one (case- and whitespace-insensitive).
+ */
+export const dedupeQueryVariants = (
+	variants: QueryVariant[]
+): QueryVariant[] => {
+	const seen = new Set<string>()
+	return variants.filter((variant) => {
+		const key = variant.text.trim().replace(/\s+/g, ' ').toLowerCase()
+		if (!key || seen.has(key)) {
+			return false
+		}
+		seen.add(key)
+		return true
+	})
+}
+
+/**
+ * Multi-query expansion: an LLM writes `count` alternative phrasings of the query,
+ * which are searched alongside the original.
+ */
+export const createMultiQueryTransform = (
+	options: LlmQueryTransformOptions & {
+		/** Number of alternative queries to generate. Default: 3 */
+		count?: number
+		/** Also search the original query. Default: true */
+		includeOriginal?: boolean
+	} = {}
+): QueryTransform => {
+	const generate = resolveGenerate(options)
+	const count = Math.max(1, options.count ?? DEFAULT_MULTI_QUERY_COUNT)
+	const includeOriginal = options.includeOriginal ?? true
+
+	return {
+		name: 'multi-query',
+		transform: async ({query}) => {
+			let alternatives: string[] = []
+			try {
+				const text = await generate({
+					system: 'You rewrite search queries for a document retrieval system. Return only the queries, one per line.',
+					prompt: [
+						`Write ${count} different search queries for the question below.`,
+						'Use different wording, synonyms and levels of detail, but keep the meaning.',
+						'',
+						`Question: ${query}`
+					].join('\n')
+				})
+				alternatives = parseLines(text).slice(0, count)
+			} catch {
+				alternatives = []
+			}
+
+			const variants = [
+				...(includeOriginal || alternatives.length === 0
+					? [original(query)]
+					: []),
+				...alternatives.map((text) => ({text, kind: 'multi-query'}))
+			]
+			return dedupeQueryVariants(variants)
+		}
+	}
+}
+
+/**
+ * HyDE: an LLM writes a short passage that would answer the query, and that
+ * passage is searched instead of (or alongside) the query. Answers tend to sit
+ * closer to relevant chunks in embedding space than questions do.
+ */
+export const createHydeTransform = (
+	options: LlmQueryTransformOptions & {
+		/** Also search the original query. Default: false */
+		includeOriginal?: boolean
+	} = {}
+): QueryTransform => {
+	const generate = resolveGenerate(options)
+	const includeOriginal = options.includeOriginal ?? false
+
+	return {
+		name: 'hyde',
+		transform: async ({query}) => {
+			let passage = ''
+			try {
+				passage = (
+					await generate({
+						system: 'You write short passages that answer questions, in the style of documentation. Return only the passage.',
+						prompt: [
+							'Write a passage of 2-4 sentences that answers the question below.',
+							'If you are unsure, write a plausible answer; it is only used for search.',
+							'',
+							`Question: ${query}`
+						].join('\n')
+					})
+				).trim()
+			} catch {
+				passage = ''
+			}
+
+			if (!passage) {
+				return [original(query)]
+			}
+			return dedupeQueryVariants([
+				...(includeOriginal ? [original(query)] : []),
+				{text: passage, kind: 'hyde'}
+			])
+		}
+	}
+}
+
+const formatHistory = (history: ChatMessage[]): string =>
+	history.map((m) => `${m.role}: ${m.content.trim()}`).join('\n')
+
+/**
+ * Conversational rewrite: turns a follow-up message ("what about the second
+ * one?") into a standalone query using the chat history. Without history the
+ * query is searched as-is and no LLM call is made.
+ */
+export const createConversationalRewriteTransform = (
+	options: LlmQueryTransformOptions & {
+		/** Most recent history messages included in the prompt. Default: 6 */
+		maxHistoryMessages?: number
+	} = {}
+): QueryTransform => {
+	const generate = resolveGenerate(options)
+	const maxHistoryMessages = Math.max(
+		1,
+		options.maxHistoryMessages ?? DEFAULT_HISTORY_TURNS
+	)
+
+	return {
+		name: 'conversational-rewrite',
+		transform: async ({query, history}) => {
+			const recent = (history ?? []).slice(-maxHistoryMessages)
+			if (recent.length === 0) {
+				return [original(query)]
+			}
+
+			let rewritten = ''
+			try {
+				rewritten = parseLines(
+					await generate({
+						system: 'You rewrite the last user message of a conversation into a standalone search query. Return only the query.',
+						prompt: [
+							'Conversation:',
+							formatHistory(recent),
+							'',
+							`Last user message: ${query}`,
+							'',
+							'Resolve pronouns and references using the conversation. Keep it short.'
+						].join('\n')
+					})
+				).join(' ')
+			} catch {
+				rewritten = ''
+			}
+
+			return rewritten
+				? [{text: rewritten, kind: 'rewrite'}]
+				: [original(query)]
+		}
+	}
+}
+
+/**
+ * Run transforms in sequence: each one is applied to every variant produced by
+ * the previous one (e.g. conversational rewrite, then multi-query expansion).
+ */
+export const pipeQueryTransforms = (
+	...transforms: QueryTransform[]
+): QueryTransform => ({
+	name: transforms.map((t) => t.name).join('+'),
+	transform: async ({query, history}) => {
+		let variants: QueryVariant[] = [original(query)]
+		for (const transform of transforms) {
+			const next = await Promise.all(
+				variants.map((variant) =>
+					transform.transform({query: variant.text, history})
+				)
+			)
+			variants = dedupeQueryVariants(
+				next.flatMap((produced, i) =>
+					produced.map((v) =>
+						// Keep the earlier stage's kind for text that passed through unchanged.
+						v.kind === 'original'
+							? {...v, kind: variants[i]?.kind ?? v.kind}
+							: v
+					)
+				)
+			)
+		}
+		return variants
+	}
+})
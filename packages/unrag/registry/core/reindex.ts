@@ -0,0 +1,204 @@
+import {countTokens} from '@registry/core/chunking'
+import {mapWithConcurrency} from '@registry/core/concurrency'
+import {defaultIndexName} from '@registry/core/config'
+import {withEmbeddingRetry} from '@registry/core/embedding-retry'
+import {chunkContentHash, sha256Hex} from '@registry/core/ingest'
+import type {
+	Chunk,
+	ChunkEmbeddingWrite,
+	ReindexOptions,
+	ReindexResult,
+	ResolvedContextEngineConfig
+} from '@registry/core/types'
+
+const now = () => performance.now()
+
+const DEFAULT_REINDEX_BATCH_SIZE = 256
+
+/** Index new vectors are written to before they replace the live ones. */
+export const reindexStagingIndex = (index: string) => `${index}:reindex`
+
+/**
+ * Chunks whose vector cannot be rebuilt from stored text: nothing was stored,
+ * or the vector was computed from image bytes.
+ */
+const canReembed = (chunk: Chunk) =>
+	chunk.content.trim().length > 0 &&
+	chunk.metadata.extractor !== 'image:embed'
+
+/** Embed chunk text with the same inputs `ingest()` sends. */
+const embedChunks = async (
+	config: ResolvedContextEngineConfig,
+	chunks: Chunk[]
+): Promise<number[][]> => {
+	const {embedding, embeddingProcessing} = config
+	const inputs = chunks.map((chunk) => ({
+		text: chunk.content,
+		metadata: chunk.metadata,
+		position: chunk.index,
+		sourceId: chunk.sourceId,
+		documentId: chunk.documentId
+	}))
+
+	const embedMany = embedding.embedMany
+	if (!embedMany) {
+		return mapWithConcurrency(
+			inputs,
+			embeddingProcessing.concurrency,
+			(input) =>
+				withEmbeddingRetry(
+					embeddingProcessing,
+					{
+						operation: 'embed',
+						estimateTokens: () => countTokens(input.text)
+					},
+					() => embedding.embed(input)
+				)
+		)
+	}
+
+	const batchSize = Math.max(
+		1,
+		Math.floor(embeddingProcessing.batchSize || 1)
+	)
+	const batches: (typeof inputs)[] = []
+	for (let i = 0; i < inputs.length; i += batchSize) {
+		batches.push(inputs.slice(i, i + batchSize))
+	}
+	const results = await mapWithConcurrency(
+		batches,
+		embeddingProcessing.concurrency,
+		async (batch) => {
+			const embeddings = await withEmbeddingRetry(
+				embeddingProcessing,
+				{
+					operation: 'embedMany',
+					estimateTokens: () =>
+						batch.reduce((sum, b) => sum + countTokens(b.text), 0)
+				},
+				() => embedMany(batch)
+			)
+			if (
+				!Array.isArray(embeddings) ||
+				embeddings.length !== batch.length
+			) {
+				throw new Error(
+					`embedMany() returned ${Array.isArray(embeddings) ? embeddings.length : 'non-array'} embeddings for a batch of ${batch.length}`
+				)
+			}
+			return embeddings
+		}
+	)
+	return results.flat()
+}
+
+/**
+ * Re-embed every stored chunk with the engine's current embedding provider.
+ *
+ * New vectors go to a staging index first and replace the engine's index in
+ * one `swapIndex()` call at the end, so retrieval never sees a half-rebuilt
+ * index. Chunks already embedded in the staging index by the current provider
+ * are skipped, which makes an interrupted run resumable.
+ */
+export const reindex = async (
+	config: ResolvedContextEngineConfig,
+	options: ReindexOptions = {}
+): Promise<ReindexResult> => {
+	const totalStart = now()
+
+	if (!config.storage.storeChunkContent) {
+		throw new Error(
+			'Cannot reindex: storage.storeChunkContent is disabled, so chunk text is not stored and cannot be re-embedded. Re-ingest your sources to rebuild vectors instead.'
+		)
+	}
+
+	const {store} = config
+	const {scanChunks, writeEmbeddings, swapIndex} = store
+	if (!scanChunks || !writeEmbeddings || !swapIndex) {
+		throw new Error(
+			'Cannot reindex: the store does not implement scanChunks(), writeEmbeddings() and swapIndex()'
+		)
+	}
+
+	const batchSize = Math.max(
+		1,
+		Math.floor(options.batchSize ?? DEFAULT_REINDEX_BATCH_SIZE)
+	)
+	const index = config.index ?? defaultIndexName
+	const staging = reindexStagingIndex(index)
+	const model = config.embedding.name
+
+	let reembedded = 0
+	let skipped = 0
+	let embeddingMs = 0
+	const skippedSourceIds = new Set<string>()
+	let after: string | undefined
+
+	while (true) {
+		const chunks = await scanChunks({
+			after,
+			limit: batchSize,
+			skipEmbedded: {index: staging, model}
+		})
+		const last = chunks.at(-1)
+		if (!last) {
+			break
+		}
+		after = last.id
+
+		const embeddable = chunks.filter(canReembed)
+		for (const chunk of chunks) {
+			if (!canReembed(chunk)) {
+				skipped++
+				skippedSourceIds.add(chunk.sourceId)
+			}
+		}
+
+		if (embeddable.length > 0) {
+			const embeddingStart = now()
+			const embeddings = await embedChunks(config, embeddable)
+			embeddingMs += now() - embeddingStart
+
+			const writes: ChunkEmbeddingWrite[] = await Promise.all(
+				embeddable.map(async (chunk, i) => {
+					const embedding = embeddings[i]
+					if (!embedding) {
+						throw new Error(
+							'Internal error: missing embedding for chunk'
+						)
+					}
+					return {
+						chunkId: chunk.id,
+						embedding,
+						model,
+						// Lets the next ingest of an unchanged document reuse this vector.
+						contentHash: await chunkContentHash(
+							model,
+							'text',
+							await sha256Hex(chunk.content)
+						)
+					}
+				})
+			)
+			await writeEmbeddings({index: staging, embeddings: writes})
+			reembedded += writes.length
+		}
+
+		options.onProgress?.({reembedded, skipped})
+	}
+
+	const {swapped} = await swapIndex({from: staging, to: index})
+
+	return {
+		index,
+		embeddingModel: model,
+		reembedded,
+		skipped,
+		skippedSourceIds: Array.from(skippedSourceIds),
+		swapped,
+		durations: {
+			totalMs: now() - totalStart,
+			embeddingMs
+		}
+	}
+}
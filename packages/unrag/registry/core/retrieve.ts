@@ -1,13 +1,50 @@
+import {countTokens} from '@registry/core/chunking'
+import {defaultIndexName} from '@registry/core/config'
 import {getDebugEmitter} from '@registry/core/debug-emitter'
+import type {RetrieveVariantRef} from '@registry/core/debug-events'
+import {withEmbeddingRetry} from '@registry/core/embedding-retry'
+import {dedupeQueryVariants} from '@registry/core/query-transform'
 import type {
+	Chunk,
+	DistanceMetric,
+	DocumentScoreAggregation,
+	HybridFusion,
+	QueryVariant,
 	ResolvedContextEngineConfig,
 	RetrieveInput,
-	RetrieveResult
+	RetrieveResult,
+	RetrievedDocument,
+	RetrievedPassage
 } from '@registry/core/types'
 
 const now = () => performance.now()
 
 const DEFAULT_TOP_K = 8
+const DEFAULT_RRF_K = 60
+const DEFAULT_HYBRID_CANDIDATE_MULTIPLIER = 4
+const DEFAULT_DOCUMENT_CANDIDATE_MULTIPLIER = 4
+const DEFAULT_DIVERSITY_FETCH_MULTIPLIER = 4
+const DEFAULT_EXPAND_BEFORE = 1
+const DEFAULT_EXPAND_AFTER = 1
+
+type ScoredChunk = Chunk & {score: number; similarity?: number}
+
+/**
+ * Turn a store distance (lower is better) into a similarity (higher is better).
+ */
+const similarityFromDistance = (
+	distance: number,
+	metric: DistanceMetric
+): number => {
+	if (metric === 'inner_product') {
+		// pgvector's <#> returns the negative inner product.
+		return -distance
+	}
+	if (metric === 'l2') {
+		return 1 / (1 + distance)
+	}
+	return 1 - distance
+}
 
 const createId = (): string => {
 	if (
@@ -19,79 +56,876 @@ const createId = (): string => {
 	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`
 }
 
-export const retrieve = async (
+/**
+ * Fuse vector (distance, lower is better) and keyword (relevance, higher is better)
+ * result lists into a single list ordered by fused score (higher is better).
+ */
+const fuseResults = (
+	vector: ScoredChunk[],
+	keyword: ScoredChunk[],
+	fusion: HybridFusion,
+	topK: number
+): ScoredChunk[] => {
+	const fused = new Map<string, ScoredChunk>()
+	const add = (chunk: ScoredChunk, score: number) => {
+		const existing = fused.get(chunk.id)
+		if (existing) {
+			existing.score += score
+		} else {
+			fused.set(chunk.id, {...chunk, score})
+		}
+	}
+
+	if (fusion.method === 'rrf') {
+		const k = fusion.k ?? DEFAULT_RRF_K
+		const vectorWeight = fusion.vectorWeight ?? 1
+		const keywordWeight = fusion.keywordWeight ?? 1
+		vector.forEach((chunk, rank) =>
+			add(chunk, vectorWeight / (k + rank + 1))
+		)
+		keyword.forEach((chunk, rank) =>
+			add(chunk, keywordWeight / (k + rank + 1))
+		)
+	} else {
+		const vectorWeight = fusion.vectorWeight ?? 0.5
+		const keywordWeight = fusion.keywordWeight ?? 0.5
+		const normalize = (chunks: ScoredChunk[], invert: boolean) => {
+			const scores = chunks.map((c) => c.score)
+			const min = Math.min(...scores)
+			const max = Math.max(...scores)
+			const range = max - min
+			return (score: number) => {
+				if (range === 0) {
+					return 1
+				}
+				return invert ? (max - score) / range : (score - min) / range
+			}
+		}
+		const normVector = normalize(vector, true)
+		const normKeyword = normalize(keyword, false)
+		for (const chunk of vector) {
+			add(chunk, vectorWeight * normVector(chunk.score))
+		}
+		for (const chunk of keyword) {
+			add(chunk, keywordWeight * normKeyword(chunk.score))
+		}
+	}
+
+	return Array.from(fused.values())
+		.sort((a, b) => b.score - a.score)
+		.slice(0, topK)
+}
+
+/**
+ * Collapse hits (best first) into documents ranked by aggregated relevance.
+ * Distances are replaced by the hit's similarity so that higher is better.
+ */
+const groupHitsByDocument = (
+	hits: ScoredChunk[],
+	scoresAreDistances: boolean,
+	aggregate: DocumentScoreAggregation,
+	topK: number
+): RetrievedDocument[] => {
+	const relevance = (hit: ScoredChunk) =>
+		scoresAreDistances ? (hit.similarity ?? 1 - hit.score) : hit.score
+	const groups = new Map<string, RetrievedDocument>()
+	for (const hit of hits) {
+		const group = groups.get(hit.documentId)
+		if (group) {
+			group.hits.push(hit)
+			continue
+		}
+		groups.set(hit.documentId, {
+			documentId: hit.documentId,
+			sourceId: hit.sourceId,
+			score: 0,
+			hits: [hit]
+		})
+	}
+
+	const documents = Array.from(groups.values())
+	for (const doc of documents) {
+		const scores = doc.hits.map(relevance)
+		const sum = scores.reduce((total, score) => total + score, 0)
+		doc.score =
+			aggregate === 'sum'
+				? sum
+				: aggregate === 'mean'
+					? sum / scores.length
+					: Math.max(...scores)
+	}
+
+	// Array.prototype.sort is stable, so ties keep best-hit order.
+	return documents.sort((a, b) => b.score - a.score).slice(0, topK)
+}
+
+/**
+ * Fuse per-variant result lists (each best first) with weighted reciprocal rank
+ * fusion. Returns chunks ordered by fused score (higher is better).
+ */
+const fuseVariantResults = (
+	lists: {chunks: ScoredChunk[]; weight: number}[],
+	limit: number
+): ScoredChunk[] => {
+	const fused = new Map<string, ScoredChunk>()
+	for (const {chunks, weight} of lists) {
+		chunks.forEach((chunk, rank) => {
+			const score = weight / (DEFAULT_RRF_K + rank + 1)
+			const existing = fused.get(chunk.id)
+			if (existing) {
+				existing.score += score
+				if (chunk.similarity !== undefined) {
+					existing.similarity = Math.max(
+						existing.similarity ?? chunk.similarity,
+						chunk.similarity
+					)
+				}
+			} else {
+				fused.set(chunk.id, {...chunk, score})
+			}
+		})
+	}
+	return Array.from(fused.values())
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+	let dot = 0
+	let normA = 0
+	let normB = 0
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		const x = a[i] ?? 0
+		const y = b[i] ?? 0
+		dot += x * y
+		normA += x * x
+		normB += y * y
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Greedy maximal marginal relevance over candidates (best first). Relevance is
+ * the similarity for distances and the min-max normalized score otherwise; novelty is the
+ * cosine similarity to the closest already selected candidate. Candidates keep
+ * their original scores and come back in selection order without embeddings.
+ */
+const selectByMmr = (
+	candidates: ScoredChunk[],
+	options: {
+		lambda: number
+		limit: number
+		scoresAreDistances: boolean
+		maxPerSource?: number
+	}
+): ScoredChunk[] => {
+	const scores = candidates.map((c) => c.score)
+	const min = Math.min(...scores)
+	const range = Math.max(...scores) - min
+	const relevance = ({score, similarity}: ScoredChunk) =>
+		options.scoresAreDistances
+			? (similarity ?? 1 - score)
+			: range === 0
+				? 1
+				: (score - min) / range
+
+	const remaining = candidates.map((chunk) => ({
+		chunk,
+		relevance: relevance(chunk),
+		// Highest similarity to any selected candidate so far (0 when none).
+		redundancy: 0
+	}))
+	const perSource = new Map<string, number>()
+	const selected: ScoredChunk[] = []
+
+	while (selected.length < options.limit && remaining.length > 0) {
+		let bestIndex = -1
+		let bestValue = Number.NEGATIVE_INFINITY
+		remaining.forEach((candidate, i) => {
+			if (
+				options.maxPerSource !== undefined &&
+				(perSource.get(candidate.chunk.sourceId) ?? 0) >=
+					options.maxPerSource
+			) {
+				return
+			}
+			const value =
+				options.lambda * candidate.relevance -
+				(1 - options.lambda) * candidate.redundancy
+			if (value > bestValue) {
+				bestValue = value
+				bestIndex = i
+			}
+		})
+		if (bestIndex === -1) {
+			break
+		}
+
+		const [picked] = remaining.splice(bestIndex, 1)
+		if (!picked) {
+			break
+		}
+		const {embedding: pickedEmbedding, ...chunk} = picked.chunk
+		selected.push(chunk)
+		perSource.set(chunk.sourceId, (perSource.get(chunk.sourceId) ?? 0) + 1)
+
+		if (pickedEmbedding) {
+			for (const candidate of remaining) {
+				if (candidate.chunk.embedding) {
+					candidate.redundancy = Math.max(
+						candidate.redundancy,
+						cosineSimilarity(
+							pickedEmbedding,
+							candidate.chunk.embedding
+						)
+					)
+				}
+			}
+		}
+	}
+
+	return selected
+}
+
+const toChunk = ({score: _score, ...chunk}: ScoredChunk): Chunk => chunk
+
+/**
+ * A chunk's character span in its document, when the chunker recorded one that
+ * matches the stored content exactly.
+ */
+const spanOf = (chunk: Chunk): [number, number] | undefined => {
+	const start = chunk.metadata?.charStart
+	const end = chunk.metadata?.charEnd
+	return typeof start === 'number' &&
+		typeof end === 'number' &&
+		end - start === chunk.content.length
+		? [start, end]
+		: undefined
+}
+
+/**
+ * Join consecutive chunks into passage text. Where spans show a chunk starts
+ * inside the previous one (`chunkOverlap`), the repeated text is cut and the
+ * chunks are joined as they appear in the document.
+ */
+const joinChunks = (chunks: Chunk[]): string => {
+	let content = ''
+	let previousEnd: number | undefined
+	for (const [i, chunk] of chunks.entries()) {
+		const span = spanOf(chunk)
+		if (span && previousEnd !== undefined && span[0] <= previousEnd) {
+			content += chunk.content.slice(previousEnd - span[0])
+		} else {
+			content += i === 0 ? chunk.content : `\n\n${chunk.content}`
+		}
+		previousEnd = span
+			? Math.max(span[1], previousEnd ?? span[1])
+			: undefined
+	}
+	return content
+}
+
+/**
+ * Group hits and their neighbors into passages of consecutive chunks, ordered by
+ * each passage's best hit. Hits arrive best first.
+ */
+const buildPassages = (
+	hits: ScoredChunk[],
+	neighbors: Chunk[],
+	before: number,
+	after: number,
+	mergeAdjacent: boolean
+): RetrievedPassage[] => {
+	const byDocument = new Map<string, Map<number, Chunk>>()
+	const put = (chunk: Chunk) => {
+		let chunks = byDocument.get(chunk.documentId)
+		if (!chunks) {
+			chunks = new Map()
+			byDocument.set(chunk.documentId, chunks)
+		}
+		if (!chunks.has(chunk.index)) {
+			chunks.set(chunk.index, chunk)
+		}
+	}
+	for (const hit of hits) {
+		put(toChunk(hit))
+	}
+	for (const chunk of neighbors) {
+		put(chunk)
+	}
+
+	type Range = {
+		documentId: string
+		sourceId: string
+		from: number
+		to: number
+		/** Positions of the range's hits in `hits`, best first. */
+		ranks: number[]
+	}
+	const ranges: Range[] = hits.map((hit, rank) => ({
+		documentId: hit.documentId,
+		sourceId: hit.sourceId,
+		from: hit.index - before,
+		to: hit.index + after,
+		ranks: [rank]
+	}))
+
+	let passages = ranges
+	if (mergeAdjacent) {
+		// One sweep over ranges sorted by document and start, so a range widened by
+		// a merge is still compared with the ranges after it.
+		const sorted = [...ranges].sort(
+			(a, b) =>
+				(a.documentId < b.documentId
+					? -1
+					: a.documentId > b.documentId
+						? 1
+						: 0) || a.from - b.from
+		)
+		passages = []
+		for (const range of sorted) {
+			const last = passages[passages.length - 1]
+			if (
+				last &&
+				last.documentId === range.documentId &&
+				range.from <= last.to + 1
+			) {
+				last.to = Math.max(last.to, range.to)
+				last.ranks.push(...range.ranks)
+				continue
+			}
+			passages.push({...range, ranks: [...range.ranks]})
+		}
+		for (const passage of passages) {
+			passage.ranks.sort((a, b) => a - b)
+		}
+		passages.sort((a, b) => (a.ranks[0] ?? 0) - (b.ranks[0] ?? 0))
+	}
+
+	return passages.map((range) => {
+		const stored = byDocument.get(range.documentId) ?? new Map()
+		const chunks = Array.from(stored.values())
+			.filter((c) => c.index >= range.from && c.index <= range.to)
+			.sort((a, b) => a.index - b.index)
+		const first = chunks[0]
+		const last = chunks[chunks.length - 1]
+		const rangeHits = range.ranks.flatMap((rank) => hits[rank] ?? [])
+		const best = rangeHits[0]
+		return {
+			documentId: range.documentId,
+			sourceId: range.sourceId,
+			content: joinChunks(chunks),
+			chunkRange: {
+				from: first?.index ?? best?.index ?? range.from,
+				to: last?.index ?? best?.index ?? range.to
+			},
+			chunks,
+			hitIds: rangeHits.map((h) => h.id),
+			score: best?.score ?? 0
+		}
+	})
+}
+
+/**
+ * Point the config at the index a retrieve call targets, swapping in the
+ * embedding provider that built it.
+ */
+const resolveTargetIndex = (
 	config: ResolvedContextEngineConfig,
+	index: string | undefined
+): ResolvedContextEngineConfig & {index: string} => {
+	const engineIndex = config.index ?? defaultIndexName
+	if (index === undefined || index === engineIndex) {
+		return {...config, index: engineIndex}
+	}
+	const embedding = config.indexes?.[index]
+	if (!embedding) {
+		throw new Error(
+			`Unknown index "${index}": add its embedding provider to the engine's indexes config`
+		)
+	}
+	return {...config, embedding, index}
+}
+
+export const retrieve = async (
+	engineConfig: ResolvedContextEngineConfig,
 	input: RetrieveInput
 ): Promise<RetrieveResult> => {
+	const config = resolveTargetIndex(engineConfig, input.index)
 	const debug = getDebugEmitter()
 	const totalStart = now()
 	const topK = input.topK ?? DEFAULT_TOP_K
+	const mode = input.mode ?? 'vector'
 	const opId = createId()
 	const rootSpanId = createId()
-	const embeddingSpanId = createId()
-	const retrievalSpanId = createId()
+
+	if (mode !== 'vector' && !config.store.queryKeyword) {
+		throw new Error(
+			`Retrieve mode "${mode}" requires a store that implements queryKeyword()`
+		)
+	}
+
+	const groupBy = input.groupBy ?? 'chunk'
+	const getDocuments = config.store.getDocuments
+	const loadDocuments = config.storage.storeDocumentContent
+	if (groupBy === 'document' && loadDocuments && !getDocuments) {
+		throw new Error(
+			'groupBy "document" requires a store that implements getDocuments() (or storage.storeDocumentContent: false)'
+		)
+	}
+
+	const getNeighbors = config.store.getNeighbors
+	if (input.expandContext && !getNeighbors) {
+		throw new Error(
+			'expandContext requires a store that implements getNeighbors()'
+		)
+	}
 
 	debug.emit({
 		type: 'retrieve:start',
 		query: input.query,
 		topK,
 		scope: input.scope,
+		mode,
 		opName: 'retrieve',
 		opId,
 		spanId: rootSpanId
 	})
 
-	const embeddingStart = now()
-	const queryEmbedding = await config.embedding.embed({
-		text: input.query,
-		metadata: {},
-		position: 0,
-		sourceId: 'query',
-		documentId: 'query'
-	})
-	const embeddingMs = now() - embeddingStart
+	// Grouping by document needs more chunk hits than documents returned.
+	const hitK =
+		groupBy === 'document'
+			? Math.max(
+					topK,
+					input.documents?.candidateK ??
+						topK * DEFAULT_DOCUMENT_CANDIDATE_MULTIPLIER
+				)
+			: topK
 
-	debug.emit({
-		type: 'retrieve:embedding-complete',
-		query: input.query,
-		embeddingProvider: config.embedding.name,
-		embeddingDimension: queryEmbedding.length,
-		durationMs: embeddingMs,
-		opName: 'retrieve',
-		opId,
-		spanId: embeddingSpanId,
-		parentSpanId: rootSpanId
-	})
+	// MMR re-selects hitK results from a larger pool of candidates.
+	const diversity = input.diversity
+	const poolK = diversity
+		? Math.max(
+				hitK,
+				diversity.fetchK ?? topK * DEFAULT_DIVERSITY_FETCH_MULTIPLIER
+			)
+		: hitK
 
-	const retrievalStart = now()
-	const chunks = await config.store.query({
-		embedding: queryEmbedding,
-		topK,
-		scope: input.scope
-	})
-	const retrievalMs = now() - retrievalStart
+	const candidateK =
+		mode === 'hybrid'
+			? Math.max(
+					poolK,
+					input.hybrid?.candidateK ??
+						topK * DEFAULT_HYBRID_CANDIDATE_MULTIPLIER
+				)
+			: poolK
 
-	debug.emit({
-		type: 'retrieve:database-complete',
-		query: input.query,
-		resultsCount: chunks.length,
-		durationMs: retrievalMs,
-		opName: 'retrieve',
-		opId,
-		spanId: retrievalSpanId,
-		parentSpanId: rootSpanId
-	})
+	const metric = config.store.distanceMetric ?? 'cosine'
+	const minScore = input.minScore
+
+	// Without a transform the query is searched as-is and events carry no variant.
+	const transform =
+		input.queryTransform === false
+			? undefined
+			: (input.queryTransform ?? config.queryTransform)
+	let variants: QueryVariant[] = [{text: input.query, kind: 'original'}]
+	let queryVariants: QueryVariant[] | undefined
+	if (transform) {
+		const transformStart = now()
+		let error: string | undefined
+		try {
+			const produced = dedupeQueryVariants(
+				await transform.transform({
+					query: input.query,
+					history: input.history
+				})
+			)
+			if (produced.length > 0) {
+				variants = produced
+			}
+		} catch (err) {
+			error = err instanceof Error ? err.message : String(err)
+		}
+		queryVariants = variants
+
+		debug.emit({
+			type: 'retrieve:query-transformed',
+			query: input.query,
+			transform: transform.name,
+			variants,
+			durationMs: now() - transformStart,
+			...(error ? {error} : {}),
+			opName: 'retrieve',
+			opId,
+			spanId: createId(),
+			parentSpanId: rootSpanId
+		})
+	}
+
+	const runVector = async (text: string, variant?: RetrieveVariantRef) => {
+		const embeddingSpanId = createId()
+		const retrievalSpanId = createId()
+
+		const embeddingStart = now()
+		const queryEmbedding = await withEmbeddingRetry(
+			config.embeddingProcessing,
+			{
+				operation: 'embed',
+				estimateTokens: () => countTokens(text),
+				onRetry: (retry) => {
+					debug.emit({
+						type: 'retrieve:embedding-retry',
+						query: input.query,
+						operation: retry.operation,
+						embeddingProvider: config.embedding.name,
+						attempt: retry.attempt,
+						maxAttempts: retry.maxAttempts,
+						delayMs: retry.delayMs,
+						statusCode: retry.statusCode,
+						error:
+							retry.error instanceof Error
+								? retry.error.message
+								: String(retry.error),
+						variant,
+						opName: 'retrieve',
+						opId,
+						spanId: embeddingSpanId,
+						parentSpanId: rootSpanId
+					})
+				}
+			},
+			() =>
+				config.embedding.embed({
+					text,
+					metadata: {},
+					position: 0,
+					sourceId: 'query',
+					documentId: 'query'
+				})
+		)
+		const embeddingMs = now() - embeddingStart
+
+		debug.emit({
+			type: 'retrieve:embedding-complete',
+			query: input.query,
+			embeddingProvider: config.embedding.name,
+			embeddingDimension: queryEmbedding.length,
+			durationMs: embeddingMs,
+			variant,
+			opName: 'retrieve',
+			opId,
+			spanId: embeddingSpanId,
+			parentSpanId: rootSpanId
+		})
+
+		const retrievalStart = now()
+		const hits = await config.store.query({
+			embedding: queryEmbedding,
+			topK: candidateK,
+			scope: input.scope,
+			index: config.index,
+			...(diversity ? {includeEmbeddings: true} : {}),
+			...(input.vectorSearch ? {vectorSearch: input.vectorSearch} : {})
+		})
+		const retrievalMs = now() - retrievalStart
+
+		const chunks: ScoredChunk[] = []
+		for (const hit of hits) {
+			const similarity = similarityFromDistance(hit.score, metric)
+			if (minScore === undefined || similarity >= minScore) {
+				chunks.push({...hit, similarity})
+			}
+		}
+
+		debug.emit({
+			type: 'retrieve:database-complete',
+			query: input.query,
+			resultsCount: chunks.length,
+			...(minScore !== undefined
+				? {belowMinScore: hits.length - chunks.length}
+				: {}),
+			durationMs: retrievalMs,
+			variant,
+			opName: 'retrieve',
+			opId,
+			spanId: retrievalSpanId,
+			parentSpanId: rootSpanId
+		})
+
+		return {chunks, embeddingMs, retrievalMs}
+	}
+
+	const runKeyword = async (text: string, variant?: RetrieveVariantRef) => {
+		const keywordSpanId = createId()
+		const queryKeyword = config.store.queryKeyword
+		if (!queryKeyword) {
+			return {chunks: [], retrievalMs: 0}
+		}
+
+		const retrievalStart = now()
+		const chunks = await queryKeyword({
+			query: text,
+			topK: candidateK,
+			scope: input.scope,
+			index: config.index,
+			...(diversity ? {includeEmbeddings: true} : {})
+		})
+		const retrievalMs = now() - retrievalStart
+
+		debug.emit({
+			type: 'retrieve:keyword-complete',
+			query: input.query,
+			resultsCount: chunks.length,
+			durationMs: retrievalMs,
+			variant,
+			opName: 'retrieve',
+			opId,
+			spanId: keywordSpanId,
+			parentSpanId: rootSpanId
+		})
+
+		return {chunks, retrievalMs}
+	}
+
+	const runSearch = async (
+		text: string,
+		variant?: RetrieveVariantRef
+	): Promise<{
+		chunks: ScoredChunk[]
+		embeddingMs: number
+		retrievalMs: number
+	}> => {
+		if (mode === 'vector') {
+			return runVector(text, variant)
+		}
+		if (mode === 'keyword') {
+			const keyword = await runKeyword(text, variant)
+			return {...keyword, embeddingMs: 0}
+		}
+
+		const [vector, keyword] = await Promise.all([
+			runVector(text, variant),
+			runKeyword(text, variant)
+		])
+		const fusion = input.hybrid?.fusion ?? {method: 'rrf'}
+
+		const fusionStart = now()
+		const chunks = fuseResults(vector.chunks, keyword.chunks, fusion, poolK)
+		const fusionMs = now() - fusionStart
+
+		debug.emit({
+			type: 'retrieve:fusion-complete',
+			query: input.query,
+			method: fusion.method,
+			vectorCount: vector.chunks.length,
+			keywordCount: keyword.chunks.length,
+			resultsCount: chunks.length,
+			durationMs: fusionMs,
+			variant,
+			opName: 'retrieve',
+			opId,
+			spanId: createId(),
+			parentSpanId: rootSpanId
+		})
+
+		return {
+			chunks,
+			embeddingMs: vector.embeddingMs,
+			// Legs run concurrently; report the slower store query plus fusion.
+			retrievalMs:
+				Math.max(vector.retrievalMs, keyword.retrievalMs) + fusionMs
+		}
+	}
+
+	const results = await Promise.all(
+		variants.map((variant, index) =>
+			runSearch(
+				variant.text,
+				queryVariants
+					? {index, kind: variant.kind, text: variant.text}
+					: undefined
+			)
+		)
+	)
+
+	let chunks: ScoredChunk[] = results[0]?.chunks ?? []
+	// Variants run concurrently; report the slowest of each step.
+	const embeddingMs = Math.max(0, ...results.map((r) => r.embeddingMs))
+	let retrievalMs = Math.max(0, ...results.map((r) => r.retrievalMs))
+
+	if (results.length > 1) {
+		const fusionStart = now()
+		chunks = fuseVariantResults(
+			results.map((r, i) => ({
+				chunks: r.chunks,
+				weight: variants[i]?.weight ?? 1
+			})),
+			poolK
+		)
+		const fusionMs = now() - fusionStart
+		retrievalMs += fusionMs
+
+		debug.emit({
+			type: 'retrieve:variants-fused',
+			query: input.query,
+			variantsCount: results.length,
+			candidatesCount: results.reduce((n, r) => n + r.chunks.length, 0),
+			resultsCount: chunks.length,
+			durationMs: fusionMs,
+			opName: 'retrieve',
+			opId,
+			spanId: createId(),
+			parentSpanId: rootSpanId
+		})
+	}
+
+	// Fused variant scores are relevances even in vector mode.
+	const scoresAreDistances = mode === 'vector' && results.length === 1
+
+	if (diversity) {
+		const lambda = Math.min(1, Math.max(0, diversity.lambda ?? 0.5))
+		const diversifyStart = now()
+		const candidatesCount = chunks.length
+		if (
+			chunks.length > 0 &&
+			!chunks.some((c) => Array.isArray(c.embedding))
+		) {
+			throw new Error(
+				'diversity requires a store that returns chunk embeddings (includeEmbeddings)'
+			)
+		}
+		chunks = selectByMmr(chunks, {
+			lambda,
+			limit: hitK,
+			scoresAreDistances,
+			maxPerSource: diversity.maxPerSource
+		})
+		const diversifyMs = now() - diversifyStart
+		retrievalMs += diversifyMs
+
+		debug.emit({
+			type: 'retrieve:diversified',
+			query: input.query,
+			lambda,
+			maxPerSource: diversity.maxPerSource,
+			candidatesCount,
+			resultsCount: chunks.length,
+			durationMs: diversifyMs,
+			opName: 'retrieve',
+			opId,
+			spanId: createId(),
+			parentSpanId: rootSpanId
+		})
+	}
+
+	let documents: RetrievedDocument[] | undefined
+	if (groupBy === 'document') {
+		const aggregate = input.documents?.aggregate ?? 'max'
+		const groupStart = now()
+		const candidatesCount = chunks.length
+		documents = groupHitsByDocument(
+			chunks,
+			scoresAreDistances,
+			aggregate,
+			topK
+		)
+
+		if (loadDocuments && getDocuments && documents.length > 0) {
+			const stored = await getDocuments({
+				ids: documents.map((d) => d.documentId)
+			})
+			const byId = new Map(stored.map((d) => [d.documentId, d]))
+			documents = documents.map((doc) => {
+				const storedDoc = byId.get(doc.documentId)
+				return storedDoc
+					? {
+							...doc,
+							content: storedDoc.content,
+							metadata: storedDoc.metadata
+						}
+					: doc
+			})
+		}
+
+		const kept = new Set(documents.map((d) => d.documentId))
+		chunks = chunks.filter((c) => kept.has(c.documentId))
+		const groupMs = now() - groupStart
+		retrievalMs += groupMs
+
+		debug.emit({
+			type: 'retrieve:documents-grouped',
+			query: input.query,
+			aggregate,
+			candidatesCount,
+			documentsCount: documents.length,
+			durationMs: groupMs,
+			opName: 'retrieve',
+			opId,
+			spanId: createId(),
+			parentSpanId: rootSpanId
+		})
+	}
+
+	let passages: RetrievedPassage[] | undefined
+	if (input.expandContext && getNeighbors) {
+		const before = Math.max(
+			0,
+			input.expandContext.before ?? DEFAULT_EXPAND_BEFORE
+		)
+		const after = Math.max(
+			0,
+			input.expandContext.after ?? DEFAULT_EXPAND_AFTER
+		)
+
+		const expandStart = now()
+		const neighbors =
+			chunks.length > 0 && (before > 0 || after > 0)
+				? await getNeighbors({
+						anchors: chunks.map((c) => ({
+							documentId: c.documentId,
+							index: c.index
+						})),
+						before,
+						after
+					})
+				: []
+		passages = buildPassages(
+			chunks,
+			neighbors,
+			before,
+			after,
+			input.expandContext.mergeAdjacent ?? true
+		)
+		const expandMs = now() - expandStart
+		retrievalMs += expandMs
+
+		debug.emit({
+			type: 'retrieve:context-expanded',
+			query: input.query,
+			before,
+			after,
+			hitsCount: chunks.length,
+			chunksCount: passages.reduce((n, p) => n + p.chunks.length, 0),
+			passagesCount: passages.length,
+			durationMs: expandMs,
+			opName: 'retrieve',
+			opId,
+			spanId: createId(),
+			parentSpanId: rootSpanId
+		})
+	}
 
 	const totalMs = now() - totalStart
 
 	debug.emit({
 		type: 'retrieve:complete',
 		query: input.query,
-		resultsCount: chunks.length,
+		resultsCount: documents?.length ?? chunks.length,
 		topK,
 		totalDurationMs: totalMs,
 		embeddingMs,
 		retrievalMs,
+		mode,
 		opName: 'retrieve',
 		opId,
 		spanId: rootSpanId
@@ -99,6 +933,9 @@ export const retrieve = async (
 
 	return {
 		chunks,
+		...(queryVariants ? {queryVariants} : {}),
+		...(passages ? {passages} : {}),
+		...(documents ? {documents} : {}),
 		embeddingModel: config.embedding.name,
 		durations: {
 			totalMs,
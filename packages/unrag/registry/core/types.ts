@@ -39,7 +39,23 @@ export type Chunk = {
 	tokenCount: number
 	metadata: Metadata
 	embedding?: number[]
+	/**
+	 * Name of the embedding provider (including the model) that produced
+	 * `embedding`. Stores record it next to each vector.
+	 */
+	embeddingModel?: string
 	documentContent?: string
+	/**
+	 * Hash of the embedding input for this chunk (text or image bytes) plus the
+	 * embedding provider name. Stores keep it next to the chunk's vector in each
+	 * index, and `ingest()` uses it to reuse embeddings on re-ingest.
+	 */
+	contentHash?: string
+	/**
+	 * Hash of the whole ingest input (content, metadata, assets, chunking options).
+	 * Used to skip re-ingesting unchanged documents.
+	 */
+	documentContentHash?: string
 }
 
 /**
@@ -56,6 +72,42 @@ export type ContentStorageConfig = {
 	storeDocumentContent: boolean
 }
 
+/**
+ * Retry policy for embedding provider calls (embed, embedMany, embedImage).
+ *
+ * Rate-limit (429), timeout and 5xx errors are retried with exponential backoff.
+ * Other errors (bad request, auth) fail immediately.
+ */
+export type EmbeddingRetryConfig = {
+	/**
+	 * Total attempts per call, including the first. `1` disables retries.
+	 */
+	maxAttempts: number
+	/** Delay before the first retry. */
+	initialDelayMs: number
+	/** Upper bound for the computed backoff delay. */
+	maxDelayMs: number
+	/** Factor applied to the delay after each failed attempt. */
+	backoffMultiplier: number
+	/**
+	 * Randomize each delay between 50% and 100% of its computed value, so
+	 * concurrent batches don't retry in lockstep.
+	 */
+	jitter: boolean
+	/**
+	 * When the provider error carries a `Retry-After` (or `retry-after-ms`) header,
+	 * wait at least that long before retrying. A Retry-After longer than
+	 * `maxDelayMs` fails the call instead.
+	 */
+	respectRetryAfter: boolean
+	/**
+	 * Optional tokens-per-minute budget for text embedding calls.
+	 * Calls wait until the rolling one-minute window has room for their input.
+	 * The budget is shared by all operations of one engine.
+	 */
+	tokensPerMinute?: number
+}
+
 /**
  * Controls performance characteristics of embedding during ingest.
  *
@@ -72,12 +124,27 @@ export type EmbeddingProcessingConfig = {
 	 * Ignored when the provider does not implement embedMany().
 	 */
 	batchSize: number
+	/**
+	 * Retry and rate-limit policy applied to every embedding call (ingest and retrieve).
+	 * Filled with defaults by config resolution; when absent, calls are not retried.
+	 */
+	retry?: EmbeddingRetryConfig
 }
 
 export type ChunkText = {
 	index: number
 	content: string
 	tokenCount: number
+	/**
+	 * Optional chunk-level metadata (e.g. heading path, line range, symbol name).
+	 * `ingest()` merges it over the document metadata for this chunk.
+	 */
+	metadata?: Metadata
+	/**
+	 * Optional precomputed embedding (e.g. from late chunking). For chunks of the
+	 * document text, `ingest()` stores it instead of calling the embedding provider.
+	 */
+	embedding?: number[]
 }
 
 /**
@@ -121,6 +188,16 @@ export type ChunkingOptions = {
 	 * Document metadata available during chunking.
 	 */
 	metadata?: Metadata
+	/**
+	 * The engine's embedding provider, passed by `ingest()` for embedding-aware
+	 * chunkers (maxmin, late).
+	 */
+	embedding?: EmbeddingProvider
+	/**
+	 * The engine's batching, concurrency and retry settings for embedding calls
+	 * made while chunking. Defaults apply when absent.
+	 */
+	embeddingProcessing?: EmbeddingProcessingConfig
 }
 
 export type ChunkerResult = ChunkText[] | Promise<ChunkText[]>
@@ -712,6 +789,15 @@ export type MistralEmbeddingConfig = BaseEmbeddingConfig
 
 export type TogetherEmbeddingConfig = BaseEmbeddingConfig
 
+/**
+ * Config for the built-in deterministic `hash` provider (tests and CI).
+ * `model` and `timeoutMs` are accepted for config compatibility and ignored.
+ */
+export type HashEmbeddingConfig = BaseEmbeddingConfig & {
+	/** Vector length. Default: 256. */
+	dimensions?: number
+}
+
 export type OllamaEmbeddingConfig = BaseEmbeddingConfig & {
 	baseURL?: string
 	headers?: Record<string, string>
@@ -755,6 +841,32 @@ export type EmbeddingProvider = {
 	 * Only used when the configured provider supports it.
 	 */
 	embedImage?: (input: ImageEmbeddingInput) => Promise<number[]>
+	/**
+	 * Optional token-level embeddings for the whole input (used by late chunking).
+	 * Returns one vector per token with the token's character offsets in `input.text`.
+	 */
+	embedTokens?: (input: EmbeddingInput) => Promise<TokenEmbeddings>
+}
+
+export type TokenEmbeddings = {
+	embeddings: number[][]
+	/** `[start, end)` character offsets of each token, parallel to `embeddings`. */
+	offsets: [number, number][]
+}
+
+/**
+ * Cache for text embeddings, consulted before calling the embedding provider.
+ *
+ * Keys are built by Unrag as `<provider.name>:<sha256(text)>`, so switching models
+ * never returns stale vectors. Implementations only need to store and fetch by key.
+ */
+export type EmbeddingCache = {
+	/** Look up cached embeddings. Returns one entry per key, `undefined` on a miss. */
+	getMany: (keys: string[]) => Promise<Array<number[] | undefined>>
+	/** Store embeddings computed for cache misses. */
+	setMany: (
+		entries: Array<{key: string; embedding: number[]}>
+	) => Promise<void>
 }
 
 export type DeleteInput =
@@ -772,6 +884,78 @@ export type DeleteInput =
 			sourceIdPrefix: string
 	  }
 
+/**
+ * Bound for a metadata range comparison.
+ * Numbers compare numerically; strings compare lexicographically (ISO dates work).
+ */
+export type MetadataRangeValue = number | string
+
+/**
+ * Typed filter expression evaluated against chunk metadata.
+ *
+ * Leaf conditions address a top-level metadata key via `field`. A condition on a
+ * missing key is false (so `not` of it is true).
+ *
+ * @example
+ * ```ts
+ * const filter: MetadataFilter = {
+ *   op: 'and',
+ *   filters: [
+ *     {op: 'eq', field: 'lang', value: 'en'},
+ *     {op: 'contains', field: 'tags', value: 'billing'},
+ *     {op: 'range', field: 'publishedAt', gte: '2024-01-01'}
+ *   ]
+ * }
+ * ```
+ */
+export type MetadataFilter =
+	| {
+			/** Value equals `value` (arrays compare as whole arrays). */
+			op: 'eq'
+			field: string
+			value: MetadataValue
+	  }
+	| {
+			/** Value equals any of `values`. */
+			op: 'in'
+			field: string
+			values: MetadataValue[]
+	  }
+	| {
+			/** Array value contains `value` as an element. */
+			op: 'contains'
+			field: string
+			value: MetadataValue
+	  }
+	| {
+			/** Value lies within the given bounds. Bounds must share one type. */
+			op: 'range'
+			field: string
+			gt?: MetadataRangeValue
+			gte?: MetadataRangeValue
+			lt?: MetadataRangeValue
+			lte?: MetadataRangeValue
+	  }
+	| {
+			/** Key is present (including explicit `null` values). */
+			op: 'exists'
+			field: string
+	  }
+	| {
+			/** All sub-filters match. An empty list matches everything. */
+			op: 'and'
+			filters: MetadataFilter[]
+	  }
+	| {
+			/** At least one sub-filter matches. An empty list matches nothing. */
+			op: 'or'
+			filters: MetadataFilter[]
+	  }
+	| {
+			op: 'not'
+			filter: MetadataFilter
+	  }
+
 /**
  * Scope for filtering retrieval results.
  * Used in both `RetrieveInput` and `VectorStore.query()`.
@@ -779,9 +963,55 @@ export type DeleteInput =
 export type RetrieveScope = {
 	/** Filter to chunks whose sourceId starts with this prefix. */
 	sourceId?: string
+	/**
+	 * Filter to chunks whose metadata matches this expression.
+	 * Applied inside the store query, before topK is taken.
+	 */
+	metadata?: MetadataFilter
 }
 
+/**
+ * What a store knows about a previously ingested document.
+ */
+export type StoredDocumentState = {
+	documentId: string
+	/** Hash recorded at the last ingest, or `null` for rows written before hashing existed. */
+	contentHash: string | null
+	chunkCount: number
+	/**
+	 * Chunks holding a vector in the requested index. When it is less than
+	 * `chunkCount`, the document is re-ingested even if its hash is unchanged.
+	 */
+	embeddedChunkCount?: number
+}
+
+/**
+ * A stored document as returned by `VectorStore.getDocuments`.
+ */
+export type StoredDocument = {
+	documentId: string
+	sourceId: string
+	/** The stored document text (empty when `storeDocumentContent` was disabled). */
+	content: string
+	metadata: Metadata
+}
+
+/**
+ * How a store compares vectors (pgvector operator in parentheses).
+ * - `cosine`: cosine distance (`<=>`), in [0, 2]
+ * - `inner_product`: negative inner product (`<#>`); use with normalized embeddings
+ * - `l2`: Euclidean distance (`<->`)
+ *
+ * All three are distances: lower is more similar.
+ */
+export type DistanceMetric = 'cosine' | 'inner_product' | 'l2'
+
 export type VectorStore = {
+	/**
+	 * Metric used by `query()` to compute `score`. Used by `retrieve()` to turn
+	 * distances into `similarity`. Default: `'cosine'`.
+	 */
+	distanceMetric?: DistanceMetric
 	/**
 	 * Persist (replace) a single document's chunks.
 	 *
@@ -795,16 +1025,145 @@ export type VectorStore = {
 	 *
 	 * **Important**: This method requires a UNIQUE constraint on `documents.source_id`
 	 * to guarantee idempotent upsert semantics under concurrent writes.
+	 *
+	 * Embeddings are written to `options.index` (default: `'default'`). Chunks are
+	 * shared by all indexes: vectors other indexes hold for a chunk whose `index`
+	 * and `content` are unchanged are kept for its replacement.
+	 */
+	upsert: (
+		chunks: Chunk[],
+		options?: {index?: string}
+	) => Promise<{documentId: string}>
+	/**
+	 * Optional lookup of a stored document's ingest state.
+	 *
+	 * Returns `null` when no document exists for `sourceId`. Used by `ingest()` to
+	 * skip documents whose content hash is unchanged and whose chunks all have a
+	 * vector in `index`.
+	 */
+	getDocumentState?: (params: {
+		sourceId: string
+		/** Index to count embedded chunks in. Default: `'default'`. */
+		index?: string
+	}) => Promise<StoredDocumentState | null>
+	/**
+	 * Optional lookup of stored embeddings by chunk content hash for a document.
+	 *
+	 * The hash is the one stored with each vector of `index`, so indexes written
+	 * by different embedding providers don't overwrite each other's hashes.
+	 * Used by `ingest()` to reuse embeddings for unchanged chunks instead of
+	 * re-embedding them. Hashes without a stored embedding are simply omitted.
 	 */
-	upsert: (chunks: Chunk[]) => Promise<{documentId: string}>
+	getChunkEmbeddings?: (params: {
+		sourceId: string
+		contentHashes: string[]
+		/** Index to read embeddings from. Default: `'default'`. */
+		index?: string
+	}) => Promise<Array<{contentHash: string; embedding: number[]}>>
 	query: (params: {
 		embedding: number[]
 		topK: number
 		scope?: RetrieveScope
+		/**
+		 * Index to search. Default: `'default'`. Only vectors with the same
+		 * dimension as `embedding` are compared.
+		 */
+		index?: string
+		/**
+		 * Also return each chunk's stored `embedding`. Requested by `diversity`
+		 * (MMR) retrieval; stores that cannot return embeddings may ignore it.
+		 */
+		includeEmbeddings?: boolean
+		/**
+		 * Approximate index tuning for this query. Postgres stores apply it with
+		 * `SET LOCAL`; stores that always search exactly may ignore it.
+		 */
+		vectorSearch?: VectorSearchOptions
 	}) => Promise<Array<Chunk & {score: number}>>
+	/**
+	 * Optional full-text search over chunk content.
+	 *
+	 * Returns chunks ordered by relevance, where `score` is a keyword relevance
+	 * score (higher is better). Required for `mode: 'keyword'` and `mode: 'hybrid'`
+	 * retrieval.
+	 */
+	queryKeyword?: (params: {
+		query: string
+		topK: number
+		scope?: RetrieveScope
+		/** Also return each chunk's stored `embedding`, as for `query()`. */
+		includeEmbeddings?: boolean
+		/** Index to read embeddings from when `includeEmbeddings` is set. */
+		index?: string
+	}) => Promise<Array<Chunk & {score: number}>>
+	/**
+	 * Optional lookup of stored chunks by id. Missing ids are omitted.
+	 */
+	getChunks?: (params: {ids: string[]}) => Promise<Chunk[]>
+	/**
+	 * Optional lookup of stored documents by id. Missing ids are omitted.
+	 *
+	 * Used by `groupBy: 'document'` retrieval to return document content and metadata.
+	 */
+	getDocuments?: (params: {ids: string[]}) => Promise<StoredDocument[]>
+	/**
+	 * Optional lookup of the chunks around each anchor: same `documentId`, with
+	 * `index` from `anchor.index - before` to `anchor.index + after` (anchors included).
+	 *
+	 * Returns each chunk once, ordered by `documentId` then `index`. Required for
+	 * `expandContext` retrieval.
+	 */
+	getNeighbors?: (params: {
+		anchors: Array<{documentId: string; index: number}>
+		before: number
+		after: number
+	}) => Promise<Chunk[]>
+	/**
+	 * Optional page through all stored chunks in `id` order. Required for `reindex()`.
+	 *
+	 * Returns up to `limit` chunks whose `id` sorts after `after`. With
+	 * `skipEmbedded`, chunks that already hold a vector from `model` in `index`
+	 * are left out, which is how an interrupted reindex resumes.
+	 */
+	scanChunks?: (params: {
+		after?: string
+		limit: number
+		skipEmbedded?: {index: string; model: string}
+	}) => Promise<Chunk[]>
+	/**
+	 * Optional write of vectors for chunks that are already stored. Required for
+	 * `reindex()`.
+	 *
+	 * Replaces each chunk's vector in `index` together with the content hash
+	 * stored for that vector. Chunks deleted in the meantime are skipped.
+	 */
+	writeEmbeddings?: (params: {
+		index: string
+		embeddings: ChunkEmbeddingWrite[]
+	}) => Promise<void>
+	/**
+	 * Optional atomic move of the vectors in index `from` into index `to`.
+	 * Required for `reindex()`.
+	 *
+	 * In one transaction, every chunk with a vector in `from` drops its vector in
+	 * `to` and the `from` vectors are renamed to `to`. Chunks without a `from`
+	 * vector keep theirs. Returns how many vectors were moved.
+	 */
+	swapIndex?: (params: {from: string; to: string}) => Promise<{
+		swapped: number
+	}>
 	delete: (input: DeleteInput) => Promise<void>
 }
 
+export type ChunkEmbeddingWrite = {
+	chunkId: string
+	embedding: number[]
+	/** Name of the embedding provider that produced the vector. */
+	model?: string
+	/** `Chunk.contentHash` for the vector, matching `model`. */
+	contentHash?: string
+}
+
 export type IngestInput = {
 	sourceId: string
 	content: string
@@ -816,7 +1175,8 @@ export type IngestInput = {
 	 * changing the engine's configured chunker.
 	 *
 	 * Note: This affects chunking for both the main `content` and any text derived
-	 * from `assets` during this ingest.
+	 * from `assets` during this ingest. Its `nameChunker()` name is part of the
+	 * document hash; untagged functions all count as `"custom"`.
 	 */
 	chunker?: Chunker
 	chunking?: Partial<ChunkingOptions>
@@ -827,6 +1187,14 @@ export type IngestInput = {
 	 * Use this to toggle expensive features (like PDF LLM extraction) per run.
 	 */
 	assetProcessing?: DeepPartial<AssetProcessingConfig>
+	/**
+	 * Re-process the document even if its content hash matches the stored one.
+	 *
+	 * Use this after changing something the hash cannot see, such as a custom
+	 * chunker implementation or extractor behavior. Unchanged chunks still reuse
+	 * their stored embeddings.
+	 */
+	force?: boolean
 }
 
 type IngestWarningBase<K extends AssetKind> = {
@@ -897,6 +1265,13 @@ export type IngestResult = {
 	 * Use this to detect skipped rich media (unsupported kinds, disabled extraction, best-effort failures).
 	 */
 	warnings: IngestWarning[]
+	/**
+	 * True when the document's content hash matched the stored one and ingest
+	 * returned early without chunking, embedding or writing.
+	 */
+	skipped: boolean
+	/** Number of chunks whose stored embedding was reused instead of re-embedded. */
+	reusedEmbeddings: number
 	durations: {
 		totalMs: number
 		chunkingMs: number
@@ -905,14 +1280,353 @@ export type IngestResult = {
 	}
 }
 
+export type IngestManyOptions = {
+	/**
+	 * Maximum number of documents ingested at the same time. Default: 4.
+	 *
+	 * Embedding requests from concurrent documents are pooled into shared
+	 * `embedMany` batches, still capped by `embeddingProcessing.concurrency`.
+	 */
+	concurrency?: number
+	/**
+	 * What to do when a document fails.
+	 * - `continue` (default): record the failure and keep ingesting the rest.
+	 * - `abort`: start no new documents; in-flight ones still finish. Documents
+	 *   that never started are reported as `cancelled`.
+	 */
+	onError?: 'continue' | 'abort'
+	/** Called after each document finishes, successfully or not. */
+	onProgress?: (progress: IngestManyProgress) => void
+}
+
+export type IngestManyItemResult =
+	| {
+			index: number
+			sourceId: string
+			status: 'succeeded'
+			result: IngestResult
+	  }
+	| {
+			index: number
+			sourceId: string
+			status: 'failed'
+			error: Error
+	  }
+	| {
+			index: number
+			sourceId: string
+			status: 'cancelled'
+	  }
+
+export type IngestManyProgress = {
+	/** The document that just finished. */
+	item: Exclude<IngestManyItemResult, {status: 'cancelled'}>
+	completed: number
+	succeeded: number
+	failed: number
+	total: number
+}
+
+export type IngestManyResult = {
+	/** One entry per input, in input order. */
+	items: IngestManyItemResult[]
+	succeeded: number
+	failed: number
+	cancelled: number
+	/** True when `onError: 'abort'` stopped the run early. */
+	aborted: boolean
+	durations: {
+		totalMs: number
+	}
+}
+
+export type ReindexOptions = {
+	/**
+	 * Chunks read from the store, embedded and written back per round. Default: 256.
+	 *
+	 * Progress is saved after every round, so an interrupted reindex repeats at
+	 * most one round when it is run again.
+	 */
+	batchSize?: number
+	/** Called after each round. */
+	onProgress?: (progress: ReindexProgress) => void
+}
+
+export type ReindexProgress = {
+	/** Chunks embedded by this run so far. */
+	reembedded: number
+	/** Chunks without stored text so far. */
+	skipped: number
+}
+
+export type ReindexResult = {
+	/** Index whose vectors were rebuilt. */
+	index: string
+	embeddingModel: string
+	/** Chunks embedded by this run (not counting rounds finished by an earlier run). */
+	reembedded: number
+	/**
+	 * Chunks with no stored text. They keep their previous vectors; re-ingest
+	 * `skippedSourceIds` to rebuild them.
+	 */
+	skipped: number
+	skippedSourceIds: string[]
+	/** Vectors swapped into `index`. */
+	swapped: number
+	durations: {
+		totalMs: number
+		embeddingMs: number
+	}
+}
+
+/**
+ * Retrieval strategy.
+ * - `vector`: embedding similarity only (default).
+ * - `keyword`: full-text search only (no query embedding).
+ * - `hybrid`: run both and fuse the ranked lists.
+ */
+export type RetrieveMode = 'vector' | 'keyword' | 'hybrid'
+
+/**
+ * How hybrid retrieval combines the vector and keyword result lists.
+ */
+export type HybridFusion =
+	| {
+			/**
+			 * Reciprocal rank fusion: `score = sum(weight / (k + rank))`.
+			 * Robust to the two legs having incomparable score scales.
+			 */
+			method: 'rrf'
+			/** RRF rank constant. Default: 60. */
+			k?: number
+			/** Weight applied to the vector leg. Default: 1. */
+			vectorWeight?: number
+			/** Weight applied to the keyword leg. Default: 1. */
+			keywordWeight?: number
+	  }
+	| {
+			/**
+			 * Weighted sum of min-max normalized scores from each leg.
+			 * Vector distances are inverted so that higher is always better.
+			 */
+			method: 'weighted'
+			/** Weight applied to the vector leg. Default: 0.5. */
+			vectorWeight?: number
+			/** Weight applied to the keyword leg. Default: 0.5. */
+			keywordWeight?: number
+	  }
+
+export type HybridRetrieveOptions = {
+	/** Fusion strategy. Default: `{ method: 'rrf' }`. */
+	fusion?: HybridFusion
+	/**
+	 * Number of candidates fetched from each leg before fusion.
+	 * Default: `topK * 4`.
+	 */
+	candidateK?: number
+}
+
+/**
+ * Unit of retrieval results: individual chunks (default) or whole documents.
+ */
+export type RetrieveGroupBy = 'chunk' | 'document'
+
+/**
+ * How chunk hits of one document combine into the document's score.
+ * - `max`: the best hit
+ * - `sum`: all hits added up (favors documents with many hits)
+ * - `mean`: the average hit
+ */
+export type DocumentScoreAggregation = 'max' | 'sum' | 'mean'
+
+export type DocumentRetrieveOptions = {
+	/** Default: `'max'`. */
+	aggregate?: DocumentScoreAggregation
+	/**
+	 * Number of chunk candidates fetched before grouping.
+	 * Default: `topK * 4`.
+	 */
+	candidateK?: number
+}
+
 export type RetrieveInput = {
 	query: string
 	topK?: number
 	scope?: RetrieveScope
+	/**
+	 * Retrieval strategy. Default: `'vector'`.
+	 *
+	 * `keyword` and `hybrid` require a store that implements `queryKeyword`.
+	 */
+	mode?: RetrieveMode
+	/** Options for `mode: 'hybrid'`. Ignored for other modes. */
+	hybrid?: HybridRetrieveOptions
+	/**
+	 * Conversation so far (oldest first), passed to the query transform for
+	 * conversational rewriting.
+	 */
+	history?: ChatMessage[]
+	/**
+	 * Override the engine's `queryTransform` for this call, or `false` to search
+	 * the query verbatim.
+	 */
+	queryTransform?: QueryTransform | false
+	/**
+	 * Group chunk hits by document. With `'document'`, `topK` counts documents and
+	 * `RetrieveResult.documents` holds them, ranked by aggregated score.
+	 * Default: `'chunk'`.
+	 */
+	groupBy?: RetrieveGroupBy
+	/** Options for `groupBy: 'document'`. Ignored otherwise. */
+	documents?: DocumentRetrieveOptions
+	/**
+	 * Fetch the chunks around each hit and return them as passages in
+	 * `RetrieveResult.passages`. Requires a store that implements `getNeighbors`.
+	 */
+	expandContext?: ExpandContextOptions
+	/**
+	 * Drop vector hits whose `similarity` is below this value, before fusion and
+	 * grouping. Lets callers return "no good match" instead of the closest noise.
+	 * Keyword hits have no similarity and are not filtered.
+	 */
+	minScore?: number
+	/**
+	 * Re-select results with maximal marginal relevance so near-duplicate chunks
+	 * do not crowd out other sources. Needs candidate embeddings from the store.
+	 */
+	diversity?: DiversityOptions
+	/**
+	 * Named index to search instead of the engine's own `index`. Other indexes
+	 * must be listed in the engine's `indexes` config, so the query is embedded
+	 * with the model that built them.
+	 */
+	index?: string
+	/**
+	 * Recall/speed knobs for an HNSW or IVFFlat index on the embeddings table.
+	 * Only affects the vector query; ignored by stores without such indexes.
+	 */
+	vectorSearch?: VectorSearchOptions
+}
+
+/**
+ * Per-query settings for pgvector's approximate indexes. Higher values visit
+ * more of the index: better recall, slower queries.
+ */
+export type VectorSearchOptions = {
+	/**
+	 * HNSW candidate list size (`hnsw.ef_search`, pgvector default 40). An HNSW
+	 * scan returns at most this many rows, so keep it at or above `topK`.
+	 */
+	efSearch?: number
+	/** IVFFlat lists to search (`ivfflat.probes`, pgvector default 1). */
+	probes?: number
+}
+
+/**
+ * Maximal marginal relevance (MMR) options. Each pick maximizes
+ * `lambda * relevance - (1 - lambda) * max similarity to already picked chunks`.
+ */
+export type DiversityOptions = {
+	/**
+	 * Trade-off between relevance (1) and novelty (0). Default: 0.5
+	 */
+	lambda?: number
+	/**
+	 * Number of candidates fetched before re-selection. Default: `topK * 4`.
+	 */
+	fetchK?: number
+	/** Maximum results per `sourceId`. Default: no cap. */
+	maxPerSource?: number
+}
+
+export type ExpandContextOptions = {
+	/** Chunks to include before each hit. Default: 1 */
+	before?: number
+	/** Chunks to include after each hit. Default: 1 */
+	after?: number
+	/**
+	 * Merge passages of the same document whose chunk ranges overlap or touch.
+	 * Default: true
+	 */
+	mergeAdjacent?: boolean
+}
+
+/**
+ * A contiguous run of chunks from one document around one or more retrieved hits.
+ */
+export type RetrievedPassage = {
+	documentId: string
+	sourceId: string
+	/**
+	 * Chunk contents in index order, joined with blank lines. Text repeated by
+	 * `chunkOverlap` is cut when chunks carry `charStart`/`charEnd` metadata.
+	 */
+	content: string
+	/** Inclusive range of chunk indexes covered by the passage. */
+	chunkRange: {from: number; to: number}
+	/** The chunks in the passage, in index order. */
+	chunks: Chunk[]
+	/** Ids of the retrieved chunks (hits) inside the passage, best first. */
+	hitIds: string[]
+	/** Score of the best hit, on the same scale as `RetrieveResult.chunks`. */
+	score: number
+}
+
+/**
+ * A document returned by `groupBy: 'document'` retrieval.
+ */
+export type RetrievedDocument = {
+	documentId: string
+	sourceId: string
+	/**
+	 * Aggregated relevance of the document's hits (higher is better). When hit
+	 * scores are distances (`vector` mode, single query) each hit contributes
+	 * `1 - distance`.
+	 */
+	score: number
+	/** The document's chunk hits, best first. */
+	hits: Array<Chunk & {score: number}>
+	/**
+	 * Stored document text and metadata. Omitted when `storeDocumentContent` is
+	 * disabled, in which case only identifiers, score and hits are returned.
+	 */
+	content?: string
+	metadata?: Metadata
 }
 
 export type RetrieveResult = {
-	chunks: Array<Chunk & {score: number}>
+	/**
+	 * Retrieved chunks. In `vector` mode `score` is the store's distance (lower is
+	 * better). In `keyword` and `hybrid` modes it is a relevance score (higher is
+	 * better). When a query transform produced several variants, it is the fused
+	 * score across variants (higher is better) in every mode.
+	 */
+	chunks: Array<
+		Chunk & {
+			score: number
+			/**
+			 * Vector similarity to the query (higher is better), derived from the
+			 * store's distance: `1 - distance` for cosine, the inner product for
+			 * `inner_product`, and `1 / (1 + distance)` for `l2`. Present for hits of
+			 * the vector search in every mode; absent for keyword-only hits.
+			 */
+			similarity?: number
+		}
+	>
+	/**
+	 * The variants that were searched. Only present when a query transform ran.
+	 */
+	queryVariants?: QueryVariant[]
+	/**
+	 * Hits expanded with their neighboring chunks, ordered by their best hit.
+	 * Only present when `expandContext` was requested.
+	 */
+	passages?: RetrievedPassage[]
+	/**
+	 * Documents ranked by aggregated score. Only present with `groupBy: 'document'`,
+	 * in which case `chunks` holds just the hits of these documents.
+	 */
+	documents?: RetrievedDocument[]
 	embeddingModel: string
 	durations: {
 		totalMs: number
@@ -921,6 +1635,48 @@ export type RetrieveResult = {
 	}
 }
 
+// ---------------------------------------------------------------------------
+// Query transform types
+// ---------------------------------------------------------------------------
+
+/**
+ * A prior conversation turn, used by conversational query rewriting.
+ */
+export type ChatMessage = {
+	role: 'user' | 'assistant' | 'system'
+	content: string
+}
+
+/**
+ * One text that is actually searched for a query.
+ */
+export type QueryVariant = {
+	text: string
+	/**
+	 * How the variant was produced (e.g. "original", "multi-query", "hyde", "rewrite").
+	 * Informational; recorded in debug events.
+	 */
+	kind: string
+	/** Weight of this variant's results when variants are fused. Default: 1 */
+	weight?: number
+}
+
+export type QueryTransformInput = {
+	query: string
+	/** Conversation so far, oldest first, excluding the current query. */
+	history?: ChatMessage[]
+}
+
+/**
+ * Turns a user query into one or more variants that are retrieved in parallel
+ * and fused with reciprocal rank fusion.
+ */
+export type QueryTransform = {
+	/** Stable name for this transform (e.g. "multi-query", "hyde"). */
+	name: string
+	transform: (input: QueryTransformInput) => Promise<QueryVariant[]>
+}
+
 // ---------------------------------------------------------------------------
 // Reranker types
 // ---------------------------------------------------------------------------
@@ -1044,7 +1800,7 @@ export type UnragDefaultsConfig = {
 	 * Embedding performance defaults (batching + concurrency).
 	 * These map to the engine's `embeddingProcessing` config.
 	 */
-	embedding?: Partial<EmbeddingProcessingConfig>
+	embedding?: DeepPartial<EmbeddingProcessingConfig>
 	retrieval?: {
 		topK?: number
 	}
@@ -1104,6 +1860,11 @@ export type UnragEmbeddingConfig =
 			provider: 'voyage'
 			config?: VoyageEmbeddingConfig
 	  }
+	| {
+			/** Deterministic offline embeddings for tests and CI; no network or API key. */
+			provider: 'hash'
+			config?: HashEmbeddingConfig
+	  }
 	| {
 			provider: 'custom'
 			/**
@@ -1186,6 +1947,32 @@ export type ContextEngineConfig = {
 	 * Embedding performance defaults for ingest (batching + concurrency).
 	 */
 	embeddingProcessing?: DeepPartial<EmbeddingProcessingConfig>
+	/**
+	 * Optional embedding cache. When set, `embed`/`embedMany` only call the provider
+	 * for texts that are not cached (ingest and retrieve queries alike).
+	 * Image embeddings are not cached.
+	 */
+	embeddingCache?: EmbeddingCache
+	/**
+	 * Optional query transform applied by `retrieve()` (multi-query expansion, HyDE,
+	 * conversational rewrite, or your own). Its variants are retrieved in parallel
+	 * and fused.
+	 */
+	queryTransform?: QueryTransform
+	/**
+	 * Named index this engine writes vectors to and searches by default.
+	 * Default: `'default'`.
+	 *
+	 * Documents and chunks are shared by every index in a store; only vectors are
+	 * kept per index. Give an engine with a new embedding model its own index to
+	 * build it next to the old one.
+	 */
+	index?: string
+	/**
+	 * Embedding providers of other indexes in the same store, keyed by index
+	 * name, so `retrieve({index})` can search them.
+	 */
+	indexes?: Record<string, EmbeddingProvider>
 }
 
 export type ResolvedContextEngineConfig = {
@@ -1193,11 +1980,23 @@ export type ResolvedContextEngineConfig = {
 	store: VectorStore
 	defaults: ChunkingOptions
 	chunker: Chunker
+	/**
+	 * Method or plugin name of `chunker` (see `nameChunker()`), part of the document
+	 * hash. Filled by config resolution.
+	 */
+	chunkerName?: string
 	idGenerator: () => string
 	extractors: AssetExtractor[]
 	/** Reranker is optional; if not configured, `engine.rerank()` will throw by default. */
 	reranker?: Reranker
+	queryTransform?: QueryTransform
 	storage: ContentStorageConfig
 	assetProcessing: AssetProcessingConfig
 	embeddingProcessing: EmbeddingProcessingConfig
+	/**
+	 * Filled by config resolution; when absent, the `'default'` index is used and
+	 * no other index can be targeted.
+	 */
+	index?: string
+	indexes?: Record<string, EmbeddingProvider>
 }
@@ -6,7 +6,7 @@
  */
 
 import type {DebugEmitter} from '@registry/core/debug-emitter'
-import type {Metadata} from '@registry/core/types'
+import type {Metadata, RetrieveMode} from '@registry/core/types'
 import {getUnragDebugRuntime} from '@registry/debug/runtime'
 import type {
 	ClearBufferResult,
@@ -444,6 +444,7 @@ async function handleQuery(command: {
 	query: string
 	topK?: number
 	scope?: string
+	mode?: RetrieveMode
 }): Promise<QueryResult> {
 	const runtime = getUnragDebugRuntime()
 	if (!runtime?.engine) {
@@ -463,7 +464,8 @@ async function handleQuery(command: {
 	const res = await runtime.engine.retrieve({
 		query: command.query,
 		topK,
-		scope
+		scope,
+		...(command.mode ? {mode: command.mode} : {})
 	})
 
 	return {
@@ -574,6 +576,8 @@ async function handleIngest(command: {
 			documentId: res.documentId,
 			chunkCount: res.chunkCount,
 			embeddingModel: res.embeddingModel,
+			skipped: res.skipped,
+			reusedEmbeddings: res.reusedEmbeddings,
 			durations: res.durations,
 			warnings: (res.warnings ?? []).map((w: unknown) => {
 				const warn =
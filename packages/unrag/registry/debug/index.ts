@@ -85,13 +85,22 @@ export type {
 	IngestChunkingCompleteEvent,
 	IngestEmbeddingStartEvent,
 	IngestEmbeddingBatchEvent,
+	IngestEmbeddingRetryEvent,
 	IngestEmbeddingCompleteEvent,
 	IngestStorageCompleteEvent,
 	IngestCompleteEvent,
 	IngestErrorEvent,
 	RetrieveStartEvent,
+	RetrieveQueryTransformedEvent,
 	RetrieveEmbeddingCompleteEvent,
+	RetrieveEmbeddingRetryEvent,
 	RetrieveDatabaseQueryCompleteEvent,
+	RetrieveKeywordQueryCompleteEvent,
+	RetrieveFusionCompleteEvent,
+	RetrieveVariantsFusedEvent,
+	RetrieveDiversifiedEvent,
+	RetrieveDocumentsGroupedEvent,
+	RetrieveContextExpandedEvent,
 	RetrieveCompleteEvent,
 	RerankStartEvent,
 	RerankCompleteEvent,
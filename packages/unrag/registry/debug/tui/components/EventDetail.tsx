@@ -133,6 +133,27 @@ export function EventDetail({event}: EventDetailProps) {
 					</>
 				)
 
+			case 'ingest:embedding-retry':
+			case 'retrieve:embedding-retry':
+				return (
+					<>
+						<Row label="provider" value={event.embeddingProvider} />
+						<Row label="operation" value={event.operation} />
+						<Row
+							label="attempt"
+							value={`${event.attempt}/${event.maxAttempts}`}
+						/>
+						{event.statusCode !== undefined ? (
+							<Row label="status" value={event.statusCode} />
+						) : null}
+						<Row
+							label="delay"
+							value={formatDuration(event.delayMs)}
+						/>
+						<Row label="error" value={event.error} />
+					</>
+				)
+
 			case 'ingest:embedding-complete':
 				return (
 					<>
@@ -160,6 +181,15 @@ export function EventDetail({event}: EventDetailProps) {
 					<>
 						<Row label="source" value={event.sourceId} />
 						<Row label="chunks" value={event.totalChunks} />
+						{event.skipped && (
+							<Row label="skipped" value="unchanged" />
+						)}
+						{event.reusedEmbeddings ? (
+							<Row
+								label="reused"
+								value={event.reusedEmbeddings}
+							/>
+						) : null}
 						<Row
 							label="total"
 							value={formatDuration(event.totalDurationMs)}
@@ -191,12 +221,34 @@ export function EventDetail({event}: EventDetailProps) {
 					<>
 						<Row label="query" value={event.query} />
 						<Row label="topK" value={event.topK} />
+						{event.mode && <Row label="mode" value={event.mode} />}
 						{event.scope && (
 							<Row label="scope" value={event.scope} />
 						)}
 					</>
 				)
 
+			case 'retrieve:query-transformed':
+				return (
+					<>
+						<Row label="transform" value={event.transform} />
+						{event.variants.map((variant, i) => (
+							<Row
+								key={`${variant.kind}-${i}`}
+								label={variant.kind}
+								value={variant.text}
+							/>
+						))}
+						{event.error && (
+							<Row label="error" value={event.error} />
+						)}
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
 			case 'retrieve:embedding-complete':
 				return (
 					<>
@@ -216,6 +268,99 @@ export function EventDetail({event}: EventDetailProps) {
 				return (
 					<>
 						<Row label="results" value={event.resultsCount} />
+						{event.belowMinScore !== undefined && (
+							<Row
+								label="below min"
+								value={event.belowMinScore}
+							/>
+						)}
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
+			case 'retrieve:keyword-complete':
+				return (
+					<>
+						<Row label="results" value={event.resultsCount} />
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
+			case 'retrieve:fusion-complete':
+				return (
+					<>
+						<Row label="method" value={event.method} />
+						<Row label="vector" value={event.vectorCount} />
+						<Row label="keyword" value={event.keywordCount} />
+						<Row label="results" value={event.resultsCount} />
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
+			case 'retrieve:variants-fused':
+				return (
+					<>
+						<Row label="variants" value={event.variantsCount} />
+						<Row label="candidates" value={event.candidatesCount} />
+						<Row label="results" value={event.resultsCount} />
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
+			case 'retrieve:diversified':
+				return (
+					<>
+						<Row label="lambda" value={event.lambda} />
+						{event.maxPerSource !== undefined && (
+							<Row
+								label="per source"
+								value={event.maxPerSource}
+							/>
+						)}
+						<Row label="candidates" value={event.candidatesCount} />
+						<Row label="results" value={event.resultsCount} />
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
+			case 'retrieve:documents-grouped':
+				return (
+					<>
+						<Row label="aggregate" value={event.aggregate} />
+						<Row label="hits" value={event.candidatesCount} />
+						<Row label="documents" value={event.documentsCount} />
+						<Row
+							label="duration"
+							value={formatDuration(event.durationMs)}
+						/>
+					</>
+				)
+
+			case 'retrieve:context-expanded':
+				return (
+					<>
+						<Row
+							label="window"
+							value={`-${event.before}/+${event.after}`}
+						/>
+						<Row label="hits" value={event.hitsCount} />
+						<Row label="chunks" value={event.chunksCount} />
+						<Row label="passages" value={event.passagesCount} />
 						<Row
 							label="duration"
 							value={formatDuration(event.durationMs)}
@@ -227,6 +372,7 @@ export function EventDetail({event}: EventDetailProps) {
 				return (
 					<>
 						<Row label="query" value={event.query} />
+						{event.mode && <Row label="mode" value={event.mode} />}
 						<Row
 							label="results"
 							value={`${event.resultsCount}/${event.topK}`}
@@ -26,21 +26,41 @@ function getEventSummary(event: DebugEvent): string {
 			return `${event.chunkCount} chunks → ${event.embeddingProvider}`
 		case 'ingest:embedding-batch':
 			return `batch ${event.batchIndex + 1}/${event.batchSize} · ${event.durationMs.toFixed(0)}ms`
+		case 'ingest:embedding-retry':
+		case 'retrieve:embedding-retry':
+			return `${event.operation} attempt ${event.attempt}/${event.maxAttempts}${event.statusCode ? ` (${event.statusCode})` : ''} · retry in ${event.delayMs.toFixed(0)}ms`
 		case 'ingest:embedding-complete':
 			return `${event.totalEmbeddings} embeddings · ${event.durationMs.toFixed(0)}ms`
 		case 'ingest:storage-complete':
 			return `${event.chunksStored} stored · ${event.durationMs.toFixed(0)}ms`
 		case 'ingest:complete':
-			return `${event.totalChunks} chunks · ${event.totalDurationMs.toFixed(0)}ms`
+			if (event.skipped) {
+				return `unchanged · skipped · ${event.totalDurationMs.toFixed(0)}ms`
+			}
+			return `${event.totalChunks} chunks${event.reusedEmbeddings ? ` (${event.reusedEmbeddings} reused)` : ''} · ${event.totalDurationMs.toFixed(0)}ms`
 		case 'ingest:error':
 			return truncate(event.error, 50)
 
 		case 'retrieve:start':
-			return `"${truncate(event.query, 24)}" k=${event.topK}`
+			return `"${truncate(event.query, 24)}" k=${event.topK}${event.mode && event.mode !== 'vector' ? ` ${event.mode}` : ''}`
+		case 'retrieve:query-transformed':
+			return `${event.transform} → ${event.variants.length} variants${event.error ? ' (failed)' : ''} · ${event.durationMs.toFixed(0)}ms`
 		case 'retrieve:embedding-complete':
 			return `dim=${event.embeddingDimension} · ${event.durationMs.toFixed(0)}ms`
 		case 'retrieve:database-complete':
+			return `${event.resultsCount} results${event.belowMinScore ? ` (${event.belowMinScore} below min)` : ''} · ${event.durationMs.toFixed(0)}ms`
+		case 'retrieve:keyword-complete':
 			return `${event.resultsCount} results · ${event.durationMs.toFixed(0)}ms`
+		case 'retrieve:fusion-complete':
+			return `${event.method} ${event.vectorCount}+${event.keywordCount}→${event.resultsCount} · ${event.durationMs.toFixed(0)}ms`
+		case 'retrieve:variants-fused':
+			return `${event.variantsCount} variants → ${event.resultsCount} results · ${event.durationMs.toFixed(0)}ms`
+		case 'retrieve:diversified':
+			return `mmr λ=${event.lambda} ${event.candidatesCount}→${event.resultsCount} · ${event.durationMs.toFixed(0)}ms`
+		case 'retrieve:documents-grouped':
+			return `${event.candidatesCount} hits → ${event.documentsCount} docs (${event.aggregate}) · ${event.durationMs.toFixed(0)}ms`
+		case 'retrieve:context-expanded':
+			return `${event.hitsCount} hits → ${event.passagesCount} passages · ${event.durationMs.toFixed(0)}ms`
 		case 'retrieve:complete':
 			return `${event.resultsCount}/${event.topK} · ${event.totalDurationMs.toFixed(0)}ms`
 
@@ -434,6 +434,18 @@ export function Ingest({connection}: IngestProps) {
 								<Text color={theme.fg} bold>
 									{out.chunkCount ?? '—'}
 								</Text>
+								{out.skipped ? (
+									<Text color={theme.warning}>
+										unchanged · skipped
+									</Text>
+								) : out.reusedEmbeddings ? (
+									<>
+										<Text color={theme.muted}>reused</Text>
+										<Text color={theme.fg} bold>
+											{out.reusedEmbeddings}
+										</Text>
+									</>
+								) : null}
 								<Text color={theme.muted}>model</Text>
 								<Text color={theme.fg} bold>
 									{out.embeddingModel ?? '—'}
@@ -2,6 +2,7 @@
  * Query Runner tab: execute a retrieve command and inspect results.
  */
 
+import type {RetrieveMode} from '@registry/core/types'
 import {ScrollableText} from '@registry/debug/tui/components/ScrollableText'
 import {useHotkeysLock} from '@registry/debug/tui/context/HotkeysLock'
 import {useScrollWindow} from '@registry/debug/tui/hooks/useScrollWindow'
@@ -23,6 +24,8 @@ type QueryRunnerProps = {
 
 type Mode = 'idle' | 'editing' | 'running' | 'done' | 'error'
 
+const RETRIEVE_MODES: RetrieveMode[] = ['vector', 'keyword', 'hybrid']
+
 function canQuery(connection: DebugConnection): boolean {
 	return (
 		Array.isArray(connection.capabilities) &&
@@ -37,6 +40,7 @@ export function QueryRunner({connection}: QueryRunnerProps) {
 	const [query, setQuery] = useState('how does unrag ingest work?')
 	const [scope, _setScope] = useState('')
 	const [topK, setTopK] = useState(8)
+	const [retrieveMode, setRetrieveMode] = useState<RetrieveMode>('vector')
 	const [result, setResult] = useState<DebugCommandResult | null>(null)
 	const [selectedIndex, setSelectedIndex] = useState(0)
 	const [contentScrollTop, setContentScrollTop] = useState(0)
@@ -94,7 +98,8 @@ export function QueryRunner({connection}: QueryRunnerProps) {
 				type: 'query',
 				query,
 				topK,
-				...(scope.trim() ? {scope: scope.trim()} : {})
+				...(scope.trim() ? {scope: scope.trim()} : {}),
+				...(retrieveMode !== 'vector' ? {mode: retrieveMode} : {})
 			})
 			setResult(res)
 			setMode(res.success ? 'done' : 'error')
@@ -157,6 +162,16 @@ export function QueryRunner({connection}: QueryRunnerProps) {
 			return
 		}
 
+		if (input === 'm') {
+			setRetrieveMode(
+				(m) =>
+					RETRIEVE_MODES[
+						(RETRIEVE_MODES.indexOf(m) + 1) % RETRIEVE_MODES.length
+					] ?? 'vector'
+			)
+			return
+		}
+
 		if (input === '+') {
 			setTopK((k) => Math.min(50, k + 1))
 		}
@@ -184,7 +199,7 @@ export function QueryRunner({connection}: QueryRunnerProps) {
 						<Text color={theme.muted}>
 							{mode === 'editing'
 								? 'editing: type · esc/^x exit · ⏎ apply'
-								: 'r run · e edit · +/- topK · j/k navigate'}
+								: 'r run · e edit · m mode · +/- topK · j/k navigate'}
 						</Text>
 					) : (
 						<Text color={theme.warning}>
@@ -197,7 +212,9 @@ export function QueryRunner({connection}: QueryRunnerProps) {
 						</Text>
 					)}
 				</Box>
-				<Text color={theme.muted}>topK {topK}</Text>
+				<Text color={theme.muted}>
+					{retrieveMode} · topK {topK}
+				</Text>
 			</Box>
 
 			{/* Input panel */}
@@ -131,8 +131,28 @@ function computeStages(
 	if (opName === 'retrieve') {
 		const complete = find('retrieve:complete')
 		const total = complete?.totalDurationMs
-		const embedding = complete?.embeddingMs
-		const retrieval = complete?.retrievalMs
+		// Prefer per-leg events so keyword/hybrid traces show each leg separately.
+		const embedding =
+			find('retrieve:embedding-complete')?.durationMs ??
+			(complete?.mode === 'keyword' ? undefined : complete?.embeddingMs)
+		const vectorDb =
+			find('retrieve:database-complete')?.durationMs ??
+			(complete?.mode === 'keyword' ? undefined : complete?.retrievalMs)
+		const keyword = find('retrieve:keyword-complete')?.durationMs
+		const fusion = find('retrieve:fusion-complete')?.durationMs
+		const transform = find('retrieve:query-transformed')?.durationMs
+		const variants = find('retrieve:variants-fused')?.durationMs
+		const diversify = find('retrieve:diversified')?.durationMs
+		const group = find('retrieve:documents-grouped')?.durationMs
+		const expand = find('retrieve:context-expanded')?.durationMs
+		if (typeof transform === 'number') {
+			stages.push({
+				id: 'transform',
+				label: 'transform',
+				ms: transform,
+				color: theme.muted
+			})
+		}
 		if (typeof embedding === 'number') {
 			stages.push({
 				id: 'embedding',
@@ -141,14 +161,62 @@ function computeStages(
 				color: theme.retrieve
 			})
 		}
-		if (typeof retrieval === 'number') {
+		if (typeof vectorDb === 'number') {
 			stages.push({
 				id: 'db',
 				label: 'db',
-				ms: retrieval,
+				ms: vectorDb,
 				color: theme.borderActive
 			})
 		}
+		if (typeof keyword === 'number') {
+			stages.push({
+				id: 'keyword',
+				label: 'keyword',
+				ms: keyword,
+				color: theme.accent
+			})
+		}
+		if (typeof fusion === 'number') {
+			stages.push({
+				id: 'fusion',
+				label: 'fusion',
+				ms: fusion,
+				color: theme.muted
+			})
+		}
+		if (typeof variants === 'number') {
+			stages.push({
+				id: 'variants',
+				label: 'variants',
+				ms: variants,
+				color: theme.muted
+			})
+		}
+		if (typeof diversify === 'number') {
+			stages.push({
+				id: 'mmr',
+				label: 'mmr',
+				ms: diversify,
+				color: theme.muted
+			})
+		}
+		if (typeof group === 'number') {
+			stages.push({
+				id: 'group',
+				label: 'group',
+				ms: group,
+				color: theme.muted
+			})
+		}
+		if (typeof expand === 'number') {
+			stages.push({
+				id: 'expand',
+				label: 'expand',
+				ms: expand,
+				color: theme.muted
+			})
+		}
 		return {totalMs: total, stages}
 	}
 
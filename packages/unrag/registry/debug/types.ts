@@ -6,7 +6,7 @@
  */
 
 import type {DebugEvent} from '@registry/core/debug-events'
-import type {Metadata} from '@registry/core/types'
+import type {Metadata, RetrieveMode} from '@registry/core/types'
 
 // Re-export event types for convenience
 export type {DebugEvent, DebugEventType} from '@registry/core/debug-events'
@@ -137,6 +137,7 @@ export type QueryCommand = {
 	query: string
 	topK?: number
 	scope?: string
+	mode?: RetrieveMode
 }
 
 /**
@@ -378,6 +379,8 @@ export type IngestResult = DebugCommandResultBase & {
 	documentId?: string
 	chunkCount?: number
 	embeddingModel?: string
+	skipped?: boolean
+	reusedEmbeddings?: number
 	warnings?: Array<{
 		code: string
 		message: string
@@ -33,6 +33,7 @@ export const createAiEmbeddingProvider = (
 
 			const result = await embed({
 				model,
+				maxRetries: 0,
 				value: text,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -51,6 +52,7 @@ export const createAiEmbeddingProvider = (
 
 			const result = await embedMany({
 				model,
+				maxRetries: 0,
 				values,
 				...(abortSignal ? {abortSignal} : {})
 			})
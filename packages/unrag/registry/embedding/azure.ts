@@ -58,6 +58,7 @@ export const createAzureEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
@@ -77,6 +78,7 @@ export const createAzureEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
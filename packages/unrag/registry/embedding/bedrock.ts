@@ -62,6 +62,7 @@ export const createBedrockEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
@@ -81,6 +82,7 @@ export const createBedrockEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
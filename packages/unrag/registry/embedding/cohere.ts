@@ -60,6 +60,7 @@ export const createCohereEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
@@ -79,6 +80,7 @@ export const createCohereEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
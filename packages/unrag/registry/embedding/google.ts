@@ -73,6 +73,7 @@ export const createGoogleEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
@@ -92,6 +93,7 @@ export const createGoogleEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(providerOptions ? {providerOptions} : {}),
 				...(abortSignal ? {abortSignal} : {})
@@ -0,0 +1,63 @@
+import type {EmbeddingProvider, HashEmbeddingConfig} from '@registry/core/types'
+
+const DEFAULT_DIMENSIONS = 256
+const TRIGRAM_WEIGHT = 0.5
+
+// 32-bit FNV-1a: stable across runtimes and platforms.
+const fnv1a = (value: string) => {
+	let hash = 0x811c9dc5
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i)
+		hash = Math.imul(hash, 0x01000193)
+	}
+	return hash >>> 0
+}
+
+const hashEmbed = (text: string, dimensions: number): number[] => {
+	const vector = new Array<number>(dimensions).fill(0)
+	const add = (feature: string, weight: number) => {
+		const hash = fnv1a(feature)
+		const bucket = hash % dimensions
+		// The top bit picks the sign so colliding features tend to cancel out.
+		vector[bucket] =
+			(vector[bucket] ?? 0) + (hash & 0x80000000 ? -weight : weight)
+	}
+
+	for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+		add(`w:${token}`, 1)
+		// Character trigrams give partial credit to inflections ("invoice" / "invoices").
+		const padded = `#${token}#`
+		for (let i = 0; i + 3 <= padded.length; i++) {
+			add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT)
+		}
+	}
+
+	const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+	return norm === 0 ? vector : vector.map((v) => v / norm)
+}
+
+/**
+ * Deterministic, offline embedding provider based on feature hashing.
+ *
+ * The same text always produces the same unit vector, and texts that share
+ * words land close together. It has no semantic understanding, so use it for
+ * tests, CI, and local development rather than production retrieval.
+ */
+export const createHashEmbeddingProvider = (
+	config: HashEmbeddingConfig = {}
+): EmbeddingProvider => {
+	const dimensions = config.dimensions ?? DEFAULT_DIMENSIONS
+	if (!Number.isInteger(dimensions) || dimensions <= 0) {
+		throw new Error(
+			`Hash embedding dimensions must be a positive integer (got ${dimensions})`
+		)
+	}
+
+	return {
+		name: `hash:${dimensions}`,
+		dimensions,
+		embed: async ({text}) => hashEmbed(text, dimensions),
+		embedMany: async (inputs) =>
+			inputs.map(({text}) => hashEmbed(text, dimensions))
+	}
+}
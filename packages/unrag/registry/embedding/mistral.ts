@@ -43,6 +43,7 @@ export const createMistralEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -61,6 +62,7 @@ export const createMistralEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -63,6 +63,7 @@ export const createOllamaEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -81,6 +82,7 @@ export const createOllamaEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -2,6 +2,7 @@ import type {
 	EmbeddingProvider,
 	UnragEmbeddingConfig
 } from '@registry/core/types'
+import {createHashEmbeddingProvider} from '@registry/embedding/hash'
 // __UNRAG_PROVIDER_IMPORTS__
 
 export function createEmbeddingProviderFromConfig(
@@ -10,6 +11,9 @@ export function createEmbeddingProviderFromConfig(
 	if (config.provider === 'custom') {
 		return config.create()
 	}
+	if (config.provider === 'hash') {
+		return createHashEmbeddingProvider(config.config)
+	}
 
 	switch (config.provider) {
 		// __UNRAG_PROVIDER_CASES__
@@ -51,6 +51,7 @@ export const createTogetherEmbeddingProvider = (
 
 			const result = await embed({
 				model: embeddingModel,
+				maxRetries: 0,
 				value: text,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -69,6 +70,7 @@ export const createTogetherEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: embeddingModel,
+				maxRetries: 0,
 				values,
 				...(abortSignal ? {abortSignal} : {})
 			})
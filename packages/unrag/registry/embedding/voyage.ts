@@ -124,6 +124,7 @@ export const createVoyageEmbeddingProvider = (
 
 				const result = await unsafeEmbed({
 					model: multimodalModel,
+					maxRetries: 0,
 					value: resolveTextValue(text),
 					...(abortSignal ? {abortSignal} : {})
 				})
@@ -141,6 +142,7 @@ export const createVoyageEmbeddingProvider = (
 
 				const result = await unsafeEmbedMany({
 					model: multimodalModel,
+					maxRetries: 0,
 					values: inputs.map((i) => resolveTextValue(i.text)),
 					...(abortSignal ? {abortSignal} : {})
 				})
@@ -160,6 +162,7 @@ export const createVoyageEmbeddingProvider = (
 
 				const result = await unsafeEmbed({
 					model: multimodalModel,
+					maxRetries: 0,
 					value: resolveImageValue(input),
 					...(abortSignal ? {abortSignal} : {})
 				})
@@ -196,6 +199,7 @@ export const createVoyageEmbeddingProvider = (
 
 			const result = await embed({
 				model: textModel,
+				maxRetries: 0,
 				value: text,
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -213,6 +217,7 @@ export const createVoyageEmbeddingProvider = (
 
 			const result = await embedMany({
 				model: textModel,
+				maxRetries: 0,
 				values: inputs.map((i) => i.text),
 				...(abortSignal ? {abortSignal} : {})
 			})
@@ -36,67 +36,112 @@ const isDisallowedHost = (host: string) => {
 	return false
 }
 
-export async function fetchBytesFromUrl(args: {
-	url: string
-	fetchConfig: AssetFetchConfig
-	headers?: Record<string, string>
-	maxBytes: number
-}): Promise<{bytes: Uint8Array; mediaType?: string}> {
-	if (!args.fetchConfig.enabled) {
+/**
+ * URL rules shared by everything that fetches on the engine's behalf
+ * (asset extraction, the web connector).
+ */
+export type UrlFetchPolicy = {
+	/** Optional allowlist of hostnames. When set, only these hosts can be fetched. */
+	allowedHosts?: string[]
+	/** Allow plain http:// URLs. Default: https only. */
+	allowHttp?: boolean
+	/**
+	 * Allow localhost and private-network IP literals. Only for trusted setups
+	 * such as tests or intranet crawls.
+	 */
+	allowPrivateHosts?: boolean
+}
+
+/**
+ * Parse `url` and throw unless the policy allows fetching it. `purpose`
+ * names the caller in error messages.
+ */
+export function assertUrlAllowed(
+	url: string,
+	policy: UrlFetchPolicy,
+	purpose = 'asset'
+): URL {
+	const u = new URL(url)
+	const protocolOk =
+		u.protocol === 'https:' || (policy.allowHttp && u.protocol === 'http:')
+	if (!protocolOk) {
 		throw new Error(
-			'Asset fetch disabled (assetProcessing.fetch.enabled=false)'
+			`Only ${policy.allowHttp ? 'http(s)' : 'https'}:// URLs are allowed for ${purpose} fetching`
 		)
 	}
 
-	const u = new URL(args.url)
-	if (u.protocol !== 'https:') {
-		throw new Error('Only https:// URLs are allowed for asset fetching')
+	// URL keeps IPv6 literals bracketed.
+	const hostname = u.hostname.replace(/^\[(.*)\]$/, '$1')
+	if (!policy.allowPrivateHosts && isDisallowedHost(hostname)) {
+		throw new Error(`Disallowed host for ${purpose} fetch: ${hostname}`)
 	}
 
-	if (isDisallowedHost(u.hostname)) {
-		throw new Error(`Disallowed host for asset fetch: ${u.hostname}`)
-	}
-
-	const allow = args.fetchConfig.allowedHosts
+	const allow = policy.allowedHosts
 	if (Array.isArray(allow) && allow.length > 0) {
-		const ok = allow.some(
-			(h) => h.toLowerCase() === u.hostname.toLowerCase()
-		)
+		const ok = allow.some((h) => h.toLowerCase() === hostname.toLowerCase())
 		if (!ok) {
 			throw new Error(
-				`Host not allowlisted for asset fetch: ${u.hostname}`
+				`Host not allowlisted for ${purpose} fetch: ${hostname}`
 			)
 		}
 	}
 
-	const abortSignal = AbortSignal.timeout(args.fetchConfig.timeoutMs)
-	const headers = {
-		'user-agent': DEFAULT_UA,
-		...(args.fetchConfig.headers ?? {}),
-		...(args.headers ?? {})
-	}
-
-	const res = await fetch(args.url, {headers, signal: abortSignal})
-	if (!res.ok) {
-		throw new Error(`Asset fetch failed (${res.status} ${res.statusText})`)
-	}
+	return u
+}
 
+/**
+ * Read a response body, failing early on `content-length` and again on the
+ * actual size when the header is missing or wrong.
+ */
+export async function readResponseBytes(
+	res: Response,
+	maxBytes: number,
+	label = 'Asset'
+): Promise<Uint8Array> {
 	const contentLength = Number(
 		res.headers.get('content-length') ?? Number.NaN
 	)
-	if (Number.isFinite(contentLength) && contentLength > args.maxBytes) {
+	if (Number.isFinite(contentLength) && contentLength > maxBytes) {
 		throw new Error(
-			`Asset too large (content-length ${contentLength} > ${args.maxBytes})`
+			`${label} too large (content-length ${contentLength} > ${maxBytes})`
 		)
 	}
 
 	const buf = new Uint8Array(await res.arrayBuffer())
-	if (buf.byteLength > args.maxBytes) {
+	if (buf.byteLength > maxBytes) {
+		throw new Error(`${label} too large (${buf.byteLength} > ${maxBytes})`)
+	}
+	return buf
+}
+
+export async function fetchBytesFromUrl(args: {
+	url: string
+	fetchConfig: AssetFetchConfig
+	headers?: Record<string, string>
+	maxBytes: number
+}): Promise<{bytes: Uint8Array; mediaType?: string}> {
+	if (!args.fetchConfig.enabled) {
 		throw new Error(
-			`Asset too large (${buf.byteLength} > ${args.maxBytes})`
+			'Asset fetch disabled (assetProcessing.fetch.enabled=false)'
 		)
 	}
 
+	assertUrlAllowed(args.url, {allowedHosts: args.fetchConfig.allowedHosts})
+
+	const abortSignal = AbortSignal.timeout(args.fetchConfig.timeoutMs)
+	const headers = {
+		'user-agent': DEFAULT_UA,
+		...(args.fetchConfig.headers ?? {}),
+		...(args.headers ?? {})
+	}
+
+	const res = await fetch(args.url, {headers, signal: abortSignal})
+	if (!res.ok) {
+		throw new Error(`Asset fetch failed (${res.status} ${res.statusText})`)
+	}
+
+	const buf = await readResponseBytes(res, args.maxBytes)
+
 	const mediaType = res.headers.get('content-type')?.split(';')[0]?.trim()
 	return {bytes: buf, mediaType: mediaType || undefined}
 }
@@ -33,6 +33,9 @@ declare module '@notionhq/client' {
 		constructor(options?: ShimAny)
 		pages: ShimAny
 		blocks: ShimAny
+		databases: ShimAny
+		search: ShimAny
+		users: ShimAny
 	}
 	export const isFullPage: (x: unknown) => boolean
 }
@@ -40,7 +43,9 @@ declare module '@notionhq/client' {
 declare module '@notionhq/client/build/src/api-endpoints' {
 	export type GetPageResponse = ShimAny
 	export type ListBlockChildrenResponse = ShimAny
+	export type QueryDatabaseResponse = ShimAny
 	export type RichTextItemResponse = ShimAny
+	export type SearchResponse = ShimAny
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,75 @@
+import type {EmbeddingCache} from '@registry/core/types'
+import {embeddingCache} from '@registry/store/drizzle/schema'
+import {sql} from 'drizzle-orm'
+import type {PgDatabase, PgQueryResultHKT} from 'drizzle-orm/pg-core'
+
+/**
+ * Accepts any Drizzle Postgres database instance regardless of schema type.
+ */
+type DrizzleDb = PgDatabase<PgQueryResultHKT, Record<string, unknown>>
+
+const getExecuteRows = (result: unknown): unknown[] => {
+	if (Array.isArray(result)) {
+		return result
+	}
+
+	if (result && typeof result === 'object' && 'rows' in result) {
+		const rows = (result as {rows?: unknown}).rows
+		return Array.isArray(rows) ? rows : []
+	}
+
+	return []
+}
+
+const parseVectorText = (value: unknown): number[] =>
+	Array.isArray(value)
+		? value.map(Number)
+		: (JSON.parse(String(value)) as number[])
+
+/**
+ * Postgres-backed embedding cache stored in the `embedding_cache` table
+ * (`embeddingCache` in the Drizzle schema).
+ *
+ * Entries survive restarts and are shared by every process using the database,
+ * so re-ingesting the same dataset (or eval runs) only pays for new text.
+ */
+export const createDrizzleEmbeddingCache = (db: DrizzleDb): EmbeddingCache => ({
+	getMany: async (keys) => {
+		if (keys.length === 0) {
+			return []
+		}
+		const result = await db.execute(
+			sql`
+        select cache_key, embedding::text as embedding
+        from ${embeddingCache}
+        where cache_key in (${sql.join(
+			keys.map((key) => sql`${key}`),
+			sql`, `
+		)})
+      `
+		)
+		const rows = getExecuteRows(result) as Array<{
+			cache_key: string
+			embedding: unknown
+		}>
+		const found = new Map(
+			rows.map((row) => [
+				String(row.cache_key),
+				parseVectorText(row.embedding)
+			])
+		)
+		return keys.map((key) => found.get(key))
+	},
+
+	setMany: async (entries) => {
+		if (entries.length === 0) {
+			return
+		}
+		await db
+			.insert(embeddingCache)
+			.values(
+				entries.map((e) => ({cacheKey: e.key, embedding: e.embedding}))
+			)
+			.onConflictDoNothing({target: embeddingCache.cacheKey})
+	}
+})
@@ -1,7 +1,10 @@
 export {createDrizzleVectorStore} from '@registry/store/drizzle/store'
+export type {DrizzleVectorStoreOptions} from '@registry/store/drizzle/store'
+export {createDrizzleEmbeddingCache} from '@registry/store/drizzle/embedding-cache'
 export {
 	documents,
 	chunks,
 	embeddings,
+	embeddingCache,
 	schema
 } from '@registry/store/drizzle/schema'
@@ -1,5 +1,8 @@
+import {sql} from 'drizzle-orm'
 import {
+	type AnyPgColumn,
 	customType,
+	index,
 	integer,
 	jsonb,
 	pgTable,
@@ -18,11 +21,62 @@ const vector = (name: string, dimensions?: number) =>
 		}
 	})(name)
 
+const VECTOR_OPERATOR_CLASSES = {
+	cosine: 'vector_cosine_ops',
+	inner_product: 'vector_ip_ops',
+	l2: 'vector_l2_ops'
+} as const
+
+/**
+ * HNSW or IVFFlat index over one named index's vectors of one size, the same
+ * index `bunx unrag index create` builds. `embedding` has no fixed dimension,
+ * so the index covers `embedding::vector(n)` for matching rows only, and the
+ * store casts the same way when querying. `metric` must match the store's
+ * `distanceMetric`.
+ */
+export const vectorIndex = (
+	table: {
+		embedding: AnyPgColumn
+		indexName: AnyPgColumn
+		embeddingDimension: AnyPgColumn
+	},
+	options: {
+		dimensions: number
+		index?: string
+		method?: 'hnsw' | 'ivfflat'
+		metric?: keyof typeof VECTOR_OPERATOR_CLASSES
+		/** IVFFlat lists. Default: 100 */
+		lists?: number
+	}
+) => {
+	const {
+		dimensions,
+		index: indexName = 'default',
+		method = 'hnsw',
+		metric = 'cosine',
+		lists = 100
+	} = options
+	const slug = indexName
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '_')
+		.replace(/^_+|_+$/g, '')
+	const builder = index(`embeddings_${slug}_${dimensions}_${method}_idx`)
+		.using(
+			method,
+			sql`(${table.embedding}::vector(${sql.raw(String(dimensions))})) ${sql.raw(VECTOR_OPERATOR_CLASSES[metric])}`
+		)
+		.where(
+			sql`${table.indexName} = ${sql.raw(`'${indexName.replace(/'/g, "''")}'`)} and ${table.embeddingDimension} = ${sql.raw(String(dimensions))}`
+		)
+	return method === 'ivfflat' ? builder.with({lists}) : builder
+}
+
 export const documents = pgTable('documents', {
 	id: uuid('id').primaryKey(),
 	sourceId: text('source_id').notNull().unique(),
 	content: text('content').notNull(),
 	metadata: jsonb('metadata').$type<Record<string, unknown> | null>(),
+	contentHash: text('content_hash'),
 	createdAt: timestamp('created_at', {
 		mode: 'date',
 		withTimezone: false
@@ -51,18 +105,38 @@ export const embeddings = pgTable(
 		chunkId: uuid('chunk_id')
 			.notNull()
 			.references(() => chunks.id, {onDelete: 'cascade'}),
+		indexName: text('index_name').notNull().default('default'),
+		model: text('model'),
 		embedding: vector('embedding'),
 		embeddingDimension: integer('embedding_dimension'),
+		contentHash: text('content_hash'),
 		createdAt: timestamp('created_at', {
 			mode: 'date',
 			withTimezone: false
 		}).defaultNow()
 	},
+	// No vector index: its size and operator class depend on your embedding model
+	// and distance metric. Run `bunx unrag index create`, or add
+	// `vectorIndex(table, {dimensions})` here to let migrations create it.
 	(table) => ({
-		pk: primaryKey({columns: [table.chunkId]})
+		pk: primaryKey({columns: [table.chunkId, table.indexName]})
 	})
 )
 
+/**
+ * Optional embedding cache table (see `createDrizzleEmbeddingCache`). Not part
+ * of `schema`, so migrations only create it when you export it from your own
+ * Drizzle schema next to `...schema`.
+ */
+export const embeddingCache = pgTable('embedding_cache', {
+	cacheKey: text('cache_key').primaryKey(),
+	embedding: vector('embedding').notNull(),
+	createdAt: timestamp('created_at', {
+		mode: 'date',
+		withTimezone: false
+	}).defaultNow()
+})
+
 export const schema = {
 	documents,
 	chunks,
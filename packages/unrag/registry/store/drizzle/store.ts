@@ -1,6 +1,13 @@
-import type {Chunk, DeleteInput, VectorStore} from '@registry/core/types'
+import type {
+	Chunk,
+	DeleteInput,
+	DistanceMetric,
+	MetadataFilter,
+	VectorSearchOptions,
+	VectorStore
+} from '@registry/core/types'
 import {chunks, documents, embeddings} from '@registry/store/drizzle/schema'
-import {type SQL, eq, like, sql} from 'drizzle-orm'
+import {type SQL, eq, inArray, like, sql} from 'drizzle-orm'
 import type {PgDatabase, PgQueryResultHKT} from 'drizzle-orm/pg-core'
 
 /**
@@ -22,9 +29,9 @@ const getExecuteRows = (result: unknown): unknown[] => {
 }
 
 /**
- * Query row type for vector similarity search results.
+ * Row type for chunk lookups.
  */
-interface QueryRow {
+interface ChunkRow {
 	id: string
 	document_id: string
 	source_id: string
@@ -32,7 +39,157 @@ interface QueryRow {
 	content: string
 	token_count: number
 	metadata: Record<string, unknown> | null
+}
+
+/**
+ * Query row type for vector similarity and keyword search results.
+ */
+interface QueryRow extends ChunkRow {
 	score: number
+	embedding?: string | null
+}
+
+/**
+ * Vector of another index, kept when its chunk is replaced unchanged.
+ */
+interface CarriedEmbeddingRow {
+	idx: number
+	content: string
+	index_name: string
+	model: string | null
+	embedding: string
+	embedding_dimension: number | null
+	content_hash: string | null
+}
+
+/**
+ * Postgres `undefined_column`, raised by schemas that predate the content hash
+ * and named index columns. Drizzle wraps driver errors, so the cause is checked
+ * too. Rethrown with the fix, since every read and write of ingest state needs
+ * the columns.
+ */
+const explainMissingColumn = (err: unknown): never => {
+	const error = err as {code?: unknown; cause?: {code?: unknown}} | null
+	if (error?.code === '42703' || error?.cause?.code === '42703') {
+		throw Object.assign(
+			new Error(
+				`${err instanceof Error ? err.message : String(err)}. The unrag tables are out of date: run the migration printed by \`unrag doctor --db\`.`
+			),
+			{cause: err}
+		)
+	}
+	throw err
+}
+
+/** Key that matches a replacement chunk to the chunk it replaces. */
+const carryKey = (idx: number, content: string) => `${idx}\u0000${content}`
+
+const mapChunkRow = (row: ChunkRow): Chunk => ({
+	id: String(row.id),
+	documentId: String(row.document_id),
+	sourceId: String(row.source_id),
+	index: Number(row.idx),
+	content: String(row.content),
+	tokenCount: Number(row.token_count),
+	metadata: (row.metadata ?? {}) as Chunk['metadata']
+})
+
+const mapQueryRow = (row: QueryRow) => ({
+	...mapChunkRow(row),
+	...(row.embedding != null
+		? {embedding: parseVectorText(row.embedding)}
+		: {}),
+	score: Number(row.score)
+})
+
+export type DrizzleVectorStoreOptions = {
+	/**
+	 * Postgres text search configuration used by keyword retrieval
+	 * (`to_tsvector(<config>, content)`). Default: `'english'`.
+	 *
+	 * Keep this in sync with any full-text expression index on `chunks.content`.
+	 */
+	textSearchConfig?: string
+	/**
+	 * Vector comparison used by `query()`. Default: `'cosine'`.
+	 *
+	 * Use the matching operator class (`vector_cosine_ops`, `vector_ip_ops`,
+	 * `vector_l2_ops`) for any vector index on `embeddings.embedding`.
+	 */
+	distanceMetric?: DistanceMetric
+	/**
+	 * Maximum rows per multi-row insert when `upsert()` writes chunks and
+	 * embeddings. Default: `500`.
+	 *
+	 * Larger batches mean fewer round trips; Postgres caps a statement at 65,535
+	 * bind parameters, so very high values can fail for prepared inserts.
+	 */
+	upsertBatchSize?: number
+}
+
+const DEFAULT_UPSERT_BATCH_SIZE = 500
+
+const DEFAULT_INDEX = 'default'
+
+const resolveUpsertBatchSize = (value = DEFAULT_UPSERT_BATCH_SIZE) => {
+	if (!Number.isInteger(value) || value < 1) {
+		throw new Error(`Invalid upsertBatchSize "${value}"`)
+	}
+	return value
+}
+
+const toBatches = <T>(items: T[], size: number): T[][] => {
+	const batches: T[][] = []
+	for (let i = 0; i < items.length; i += size) {
+		batches.push(items.slice(i, i + size))
+	}
+	return batches
+}
+
+const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+	cosine: '<=>',
+	inner_product: '<#>',
+	l2: '<->'
+}
+
+const resolveDistanceOperator = (metric: DistanceMetric) => {
+	const operator = DISTANCE_OPERATORS[metric]
+	if (!operator) {
+		throw new Error(`Invalid distanceMetric "${metric}"`)
+	}
+	return operator
+}
+
+const VECTOR_SEARCH_SETTINGS = [
+	['efSearch', 'hnsw.ef_search'],
+	['probes', 'ivfflat.probes']
+] as const
+
+/**
+ * `set local` statements for `vectorSearch`. SET takes no bind parameters, so
+ * values are inlined and must be positive integers.
+ */
+const vectorSearchStatements = (vectorSearch: VectorSearchOptions = {}) => {
+	const statements: SQL[] = []
+	for (const [key, setting] of VECTOR_SEARCH_SETTINGS) {
+		const value = vectorSearch[key]
+		if (value === undefined) {
+			continue
+		}
+		if (!Number.isInteger(value) || value < 1) {
+			throw new Error(`Invalid vectorSearch.${key} "${value}"`)
+		}
+		statements.push(sql.raw(`set local ${setting} = ${value}`))
+	}
+	return statements
+}
+
+const resolveTextSearchConfig = (value = 'english') => {
+	// Inlined into SQL (not bound) so Postgres can match expression indexes.
+	if (!/^[a-z_][a-z0-9_]*$/i.test(value)) {
+		throw new Error(`Invalid textSearchConfig "${value}"`)
+	}
+	return value
 }
 
 const sanitizeMetadata = (metadata: unknown) => {
@@ -47,11 +204,81 @@ const sanitizeMetadata = (metadata: unknown) => {
 	}
 }
 
+const RANGE_OPERATORS = [
+	['gt', '>'],
+	['gte', '>='],
+	['lt', '<'],
+	['lte', '<=']
+] as const
+
+/**
+ * Compile a metadata filter into a SQL predicate over `c.metadata` (jsonb).
+ */
+const buildMetadataFilterSql = (filter: MetadataFilter): SQL => {
+	const jsonb = (value: unknown) => sql`${JSON.stringify(value)}::jsonb`
+	const field = (name: string) => sql`(c.metadata -> ${name}::text)`
+
+	switch (filter.op) {
+		case 'eq':
+			return sql`coalesce(${field(filter.field)} = ${jsonb(filter.value)}, false)`
+		case 'in': {
+			if (filter.values.length === 0) {
+				return sql`false`
+			}
+			const list = sql.join(
+				filter.values.map((v) => jsonb(v)),
+				sql`, `
+			)
+			return sql`coalesce(${field(filter.field)} in (${list}), false)`
+		}
+		case 'contains':
+			return sql`coalesce(${field(filter.field)} @> ${jsonb([filter.value])}, false)`
+		case 'range': {
+			const bounds = RANGE_OPERATORS.filter(
+				([key]) => filter[key] !== undefined
+			)
+			const types = new Set(bounds.map(([key]) => typeof filter[key]))
+			if (bounds.length === 0 || types.size !== 1) {
+				throw new Error(
+					`Invalid range filter on "${filter.field}": provide at least one bound, all numbers or all strings`
+				)
+			}
+			const f = field(filter.field)
+			const type = types.has('number') ? 'number' : 'string'
+			const comparisons = bounds.map(
+				([key, operator]) =>
+					sql`${f} ${sql.raw(operator)} ${jsonb(filter[key])}`
+			)
+			return sql`coalesce(jsonb_typeof(${f}) = ${type} and ${sql.join(comparisons, sql` and `)}, false)`
+		}
+		case 'exists':
+			return sql`(${field(filter.field)} is not null)`
+		case 'and':
+			return filter.filters.length === 0
+				? sql`true`
+				: sql`(${sql.join(filter.filters.map(buildMetadataFilterSql), sql` and `)})`
+		case 'or':
+			return filter.filters.length === 0
+				? sql`false`
+				: sql`(${sql.join(filter.filters.map(buildMetadataFilterSql), sql` or `)})`
+		case 'not':
+			return sql`not ${buildMetadataFilterSql(filter.filter)}`
+		default:
+			throw new Error(
+				`Unsupported metadata filter op: ${String((filter as {op?: unknown}).op)}`
+			)
+	}
+}
+
 const toDocumentRow = (chunk: Chunk) => ({
 	id: chunk.documentId,
 	sourceId: chunk.sourceId,
 	content: chunk.documentContent ?? '',
-	metadata: sanitizeMetadata(chunk.metadata) as Record<string, unknown> | null
+	metadata: sanitizeMetadata(chunk.metadata) as Record<
+		string,
+		unknown
+	> | null,
+	contentHash: chunk.documentContentHash ?? null
 })
 
 const toChunkRow = (chunk: Chunk) => ({
@@ -64,6 +291,11 @@ const toChunkRow = (chunk: Chunk) => ({
 	metadata: sanitizeMetadata(chunk.metadata) as Record<string, unknown> | null
 })
 
+const parseVectorText = (value: unknown): number[] =>
+	Array.isArray(value)
+		? value.map(Number)
+		: (JSON.parse(String(value)) as number[])
+
 type DebugStoreInspector = {
 	listDocuments: (args: {
 		prefix?: string
@@ -104,8 +336,15 @@ type DebugStoreInspector = {
 }
 
 export const createDrizzleVectorStore = (
-	db: DrizzleDb
+	db: DrizzleDb,
+	options: DrizzleVectorStoreOptions = {}
 ): VectorStore & {inspector: DebugStoreInspector} => {
+	const distanceMetric = options.distanceMetric ?? 'cosine'
+	const distanceOperator = sql.raw(resolveDistanceOperator(distanceMetric))
+	const textSearchConfig = sql.raw(
+		`'${resolveTextSearchConfig(options.textSearchConfig)}'`
+	)
+	const upsertBatchSize = resolveUpsertBatchSize(options.upsertBatchSize)
 	const inspector: DebugStoreInspector = {
 		listDocuments: async ({prefix, limit = 50, offset = 0}) => {
 			const where = prefix
@@ -299,72 +538,209 @@ export const createDrizzleVectorStore = (
 	}
 
 	const store: VectorStore & {inspector: DebugStoreInspector} = {
-		upsert: async (chunkItems) => {
+		distanceMetric,
+
+		upsert: async (chunkItems, {index = DEFAULT_INDEX} = {}) => {
 			if (chunkItems.length === 0) {
 				throw new Error('upsert() requires at least one chunk')
 			}
 
-			return await db.transaction(async (tx) => {
-				const head = chunkItems[0]
-				if (!head) {
-					throw new Error('upsert() requires at least one chunk')
-				}
-				const documentRow = toDocumentRow(head)
-
-				// Upsert document by source_id (requires UNIQUE constraint on documents.source_id).
-				// Returns the canonical document id (existing id on conflict, or new id on insert).
-				// Using raw SQL because Drizzle's onConflictDoUpdate requires schema-level unique definition.
-				const docResult = await tx.execute<{id: string}>(
-					sql`
-          insert into ${documents} (id, source_id, content, metadata)
-          values (${documentRow.id}::uuid, ${documentRow.sourceId}, ${documentRow.content}, ${JSON.stringify(documentRow.metadata)}::jsonb)
+			return await db
+				.transaction(async (tx) => {
+					const head = chunkItems[0]
+					if (!head) {
+						throw new Error('upsert() requires at least one chunk')
+					}
+					const documentRow = toDocumentRow(head)
+
+					// Upsert document by source_id (requires UNIQUE constraint on documents.source_id).
+					// Returns the canonical document id (existing id on conflict, or new id on insert).
+					// Using raw SQL because Drizzle's onConflictDoUpdate requires schema-level unique definition.
+					const docResult = await tx.execute<{id: string}>(
+						sql`
+          insert into ${documents} (id, source_id, content, metadata, content_hash)
+          values (${documentRow.id}::uuid, ${documentRow.sourceId}, ${documentRow.content}, ${JSON.stringify(documentRow.metadata)}::jsonb, ${documentRow.contentHash})
           on conflict (source_id) do update set
             content = excluded.content,
-            metadata = excluded.metadata
+            metadata = excluded.metadata,
+            content_hash = excluded.content_hash
           returning id
         `
-				)
-
-				const rows = Array.isArray(docResult)
-					? (docResult as Array<{id: string}>)
-					: ((docResult as {rows?: Array<{id: string}>}).rows ?? [])
-
-				const canonicalDocumentId = rows[0]?.id
-				if (!canonicalDocumentId) {
-					throw new Error('Failed to upsert document: no id returned')
-				}
-
-				// Delete all existing chunks for this document (they will be replaced).
-				// Cascades to embeddings via FK constraint.
-				await tx
-					.delete(chunks)
-					.where(eq(chunks.documentId, canonicalDocumentId))
-
-				// Insert new chunks and embeddings.
-				for (const chunk of chunkItems) {
-					const chunkRow = toChunkRow(chunk)
+					)
+
+					const rows = Array.isArray(docResult)
+						? (docResult as Array<{id: string}>)
+						: ((docResult as {rows?: Array<{id: string}>}).rows ??
+							[])
+
+					const canonicalDocumentId = rows[0]?.id
+					if (!canonicalDocumentId) {
+						throw new Error(
+							'Failed to upsert document: no id returned'
+						)
+					}
 
-					await tx.insert(chunks).values({
-						...chunkRow,
-						documentId: canonicalDocumentId
-					})
+					// Delete all existing chunks for this document (they will be replaced).
+					// Cascades to embeddings via FK constraint. Vectors of other indexes are
+					// read in the same statement so unchanged chunks can keep them.
+					const carriedResult = await tx.execute(
+						sql`
+          with carried as (
+            select c.idx, c.content, e.index_name, e.model, e.embedding::text as embedding, e.embedding_dimension, e.content_hash
+            from ${chunks} as c
+            join ${embeddings} as e on e.chunk_id = c.id
+            where c.document_id = ${canonicalDocumentId}::uuid
+              and e.index_name <> ${index}
+              and c.content <> ''
+          ), deleted as (
+            delete from ${chunks} where document_id = ${canonicalDocumentId}::uuid
+          )
+          select * from carried
+        `
+					)
+					const carried = new Map<string, CarriedEmbeddingRow[]>()
+					for (const row of getExecuteRows(
+						carriedResult
+					) as CarriedEmbeddingRow[]) {
+						const key = carryKey(
+							Number(row.idx),
+							String(row.content)
+						)
+						carried.set(key, [...(carried.get(key) ?? []), row])
+					}
 
-					if (!chunk.embedding) {
-						continue
+					// Insert new chunks and embeddings with one multi-row insert per batch.
+					for (const batch of toBatches(
+						chunkItems,
+						upsertBatchSize
+					)) {
+						await tx.insert(chunks).values(
+							batch.map((chunk) => ({
+								...toChunkRow(chunk),
+								documentId: canonicalDocumentId
+							}))
+						)
+
+						const embeddingRows = batch.flatMap((chunk) => [
+							...(chunk.embedding
+								? [
+										{
+											chunkId: chunk.id,
+											indexName: index,
+											model: chunk.embeddingModel ?? null,
+											embedding: chunk.embedding,
+											embeddingDimension:
+												chunk.embedding.length,
+											contentHash:
+												chunk.contentHash ?? null
+										}
+									]
+								: []),
+							...(
+								carried.get(
+									carryKey(chunk.index, chunk.content)
+								) ?? []
+							).map((row) => ({
+								chunkId: chunk.id,
+								indexName: row.index_name,
+								model: row.model,
+								embedding: parseVectorText(row.embedding),
+								embeddingDimension: row.embedding_dimension,
+								contentHash: row.content_hash
+							}))
+						])
+						if (embeddingRows.length > 0) {
+							await tx.insert(embeddings).values(embeddingRows)
+						}
 					}
 
-					await tx.insert(embeddings).values({
-						chunkId: chunk.id,
-						embedding: chunk.embedding,
-						embeddingDimension: chunk.embedding.length
-					})
-				}
+					return {documentId: canonicalDocumentId}
+				})
+				.catch(explainMissingColumn)
+		},
 
-				return {documentId: canonicalDocumentId}
-			})
+		getDocumentState: async ({sourceId, index = DEFAULT_INDEX}) => {
+			const result = await db
+				.execute(
+					sql`
+        select
+          d.id,
+          d.content_hash,
+          (select count(*)::int from ${chunks} as c where c.document_id = d.id) as chunk_count,
+          (
+            select count(*)::int from ${chunks} as c
+            join ${embeddings} as e on e.chunk_id = c.id and e.index_name = ${index}
+            where c.document_id = d.id
+          ) as embedded_chunk_count
+        from ${documents} as d
+        where d.source_id = ${sourceId}
+        limit 1
+      `
+				)
+				.catch(explainMissingColumn)
+			const row = getExecuteRows(result)[0] as
+				| {
+						id: string
+						content_hash: string | null
+						chunk_count: number
+						embedded_chunk_count: number
+				  }
+				| undefined
+			if (!row) {
+				return null
+			}
+			return {
+				documentId: String(row.id),
+				contentHash: row.content_hash ?? null,
+				chunkCount: Number(row.chunk_count),
+				embeddedChunkCount: Number(row.embedded_chunk_count)
+			}
+		},
+
+		getChunkEmbeddings: async ({
+			sourceId,
+			contentHashes,
+			index = DEFAULT_INDEX
+		}) => {
+			if (contentHashes.length === 0) {
+				return []
+			}
+			const result = await db
+				.execute(
+					sql`
+        select distinct on (e.content_hash)
+          e.content_hash,
+          e.embedding::text as embedding
+        from ${chunks} as c
+        join ${embeddings} as e on e.chunk_id = c.id and e.index_name = ${index}
+        where c.source_id = ${sourceId}
+          and e.content_hash in (${sql.join(
+				contentHashes.map((hash) => sql`${hash}`),
+				sql`, `
+			)})
+      `
+				)
+				.catch(explainMissingColumn)
+			return (
+				getExecuteRows(result) as Array<{
+					content_hash: string
+					embedding: unknown
+				}>
+			).map((row) => ({
+				contentHash: String(row.content_hash),
+				embedding: parseVectorText(row.embedding)
+			}))
 		},
 
-		query: async ({embedding, topK, scope = {}}) => {
+		query: async ({
+			embedding,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX,
+			vectorSearch
+		}) => {
+			const settings = vectorSearchStatements(vectorSearch)
 			const filters: SQL[] = []
 
 			if (scope.sourceId) {
@@ -373,15 +749,24 @@ export const createDrizzleVectorStore = (
 				filters.push(sql`c.source_id like ${`${scope.sourceId}%`}`)
 			}
 
-			const whereClause =
-				filters.length > 0
-					? sql`where ${sql.join(filters, sql` and `)}`
-					: sql``
+			if (scope.metadata) {
+				filters.push(buildMetadataFilterSql(scope.metadata))
+			}
+
+			// Vectors of another dimension cannot be compared (pgvector raises an error).
+			filters.push(
+				sql`e.index_name = ${index}`,
+				sql`e.embedding_dimension = ${embedding.length}`
+			)
+
+			const whereClause = sql`where ${sql.join(filters, sql` and `)}`
 
 			const vectorLiteral = `[${embedding.join(',')}]`
+			// `embedding` has no fixed dimension; HNSW/IVFFlat indexes are built on
+			// this cast (see `vectorIndex()` in the schema), so the query must use it too.
+			const vectorType = sql.raw(`vector(${embedding.length})`)
 
-			const result = await db.execute(
-				sql`
+			const query = sql`
         select
           c.id,
           c.document_id,
@@ -390,7 +775,8 @@ export const createDrizzleVectorStore = (
           c.content,
           c.token_count,
           c.metadata,
-          (e.embedding <=> ${vectorLiteral}) as score
+          ${includeEmbeddings ? sql`e.embedding::text as embedding,` : sql``}
+          (e.embedding::${vectorType} ${distanceOperator} ${vectorLiteral}::${vectorType}) as score
         from ${chunks} as c
         join ${embeddings} as e on e.chunk_id = c.id
         join ${documents} as d on d.id = c.document_id
@@ -398,24 +784,223 @@ export const createDrizzleVectorStore = (
         order by score asc
         limit ${topK}
       `
+
+			// `set local` only lasts until commit, so tuned queries get their own transaction.
+			const result = await (settings.length === 0
+				? db.execute(query)
+				: db.transaction(async (tx) => {
+						for (const statement of settings) {
+							await tx.execute(statement)
+						}
+						return await tx.execute(query)
+					})
+			).catch(explainMissingColumn)
+
+			const rows: QueryRow[] = Array.isArray(result)
+				? (result as QueryRow[])
+				: ((result as {rows?: QueryRow[]}).rows ?? [])
+
+			return rows.map(mapQueryRow)
+		},
+
+		queryKeyword: async ({
+			query,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) => {
+			const filters: SQL[] = [
+				sql`to_tsvector(${textSearchConfig}, c.content) @@ q.query`
+			]
+
+			if (scope.sourceId) {
+				filters.push(sql`c.source_id like ${`${scope.sourceId}%`}`)
+			}
+
+			if (scope.metadata) {
+				filters.push(buildMetadataFilterSql(scope.metadata))
+			}
+
+			// Match any query term (OR) and let ts_rank_cd reward chunks that match more of them.
+			const result = await db.execute(
+				sql`
+        with q as (
+          select replace(plainto_tsquery(${textSearchConfig}, ${query})::text, ' & ', ' | ')::tsquery as query
+        )
+        select
+          c.id,
+          c.document_id,
+          c.source_id,
+          c.idx,
+          c.content,
+          c.token_count,
+          c.metadata,
+          ${includeEmbeddings ? sql`e.embedding::text as embedding,` : sql``}
+          ts_rank_cd(to_tsvector(${textSearchConfig}, c.content), q.query) as score
+        from ${chunks} as c
+        cross join q
+        join ${documents} as d on d.id = c.document_id
+        ${includeEmbeddings ? sql`left join ${embeddings} as e on e.chunk_id = c.id and e.index_name = ${index}` : sql``}
+        where ${sql.join(filters, sql` and `)}
+        order by score desc
+        limit ${topK}
+      `
 			)
 
 			const rows: QueryRow[] = Array.isArray(result)
 				? (result as QueryRow[])
 				: ((result as {rows?: QueryRow[]}).rows ?? [])
 
+			return rows.map(mapQueryRow)
+		},
+
+		getChunks: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const result = await db.execute(
+				sql`
+        select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+        from ${chunks} as c
+        where c.id in (${sql.join(
+			ids.map((id) => sql`${id}::uuid`),
+			sql`, `
+		)})
+      `
+			)
+			return (getExecuteRows(result) as ChunkRow[]).map(mapChunkRow)
+		},
+
+		getDocuments: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const rows = await db
+				.select({
+					id: documents.id,
+					sourceId: documents.sourceId,
+					content: documents.content,
+					metadata: documents.metadata
+				})
+				.from(documents)
+				.where(inArray(documents.id, ids))
 			return rows.map((row) => ({
-				id: String(row.id),
-				documentId: String(row.document_id),
-				sourceId: String(row.source_id),
-				index: Number(row.idx),
-				content: String(row.content),
-				tokenCount: Number(row.token_count),
-				metadata: (row.metadata ?? {}) as Chunk['metadata'],
-				score: Number(row.score)
+				documentId: String(row.id),
+				sourceId: String(row.sourceId),
+				content: String(row.content ?? ''),
+				metadata: (row.metadata ?? {}) as Chunk['metadata']
 			}))
 		},
 
+		getNeighbors: async ({anchors, before, after}) => {
+			if (anchors.length === 0) {
+				return []
+			}
+			const anchorRows = sql.join(
+				anchors.map(
+					(a) => sql`(${a.documentId}::uuid, ${a.index}::int)`
+				),
+				sql`, `
+			)
+			const result = await db.execute(
+				sql`
+        select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+        from ${chunks} as c
+        where exists (
+          select 1
+          from (values ${anchorRows}) as a(document_id, idx)
+          where a.document_id = c.document_id
+            and c.idx between a.idx - ${before}::int and a.idx + ${after}::int
+        )
+        order by c.document_id, c.idx
+      `
+			)
+			return (getExecuteRows(result) as ChunkRow[]).map(mapChunkRow)
+		},
+
+		scanChunks: async ({after, limit, skipEmbedded}) => {
+			const filters: SQL[] = []
+			if (after) {
+				filters.push(sql`c.id > ${after}::uuid`)
+			}
+			if (skipEmbedded) {
+				filters.push(
+					sql`not exists (select 1 from ${embeddings} as e where e.chunk_id = c.id and e.index_name = ${skipEmbedded.index} and e.model = ${skipEmbedded.model})`
+				)
+			}
+			const whereClause = filters.length
+				? sql`where ${sql.join(filters, sql` and `)}`
+				: sql``
+			const result = await db.execute(
+				sql`
+        select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+        from ${chunks} as c
+        ${whereClause}
+        order by c.id
+        limit ${limit}
+      `
+			)
+			return (getExecuteRows(result) as ChunkRow[]).map(mapChunkRow)
+		},
+
+		writeEmbeddings: async ({index, embeddings: items}) => {
+			if (items.length === 0) {
+				return
+			}
+			await db.transaction(async (tx) => {
+				for (const batch of toBatches(items, upsertBatchSize)) {
+					const rows = sql.join(
+						batch.map(
+							(e) =>
+								sql`(${e.chunkId}::uuid, ${e.model ?? null}::text, ${`[${e.embedding.join(',')}]`}::vector, ${e.embedding.length}::int, ${e.contentHash ?? null}::text)`
+						),
+						sql`, `
+					)
+					// Joining chunks skips rows whose chunk was deleted meanwhile.
+					await tx.execute(
+						sql`
+          insert into ${embeddings} (chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
+          select c.id, ${index}, t.model, t.embedding, t.embedding_dimension, t.content_hash
+          from (values ${rows}) as t(chunk_id, model, embedding, embedding_dimension, content_hash)
+          join ${chunks} as c on c.id = t.chunk_id
+          on conflict (chunk_id, index_name) do update set
+            model = excluded.model,
+            embedding = excluded.embedding,
+            embedding_dimension = excluded.embedding_dimension,
+            content_hash = excluded.content_hash
+        `
+					)
+				}
+			})
+		},
+
+		swapIndex: async ({from, to}) =>
+			await db.transaction(async (tx) => {
+				await tx.execute(
+					sql`
+          delete from ${embeddings} as e
+          where e.index_name = ${to}
+            and exists (
+              select 1 from ${embeddings} as s
+              where s.chunk_id = e.chunk_id and s.index_name = ${from}
+            )
+        `
+				)
+				const result = await tx.execute(
+					sql`
+          with moved as (
+            update ${embeddings} set index_name = ${to}
+            where index_name = ${from}
+            returning 1
+          )
+          select count(*)::int as swapped from moved
+        `
+				)
+				const [row] = getExecuteRows(result) as Array<{swapped: number}>
+				return {swapped: Number(row?.swapped ?? 0)}
+			}),
+
 		delete: async (input) => {
 			if (input.sourceId !== undefined) {
 				await db
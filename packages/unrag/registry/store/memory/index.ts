@@ -0,0 +1,2 @@
+export {createMemoryVectorStore} from '@registry/store/memory/store'
+export type {MemoryVectorStoreOptions} from '@registry/store/memory/store'
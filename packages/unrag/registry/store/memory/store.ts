@@ -0,0 +1,565 @@
+import type {
+	Chunk,
+	DeleteInput,
+	DistanceMetric,
+	Metadata,
+	MetadataFilter,
+	StoredDocument,
+	VectorStore
+} from '@registry/core/types'
+
+const sanitizeMetadata = (metadata: unknown): Metadata => {
+	if (metadata === undefined || metadata === null) {
+		return {}
+	}
+	try {
+		return (JSON.parse(JSON.stringify(metadata)) ?? {}) as Metadata
+	} catch {
+		return {}
+	}
+}
+
+export type MemoryVectorStoreOptions = {
+	/**
+	 * Vector comparison used by `query()`. Default: `'cosine'`.
+	 * Scores follow the Postgres adapters: cosine distance, negative inner product, or L2 distance.
+	 */
+	distanceMetric?: DistanceMetric
+}
+
+const dot = (a: number[], b: number[]) => {
+	let sum = 0
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		sum += (a[i] ?? 0) * (b[i] ?? 0)
+	}
+	return sum
+}
+
+const DISTANCE_FUNCTIONS: Record<
+	DistanceMetric,
+	(a: number[], b: number[]) => number
+> = {
+	cosine: (a, b) => {
+		const norm = Math.sqrt(dot(a, a) * dot(b, b))
+		return norm === 0 ? 1 : 1 - dot(a, b) / norm
+	},
+	inner_product: (a, b) => -dot(a, b),
+	l2: (a, b) => {
+		let sum = 0
+		for (let i = 0; i < Math.max(a.length, b.length); i++) {
+			const d = (a[i] ?? 0) - (b[i] ?? 0)
+			sum += d * d
+		}
+		return Math.sqrt(sum)
+	}
+}
+
+const resolveDistanceFunction = (metric: DistanceMetric) => {
+	const fn = DISTANCE_FUNCTIONS[metric]
+	if (!fn) {
+		throw new Error(`Invalid distanceMetric "${metric}"`)
+	}
+	return fn
+}
+
+// JSON equality, matching the SQL adapters' jsonb comparisons.
+const jsonEquals = (a: unknown, b: unknown) =>
+	JSON.stringify(a) === JSON.stringify(b)
+
+const RANGE_KEYS = ['gt', 'gte', 'lt', 'lte'] as const
+
+/**
+ * Evaluate a metadata filter against chunk metadata with the same semantics
+ * as the Postgres adapters (missing fields never match `eq`/`in`/`contains`/`range`).
+ */
+const matchesMetadataFilter = (
+	metadata: Metadata,
+	filter: MetadataFilter
+): boolean => {
+	const has = (field: string) => Object.hasOwn(metadata, field)
+
+	switch (filter.op) {
+		case 'eq':
+			return (
+				has(filter.field) &&
+				jsonEquals(metadata[filter.field], filter.value)
+			)
+		case 'in':
+			return (
+				has(filter.field) &&
+				filter.values.some((v) => jsonEquals(metadata[filter.field], v))
+			)
+		case 'contains': {
+			const value = metadata[filter.field]
+			return (
+				Array.isArray(value) &&
+				value.some((v) => jsonEquals(v, filter.value))
+			)
+		}
+		case 'range': {
+			const bounds = RANGE_KEYS.filter((key) => filter[key] !== undefined)
+			const types = new Set(bounds.map((key) => typeof filter[key]))
+			if (bounds.length === 0 || types.size !== 1) {
+				throw new Error(
+					`Invalid range filter on "${filter.field}": provide at least one bound, all numbers or all strings`
+				)
+			}
+			const value = metadata[filter.field]
+			if (!types.has(typeof value)) {
+				return false
+			}
+			const v = value as number | string
+			return bounds.every((key) => {
+				const bound = filter[key] as number | string
+				switch (key) {
+					case 'gt':
+						return v > bound
+					case 'gte':
+						return v >= bound
+					case 'lt':
+						return v < bound
+					default:
+						return v <= bound
+				}
+			})
+		}
+		case 'exists':
+			return has(filter.field)
+		case 'and':
+			return filter.filters.every((f) =>
+				matchesMetadataFilter(metadata, f)
+			)
+		case 'or':
+			return filter.filters.some((f) =>
+				matchesMetadataFilter(metadata, f)
+			)
+		case 'not':
+			return !matchesMetadataFilter(metadata, filter.filter)
+		default:
+			throw new Error(
+				`Unsupported metadata filter op: ${String((filter as {op?: unknown}).op)}`
+			)
+	}
+}
+
+const tokenize = (text: string) =>
+	text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+type DebugStoreInspector = {
+	listDocuments: (args: {
+		prefix?: string
+		limit?: number
+		offset?: number
+	}) => Promise<{
+		documents: Array<{
+			sourceId: string
+			chunkCount: number
+			createdAt?: string
+		}>
+		total?: number
+	}>
+	getDocument: (args: {sourceId: string}) => Promise<{
+		document?: {
+			sourceId: string
+			chunks: Array<{
+				id: string
+				content: string
+				sequence: number
+				metadata: Record<string, unknown>
+			}>
+			metadata: Record<string, unknown>
+		}
+	}>
+	deleteDocument: (input: DeleteInput) => Promise<{deletedCount?: number}>
+	deleteChunks: (args: {chunkIds: string[]}) => Promise<{
+		deletedCount?: number
+	}>
+	storeStats: () => Promise<{
+		stats: {
+			adapter: string
+			tables?: Array<{name: string; rowCount: number; size?: number}>
+			embeddingDimension?: number
+			totalVectors?: number
+		}
+	}>
+}
+
+const DEFAULT_INDEX = 'default'
+
+type StoredVector = {embedding: number[]; model?: string; contentHash?: string}
+
+/** Chunk with its vectors, keyed by index name. */
+type StoredChunk = Chunk & {vectors: Map<string, StoredVector>}
+
+type DocumentRecord = StoredDocument & {
+	contentHash: string | null
+	createdAt: string
+	chunks: StoredChunk[]
+}
+
+/** Key that matches a replacement chunk to the chunk it replaces. */
+const carryKey = (idx: number, content: string) => `${idx}\u0000${content}`
+
+const toChunk = (chunk: Chunk): Chunk => ({
+	id: chunk.id,
+	documentId: chunk.documentId,
+	sourceId: chunk.sourceId,
+	index: chunk.index,
+	content: chunk.content,
+	tokenCount: chunk.tokenCount,
+	metadata: sanitizeMetadata(chunk.metadata)
+})
+
+/**
+ * In-process `VectorStore` with exact (brute-force) search.
+ *
+ * Data lives in plain Maps and is lost when the process exits. Intended for
+ * tests, CI, and local experiments where running Postgres is not worth it.
+ */
+export const createMemoryVectorStore = (
+	options: MemoryVectorStoreOptions = {}
+): VectorStore & {inspector: DebugStoreInspector} => {
+	const distanceMetric = options.distanceMetric ?? 'cosine'
+	const distance = resolveDistanceFunction(distanceMetric)
+	const documents = new Map<string, DocumentRecord>()
+
+	const allChunks = () =>
+		Array.from(documents.values()).flatMap((doc) => doc.chunks)
+
+	const inScope = (
+		chunk: StoredChunk,
+		scope: {sourceId?: string; metadata?: MetadataFilter}
+	) =>
+		(!scope.sourceId || chunk.sourceId.startsWith(scope.sourceId)) &&
+		(!scope.metadata ||
+			matchesMetadataFilter(chunk.metadata, scope.metadata))
+
+	const withScore = (
+		chunk: StoredChunk,
+		score: number,
+		embedding?: number[]
+	) => ({
+		...toChunk(chunk),
+		...(embedding ? {embedding: [...embedding]} : {}),
+		score
+	})
+
+	const deleteMatching = (input: DeleteInput) => {
+		let deleted = 0
+		for (const sourceId of Array.from(documents.keys())) {
+			const matches =
+				'sourceId' in input
+					? sourceId === input.sourceId
+					: sourceId.startsWith(input.sourceIdPrefix)
+			if (matches) {
+				documents.delete(sourceId)
+				deleted++
+			}
+		}
+		return deleted
+	}
+
+	const inspector: DebugStoreInspector = {
+		listDocuments: async ({prefix, limit = 50, offset = 0}) => {
+			const matching = Array.from(documents.values())
+				.filter((doc) => !prefix || doc.sourceId.startsWith(prefix))
+				.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+			return {
+				documents: matching
+					.slice(offset, offset + limit)
+					.map((doc) => ({
+						sourceId: doc.sourceId,
+						chunkCount: doc.chunks.length,
+						createdAt: doc.createdAt
+					})),
+				total: matching.length
+			}
+		},
+
+		getDocument: async ({sourceId}) => {
+			const doc = documents.get(sourceId)
+			if (!doc) {
+				return {document: undefined}
+			}
+			return {
+				document: {
+					sourceId: doc.sourceId,
+					chunks: doc.chunks.map((c) => ({
+						id: c.id,
+						content: c.content,
+						sequence: c.index,
+						metadata: sanitizeMetadata(c.metadata)
+					})),
+					metadata: sanitizeMetadata(doc.metadata)
+				}
+			}
+		},
+
+		deleteDocument: async (input) => ({
+			deletedCount: deleteMatching(input)
+		}),
+
+		deleteChunks: async ({chunkIds}) => {
+			const ids = new Set(Array.isArray(chunkIds) ? chunkIds : [])
+			let deleted = 0
+			for (const doc of documents.values()) {
+				const kept = doc.chunks.filter((c) => !ids.has(c.id))
+				deleted += doc.chunks.length - kept.length
+				doc.chunks = kept
+			}
+			return {deletedCount: deleted}
+		},
+
+		storeStats: async () => {
+			const chunks = allChunks()
+			const vectors = chunks.flatMap((c) =>
+				Array.from(c.vectors.values())
+			)
+			return {
+				stats: {
+					adapter: 'memory',
+					tables: [
+						{name: 'documents', rowCount: documents.size},
+						{name: 'chunks', rowCount: chunks.length},
+						{name: 'embeddings', rowCount: vectors.length}
+					],
+					embeddingDimension: vectors.length
+						? Math.max(...vectors.map((v) => v.embedding.length))
+						: undefined,
+					totalVectors: vectors.length
+				}
+			}
+		}
+	}
+
+	const store: VectorStore & {inspector: DebugStoreInspector} = {
+		distanceMetric,
+
+		upsert: async (chunkItems, {index = DEFAULT_INDEX} = {}) => {
+			const head = chunkItems[0]
+			if (!head) {
+				throw new Error('upsert() requires at least one chunk')
+			}
+
+			// Keep the existing document id for a known sourceId, like the SQL adapters.
+			const existing = documents.get(head.sourceId)
+			const documentId = existing?.documentId ?? head.documentId
+
+			// Vectors of other indexes for chunks that come back unchanged are kept.
+			const carried = new Map<string, Map<string, StoredVector>>()
+			for (const chunk of existing?.chunks ?? []) {
+				const others = new Map(chunk.vectors)
+				others.delete(index)
+				if (chunk.content && others.size > 0) {
+					carried.set(carryKey(chunk.index, chunk.content), others)
+				}
+			}
+
+			documents.set(head.sourceId, {
+				documentId,
+				sourceId: head.sourceId,
+				content: head.documentContent ?? '',
+				metadata: sanitizeMetadata(head.metadata),
+				contentHash: head.documentContentHash ?? null,
+				createdAt: existing?.createdAt ?? new Date().toISOString(),
+				chunks: chunkItems.map((chunk) => {
+					const vectors = new Map(
+						carried.get(carryKey(chunk.index, chunk.content))
+					)
+					if (chunk.embedding) {
+						vectors.set(index, {
+							embedding: [...chunk.embedding],
+							...(chunk.embeddingModel
+								? {model: chunk.embeddingModel}
+								: {}),
+							...(chunk.contentHash
+								? {contentHash: chunk.contentHash}
+								: {})
+						})
+					}
+					return {...toChunk(chunk), documentId, vectors}
+				})
+			})
+
+			return {documentId}
+		},
+
+		getDocumentState: async ({sourceId, index = DEFAULT_INDEX}) => {
+			const doc = documents.get(sourceId)
+			if (!doc) {
+				return null
+			}
+			return {
+				documentId: doc.documentId,
+				contentHash: doc.contentHash,
+				chunkCount: doc.chunks.length,
+				embeddedChunkCount: doc.chunks.filter((c) =>
+					c.vectors.has(index)
+				).length
+			}
+		},
+
+		getChunkEmbeddings: async ({
+			sourceId,
+			contentHashes,
+			index = DEFAULT_INDEX
+		}) => {
+			const wanted = new Set(contentHashes)
+			const found = new Map<string, number[]>()
+			for (const chunk of documents.get(sourceId)?.chunks ?? []) {
+				const vector = chunk.vectors.get(index)
+				if (
+					vector?.contentHash &&
+					wanted.has(vector.contentHash) &&
+					!found.has(vector.contentHash)
+				) {
+					found.set(vector.contentHash, [...vector.embedding])
+				}
+			}
+			return Array.from(found, ([contentHash, embedding]) => ({
+				contentHash,
+				embedding
+			}))
+		},
+
+		query: async ({
+			embedding,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) =>
+			allChunks()
+				.flatMap((chunk) => {
+					const vector = chunk.vectors.get(index)?.embedding
+					// Like the SQL adapters, skip vectors of another dimension.
+					return vector &&
+						vector.length === embedding.length &&
+						inScope(chunk, scope)
+						? [
+								withScore(
+									chunk,
+									distance(vector, embedding),
+									includeEmbeddings ? vector : undefined
+								)
+							]
+						: []
+				})
+				.sort((a, b) => a.score - b.score)
+				.slice(0, topK),
+
+		queryKeyword: async ({
+			query,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) => {
+			// Match any query term; score is the number of matching term occurrences.
+			const terms = new Set(tokenize(query))
+			if (terms.size === 0) {
+				return []
+			}
+			return allChunks()
+				.filter((chunk) => inScope(chunk, scope))
+				.map((chunk) =>
+					withScore(
+						chunk,
+						tokenize(chunk.content).filter((t) => terms.has(t))
+							.length,
+						includeEmbeddings
+							? chunk.vectors.get(index)?.embedding
+							: undefined
+					)
+				)
+				.filter((hit) => hit.score > 0)
+				.sort((a, b) => b.score - a.score)
+				.slice(0, topK)
+		},
+
+		getChunks: async ({ids}) => {
+			const wanted = new Set(ids)
+			return allChunks()
+				.filter((chunk) => wanted.has(chunk.id))
+				.map(toChunk)
+		},
+
+		getDocuments: async ({ids}) => {
+			const wanted = new Set(ids)
+			return Array.from(documents.values())
+				.filter((doc) => wanted.has(doc.documentId))
+				.map((doc) => ({
+					documentId: doc.documentId,
+					sourceId: doc.sourceId,
+					content: doc.content,
+					metadata: sanitizeMetadata(doc.metadata)
+				}))
+		},
+
+		getNeighbors: async ({anchors, before, after}) =>
+			allChunks()
+				.filter((chunk) =>
+					anchors.some(
+						(a) =>
+							a.documentId === chunk.documentId &&
+							chunk.index >= a.index - before &&
+							chunk.index <= a.index + after
+					)
+				)
+				.sort(
+					(a, b) =>
+						a.documentId.localeCompare(b.documentId) ||
+						a.index - b.index
+				)
+				.map(toChunk),
+
+		scanChunks: async ({after, limit, skipEmbedded}) =>
+			allChunks()
+				.filter(
+					(chunk) =>
+						(after === undefined || chunk.id > after) &&
+						(!skipEmbedded ||
+							chunk.vectors.get(skipEmbedded.index)?.model !==
+								skipEmbedded.model)
+				)
+				.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+				.slice(0, limit)
+				.map(toChunk),
+
+		writeEmbeddings: async ({index, embeddings}) => {
+			const byId = new Map(allChunks().map((chunk) => [chunk.id, chunk]))
+			for (const {chunkId, embedding, model, contentHash} of embeddings) {
+				const chunk = byId.get(chunkId)
+				if (!chunk) {
+					continue
+				}
+				chunk.vectors.set(index, {
+					embedding: [...embedding],
+					...(model ? {model} : {}),
+					...(contentHash ? {contentHash} : {})
+				})
+			}
+		},
+
+		swapIndex: async ({from, to}) => {
+			let swapped = 0
+			for (const chunk of allChunks()) {
+				const vector = chunk.vectors.get(from)
+				if (!vector) {
+					continue
+				}
+				chunk.vectors.set(to, vector)
+				chunk.vectors.delete(from)
+				swapped++
+			}
+			return {swapped}
+		},
+
+		delete: async (input) => {
+			deleteMatching(input)
+		},
+		inspector
+	}
+
+	return store
+}
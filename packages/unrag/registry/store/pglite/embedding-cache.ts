@@ -0,0 +1,13 @@
+import type {EmbeddingCache} from '@registry/core/types'
+import {type PgliteDatabase, toPglitePool} from '@registry/store/pglite/store'
+import {createRawSqlEmbeddingCache} from '@registry/store/raw-sql/embedding-cache'
+
+/**
+ * Embedding cache stored in the `embedding_cache` table of a PGlite database.
+ *
+ * Shares the store's connection queue, so cache reads and writes never run in
+ * the middle of an ingest transaction.
+ */
+export const createPgliteEmbeddingCache = (
+	db: PgliteDatabase
+): EmbeddingCache => createRawSqlEmbeddingCache(toPglitePool(db))
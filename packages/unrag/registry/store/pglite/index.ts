@@ -0,0 +1,7 @@
+export {createPgliteVectorStore} from '@registry/store/pglite/store'
+export type {
+	PgliteDatabase,
+	PgliteVectorStoreOptions
+} from '@registry/store/pglite/store'
+export {createPgliteEmbeddingCache} from '@registry/store/pglite/embedding-cache'
+export {PGLITE_SCHEMA_SQL} from '@registry/store/pglite/schema'
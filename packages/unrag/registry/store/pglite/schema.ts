@@ -0,0 +1,58 @@
+/**
+ * Postgres schema used by the pglite store adapter.
+ *
+ * The same tables as the drizzle and raw-sql adapters (documents, chunks,
+ * embeddings, embedding_cache), so data and queries carry over unchanged.
+ * No vector index is created: PGlite is meant for local development, where an
+ * exact scan is fast enough.
+ *
+ * Every statement is idempotent, so it is safe to run on each startup.
+ */
+export const PGLITE_SCHEMA_SQL = `
+create extension if not exists vector;
+
+create table if not exists documents (
+  id uuid primary key,
+  source_id text not null unique,
+  content text not null,
+  metadata jsonb,
+  content_hash text,
+  created_at timestamp default now()
+);
+
+create table if not exists chunks (
+  id uuid primary key,
+  document_id uuid not null references documents(id) on delete cascade,
+  source_id text not null,
+  idx integer not null,
+  content text not null,
+  token_count integer not null,
+  metadata jsonb,
+  created_at timestamp default now()
+);
+
+create table if not exists embeddings (
+  chunk_id uuid not null references chunks(id) on delete cascade,
+  index_name text not null default 'default',
+  model text,
+  embedding vector,
+  embedding_dimension integer,
+  content_hash text,
+  created_at timestamp default now(),
+  primary key (chunk_id, index_name)
+);
+
+create table if not exists embedding_cache (
+  cache_key text primary key,
+  embedding vector not null,
+  created_at timestamp default now()
+);
+
+create index if not exists chunks_source_id_idx on chunks(source_id);
+create index if not exists documents_source_id_idx on documents(source_id);
+create index if not exists chunks_document_idx_idx on chunks(document_id, idx);
+create index if not exists chunks_metadata_gin_idx
+on chunks using gin (metadata jsonb_path_ops);
+create index if not exists chunks_content_fts_idx
+on chunks using gin (to_tsvector('english', content));
+`
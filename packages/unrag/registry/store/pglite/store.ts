@@ -0,0 +1,124 @@
+import {PGLITE_SCHEMA_SQL} from '@registry/store/pglite/schema'
+import {
+	type RawSqlVectorStoreOptions,
+	createRawSqlVectorStore
+} from '@registry/store/raw-sql/store'
+import type {Pool} from 'pg'
+
+/**
+ * Minimal PGlite surface the adapter needs.
+ *
+ * `new PGlite(dataDir, {extensions: {vector}})` from `@electric-sql/pglite`
+ * satisfies it. The `vector` extension must be registered on the instance,
+ * since the schema and every vector query use pgvector types.
+ */
+export type PgliteDatabase = {
+	query<T>(
+		sql: string,
+		params?: unknown[]
+	): Promise<{rows: T[]; affectedRows?: number}>
+	exec(sql: string): Promise<unknown>
+}
+
+export type PgliteVectorStoreOptions = RawSqlVectorStoreOptions & {
+	/**
+	 * Create the tables and indexes (`PGLITE_SCHEMA_SQL`) before the first query.
+	 * Default: `true`.
+	 */
+	createSchema?: boolean
+}
+
+type PgliteClient = {
+	query: (sql: string, params?: unknown[]) => Promise<unknown>
+	release: () => void
+}
+
+const pools = new WeakMap<PgliteDatabase, Pool>()
+
+/**
+ * Expose a PGlite instance through the subset of the `pg` Pool API used by the
+ * raw-sql store and embedding cache.
+ *
+ * PGlite has a single connection, so `connect()` hands out exclusive access
+ * until `release()`; other queries wait rather than landing inside someone
+ * else's transaction.
+ */
+export const toPglitePool = (
+	db: PgliteDatabase,
+	options: {createSchema?: boolean} = {}
+): Pool => {
+	const existing = pools.get(db)
+	if (existing) {
+		return existing
+	}
+
+	const ready =
+		options.createSchema === false
+			? Promise.resolve()
+			: db.exec(PGLITE_SCHEMA_SQL).then(() => undefined)
+	let lock: Promise<void> = Promise.resolve()
+
+	const acquire = async () => {
+		const previous = lock
+		let release = () => {}
+		lock = new Promise<void>((resolve) => {
+			release = resolve
+		})
+		await previous
+		await ready
+		return release
+	}
+
+	const run = async (sql: string, params?: unknown[]) => {
+		const res = await db.query<Record<string, unknown>>(sql, params)
+		return {rows: res.rows, rowCount: res.affectedRows ?? res.rows.length}
+	}
+
+	const pool = {
+		query: async (sql: string, params?: unknown[]) => {
+			const release = await acquire()
+			try {
+				return await run(sql, params)
+			} finally {
+				release()
+			}
+		},
+		connect: async (): Promise<PgliteClient> => {
+			const release = await acquire()
+			return {query: run, release}
+		}
+	} as unknown as Pool
+
+	pools.set(db, pool)
+	return pool
+}
+
+/**
+ * Postgres store running in-process on PGlite (WASM Postgres with pgvector).
+ *
+ * Uses the raw-sql adapter's queries against the same schema, so you can start
+ * on a local data directory and later point the raw-sql or drizzle adapter at
+ * a real Postgres without changing anything else.
+ */
+export const createPgliteVectorStore = (
+	db: PgliteDatabase,
+	options: PgliteVectorStoreOptions = {}
+): ReturnType<typeof createRawSqlVectorStore> => {
+	const {createSchema, ...storeOptions} = options
+	const store = createRawSqlVectorStore(
+		toPglitePool(db, {createSchema}),
+		storeOptions
+	)
+	const {inspector} = store
+
+	return {
+		...store,
+		inspector: {
+			...inspector,
+			storeStats: async () => {
+				const {stats} = await inspector.storeStats()
+				return {stats: {...stats, adapter: 'pglite'}}
+			}
+		}
+	}
+}
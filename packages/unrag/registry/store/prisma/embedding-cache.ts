@@ -0,0 +1,54 @@
+import type {PrismaClient} from '@prisma/client'
+import {sqltag as sql} from '@prisma/client/runtime/library'
+import type {EmbeddingCache} from '@registry/core/types'
+
+const parseVectorText = (value: unknown): number[] =>
+	Array.isArray(value)
+		? value.map(Number)
+		: (JSON.parse(String(value)) as number[])
+
+/**
+ * Postgres-backed embedding cache stored in the `embedding_cache` table.
+ *
+ * Entries survive restarts and are shared by every process using the database,
+ * so re-ingesting the same dataset (or eval runs) only pays for new text.
+ */
+export const createPrismaEmbeddingCache = (
+	prisma: PrismaClient
+): EmbeddingCache => ({
+	getMany: async (keys) => {
+		if (keys.length === 0) {
+			return []
+		}
+		const rows = (await prisma.$queryRaw(
+			sql`
+        select cache_key, embedding::text as embedding
+        from embedding_cache
+        where cache_key = any(${keys}::text[])
+      `
+		)) as Array<{cache_key: string; embedding: unknown}>
+		const found = new Map(
+			rows.map((row) => [
+				String(row.cache_key),
+				parseVectorText(row.embedding)
+			])
+		)
+		return keys.map((key) => found.get(key))
+	},
+
+	setMany: async (entries) => {
+		if (entries.length === 0) {
+			return
+		}
+		const keys = entries.map((e) => e.key)
+		const vectors = entries.map((e) => `[${e.embedding.join(',')}]`)
+		await prisma.$executeRaw(
+			sql`
+        insert into embedding_cache (cache_key, embedding)
+        select t.cache_key, t.embedding::vector
+        from unnest(${keys}::text[], ${vectors}::text[]) as t(cache_key, embedding)
+        on conflict (cache_key) do nothing
+      `
+		)
+	}
+})
@@ -1 +1,3 @@
 export {createPrismaVectorStore} from '@registry/store/prisma/store'
+export type {PrismaVectorStoreOptions} from '@registry/store/prisma/store'
+export {createPrismaEmbeddingCache} from '@registry/store/prisma/embedding-cache'
@@ -1,6 +1,19 @@
 import type {PrismaClient} from '@prisma/client'
-import {empty, sqltag as sql} from '@prisma/client/runtime/library'
-import type {Chunk, DeleteInput, VectorStore} from '@registry/core/types'
+import {
+	type Sql,
+	empty,
+	join,
+	raw,
+	sqltag as sql
+} from '@prisma/client/runtime/library'
+import type {
+	Chunk,
+	DeleteInput,
+	DistanceMetric,
+	MetadataFilter,
+	VectorSearchOptions,
+	VectorStore
+} from '@registry/core/types'
 
 const sanitizeMetadata = (metadata: unknown) => {
 	if (metadata === undefined) {
@@ -15,6 +28,232 @@ const sanitizeMetadata = (metadata: unknown) => {
 
 const toVectorLiteral = (embedding: number[]) => `[${embedding.join(',')}]`
 
+const parseVectorText = (value: unknown): number[] =>
+	Array.isArray(value)
+		? value.map(Number)
+		: (JSON.parse(String(value)) as number[])
+
+type ChunkRow = {
+	id: string
+	document_id: string
+	source_id: string
+	idx: number
+	content: string
+	token_count: number
+	metadata: unknown
+}
+
+type QueryRow = ChunkRow & {
+	score: number
+	embedding?: string | null
+}
+
+type CarriedEmbeddingRow = {
+	idx: number
+	content: string
+	index_name: string
+	model: string | null
+	embedding: string
+	embedding_dimension: number | null
+	content_hash: string | null
+}
+
+/**
+ * Postgres `undefined_column`, raised by schemas that predate the content hash
+ * and named index columns. Prisma reports raw query failures as P2010 with the
+ * database code in `meta.code`. Rethrown with the fix, since every read and
+ * write of ingest state needs the columns.
+ */
+const explainMissingColumn = (err: unknown): never => {
+	const error = err as {code?: unknown; meta?: {code?: unknown}} | null
+	if (error?.code === '42703' || error?.meta?.code === '42703') {
+		throw Object.assign(
+			new Error(
+				`${err instanceof Error ? err.message : String(err)}. The unrag tables are out of date: run the migration printed by \`unrag doctor --db\`.`
+			),
+			{cause: err}
+		)
+	}
+	throw err
+}
+
+/** Key that matches a replacement chunk to the chunk it replaces. */
+const carryKey = (idx: number, content: string) => `${idx}\u0000${content}`
+
+const mapChunkRow = (row: ChunkRow): Chunk => ({
+	id: String(row.id),
+	documentId: String(row.document_id),
+	sourceId: String(row.source_id),
+	index: Number(row.idx),
+	content: String(row.content),
+	tokenCount: Number(row.token_count),
+	metadata: (row.metadata ?? {}) as Chunk['metadata']
+})
+
+const mapQueryRow = (row: QueryRow) => ({
+	...mapChunkRow(row),
+	...(row.embedding != null
+		? {embedding: parseVectorText(row.embedding)}
+		: {}),
+	score: Number(row.score)
+})
+
+export type PrismaVectorStoreOptions = {
+	/**
+	 * Postgres text search configuration used by keyword retrieval
+	 * (`to_tsvector(<config>, content)`). Default: `'english'`.
+	 *
+	 * Keep this in sync with any full-text expression index on `chunks.content`.
+	 */
+	textSearchConfig?: string
+	/**
+	 * Vector comparison used by `query()`. Default: `'cosine'`.
+	 *
+	 * Use the matching operator class (`vector_cosine_ops`, `vector_ip_ops`,
+	 * `vector_l2_ops`) for any vector index on `embeddings.embedding`.
+	 */
+	distanceMetric?: DistanceMetric
+	/**
+	 * Maximum rows per multi-row insert when `upsert()` writes chunks and
+	 * embeddings. Default: `500`.
+	 *
+	 * Larger batches mean fewer round trips; Postgres caps a statement at 65,535
+	 * bind parameters, so very high values can fail for prepared inserts.
+	 */
+	upsertBatchSize?: number
+}
+
+const DEFAULT_UPSERT_BATCH_SIZE = 500
+
+const DEFAULT_INDEX = 'default'
+
+const resolveUpsertBatchSize = (value = DEFAULT_UPSERT_BATCH_SIZE) => {
+	if (!Number.isInteger(value) || value < 1) {
+		throw new Error(`Invalid upsertBatchSize "${value}"`)
+	}
+	return value
+}
+
+const toBatches = <T>(items: T[], size: number): T[][] => {
+	const batches: T[][] = []
+	for (let i = 0; i < items.length; i += size) {
+		batches.push(items.slice(i, i + size))
+	}
+	return batches
+}
+
+const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+	cosine: '<=>',
+	inner_product: '<#>',
+	l2: '<->'
+}
+
+const resolveDistanceOperator = (metric: DistanceMetric) => {
+	const operator = DISTANCE_OPERATORS[metric]
+	if (!operator) {
+		throw new Error(`Invalid distanceMetric "${metric}"`)
+	}
+	return operator
+}
+
+const VECTOR_SEARCH_SETTINGS = [
+	['efSearch', 'hnsw.ef_search'],
+	['probes', 'ivfflat.probes']
+] as const
+
+/**
+ * `set local` statements for `vectorSearch`. SET takes no bind parameters, so
+ * values are inlined and must be positive integers.
+ */
+const vectorSearchStatements = (vectorSearch: VectorSearchOptions = {}) => {
+	const statements: Sql[] = []
+	for (const [key, setting] of VECTOR_SEARCH_SETTINGS) {
+		const value = vectorSearch[key]
+		if (value === undefined) {
+			continue
+		}
+		if (!Number.isInteger(value) || value < 1) {
+			throw new Error(`Invalid vectorSearch.${key} "${value}"`)
+		}
+		statements.push(raw(`set local ${setting} = ${value}`))
+	}
+	return statements
+}
+
+const resolveTextSearchConfig = (value = 'english') => {
+	// Inlined into SQL (not bound) so Postgres can match expression indexes.
+	if (!/^[a-z_][a-z0-9_]*$/i.test(value)) {
+		throw new Error(`Invalid textSearchConfig "${value}"`)
+	}
+	return value
+}
+
+const RANGE_OPERATORS = [
+	['gt', '>'],
+	['gte', '>='],
+	['lt', '<'],
+	['lte', '<=']
+] as const
+
+/**
+ * Compile a metadata filter into a SQL predicate over `c.metadata` (jsonb).
+ */
+const buildMetadataFilterSql = (filter: MetadataFilter): Sql => {
+	const jsonb = (value: unknown) => sql`${JSON.stringify(value)}::jsonb`
+	const field = (name: string) => sql`(c.metadata -> ${name}::text)`
+
+	switch (filter.op) {
+		case 'eq':
+			return sql`coalesce(${field(filter.field)} = ${jsonb(filter.value)}, false)`
+		case 'in': {
+			if (filter.values.length === 0) {
+				return sql`false`
+			}
+			const list = join(
+				filter.values.map((v) => jsonb(v)),
+				', '
+			)
+			return sql`coalesce(${field(filter.field)} in (${list}), false)`
+		}
+		case 'contains':
+			return sql`coalesce(${field(filter.field)} @> ${jsonb([filter.value])}, false)`
+		case 'range': {
+			const bounds = RANGE_OPERATORS.filter(
+				([key]) => filter[key] !== undefined
+			)
+			const types = new Set(bounds.map(([key]) => typeof filter[key]))
+			if (bounds.length === 0 || types.size !== 1) {
+				throw new Error(
+					`Invalid range filter on "${filter.field}": provide at least one bound, all numbers or all strings`
+				)
+			}
+			const f = field(filter.field)
+			const type = types.has('number') ? 'number' : 'string'
+			const comparisons = bounds.map(
+				([key, operator]) =>
+					sql`${f} ${raw(operator)} ${jsonb(filter[key])}`
+			)
+			return sql`coalesce(jsonb_typeof(${f}) = ${type} and ${join(comparisons, ' and ')}, false)`
+		}
+		case 'exists':
+			return sql`(${field(filter.field)} is not null)`
+		case 'and':
+			return filter.filters.length === 0
+				? sql`true`
+				: sql`(${join(filter.filters.map(buildMetadataFilterSql), ' and ')})`
+		case 'or':
+			return filter.filters.length === 0
+				? sql`false`
+				: sql`(${join(filter.filters.map(buildMetadataFilterSql), ' or ')})`
+		case 'not':
+			return sql`not ${buildMetadataFilterSql(filter.filter)}`
+		default:
+			throw new Error(
+				`Unsupported metadata filter op: ${String((filter as {op?: unknown}).op)}`
+			)
+	}
+}
+
 type DebugStoreInspector = {
 	listDocuments: (args: {
 		prefix?: string
@@ -55,8 +294,15 @@ type DebugStoreInspector = {
 }
 
 export const createPrismaVectorStore = (
-	prisma: PrismaClient
+	prisma: PrismaClient,
+	options: PrismaVectorStoreOptions = {}
 ): VectorStore & {inspector: DebugStoreInspector} => {
+	const distanceMetric = options.distanceMetric ?? 'cosine'
+	const distanceOperator = raw(resolveDistanceOperator(distanceMetric))
+	const textSearchConfig = raw(
+		`'${resolveTextSearchConfig(options.textSearchConfig)}'`
+	)
+	const upsertBatchSize = resolveUpsertBatchSize(options.upsertBatchSize)
 	const inspector: DebugStoreInspector = {
 		listDocuments: async ({prefix, limit = 50, offset = 0}) => {
 			const whereSql = prefix
@@ -221,7 +467,9 @@ export const createPrismaVectorStore = (
 	}
 
 	const store: VectorStore & {inspector: DebugStoreInspector} = {
-		upsert: async (chunkItems) => {
+		distanceMetric,
+
+		upsert: async (chunkItems, {index = DEFAULT_INDEX} = {}) => {
 			if (chunkItems.length === 0) {
 				throw new Error('upsert() requires at least one chunk')
 			}
@@ -232,102 +480,220 @@ export const createPrismaVectorStore = (
 			}
 			const documentMetadata = sanitizeMetadata(head.metadata)
 
-			return await prisma.$transaction(
-				async (tx: {
-					$executeRaw: (query: unknown) => Promise<unknown>
-					$queryRaw: <T>(query: unknown) => Promise<T>
-				}) => {
-					// Upsert document by source_id (requires UNIQUE constraint on documents.source_id).
-					// Returns the canonical document id (existing id on conflict, or new id on insert).
-					const docResult = await tx.$queryRaw<Array<{id: string}>>(
-						sql`
-          insert into documents (id, source_id, content, metadata)
+			return await prisma
+				.$transaction(
+					async (tx: {
+						$executeRaw: (query: unknown) => Promise<unknown>
+						$queryRaw: <T>(query: unknown) => Promise<T>
+					}) => {
+						// Upsert document by source_id (requires UNIQUE constraint on documents.source_id).
+						// Returns the canonical document id (existing id on conflict, or new id on insert).
+						const docResult = await tx.$queryRaw<
+							Array<{id: string}>
+						>(
+							sql`
+          insert into documents (id, source_id, content, metadata, content_hash)
           values (${head.documentId}::uuid, ${head.sourceId}, ${head.documentContent ?? ''}, ${JSON.stringify(
 				documentMetadata
-			)}::jsonb)
+			)}::jsonb, ${head.documentContentHash ?? null})
           on conflict (source_id) do update set
             content = excluded.content,
-            metadata = excluded.metadata
+            metadata = excluded.metadata,
+            content_hash = excluded.content_hash
           returning id
         `
-					)
-
-					const canonicalDocumentId = docResult[0]?.id
-					if (!canonicalDocumentId) {
-						throw new Error(
-							'Failed to upsert document: no id returned'
 						)
-					}
-
-					// Delete all existing chunks for this document (they will be replaced).
-					// Cascades to embeddings via FK constraint.
-					await tx.$executeRaw(
-						sql`delete from chunks where document_id = ${canonicalDocumentId}::uuid`
-					)
 
-					// Insert new chunks and embeddings.
-					for (const chunk of chunkItems) {
-						const chunkMetadata = sanitizeMetadata(chunk.metadata)
+						const canonicalDocumentId = docResult[0]?.id
+						if (!canonicalDocumentId) {
+							throw new Error(
+								'Failed to upsert document: no id returned'
+							)
+						}
 
-						await tx.$executeRaw(
+						// Delete all existing chunks for this document (they will be replaced).
+						// Cascades to embeddings via FK constraint. Vectors of other indexes are
+						// read in the same statement so unchanged chunks can keep them.
+						const carriedRows = await tx.$queryRaw<
+							CarriedEmbeddingRow[]
+						>(
 							sql`
-            insert into chunks (id, document_id, source_id, idx, content, token_count, metadata)
-            values (
+          with carried as (
+            select c.idx, c.content, e.index_name, e.model, e.embedding::text as embedding, e.embedding_dimension, e.content_hash
+            from chunks as c
+            join embeddings as e on e.chunk_id = c.id
+            where c.document_id = ${canonicalDocumentId}::uuid
+              and e.index_name <> ${index}
+              and c.content <> ''
+          ), deleted as (
+            delete from chunks where document_id = ${canonicalDocumentId}::uuid
+          )
+          select * from carried
+        `
+						)
+						const carried = new Map<string, CarriedEmbeddingRow[]>()
+						for (const row of carriedRows) {
+							const key = carryKey(
+								Number(row.idx),
+								String(row.content)
+							)
+							carried.set(key, [...(carried.get(key) ?? []), row])
+						}
+
+						// Insert new chunks and embeddings with one multi-row insert per batch.
+						for (const batch of toBatches(
+							chunkItems,
+							upsertBatchSize
+						)) {
+							const chunkValues = batch.map(
+								(chunk) => sql`(
               ${chunk.id}::uuid,
               ${canonicalDocumentId}::uuid,
               ${chunk.sourceId},
               ${chunk.index},
               ${chunk.content},
               ${chunk.tokenCount},
-              ${JSON.stringify(chunkMetadata)}::jsonb
-            )
+              ${JSON.stringify(sanitizeMetadata(chunk.metadata))}::jsonb
+            )`
+							)
+							await tx.$executeRaw(
+								sql`
+            insert into chunks (id, document_id, source_id, idx, content, token_count, metadata)
+            values ${join(chunkValues, ', ')}
           `
-						)
-
-						if (!chunk.embedding) {
-							continue
+							)
+
+							const embeddingValues = batch.flatMap((chunk) => [
+								...(chunk.embedding
+									? [
+											sql`(${chunk.id}::uuid, ${index}, ${chunk.embeddingModel ?? null}, ${toVectorLiteral(chunk.embedding)}::vector, ${chunk.embedding.length}, ${chunk.contentHash ?? null})`
+										]
+									: []),
+								...(
+									carried.get(
+										carryKey(chunk.index, chunk.content)
+									) ?? []
+								).map(
+									(row) =>
+										sql`(${chunk.id}::uuid, ${row.index_name}, ${row.model}, ${row.embedding}::vector, ${row.embedding_dimension}, ${row.content_hash})`
+								)
+							])
+							if (embeddingValues.length === 0) {
+								continue
+							}
+							await tx.$executeRaw(
+								sql`
+            insert into embeddings (chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
+            values ${join(embeddingValues, ', ')}
+          `
+							)
 						}
-						const embeddingLiteral = toVectorLiteral(
-							chunk.embedding
-						)
 
-						await tx.$executeRaw(
-							sql`
-            insert into embeddings (chunk_id, embedding, embedding_dimension)
-            values (${chunk.id}::uuid, ${embeddingLiteral}::vector, ${
-				chunk.embedding.length
-			})
-          `
-						)
+						return {documentId: canonicalDocumentId}
 					}
-
-					return {documentId: canonicalDocumentId}
-				}
-			)
+				)
+				.catch(explainMissingColumn)
 		},
 
-		query: async ({embedding, topK, scope = {}}) => {
-			type QueryRow = {
+		getDocumentState: async ({sourceId, index = DEFAULT_INDEX}) => {
+			const rows = (await prisma
+				.$queryRaw(
+					sql`
+        select
+          d.id,
+          d.content_hash,
+          (select count(*)::int from chunks as c where c.document_id = d.id) as chunk_count,
+          (
+            select count(*)::int from chunks as c
+            join embeddings as e on e.chunk_id = c.id and e.index_name = ${index}
+            where c.document_id = d.id
+          ) as embedded_chunk_count
+        from documents as d
+        where d.source_id = ${sourceId}
+        limit 1
+      `
+				)
+				.catch(explainMissingColumn)) as Array<{
 				id: string
-				document_id: string
-				source_id: string
-				idx: number
-				content: string
-				token_count: number
-				metadata: unknown
-				score: number
+				content_hash: string | null
+				chunk_count: number
+				embedded_chunk_count: number
+			}>
+			const row = rows[0]
+			if (!row) {
+				return null
+			}
+			return {
+				documentId: String(row.id),
+				contentHash: row.content_hash ?? null,
+				chunkCount: Number(row.chunk_count),
+				embeddedChunkCount: Number(row.embedded_chunk_count)
+			}
+		},
+
+		getChunkEmbeddings: async ({
+			sourceId,
+			contentHashes,
+			index = DEFAULT_INDEX
+		}) => {
+			if (contentHashes.length === 0) {
+				return []
 			}
+			const rows = (await prisma
+				.$queryRaw(
+					sql`
+        select distinct on (e.content_hash)
+          e.content_hash,
+          e.embedding::text as embedding
+        from chunks as c
+        join embeddings as e on e.chunk_id = c.id and e.index_name = ${index}
+        where c.source_id = ${sourceId}
+          and e.content_hash = any(${contentHashes}::text[])
+      `
+				)
+				.catch(explainMissingColumn)) as Array<{
+				content_hash: string
+				embedding: unknown
+			}>
+			return rows.map((row) => ({
+				contentHash: String(row.content_hash),
+				embedding: parseVectorText(row.embedding)
+			}))
+		},
 
+		query: async ({
+			embedding,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX,
+			vectorSearch
+		}) => {
 			const vectorLiteral = toVectorLiteral(embedding)
+			const settings = vectorSearchStatements(vectorSearch)
+			// `embedding` has no fixed dimension; HNSW/IVFFlat indexes are built on
+			// this cast (see `unrag index create`), so the query must use it too.
+			const vectorType = raw(`vector(${embedding.length})`)
+
+			const filters: Sql[] = []
+			if (scope.sourceId) {
+				// Interpret scope.sourceId as a prefix so callers can namespace content
+				// (e.g. `tenant:acme:`) without needing separate tables.
+				filters.push(sql`c.source_id like ${`${scope.sourceId}%`}`)
+			}
+			if (scope.metadata) {
+				filters.push(buildMetadataFilterSql(scope.metadata))
+			}
 
-			const whereSql = scope.sourceId
-				? // Interpret scope.sourceId as a prefix so callers can namespace content
-					// (e.g. `tenant:acme:`) without needing separate tables.
-					sql`where c.source_id like ${`${scope.sourceId}%`}`
-				: empty
+			// Vectors of another dimension cannot be compared (pgvector raises an error).
+			filters.push(
+				sql`e.index_name = ${index}`,
+				sql`e.embedding_dimension = ${embedding.length}`
+			)
 
-			const rows = (await prisma.$queryRaw(
-				sql`
+			const whereSql = sql`where ${join(filters, ' and ')}`
+
+			const query = sql`
         select
           c.id,
           c.document_id,
@@ -336,7 +702,8 @@ export const createPrismaVectorStore = (
           c.content,
           c.token_count,
           c.metadata,
-          (e.embedding <=> ${vectorLiteral}::vector) as score
+          ${includeEmbeddings ? sql`e.embedding::text as embedding,` : empty}
+          (e.embedding::${vectorType} ${distanceOperator} ${vectorLiteral}::${vectorType}) as score
         from chunks as c
         join embeddings as e on e.chunk_id = c.id
         join documents as d on d.id = c.document_id
@@ -344,20 +711,218 @@ export const createPrismaVectorStore = (
         order by score asc
         limit ${topK}
       `
+
+			// `set local` only lasts until commit, so tuned queries get their own transaction.
+			const rows = (await (settings.length === 0
+				? prisma.$queryRaw(query)
+				: prisma.$transaction(
+						async (tx: {
+							$executeRaw: (query: unknown) => Promise<unknown>
+							$queryRaw: (query: unknown) => Promise<unknown>
+						}) => {
+							for (const statement of settings) {
+								await tx.$executeRaw(statement)
+							}
+							return await tx.$queryRaw(query)
+						}
+					)
+			).catch(explainMissingColumn)) as QueryRow[]
+
+			return rows.map(mapQueryRow)
+		},
+
+		queryKeyword: async ({
+			query,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) => {
+			const filters: Sql[] = [
+				sql`to_tsvector(${textSearchConfig}, c.content) @@ q.query`
+			]
+			if (scope.sourceId) {
+				filters.push(sql`c.source_id like ${`${scope.sourceId}%`}`)
+			}
+			if (scope.metadata) {
+				filters.push(buildMetadataFilterSql(scope.metadata))
+			}
+
+			// Match any query term (OR) and let ts_rank_cd reward chunks that match more of them.
+			const rows = (await prisma.$queryRaw(
+				sql`
+        with q as (
+          select replace(plainto_tsquery(${textSearchConfig}, ${query})::text, ' & ', ' | ')::tsquery as query
+        )
+        select
+          c.id,
+          c.document_id,
+          c.source_id,
+          c.idx,
+          c.content,
+          c.token_count,
+          c.metadata,
+          ${includeEmbeddings ? sql`e.embedding::text as embedding,` : empty}
+          ts_rank_cd(to_tsvector(${textSearchConfig}, c.content), q.query) as score
+        from chunks as c
+        cross join q
+        join documents as d on d.id = c.document_id
+        ${includeEmbeddings ? sql`left join embeddings as e on e.chunk_id = c.id and e.index_name = ${index}` : empty}
+        where ${join(filters, ' and ')}
+        order by score desc
+        limit ${topK}
+      `
 			)) as QueryRow[]
 
-			return rows.map((row: QueryRow) => ({
-				id: String(row.id),
-				documentId: String(row.document_id),
+			return rows.map(mapQueryRow)
+		},
+
+		getChunks: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const rows = (await prisma.$queryRaw(
+				sql`
+        select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+        from chunks as c
+        where c.id = any(${ids}::uuid[])
+      `
+			)) as ChunkRow[]
+			return rows.map(mapChunkRow)
+		},
+
+		getDocuments: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const rows = (await prisma.$queryRaw(
+				sql`
+        select id, source_id, content, metadata
+        from documents
+        where id = any(${ids}::uuid[])
+      `
+			)) as Array<{
+				id: string
+				source_id: string
+				content: string | null
+				metadata: unknown
+			}>
+			return rows.map((row) => ({
+				documentId: String(row.id),
 				sourceId: String(row.source_id),
-				index: Number(row.idx),
-				content: String(row.content),
-				tokenCount: Number(row.token_count),
-				metadata: (row.metadata ?? {}) as Chunk['metadata'],
-				score: Number(row.score)
+				content: String(row.content ?? ''),
+				metadata: (row.metadata ?? {}) as Chunk['metadata']
 			}))
 		},
 
+		getNeighbors: async ({anchors, before, after}) => {
+			if (anchors.length === 0) {
+				return []
+			}
+			const rows = (await prisma.$queryRaw(
+				sql`
+        select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+        from chunks as c
+        where exists (
+          select 1
+          from unnest(
+            ${anchors.map((a) => a.documentId)}::uuid[],
+            ${anchors.map((a) => a.index)}::int[]
+          ) as a(document_id, idx)
+          where a.document_id = c.document_id
+            and c.idx between a.idx - ${before} and a.idx + ${after}
+        )
+        order by c.document_id, c.idx
+      `
+			)) as ChunkRow[]
+			return rows.map(mapChunkRow)
+		},
+
+		scanChunks: async ({after, limit, skipEmbedded}) => {
+			const filters: Sql[] = []
+			if (after) {
+				filters.push(sql`c.id > ${after}::uuid`)
+			}
+			if (skipEmbedded) {
+				filters.push(
+					sql`not exists (select 1 from embeddings as e where e.chunk_id = c.id and e.index_name = ${skipEmbedded.index} and e.model = ${skipEmbedded.model})`
+				)
+			}
+			const whereSql = filters.length
+				? sql`where ${join(filters, ' and ')}`
+				: empty
+			const rows = (await prisma.$queryRaw(
+				sql`
+        select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+        from chunks as c
+        ${whereSql}
+        order by c.id
+        limit ${limit}
+      `
+			)) as ChunkRow[]
+			return rows.map(mapChunkRow)
+		},
+
+		writeEmbeddings: async ({index, embeddings}) => {
+			if (embeddings.length === 0) {
+				return
+			}
+			await prisma.$transaction(
+				async (tx: {
+					$executeRaw: (query: unknown) => Promise<unknown>
+				}) => {
+					for (const batch of toBatches(
+						embeddings,
+						upsertBatchSize
+					)) {
+						const rows = join(
+							batch.map(
+								(e) =>
+									sql`(${e.chunkId}::uuid, ${e.model ?? null}::text, ${toVectorLiteral(e.embedding)}::vector, ${e.embedding.length}::int, ${e.contentHash ?? null}::text)`
+							),
+							', '
+						)
+						// Joining chunks skips rows whose chunk was deleted meanwhile.
+						await tx.$executeRaw(
+							sql`
+            insert into embeddings (chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
+            select c.id, ${index}, t.model, t.embedding, t.embedding_dimension, t.content_hash
+            from (values ${rows}) as t(chunk_id, model, embedding, embedding_dimension, content_hash)
+            join chunks as c on c.id = t.chunk_id
+            on conflict (chunk_id, index_name) do update set
+              model = excluded.model,
+              embedding = excluded.embedding,
+              embedding_dimension = excluded.embedding_dimension,
+              content_hash = excluded.content_hash
+          `
+						)
+					}
+				}
+			)
+		},
+
+		swapIndex: async ({from, to}) =>
+			await prisma.$transaction(
+				async (tx: {
+					$executeRaw: (query: unknown) => Promise<unknown>
+				}) => {
+					await tx.$executeRaw(
+						sql`
+          delete from embeddings as e
+          where e.index_name = ${to}
+            and exists (
+              select 1 from embeddings as s
+              where s.chunk_id = e.chunk_id and s.index_name = ${from}
+            )
+        `
+					)
+					const swapped = await tx.$executeRaw(
+						sql`update embeddings set index_name = ${to} where index_name = ${from}`
+					)
+					return {swapped: Number(swapped)}
+				}
+			),
+
 		delete: async (input) => {
 			if ('sourceId' in input) {
 				await prisma.$executeRaw(
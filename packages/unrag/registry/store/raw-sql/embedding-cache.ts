@@ -0,0 +1,54 @@
+import type {EmbeddingCache} from '@registry/core/types'
+import type {Pool} from 'pg'
+
+const parseVectorText = (value: unknown): number[] =>
+	Array.isArray(value)
+		? value.map(Number)
+		: (JSON.parse(String(value)) as number[])
+
+/**
+ * Postgres-backed embedding cache stored in the `embedding_cache` table.
+ *
+ * Entries survive restarts and are shared by every process using the database,
+ * so re-ingesting the same dataset (or eval runs) only pays for new text.
+ */
+export const createRawSqlEmbeddingCache = (pool: Pool): EmbeddingCache => ({
+	getMany: async (keys) => {
+		if (keys.length === 0) {
+			return []
+		}
+		const res = await pool.query<{cache_key: string; embedding: unknown}>(
+			`
+      select cache_key, embedding::text as embedding
+      from embedding_cache
+      where cache_key = any($1::text[])
+      `,
+			[keys]
+		)
+		const found = new Map(
+			res.rows.map((row) => [
+				String(row.cache_key),
+				parseVectorText(row.embedding)
+			])
+		)
+		return keys.map((key) => found.get(key))
+	},
+
+	setMany: async (entries) => {
+		if (entries.length === 0) {
+			return
+		}
+		await pool.query(
+			`
+      insert into embedding_cache (cache_key, embedding)
+      select t.cache_key, t.embedding::vector
+      from unnest($1::text[], $2::text[]) as t(cache_key, embedding)
+      on conflict (cache_key) do nothing
+      `,
+			[
+				entries.map((e) => e.key),
+				entries.map((e) => `[${e.embedding.join(',')}]`)
+			]
+		)
+	}
+})
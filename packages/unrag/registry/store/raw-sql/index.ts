@@ -1 +1,3 @@
 export {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+export type {RawSqlVectorStoreOptions} from '@registry/store/raw-sql/store'
+export {createRawSqlEmbeddingCache} from '@registry/store/raw-sql/embedding-cache'
@@ -1,4 +1,11 @@
-import type {Chunk, DeleteInput, VectorStore} from '@registry/core/types'
+import type {
+	Chunk,
+	DeleteInput,
+	DistanceMetric,
+	MetadataFilter,
+	VectorSearchOptions,
+	VectorStore
+} from '@registry/core/types'
 import type {Pool, PoolClient} from 'pg'
 
 const sanitizeMetadata = (metadata: unknown) => {
@@ -14,6 +21,172 @@ const sanitizeMetadata = (metadata: unknown) => {
 
 const toVectorLiteral = (embedding: number[]) => `[${embedding.join(',')}]`
 
+const parseVectorText = (value: unknown): number[] =>
+	Array.isArray(value)
+		? value.map(Number)
+		: (JSON.parse(String(value)) as number[])
+
+export type RawSqlVectorStoreOptions = {
+	/**
+	 * Postgres text search configuration used by keyword retrieval
+	 * (`to_tsvector(<config>, content)`). Default: `'english'`.
+	 *
+	 * Keep this in sync with any full-text expression index on `chunks.content`.
+	 */
+	textSearchConfig?: string
+	/**
+	 * Vector comparison used by `query()`. Default: `'cosine'`.
+	 *
+	 * Use the matching operator class (`vector_cosine_ops`, `vector_ip_ops`,
+	 * `vector_l2_ops`) for any vector index on `embeddings.embedding`.
+	 */
+	distanceMetric?: DistanceMetric
+	/**
+	 * Maximum rows per multi-row insert when `upsert()` writes chunks and
+	 * embeddings. Default: `500`.
+	 *
+	 * Each batch is sent as one statement per table (rows are passed as arrays
+	 * and expanded with `unnest`), so larger batches mean fewer round trips at
+	 * the cost of bigger payloads.
+	 */
+	upsertBatchSize?: number
+}
+
+const DEFAULT_UPSERT_BATCH_SIZE = 500
+
+const DEFAULT_INDEX = 'default'
+
+const resolveUpsertBatchSize = (value = DEFAULT_UPSERT_BATCH_SIZE) => {
+	if (!Number.isInteger(value) || value < 1) {
+		throw new Error(`Invalid upsertBatchSize "${value}"`)
+	}
+	return value
+}
+
+const toBatches = <T>(items: T[], size: number): T[][] => {
+	const batches: T[][] = []
+	for (let i = 0; i < items.length; i += size) {
+		batches.push(items.slice(i, i + size))
+	}
+	return batches
+}
+
+const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+	cosine: '<=>',
+	inner_product: '<#>',
+	l2: '<->'
+}
+
+const resolveDistanceOperator = (metric: DistanceMetric) => {
+	const operator = DISTANCE_OPERATORS[metric]
+	if (!operator) {
+		throw new Error(`Invalid distanceMetric "${metric}"`)
+	}
+	return operator
+}
+
+const VECTOR_SEARCH_SETTINGS = [
+	['efSearch', 'hnsw.ef_search'],
+	['probes', 'ivfflat.probes']
+] as const
+
+/**
+ * `set local` statements for `vectorSearch`. SET takes no bind parameters, so
+ * values are inlined and must be positive integers.
+ */
+const vectorSearchStatements = (vectorSearch: VectorSearchOptions = {}) => {
+	const statements: string[] = []
+	for (const [key, setting] of VECTOR_SEARCH_SETTINGS) {
+		const value = vectorSearch[key]
+		if (value === undefined) {
+			continue
+		}
+		if (!Number.isInteger(value) || value < 1) {
+			throw new Error(`Invalid vectorSearch.${key} "${value}"`)
+		}
+		statements.push(`set local ${setting} = ${value}`)
+	}
+	return statements
+}
+
+const resolveTextSearchConfig = (value = 'english') => {
+	// Inlined into SQL (not bound) so Postgres can match expression indexes.
+	if (!/^[a-z_][a-z0-9_]*$/i.test(value)) {
+		throw new Error(`Invalid textSearchConfig "${value}"`)
+	}
+	return value
+}
+
+const RANGE_OPERATORS = [
+	['gt', '>'],
+	['gte', '>='],
+	['lt', '<'],
+	['lte', '<=']
+] as const
+
+/**
+ * Compile a metadata filter into a SQL predicate over `c.metadata` (jsonb).
+ * Parameter values are appended to `values`; placeholders continue from its length.
+ */
+const buildMetadataFilterSql = (
+	filter: MetadataFilter,
+	values: unknown[]
+): string => {
+	const param = (value: unknown) => {
+		values.push(value)
+		return `$${values.length}`
+	}
+	const jsonb = (value: unknown) => `${param(JSON.stringify(value))}::jsonb`
+	const field = (name: string) => `(c.metadata -> ${param(name)}::text)`
+
+	switch (filter.op) {
+		case 'eq':
+			return `coalesce(${field(filter.field)} = ${jsonb(filter.value)}, false)`
+		case 'in': {
+			if (filter.values.length === 0) {
+				return 'false'
+			}
+			const list = filter.values.map((v) => jsonb(v)).join(', ')
+			return `coalesce(${field(filter.field)} in (${list}), false)`
+		}
+		case 'contains':
+			return `coalesce(${field(filter.field)} @> ${jsonb([filter.value])}, false)`
+		case 'range': {
+			const bounds = RANGE_OPERATORS.filter(
+				([key]) => filter[key] !== undefined
+			)
+			const types = new Set(bounds.map(([key]) => typeof filter[key]))
+			if (bounds.length === 0 || types.size !== 1) {
+				throw new Error(
+					`Invalid range filter on "${filter.field}": provide at least one bound, all numbers or all strings`
+				)
+			}
+			const f = field(filter.field)
+			const type = types.has('number') ? 'number' : 'string'
+			const comparisons = bounds.map(
+				([key, operator]) => `${f} ${operator} ${jsonb(filter[key])}`
+			)
+			return `coalesce(jsonb_typeof(${f}) = '${type}' and ${comparisons.join(' and ')}, false)`
+		}
+		case 'exists':
+			return `(${field(filter.field)} is not null)`
+		case 'and':
+			return filter.filters.length === 0
+				? 'true'
+				: `(${filter.filters.map((f) => buildMetadataFilterSql(f, values)).join(' and ')})`
+		case 'or':
+			return filter.filters.length === 0
+				? 'false'
+				: `(${filter.filters.map((f) => buildMetadataFilterSql(f, values)).join(' or ')})`
+		case 'not':
+			return `not ${buildMetadataFilterSql(filter.filter, values)}`
+		default:
+			throw new Error(
+				`Unsupported metadata filter op: ${String((filter as {op?: unknown}).op)}`
+			)
+	}
+}
+
 const withTx = async <T>(
 	pool: Pool,
 	fn: (client: PoolClient) => Promise<T>
@@ -75,9 +248,62 @@ type DebugStoreInspector = {
 	}>
 }
 
+type CarriedEmbedding = {
+	idx: number
+	content: string
+	index_name: string
+	model: string | null
+	embedding: string
+	embedding_dimension: number | null
+	content_hash: string | null
+}
+
+/**
+ * Postgres `undefined_column`, raised by schemas that predate the content hash
+ * and named index columns. Rethrown with the fix, since every read and write
+ * of ingest state needs them.
+ */
+const explainMissingColumn = (err: unknown): never => {
+	if ((err as {code?: unknown} | null)?.code === '42703') {
+		throw Object.assign(
+			new Error(
+				`${err instanceof Error ? err.message : String(err)}. The unrag tables are out of date: run the migration printed by \`unrag doctor --db\`.`
+			),
+			{cause: err}
+		)
+	}
+	throw err
+}
+
+/** Key that matches a replacement chunk to the chunk it replaces. */
+const carryKey = (idx: number, content: string) => `${idx}\u0000${content}`
+
+const mapChunkRow = (row: Record<string, unknown>): Chunk => ({
+	id: String(row.id),
+	documentId: String(row.document_id),
+	sourceId: String(row.source_id),
+	index: Number(row.idx),
+	content: String(row.content),
+	tokenCount: Number(row.token_count),
+	metadata: (row.metadata ?? {}) as Chunk['metadata']
+})
+
+const mapScoredChunkRow = (row: Record<string, unknown>) => ({
+	...mapChunkRow(row),
+	...(row.embedding != null
+		? {embedding: parseVectorText(row.embedding)}
+		: {}),
+	score: Number(row.score)
+})
+
 export const createRawSqlVectorStore = (
-	pool: Pool
+	pool: Pool,
+	options: RawSqlVectorStoreOptions = {}
 ): VectorStore & {inspector: DebugStoreInspector} => {
+	const distanceMetric = options.distanceMetric ?? 'cosine'
+	const distanceOperator = resolveDistanceOperator(distanceMetric)
+	const textSearchConfig = resolveTextSearchConfig(options.textSearchConfig)
+	const upsertBatchSize = resolveUpsertBatchSize(options.upsertBatchSize)
 	const inspector: DebugStoreInspector = {
 		listDocuments: async ({prefix, limit = 50, offset = 0}) => {
 			const values: unknown[] = []
@@ -261,7 +487,9 @@ export const createRawSqlVectorStore = (
 	}
 
 	const store: VectorStore & {inspector: DebugStoreInspector} = {
-		upsert: async (chunkItems) => {
+		distanceMetric,
+
+		upsert: async (chunkItems, {index = DEFAULT_INDEX} = {}) => {
 			if (chunkItems.length === 0) {
 				throw new Error('upsert() requires at least one chunk')
 			}
@@ -277,18 +505,20 @@ export const createRawSqlVectorStore = (
 				// Returns the canonical document id (existing id on conflict, or new id on insert).
 				const docResult = await client.query<{id: string}>(
 					`
-        insert into documents (id, source_id, content, metadata)
-        values ($1, $2, $3, $4::jsonb)
+        insert into documents (id, source_id, content, metadata, content_hash)
+        values ($1, $2, $3, $4::jsonb, $5)
         on conflict (source_id) do update set
           content = excluded.content,
-          metadata = excluded.metadata
+          metadata = excluded.metadata,
+          content_hash = excluded.content_hash
         returning id
         `,
 					[
 						head.documentId,
 						head.sourceId,
 						head.documentContent ?? '',
-						JSON.stringify(documentMetadata)
+						JSON.stringify(documentMetadata),
+						head.documentContentHash ?? null
 					]
 				)
 
@@ -298,52 +528,181 @@ export const createRawSqlVectorStore = (
 				}
 
 				// Delete all existing chunks for this document (they will be replaced).
-				// Cascades to embeddings via FK constraint.
-				await client.query(
-					'delete from chunks where document_id = $1',
-					[canonicalDocumentId]
+				// Cascades to embeddings via FK constraint. Vectors of other indexes are
+				// read in the same statement so unchanged chunks can keep them.
+				const carriedRes = await client.query<CarriedEmbedding>(
+					`
+        with carried as (
+          select c.idx, c.content, e.index_name, e.model, e.embedding::text as embedding, e.embedding_dimension, e.content_hash
+          from chunks as c
+          join embeddings as e on e.chunk_id = c.id
+          where c.document_id = $1 and e.index_name <> $2 and c.content <> ''
+        ), deleted as (
+          delete from chunks where document_id = $1
+        )
+        select * from carried
+        `,
+					[canonicalDocumentId, index]
 				)
+				const carried = new Map<string, CarriedEmbedding[]>()
+				for (const row of carriedRes.rows) {
+					const key = carryKey(Number(row.idx), String(row.content))
+					carried.set(key, [...(carried.get(key) ?? []), row])
+				}
 
-				// Insert new chunks and embeddings.
-				for (const chunk of chunkItems) {
-					const chunkMetadata = sanitizeMetadata(chunk.metadata)
-
+				// Insert new chunks and embeddings in bounded batches. Each batch is one
+				// statement per table: rows travel as parallel arrays expanded by unnest().
+				for (const batch of toBatches(chunkItems, upsertBatchSize)) {
 					await client.query(
 						`
           insert into chunks (id, document_id, source_id, idx, content, token_count, metadata)
-          values ($1, $2, $3, $4, $5, $6, $7::jsonb)
+          select t.id, $2, t.source_id, t.idx, t.content, t.token_count, t.metadata::jsonb
+          from unnest($1::uuid[], $3::text[], $4::int[], $5::text[], $6::int[], $7::text[])
+            as t(id, source_id, idx, content, token_count, metadata)
           `,
 						[
-							chunk.id,
+							batch.map((c) => c.id),
 							canonicalDocumentId,
-							chunk.sourceId,
-							chunk.index,
-							chunk.content,
-							chunk.tokenCount,
-							JSON.stringify(chunkMetadata)
+							batch.map((c) => c.sourceId),
+							batch.map((c) => c.index),
+							batch.map((c) => c.content),
+							batch.map((c) => c.tokenCount),
+							batch.map((c) =>
+								JSON.stringify(sanitizeMetadata(c.metadata))
+							)
 						]
 					)
 
-					if (!chunk.embedding) {
+					const rows = batch.flatMap((c) => [
+						...(c.embedding
+							? [
+									{
+										chunkId: c.id,
+										index,
+										model: c.embeddingModel ?? null,
+										embedding: toVectorLiteral(c.embedding),
+										dimension: c.embedding.length,
+										contentHash: c.contentHash ?? null
+									}
+								]
+							: []),
+						...(
+							carried.get(carryKey(c.index, c.content)) ?? []
+						).map((row) => ({
+							chunkId: c.id,
+							index: row.index_name,
+							model: row.model,
+							embedding: row.embedding,
+							dimension: row.embedding_dimension,
+							contentHash: row.content_hash
+						}))
+					])
+					if (rows.length === 0) {
 						continue
 					}
-
-					const embeddingLiteral = toVectorLiteral(chunk.embedding)
 					await client.query(
 						`
-          insert into embeddings (chunk_id, embedding, embedding_dimension)
-          values ($1, $2::vector, $3)
+          insert into embeddings (chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
+          select t.chunk_id, t.index_name, t.model, t.embedding::vector, t.embedding_dimension, t.content_hash
+          from unnest($1::uuid[], $2::text[], $3::text[], $4::text[], $5::int[], $6::text[])
+            as t(chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
           `,
-						[chunk.id, embeddingLiteral, chunk.embedding.length]
+						[
+							rows.map((r) => r.chunkId),
+							rows.map((r) => r.index),
+							rows.map((r) => r.model),
+							rows.map((r) => r.embedding),
+							rows.map((r) => r.dimension),
+							rows.map((r) => r.contentHash)
+						]
 					)
 				}
 
 				return {documentId: canonicalDocumentId}
-			})
+			}).catch(explainMissingColumn)
+		},
+
+		getDocumentState: async ({sourceId, index = DEFAULT_INDEX}) => {
+			const res = await pool
+				.query<{
+					id: string
+					content_hash: string | null
+					chunk_count: number
+					embedded_chunk_count: number
+				}>(
+					`
+      select
+        d.id,
+        d.content_hash,
+        (select count(*)::int from chunks as c where c.document_id = d.id) as chunk_count,
+        (
+          select count(*)::int from chunks as c
+          join embeddings as e on e.chunk_id = c.id and e.index_name = $2
+          where c.document_id = d.id
+        ) as embedded_chunk_count
+      from documents as d
+      where d.source_id = $1
+      limit 1
+      `,
+					[sourceId, index]
+				)
+				.catch(explainMissingColumn)
+			const row = res.rows[0]
+			if (!row) {
+				return null
+			}
+			return {
+				documentId: String(row.id),
+				contentHash: row.content_hash ?? null,
+				chunkCount: Number(row.chunk_count),
+				embeddedChunkCount: Number(row.embedded_chunk_count)
+			}
+		},
+
+		getChunkEmbeddings: async ({
+			sourceId,
+			contentHashes,
+			index = DEFAULT_INDEX
+		}) => {
+			if (contentHashes.length === 0) {
+				return []
+			}
+			const res = await pool
+				.query<{
+					content_hash: string
+					embedding: unknown
+				}>(
+					`
+      select distinct on (e.content_hash)
+        e.content_hash,
+        e.embedding::text as embedding
+      from chunks as c
+      join embeddings as e on e.chunk_id = c.id and e.index_name = $3
+      where c.source_id = $1
+        and e.content_hash = any($2::text[])
+      `,
+					[sourceId, contentHashes, index]
+				)
+				.catch(explainMissingColumn)
+			return res.rows.map((row) => ({
+				contentHash: String(row.content_hash),
+				embedding: parseVectorText(row.embedding)
+			}))
 		},
 
-		query: async ({embedding, topK, scope = {}}) => {
+		query: async ({
+			embedding,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX,
+			vectorSearch
+		}) => {
 			const vectorLiteral = toVectorLiteral(embedding)
+			const settings = vectorSearchStatements(vectorSearch)
+			// `embedding` has no fixed dimension; HNSW/IVFFlat indexes are built on
+			// this cast (see `unrag index create`), so the query must use it too.
+			const vectorType = `vector(${embedding.length})`
 
 			const values: unknown[] = [vectorLiteral, topK]
 			const where: string[] = []
@@ -355,10 +714,20 @@ export const createRawSqlVectorStore = (
 				where.push(`c.source_id like $${values.length}`)
 			}
 
-			const whereSql = where.length ? `where ${where.join(' and ')}` : ''
+			if (scope.metadata) {
+				where.push(buildMetadataFilterSql(scope.metadata, values))
+			}
 
-			const res = await pool.query(
-				`
+			// Vectors of another dimension cannot be compared (pgvector raises an error).
+			values.push(index, embedding.length)
+			where.push(
+				`e.index_name = $${values.length - 1}`,
+				`e.embedding_dimension = $${values.length}`
+			)
+
+			const whereSql = `where ${where.join(' and ')}`
+
+			const text = `
       select
         c.id,
         c.document_id,
@@ -367,29 +736,232 @@ export const createRawSqlVectorStore = (
         c.content,
         c.token_count,
         c.metadata,
-        (e.embedding <=> $1::vector) as score
+        ${includeEmbeddings ? 'e.embedding::text as embedding,' : ''}
+        (e.embedding::${vectorType} ${distanceOperator} $1::${vectorType}) as score
       from chunks as c
       join embeddings as e on e.chunk_id = c.id
       join documents as d on d.id = c.document_id
       ${whereSql}
       order by score asc
       limit $2
+      `
+
+			// `set local` only lasts until commit, so tuned queries get their own transaction.
+			const res = await (settings.length === 0
+				? pool.query(text, values)
+				: withTx(pool, async (client) => {
+						for (const statement of settings) {
+							await client.query(statement)
+						}
+						return await client.query(text, values)
+					})
+			).catch(explainMissingColumn)
+
+			return res.rows.map(mapScoredChunkRow)
+		},
+
+		queryKeyword: async ({
+			query,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) => {
+			const values: unknown[] = [query, topK]
+			const where: string[] = [
+				`to_tsvector('${textSearchConfig}', c.content) @@ q.query`
+			]
+
+			if (scope.sourceId) {
+				values.push(`${scope.sourceId}%`)
+				where.push(`c.source_id like $${values.length}`)
+			}
+
+			if (scope.metadata) {
+				where.push(buildMetadataFilterSql(scope.metadata, values))
+			}
+
+			let embeddingJoin = ''
+			if (includeEmbeddings) {
+				values.push(index)
+				embeddingJoin = `left join embeddings as e on e.chunk_id = c.id and e.index_name = $${values.length}`
+			}
+
+			// Match any query term (OR) and let ts_rank_cd reward chunks that match more of them.
+			const res = await pool.query(
+				`
+      with q as (
+        select replace(plainto_tsquery('${textSearchConfig}', $1)::text, ' & ', ' | ')::tsquery as query
+      )
+      select
+        c.id,
+        c.document_id,
+        c.source_id,
+        c.idx,
+        c.content,
+        c.token_count,
+        c.metadata,
+        ${includeEmbeddings ? 'e.embedding::text as embedding,' : ''}
+        ts_rank_cd(to_tsvector('${textSearchConfig}', c.content), q.query) as score
+      from chunks as c
+      cross join q
+      join documents as d on d.id = c.document_id
+      ${embeddingJoin}
+      where ${where.join(' and ')}
+      order by score desc
+      limit $2
       `,
 				values
 			)
 
+			return res.rows.map(mapScoredChunkRow)
+		},
+
+		getChunks: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const res = await pool.query(
+				`
+      select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+      from chunks as c
+      where c.id = any($1::uuid[])
+      `,
+				[ids]
+			)
+			return res.rows.map(mapChunkRow)
+		},
+
+		getDocuments: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const res = await pool.query<{
+				id: string
+				source_id: string
+				content: string | null
+				metadata: unknown
+			}>(
+				`
+      select id, source_id, content, metadata
+      from documents
+      where id = any($1::uuid[])
+      `,
+				[ids]
+			)
 			return res.rows.map((row) => ({
-				id: String(row.id),
-				documentId: String(row.document_id),
+				documentId: String(row.id),
 				sourceId: String(row.source_id),
-				index: Number(row.idx),
-				content: String(row.content),
-				tokenCount: Number(row.token_count),
-				metadata: (row.metadata ?? {}) as Chunk['metadata'],
-				score: Number(row.score)
+				content: String(row.content ?? ''),
+				metadata: (row.metadata ?? {}) as Chunk['metadata']
 			}))
 		},
 
+		getNeighbors: async ({anchors, before, after}) => {
+			if (anchors.length === 0) {
+				return []
+			}
+			const res = await pool.query(
+				`
+      select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+      from chunks as c
+      where exists (
+        select 1
+        from unnest($1::uuid[], $2::int[]) as a(document_id, idx)
+        where a.document_id = c.document_id
+          and c.idx between a.idx - $3 and a.idx + $4
+      )
+      order by c.document_id, c.idx
+      `,
+				[
+					anchors.map((a) => a.documentId),
+					anchors.map((a) => a.index),
+					before,
+					after
+				]
+			)
+			return res.rows.map(mapChunkRow)
+		},
+
+		scanChunks: async ({after, limit, skipEmbedded}) => {
+			const values: unknown[] = [limit]
+			const where: string[] = []
+			if (after) {
+				values.push(after)
+				where.push(`c.id > $${values.length}::uuid`)
+			}
+			if (skipEmbedded) {
+				values.push(skipEmbedded.index, skipEmbedded.model)
+				where.push(
+					`not exists (select 1 from embeddings as e where e.chunk_id = c.id and e.index_name = $${values.length - 1} and e.model = $${values.length})`
+				)
+			}
+			const res = await pool.query(
+				`
+      select c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata
+      from chunks as c
+      ${where.length ? `where ${where.join(' and ')}` : ''}
+      order by c.id
+      limit $1
+      `,
+				values
+			)
+			return res.rows.map(mapChunkRow)
+		},
+
+		writeEmbeddings: async ({index, embeddings}) => {
+			if (embeddings.length === 0) {
+				return
+			}
+			await withTx(pool, async (client) => {
+				for (const batch of toBatches(embeddings, upsertBatchSize)) {
+					// Joining chunks skips rows whose chunk was deleted meanwhile.
+					await client.query(
+						`
+          insert into embeddings (chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
+          select c.id, $2, t.model, t.embedding::vector, t.embedding_dimension, t.content_hash
+          from unnest($1::uuid[], $3::text[], $4::text[], $5::int[], $6::text[])
+            as t(chunk_id, model, embedding, embedding_dimension, content_hash)
+          join chunks as c on c.id = t.chunk_id
+          on conflict (chunk_id, index_name) do update set
+            model = excluded.model,
+            embedding = excluded.embedding,
+            embedding_dimension = excluded.embedding_dimension,
+            content_hash = excluded.content_hash
+          `,
+						[
+							batch.map((e) => e.chunkId),
+							index,
+							batch.map((e) => e.model ?? null),
+							batch.map((e) => toVectorLiteral(e.embedding)),
+							batch.map((e) => e.embedding.length),
+							batch.map((e) => e.contentHash ?? null)
+						]
+					)
+				}
+			})
+		},
+
+		swapIndex: async ({from, to}) =>
+			await withTx(pool, async (client) => {
+				await client.query(
+					`
+        delete from embeddings as e
+        where e.index_name = $2
+          and exists (
+            select 1 from embeddings as s
+            where s.chunk_id = e.chunk_id and s.index_name = $1
+          )
+        `,
+					[from, to]
+				)
+				const res = await client.query(
+					'update embeddings set index_name = $2 where index_name = $1',
+					[from, to]
+				)
+				return {swapped: res.rowCount ?? 0}
+			}),
+
 		delete: async (input) => {
 			await withTx(pool, async (client) => {
 				if ('sourceId' in input) {
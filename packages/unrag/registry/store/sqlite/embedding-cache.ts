@@ -0,0 +1,60 @@
+import type {EmbeddingCache} from '@registry/core/types'
+import type {SqliteDatabase} from '@registry/store/sqlite/store'
+
+const parseVectorBlob = (value: unknown): number[] => {
+	const bytes = value as Uint8Array
+	return Array.from(
+		new Float32Array(
+			bytes.buffer.slice(
+				bytes.byteOffset,
+				bytes.byteOffset + bytes.byteLength
+			)
+		)
+	)
+}
+
+/**
+ * SQLite-backed embedding cache stored in the `embedding_cache` table.
+ *
+ * Entries live in the same database file as the store, so re-ingesting the
+ * same dataset only pays for new text.
+ */
+export const createSqliteEmbeddingCache = (
+	db: SqliteDatabase
+): EmbeddingCache => ({
+	getMany: async (keys) => {
+		if (keys.length === 0) {
+			return []
+		}
+		const rows = db
+			.prepare(
+				'select cache_key, embedding from embedding_cache where cache_key in (select value from json_each(?))'
+			)
+			.all(JSON.stringify(keys)) as Array<{
+			cache_key: string
+			embedding: unknown
+		}>
+		const found = new Map(
+			rows.map((row) => [
+				String(row.cache_key),
+				parseVectorBlob(row.embedding)
+			])
+		)
+		return keys.map((key) => found.get(key))
+	},
+
+	setMany: async (entries) => {
+		if (entries.length === 0) {
+			return
+		}
+		const insert = db.prepare(
+			'insert into embedding_cache (cache_key, embedding) values (?, ?) on conflict (cache_key) do nothing'
+		)
+		for (const entry of entries) {
+			insert.run(
+				entry.key,
+				Buffer.from(new Float32Array(entry.embedding).buffer)
+			)
+		}
+	}
+})
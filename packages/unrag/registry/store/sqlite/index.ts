@@ -0,0 +1,8 @@
+export {createSqliteVectorStore} from '@registry/store/sqlite/store'
+export type {
+	SqliteDatabase,
+	SqliteStatement,
+	SqliteVectorStoreOptions
+} from '@registry/store/sqlite/store'
+export {createSqliteEmbeddingCache} from '@registry/store/sqlite/embedding-cache'
+export {SQLITE_SCHEMA_SQL} from '@registry/store/sqlite/schema'
@@ -0,0 +1,56 @@
+/**
+ * SQLite schema used by the sqlite store adapter.
+ *
+ * Mirrors the Postgres tables (documents, chunks, embeddings, embedding_cache).
+ * Embeddings are float32 BLOBs compared with sqlite-vec's distance functions,
+ * and keyword retrieval uses an FTS5 table kept in sync by the adapter.
+ *
+ * Every statement is idempotent, so it is safe to run on each startup.
+ */
+export const SQLITE_SCHEMA_SQL = `
+create table if not exists documents (
+  id text primary key,
+  source_id text not null unique,
+  content text not null,
+  metadata text,
+  content_hash text,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create table if not exists chunks (
+  id text primary key,
+  document_id text not null references documents(id) on delete cascade,
+  source_id text not null,
+  idx integer not null,
+  content text not null,
+  token_count integer not null,
+  metadata text,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create table if not exists embeddings (
+  chunk_id text not null references chunks(id) on delete cascade,
+  index_name text not null default 'default',
+  model text,
+  embedding blob not null,
+  embedding_dimension integer,
+  content_hash text,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  primary key (chunk_id, index_name)
+);
+
+create table if not exists embedding_cache (
+  cache_key text primary key,
+  embedding blob not null,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create virtual table if not exists chunks_fts using fts5(
+  chunk_id unindexed,
+  content,
+  tokenize = 'porter unicode61'
+);
+
+create index if not exists chunks_source_id_idx on chunks(source_id);
+create index if not exists chunks_document_idx_idx on chunks(document_id, idx);
+`
@@ -0,0 +1,849 @@
+import type {
+	Chunk,
+	DeleteInput,
+	DistanceMetric,
+	MetadataFilter,
+	VectorStore
+} from '@registry/core/types'
+import {SQLITE_SCHEMA_SQL} from '@registry/store/sqlite/schema'
+
+/**
+ * Prepared statement surface shared by `better-sqlite3` and `bun:sqlite`.
+ */
+export type SqliteStatement = {
+	run(...params: unknown[]): unknown
+	all(...params: unknown[]): unknown[]
+	get(...params: unknown[]): unknown
+}
+
+/**
+ * Minimal synchronous database handle the adapter needs.
+ *
+ * Both `new Database(path)` from `better-sqlite3` and from `bun:sqlite` satisfy it.
+ * Vector search calls sqlite-vec's distance functions, so load the extension on
+ * the handle (`sqliteVec.load(db)`) before querying.
+ */
+export type SqliteDatabase = {
+	prepare(sql: string): SqliteStatement
+	exec(sql: string): unknown
+}
+
+const sanitizeMetadata = (metadata: unknown) => {
+	if (metadata === undefined) {
+		return null
+	}
+	try {
+		return JSON.parse(JSON.stringify(metadata))
+	} catch {
+		return null
+	}
+}
+
+const parseMetadata = (value: unknown): Chunk['metadata'] => {
+	if (typeof value !== 'string') {
+		return (value ?? {}) as Chunk['metadata']
+	}
+	return (JSON.parse(value) ?? {}) as Chunk['metadata']
+}
+
+// Embeddings are stored as little-endian float32 BLOBs, the native sqlite-vec format.
+const toVectorBlob = (embedding: number[]) =>
+	Buffer.from(new Float32Array(embedding).buffer)
+
+const parseVectorBlob = (value: unknown): number[] => {
+	const bytes = value as Uint8Array
+	return Array.from(
+		new Float32Array(
+			bytes.buffer.slice(
+				bytes.byteOffset,
+				bytes.byteOffset + bytes.byteLength
+			)
+		)
+	)
+}
+
+export type SqliteVectorStoreOptions = {
+	/**
+	 * Vector comparison used by `query()`. Default: `'cosine'`.
+	 *
+	 * Maps to sqlite-vec's `vec_distance_cosine` / `vec_distance_l2`.
+	 * `'inner_product'` is not available in sqlite-vec.
+	 */
+	distanceMetric?: DistanceMetric
+	/**
+	 * Create the tables, FTS5 index and indexes on startup (idempotent).
+	 * Default: `true`. Disable when the schema is managed by your own migrations.
+	 */
+	createSchema?: boolean
+}
+
+const DEFAULT_INDEX = 'default'
+
+const DISTANCE_FUNCTIONS: Partial<Record<DistanceMetric, string>> = {
+	cosine: 'vec_distance_cosine',
+	l2: 'vec_distance_l2'
+}
+
+const resolveDistanceFunction = (metric: DistanceMetric) => {
+	const fn = DISTANCE_FUNCTIONS[metric]
+	if (!fn) {
+		throw new Error(
+			`Invalid distanceMetric "${metric}" (sqlite-vec supports cosine and l2)`
+		)
+	}
+	return fn
+}
+
+const RANGE_OPERATORS = [
+	['gt', '>'],
+	['gte', '>='],
+	['lt', '<'],
+	['lte', '<=']
+] as const
+
+/**
+ * Compile a metadata filter into a SQL predicate over `c.metadata` (JSON text).
+ * Placeholders are positional, so values are appended in the order they appear.
+ */
+const buildMetadataFilterSql = (
+	filter: MetadataFilter,
+	values: unknown[]
+): string => {
+	const param = (value: unknown) => {
+		values.push(value)
+		return '?'
+	}
+	const json = (value: unknown) => `json(${param(JSON.stringify(value))})`
+	const path = (name: string) => param(`$."${name}"`)
+	const field = (name: string) => `(c.metadata -> ${path(name)})`
+
+	switch (filter.op) {
+		case 'eq':
+			return `coalesce(${field(filter.field)} = ${json(filter.value)}, 0)`
+		case 'in': {
+			if (filter.values.length === 0) {
+				return '0'
+			}
+			const f = field(filter.field)
+			const list = filter.values.map((v) => json(v)).join(', ')
+			return `coalesce(${f} in (${list}), 0)`
+		}
+		case 'contains': {
+			const p = path(filter.field)
+			const each = path(filter.field)
+			return `(json_type(c.metadata, ${p}) = 'array' and exists (select 1 from json_each(c.metadata, ${each}) as j where (c.metadata -> j.fullkey) = ${json(filter.value)}))`
+		}
+		case 'range': {
+			const bounds = RANGE_OPERATORS.filter(
+				([key]) => filter[key] !== undefined
+			)
+			const types = new Set(bounds.map(([key]) => typeof filter[key]))
+			if (bounds.length === 0 || types.size !== 1) {
+				throw new Error(
+					`Invalid range filter on "${filter.field}": provide at least one bound, all numbers or all strings`
+				)
+			}
+			const jsonTypes = types.has('number')
+				? "('integer', 'real')"
+				: "('text')"
+			const typeCheck = `json_type(c.metadata, ${path(filter.field)}) in ${jsonTypes}`
+			const comparisons = bounds.map(
+				([key, operator]) =>
+					`json_extract(c.metadata, ${path(filter.field)}) ${operator} ${param(filter[key])}`
+			)
+			return `coalesce(${typeCheck} and ${comparisons.join(' and ')}, 0)`
+		}
+		case 'exists':
+			return `(json_type(c.metadata, ${path(filter.field)}) is not null)`
+		case 'and':
+			return filter.filters.length === 0
+				? '1'
+				: `(${filter.filters.map((f) => buildMetadataFilterSql(f, values)).join(' and ')})`
+		case 'or':
+			return filter.filters.length === 0
+				? '0'
+				: `(${filter.filters.map((f) => buildMetadataFilterSql(f, values)).join(' or ')})`
+		case 'not':
+			return `not ${buildMetadataFilterSql(filter.filter, values)}`
+		default:
+			throw new Error(
+				`Unsupported metadata filter op: ${String((filter as {op?: unknown}).op)}`
+			)
+	}
+}
+
+/**
+ * Build an FTS5 match expression that matches any query term (OR).
+ * Terms are quoted so user input cannot inject FTS5 syntax.
+ */
+const toFtsQuery = (query: string) =>
+	(query.match(/[\p{L}\p{N}_]+/gu) ?? []).map((t) => `"${t}"`).join(' OR ')
+
+const withTx = <T>(db: SqliteDatabase, fn: () => T): T => {
+	db.exec('begin')
+	try {
+		const result = fn()
+		db.exec('commit')
+		return result
+	} catch (err) {
+		try {
+			db.exec('rollback')
+		} catch {
+			// ignore rollback errors
+		}
+		throw err
+	}
+}
+
+const changesOf = (result: unknown) =>
+	Number((result as {changes?: number} | undefined)?.changes ?? 0)
+
+/**
+ * Delete chunks matching `whereSql` together with their embeddings and FTS rows.
+ * Deletes are explicit because SQLite only enforces FK cascades when
+ * `pragma foreign_keys = on` is set on the connection.
+ */
+const deleteChunkRows = (
+	db: SqliteDatabase,
+	whereSql: string,
+	values: unknown[]
+) => {
+	const ids = `select id from chunks where ${whereSql}`
+	db.prepare(`delete from chunks_fts where chunk_id in (${ids})`).run(
+		...values
+	)
+	db.prepare(`delete from embeddings where chunk_id in (${ids})`).run(
+		...values
+	)
+	return changesOf(
+		db.prepare(`delete from chunks where ${whereSql}`).run(...values)
+	)
+}
+
+const deleteDocumentRows = (
+	db: SqliteDatabase,
+	whereSql: string,
+	values: unknown[]
+) => {
+	deleteChunkRows(
+		db,
+		`document_id in (select id from documents where ${whereSql})`,
+		values
+	)
+	return changesOf(
+		db.prepare(`delete from documents where ${whereSql}`).run(...values)
+	)
+}
+
+const deleteInputSql = (input: DeleteInput): [string, unknown[]] =>
+	'sourceId' in input
+		? ['source_id = ?', [input.sourceId]]
+		: ['instr(source_id, ?) = 1', [input.sourceIdPrefix]]
+
+type DebugStoreInspector = {
+	listDocuments: (args: {
+		prefix?: string
+		limit?: number
+		offset?: number
+	}) => Promise<{
+		documents: Array<{
+			sourceId: string
+			chunkCount: number
+			createdAt?: string
+		}>
+		total?: number
+	}>
+	getDocument: (args: {sourceId: string}) => Promise<{
+		document?: {
+			sourceId: string
+			chunks: Array<{
+				id: string
+				content: string
+				sequence: number
+				metadata: Record<string, unknown>
+			}>
+			metadata: Record<string, unknown>
+		}
+	}>
+	deleteDocument: (input: DeleteInput) => Promise<{deletedCount?: number}>
+	deleteChunks: (args: {chunkIds: string[]}) => Promise<{
+		deletedCount?: number
+	}>
+	storeStats: () => Promise<{
+		stats: {
+			adapter: string
+			tables?: Array<{name: string; rowCount: number; size?: number}>
+			embeddingDimension?: number
+			totalVectors?: number
+		}
+	}>
+}
+
+type Row = Record<string, unknown>
+
+/** Key that matches a replacement chunk to the chunk it replaces. */
+const carryKey = (idx: number, content: string) => `${idx}\u0000${content}`
+
+const CHUNK_COLUMNS =
+	'c.id, c.document_id, c.source_id, c.idx, c.content, c.token_count, c.metadata'
+
+const mapChunkRow = (row: Row): Chunk => ({
+	id: String(row.id),
+	documentId: String(row.document_id),
+	sourceId: String(row.source_id),
+	index: Number(row.idx),
+	content: String(row.content),
+	tokenCount: Number(row.token_count),
+	metadata: parseMetadata(row.metadata)
+})
+
+const mapScoredChunkRow = (row: Row) => ({
+	...mapChunkRow(row),
+	...(row.embedding != null
+		? {embedding: parseVectorBlob(row.embedding)}
+		: {}),
+	score: Number(row.score)
+})
+
+export const createSqliteVectorStore = (
+	db: SqliteDatabase,
+	options: SqliteVectorStoreOptions = {}
+): VectorStore & {inspector: DebugStoreInspector} => {
+	const distanceMetric = options.distanceMetric ?? 'cosine'
+	const distanceFunction = resolveDistanceFunction(distanceMetric)
+
+	const all = (sql: string, values: unknown[] = []) =>
+		db.prepare(sql).all(...values) as Row[]
+	const get = (sql: string, values: unknown[] = []) =>
+		(db.prepare(sql).get(...values) ?? null) as Row | null
+
+	if (options.createSchema !== false) {
+		db.exec(SQLITE_SCHEMA_SQL)
+	}
+
+	const inspector: DebugStoreInspector = {
+		listDocuments: async ({prefix, limit = 50, offset = 0}) => {
+			const whereSql = prefix ? 'where instr(d.source_id, ?) = 1' : ''
+			const whereValues = prefix ? [prefix] : []
+
+			const rows = all(
+				`
+        select
+          d.source_id as source_id,
+          d.created_at as created_at,
+          count(c.id) as chunk_count
+        from documents as d
+        left join chunks as c on c.document_id = d.id
+        ${whereSql}
+        group by d.id
+        order by d.created_at desc
+        limit ?
+        offset ?
+        `,
+				[...whereValues, limit, offset]
+			)
+			const totalRow = get(
+				`select count(*) as total from documents as d ${whereSql}`,
+				whereValues
+			)
+
+			return {
+				documents: rows.map((r) => ({
+					sourceId: String(r.source_id),
+					chunkCount: Number(r.chunk_count),
+					createdAt: r.created_at ? String(r.created_at) : undefined
+				})),
+				total: Number(totalRow?.total ?? 0)
+			}
+		},
+
+		getDocument: async ({sourceId}) => {
+			const doc = get(
+				'select id, source_id, metadata from documents where source_id = ? limit 1',
+				[sourceId]
+			)
+			if (!doc?.id) {
+				return {document: undefined}
+			}
+
+			const chunkRows = all(
+				'select id, idx, content, metadata from chunks where document_id = ? order by idx asc',
+				[doc.id]
+			)
+
+			return {
+				document: {
+					sourceId: String(doc.source_id),
+					chunks: chunkRows.map((r) => ({
+						id: String(r.id),
+						content: String(r.content ?? ''),
+						sequence: Number(r.idx),
+						metadata: parseMetadata(r.metadata)
+					})),
+					metadata: parseMetadata(doc.metadata)
+				}
+			}
+		},
+
+		deleteDocument: async (input: DeleteInput) => {
+			const [whereSql, values] = deleteInputSql(input)
+			return {
+				deletedCount: withTx(db, () =>
+					deleteDocumentRows(db, whereSql, values)
+				)
+			}
+		},
+
+		deleteChunks: async ({chunkIds}) => {
+			const ids = Array.isArray(chunkIds) ? chunkIds.filter(Boolean) : []
+			if (ids.length === 0) {
+				return {deletedCount: 0}
+			}
+			return {
+				deletedCount: withTx(db, () =>
+					deleteChunkRows(
+						db,
+						'id in (select value from json_each(?))',
+						[JSON.stringify(ids)]
+					)
+				)
+			}
+		},
+
+		storeStats: async () => {
+			const row = get(
+				`
+        select
+          (select count(*) from documents) as documents_count,
+          (select count(*) from chunks) as chunks_count,
+          (select count(*) from embeddings) as embeddings_count,
+          (select max(embedding_dimension) from embeddings) as embedding_dimension
+        `
+			)
+			return {
+				stats: {
+					adapter: 'sqlite',
+					tables: [
+						{
+							name: 'documents',
+							rowCount: Number(row?.documents_count ?? 0)
+						},
+						{
+							name: 'chunks',
+							rowCount: Number(row?.chunks_count ?? 0)
+						},
+						{
+							name: 'embeddings',
+							rowCount: Number(row?.embeddings_count ?? 0)
+						}
+					],
+					embeddingDimension:
+						row?.embedding_dimension === null ||
+						row?.embedding_dimension === undefined
+							? undefined
+							: Number(row.embedding_dimension),
+					totalVectors: Number(row?.embeddings_count ?? 0)
+				}
+			}
+		}
+	}
+
+	const store: VectorStore & {inspector: DebugStoreInspector} = {
+		distanceMetric,
+
+		upsert: async (chunkItems, {index = DEFAULT_INDEX} = {}) => {
+			if (chunkItems.length === 0) {
+				throw new Error('upsert() requires at least one chunk')
+			}
+
+			return withTx(db, () => {
+				const head = chunkItems[0]
+				if (!head) {
+					throw new Error('upsert() requires at least one chunk')
+				}
+				const documentMetadata = sanitizeMetadata(head.metadata)
+
+				// Upsert document by source_id; the existing id is kept on conflict.
+				db.prepare(
+					`
+        insert into documents (id, source_id, content, metadata, content_hash)
+        values (?, ?, ?, ?, ?)
+        on conflict (source_id) do update set
+          content = excluded.content,
+          metadata = excluded.metadata,
+          content_hash = excluded.content_hash
+        `
+				).run(
+					head.documentId,
+					head.sourceId,
+					head.documentContent ?? '',
+					JSON.stringify(documentMetadata),
+					head.documentContentHash ?? null
+				)
+
+				const canonicalDocumentId = get(
+					'select id from documents where source_id = ?',
+					[head.sourceId]
+				)?.id
+				if (!canonicalDocumentId) {
+					throw new Error('Failed to upsert document: no id returned')
+				}
+
+				// Vectors of other indexes for chunks that come back unchanged are kept.
+				const carried = new Map<string, Row[]>()
+				for (const row of all(
+					`
+          select c.idx, c.content, e.index_name, e.model, e.embedding, e.embedding_dimension, e.content_hash
+          from chunks as c
+          join embeddings as e on e.chunk_id = c.id
+          where c.document_id = ? and e.index_name <> ? and c.content <> ''
+          `,
+					[canonicalDocumentId, index]
+				)) {
+					const key = carryKey(Number(row.idx), String(row.content))
+					carried.set(key, [...(carried.get(key) ?? []), row])
+				}
+
+				// Replace all existing chunks (and their embeddings and FTS rows).
+				deleteChunkRows(db, 'document_id = ?', [canonicalDocumentId])
+
+				const insertChunk = db.prepare(
+					`
+          insert into chunks (id, document_id, source_id, idx, content, token_count, metadata)
+          values (?, ?, ?, ?, ?, ?, ?)
+          `
+				)
+				const insertFts = db.prepare(
+					'insert into chunks_fts (chunk_id, content) values (?, ?)'
+				)
+				const insertEmbedding = db.prepare(
+					'insert into embeddings (chunk_id, index_name, model, embedding, embedding_dimension, content_hash) values (?, ?, ?, ?, ?, ?)'
+				)
+
+				for (const chunk of chunkItems) {
+					insertChunk.run(
+						chunk.id,
+						canonicalDocumentId,
+						chunk.sourceId,
+						chunk.index,
+						chunk.content,
+						chunk.tokenCount,
+						JSON.stringify(sanitizeMetadata(chunk.metadata))
+					)
+					insertFts.run(chunk.id, chunk.content)
+
+					for (const row of carried.get(
+						carryKey(chunk.index, chunk.content)
+					) ?? []) {
+						insertEmbedding.run(
+							chunk.id,
+							row.index_name,
+							row.model,
+							row.embedding,
+							row.embedding_dimension,
+							row.content_hash
+						)
+					}
+					if (!chunk.embedding) {
+						continue
+					}
+					insertEmbedding.run(
+						chunk.id,
+						index,
+						chunk.embeddingModel ?? null,
+						toVectorBlob(chunk.embedding),
+						chunk.embedding.length,
+						chunk.contentHash ?? null
+					)
+				}
+
+				return {documentId: String(canonicalDocumentId)}
+			})
+		},
+
+		getDocumentState: async ({sourceId, index = DEFAULT_INDEX}) => {
+			const row = get(
+				`
+      select
+        d.id,
+        d.content_hash,
+        (select count(*) from chunks as c where c.document_id = d.id) as chunk_count,
+        (
+          select count(*) from chunks as c
+          join embeddings as e on e.chunk_id = c.id and e.index_name = ?
+          where c.document_id = d.id
+        ) as embedded_chunk_count
+      from documents as d
+      where d.source_id = ?
+      limit 1
+      `,
+				[index, sourceId]
+			)
+			if (!row) {
+				return null
+			}
+			return {
+				documentId: String(row.id),
+				contentHash: (row.content_hash ?? null) as string | null,
+				chunkCount: Number(row.chunk_count),
+				embeddedChunkCount: Number(row.embedded_chunk_count)
+			}
+		},
+
+		getChunkEmbeddings: async ({
+			sourceId,
+			contentHashes,
+			index = DEFAULT_INDEX
+		}) => {
+			if (contentHashes.length === 0) {
+				return []
+			}
+			// SQLite returns the embedding of an arbitrary row per hash, like `distinct on`.
+			const rows = all(
+				`
+      select e.content_hash, e.embedding
+      from chunks as c
+      join embeddings as e on e.chunk_id = c.id and e.index_name = ?
+      where c.source_id = ?
+        and e.content_hash in (select value from json_each(?))
+      group by e.content_hash
+      `,
+				[index, sourceId, JSON.stringify(contentHashes)]
+			)
+			return rows.map((row) => ({
+				contentHash: String(row.content_hash),
+				embedding: parseVectorBlob(row.embedding)
+			}))
+		},
+
+		query: async ({
+			embedding,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) => {
+			const whereValues: unknown[] = []
+			const where: string[] = []
+
+			if (scope.sourceId) {
+				// Interpret scope.sourceId as a (case-sensitive) prefix.
+				whereValues.push(scope.sourceId)
+				where.push('instr(c.source_id, ?) = 1')
+			}
+
+			if (scope.metadata) {
+				where.push(buildMetadataFilterSql(scope.metadata, whereValues))
+			}
+
+			// sqlite-vec raises an error when vector dimensions differ.
+			whereValues.push(index, embedding.length)
+			where.push('e.index_name = ?', 'e.embedding_dimension = ?')
+
+			const whereSql = `where ${where.join(' and ')}`
+
+			// Exact (brute-force) search: the distance is computed for every candidate row.
+			const rows = all(
+				`
+      select
+        ${CHUNK_COLUMNS},
+        ${includeEmbeddings ? 'e.embedding as embedding,' : ''}
+        ${distanceFunction}(e.embedding, ?) as score
+      from chunks as c
+      join embeddings as e on e.chunk_id = c.id
+      ${whereSql}
+      order by score asc
+      limit ?
+      `,
+				[toVectorBlob(embedding), ...whereValues, topK]
+			)
+
+			return rows.map(mapScoredChunkRow)
+		},
+
+		queryKeyword: async ({
+			query,
+			topK,
+			scope = {},
+			includeEmbeddings,
+			index = DEFAULT_INDEX
+		}) => {
+			const match = toFtsQuery(query)
+			if (!match) {
+				return []
+			}
+
+			const joinValues = includeEmbeddings ? [index] : []
+			const whereValues: unknown[] = [match]
+			const where: string[] = ['chunks_fts match ?']
+
+			if (scope.sourceId) {
+				whereValues.push(scope.sourceId)
+				where.push('instr(c.source_id, ?) = 1')
+			}
+
+			if (scope.metadata) {
+				where.push(buildMetadataFilterSql(scope.metadata, whereValues))
+			}
+
+			// bm25() is lower-is-better; negate it so higher scores rank first.
+			const rows = all(
+				`
+      select
+        ${CHUNK_COLUMNS},
+        ${includeEmbeddings ? 'e.embedding as embedding,' : ''}
+        -bm25(chunks_fts) as score
+      from chunks_fts
+      join chunks as c on c.id = chunks_fts.chunk_id
+      ${includeEmbeddings ? 'left join embeddings as e on e.chunk_id = c.id and e.index_name = ?' : ''}
+      where ${where.join(' and ')}
+      order by score desc
+      limit ?
+      `,
+				[...joinValues, ...whereValues, topK]
+			)
+
+			return rows.map(mapScoredChunkRow)
+		},
+
+		getChunks: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			return all(
+				`select ${CHUNK_COLUMNS} from chunks as c where c.id in (select value from json_each(?))`,
+				[JSON.stringify(ids)]
+			).map(mapChunkRow)
+		},
+
+		getDocuments: async ({ids}) => {
+			if (ids.length === 0) {
+				return []
+			}
+			const rows = all(
+				'select id, source_id, content, metadata from documents where id in (select value from json_each(?))',
+				[JSON.stringify(ids)]
+			)
+			return rows.map((row) => ({
+				documentId: String(row.id),
+				sourceId: String(row.source_id),
+				content: String(row.content ?? ''),
+				metadata: parseMetadata(row.metadata)
+			}))
+		},
+
+		getNeighbors: async ({anchors, before, after}) => {
+			if (anchors.length === 0) {
+				return []
+			}
+			return all(
+				`
+      select ${CHUNK_COLUMNS}
+      from chunks as c
+      where exists (
+        select 1
+        from json_each(?) as a
+        where a.value ->> '$.documentId' = c.document_id
+          and c.idx between (a.value ->> '$.index') - ? and (a.value ->> '$.index') + ?
+      )
+      order by c.document_id, c.idx
+      `,
+				[
+					JSON.stringify(
+						anchors.map((a) => ({
+							documentId: a.documentId,
+							index: a.index
+						}))
+					),
+					before,
+					after
+				]
+			).map(mapChunkRow)
+		},
+
+		scanChunks: async ({after, limit, skipEmbedded}) => {
+			const values: unknown[] = []
+			const where: string[] = []
+			if (after) {
+				values.push(after)
+				where.push('c.id > ?')
+			}
+			if (skipEmbedded) {
+				values.push(skipEmbedded.index, skipEmbedded.model)
+				where.push(
+					'not exists (select 1 from embeddings as e where e.chunk_id = c.id and e.index_name = ? and e.model = ?)'
+				)
+			}
+			return all(
+				`
+      select ${CHUNK_COLUMNS}
+      from chunks as c
+      ${where.length ? `where ${where.join(' and ')}` : ''}
+      order by c.id
+      limit ?
+      `,
+				[...values, limit]
+			).map(mapChunkRow)
+		},
+
+		writeEmbeddings: async ({index, embeddings}) => {
+			if (embeddings.length === 0) {
+				return
+			}
+			withTx(db, () => {
+				// Selecting from chunks skips rows whose chunk was deleted meanwhile.
+				const writeEmbedding = db.prepare(
+					`
+          insert into embeddings (chunk_id, index_name, model, embedding, embedding_dimension, content_hash)
+          select id, ?, ?, ?, ?, ? from chunks where id = ?
+          on conflict (chunk_id, index_name) do update set
+            model = excluded.model,
+            embedding = excluded.embedding,
+            embedding_dimension = excluded.embedding_dimension,
+            content_hash = excluded.content_hash
+          `
+				)
+				for (const e of embeddings) {
+					writeEmbedding.run(
+						index,
+						e.model ?? null,
+						toVectorBlob(e.embedding),
+						e.embedding.length,
+						e.contentHash ?? null,
+						e.chunkId
+					)
+				}
+			})
+		},
+
+		swapIndex: async ({from, to}) =>
+			withTx(db, () => {
+				db.prepare(
+					`
+          delete from embeddings
+          where index_name = ?
+            and chunk_id in (select chunk_id from embeddings where index_name = ?)
+          `
+				).run(to, from)
+				return {
+					swapped: changesOf(
+						db
+							.prepare(
+								'update embeddings set index_name = ? where index_name = ?'
+							)
+							.run(to, from)
+					)
+				}
+			}),
+
+		delete: async (input) => {
+			const [whereSql, values] = deleteInputSql(input)
+			withTx(db, () => {
+				deleteDocumentRows(db, whereSql, values)
+			})
+		},
+		inspector
+	}
+
+	return store
+}
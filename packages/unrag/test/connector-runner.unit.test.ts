@@ -21,6 +21,8 @@ describe('connector runner', () => {
 					chunkCount: 1,
 					embeddingModel: 'test',
 					warnings: [],
+					skipped: false,
+					reusedEmbeddings: 0,
 					durations: {
 						totalMs: 0,
 						chunkingMs: 0,
@@ -0,0 +1,141 @@
+import {describe, expect, test} from 'bun:test'
+import {hierarchicalChunker} from '@registry/chunkers/hierarchical'
+import {markdownChunker} from '@registry/chunkers/markdown'
+import {recursiveChunker} from '@registry/core/chunking'
+import {defaultAssetProcessingConfig} from '@registry/core/config'
+import {ingest} from '@registry/core/ingest'
+import type {Chunk, ResolvedContextEngineConfig} from '@registry/core/types'
+
+const MARKDOWN = [
+	'# Guide',
+	'',
+	'Intro paragraph for the guide.',
+	'',
+	'## Install',
+	'',
+	'Run the installer and follow the prompts.',
+	'',
+	'```sh',
+	'# not a heading',
+	'bunx unrag init',
+	'```',
+	'',
+	'### Verify',
+	'',
+	'Check the version output.',
+	'',
+	'## Usage',
+	'',
+	'Call retrieve with a query.'
+].join('\n')
+
+describe('core chunking - per-chunk metadata', () => {
+	test('recursive chunker records char offsets and line ranges', async () => {
+		const content = 'first line\nsecond line\n\nthird paragraph here'
+		const chunks = await recursiveChunker(content, {
+			chunkSize: 4,
+			chunkOverlap: 0,
+			minChunkSize: 1
+		})
+
+		expect(chunks.length).toBeGreaterThan(1)
+		for (const chunk of chunks) {
+			const meta = chunk.metadata ?? {}
+			const start = meta.charStart as number
+			const end = meta.charEnd as number
+			expect(content.slice(start, end).replace(/\s+/g, '')).toBe(
+				chunk.content.replace(/\s+/g, '')
+			)
+			const lineStart = meta.lineStart as number
+			expect(lineStart).toBe(content.slice(0, start).split('\n').length)
+		}
+		const last = chunks[chunks.length - 1]
+		expect(last?.metadata?.lineEnd).toBe(4)
+	})
+
+	test('markdown chunker records the heading trail, ignoring fenced code', async () => {
+		const chunks = await markdownChunker(MARKDOWN, {
+			chunkSize: 12,
+			chunkOverlap: 0,
+			minChunkSize: 1
+		})
+
+		const find = (needle: string) =>
+			chunks.find((c) => c.content.includes(needle))
+
+		expect(find('Intro paragraph')?.metadata?.headingPath).toEqual([
+			'Guide'
+		])
+		expect(find('Check the version')?.metadata?.headingPath).toEqual([
+			'Guide',
+			'Install',
+			'Verify'
+		])
+		expect(find('Call retrieve')?.metadata?.headingPath).toEqual([
+			'Guide',
+			'Usage'
+		])
+	})
+
+	test('hierarchical chunker locates section bodies and their headings', async () => {
+		const chunks = await hierarchicalChunker(MARKDOWN, {
+			chunkSize: 200,
+			chunkOverlap: 0,
+			minChunkSize: 1
+		})
+
+		const verify = chunks.find((c) => c.content.startsWith('### Verify'))
+		expect(verify?.metadata?.headingPath).toEqual([
+			'Guide',
+			'Install',
+			'Verify'
+		])
+		const start = verify?.metadata?.charStart as number
+		expect(MARKDOWN.slice(start).startsWith('Check the version')).toBe(true)
+	})
+
+	test('ingest merges chunk metadata over document metadata', async () => {
+		let stored: Chunk[] = []
+		const config: ResolvedContextEngineConfig = {
+			embedding: {
+				name: 'test-embedding',
+				embed: async () => [0],
+				embedMany: async (inputs) => inputs.map(() => [0])
+			},
+			embeddingProcessing: {concurrency: 1, batchSize: 8},
+			store: {
+				upsert: async (chunks) => {
+					stored = chunks
+					return {documentId: chunks[0]?.documentId ?? ''}
+				},
+				query: async () => [],
+				delete: async () => {}
+			},
+			defaults: {chunkSize: 200, chunkOverlap: 40},
+			chunker: () => [
+				{
+					index: 0,
+					content: 'alpha',
+					tokenCount: 1,
+					metadata: {section: 'intro', lang: 'de'}
+				}
+			],
+			idGenerator: () => crypto.randomUUID(),
+			extractors: [],
+			storage: {storeChunkContent: true, storeDocumentContent: true},
+			assetProcessing: defaultAssetProcessingConfig
+		}
+
+		await ingest(config, {
+			sourceId: 'docs:a',
+			content: 'alpha',
+			metadata: {lang: 'en', team: 'docs'}
+		})
+
+		expect(stored[0]?.metadata).toEqual({
+			lang: 'de',
+			team: 'docs',
+			section: 'intro'
+		})
+	})
+})
@@ -0,0 +1,257 @@
+import {describe, expect, test} from 'bun:test'
+import {createLateChunkerPlugin, lateChunker} from '@registry/chunkers/late'
+import {maxminChunker} from '@registry/chunkers/maxmin'
+import {
+	defaultAssetProcessingConfig,
+	defaultEmbeddingProcessingConfig,
+	defaultEmbeddingRetryConfig
+} from '@registry/core/config'
+import {ingest} from '@registry/core/ingest'
+import type {
+	Chunk,
+	EmbeddingProvider,
+	ResolvedContextEngineConfig,
+	TokenEmbeddings
+} from '@registry/core/types'
+
+// Sentences about cats embed along one axis, everything else along the other.
+const topicEmbedding = (text: string): number[] =>
+	/cat/i.test(text) ? [1, 0.25] : [0.25, 1]
+
+/** One token per whitespace-separated word, embedded by topic. */
+const wordTokens = (text: string): TokenEmbeddings => {
+	const embeddings: number[][] = []
+	const offsets: [number, number][] = []
+	for (const match of text.matchAll(/\S+/g)) {
+		const start = match.index ?? 0
+		embeddings.push(topicEmbedding(match[0]))
+		offsets.push([start, start + match[0].length])
+	}
+	return {embeddings, offsets}
+}
+
+describe('maxmin chunker', () => {
+	test('groups consecutive sentences with similar embeddings', async () => {
+		const calls: string[][] = []
+		const embedding: EmbeddingProvider = {
+			name: 'topic',
+			embed: async ({text}) => topicEmbedding(text),
+			embedMany: async (inputs) => {
+				calls.push(inputs.map((i) => i.text))
+				return inputs.map((i) => topicEmbedding(i.text))
+			}
+		}
+		const content =
+			'Cats sleep a lot. A cat purrs when happy. Cats chase mice. Stocks fell today. Markets were volatile. Investors sold shares.'
+
+		const chunks = await maxminChunker(content, {
+			chunkSize: 200,
+			chunkOverlap: 0,
+			minChunkSize: 1,
+			embedding
+		})
+
+		expect(chunks.map((c) => c.content)).toEqual([
+			'Cats sleep a lot. A cat purrs when happy. Cats chase mice.',
+			'Stocks fell today. Markets were volatile. Investors sold shares.'
+		])
+		expect(chunks.map((c) => c.index)).toEqual([0, 1])
+	})
+
+	test('embeds sentences in batches of embeddingProcessing.batchSize', async () => {
+		const calls: string[][] = []
+		let inFlight = 0
+		let maxInFlight = 0
+		const embedding: EmbeddingProvider = {
+			name: 'topic',
+			embed: async ({text}) => topicEmbedding(text),
+			embedMany: async (inputs) => {
+				calls.push(inputs.map((i) => i.text))
+				inFlight++
+				maxInFlight = Math.max(maxInFlight, inFlight)
+				await new Promise((resolve) => setTimeout(resolve, 1))
+				inFlight--
+				return inputs.map((i) => topicEmbedding(i.text))
+			}
+		}
+		const content = Array.from(
+			{length: 7},
+			(_, i) => `Cats nap ${i}.`
+		).join(' ')
+
+		const chunks = await maxminChunker(content, {
+			chunkSize: 200,
+			chunkOverlap: 0,
+			minChunkSize: 1,
+			embedding,
+			embeddingProcessing: {concurrency: 2, batchSize: 3}
+		})
+
+		expect(calls.map((c) => c.length)).toEqual([3, 3, 1])
+		expect(maxInFlight).toBe(2)
+		expect(chunks).toHaveLength(1)
+	})
+
+	test('falls back to sentence merging without an embedding provider', async () => {
+		const chunks = await maxminChunker('One. Two. Three.', {
+			chunkSize: 200,
+			chunkOverlap: 0,
+			minChunkSize: 1
+		})
+		expect(chunks).toHaveLength(1)
+		expect(chunks[0]?.content).toBe('One. Two. Three.')
+	})
+})
+
+describe('late chunker', () => {
+	test('mean-pools token embeddings within each chunk span', async () => {
+		const windows: string[] = []
+		const embedding: EmbeddingProvider = {
+			name: 'tokens',
+			embed: async () => [0, 0],
+			embedTokens: async ({text}) => {
+				windows.push(text)
+				return wordTokens(text)
+			}
+		}
+		const content = 'cat cat cat\n\ndog dog cat'
+
+		const chunks = await lateChunker(content, {
+			chunkSize: 4,
+			chunkOverlap: 0,
+			minChunkSize: 1,
+			embedding
+		})
+
+		expect(windows).toEqual([content])
+		expect(chunks.map((c) => c.content)).toEqual([
+			'cat cat cat',
+			'dog dog cat'
+		])
+		expect(chunks[0]?.embedding).toEqual([1, 0.25])
+		expect(chunks[1]?.embedding?.[0]).toBeCloseTo((0.25 + 0.25 + 1) / 3)
+		expect(chunks[1]?.embedding?.[1]).toBeCloseTo((1 + 1 + 0.25) / 3)
+	})
+
+	test('splits long documents into windows of whole chunks', async () => {
+		const windows: string[] = []
+		const embedding: EmbeddingProvider = {
+			name: 'tokens',
+			embed: async () => [0, 0],
+			embedTokens: async ({text}) => {
+				windows.push(text)
+				return wordTokens(text)
+			}
+		}
+
+		const chunker = createLateChunkerPlugin().createChunker({
+			chunkSize: 4,
+			chunkOverlap: 0,
+			maxContextTokens: 4
+		})
+		const chunks = await chunker('cat cat cat\n\ndog dog dog', {
+			chunkSize: 4,
+			chunkOverlap: 0,
+			minChunkSize: 1,
+			embedding
+		})
+
+		expect(windows).toEqual(['cat cat cat', 'dog dog dog'])
+		expect(chunks[1]?.embedding).toEqual([0.25, 1])
+	})
+
+	test('retries transient embedTokens failures', async () => {
+		let calls = 0
+		const embedding: EmbeddingProvider = {
+			name: 'tokens',
+			embed: async () => [0, 0],
+			embedTokens: async ({text}) => {
+				calls++
+				if (calls === 1) {
+					throw Object.assign(new Error('HTTP 503'), {
+						statusCode: 503
+					})
+				}
+				return wordTokens(text)
+			}
+		}
+
+		const chunks = await lateChunker('cat cat cat', {
+			chunkSize: 4,
+			chunkOverlap: 0,
+			minChunkSize: 1,
+			embedding,
+			embeddingProcessing: {
+				...defaultEmbeddingProcessingConfig,
+				retry: {
+					...defaultEmbeddingRetryConfig,
+					initialDelayMs: 1,
+					jitter: false
+				}
+			}
+		})
+
+		expect(calls).toBe(2)
+		expect(chunks[0]?.embedding).toEqual([1, 0.25])
+	})
+
+	test('returns plain chunks when the provider has no embedTokens', async () => {
+		const chunks = await lateChunker('cat cat cat\n\ndog dog dog', {
+			chunkSize: 4,
+			chunkOverlap: 0,
+			minChunkSize: 1,
+			embedding: {name: 'plain', embed: async () => [0, 0]}
+		})
+		expect(chunks).toHaveLength(2)
+		expect(chunks.every((c) => c.embedding === undefined)).toBe(true)
+	})
+})
+
+describe('ingest with precomputed chunk embeddings', () => {
+	test('stores chunker embeddings without calling the provider', async () => {
+		const embedded: string[] = []
+		let stored: Chunk[] = []
+		const config: ResolvedContextEngineConfig = {
+			embedding: {
+				name: 'p',
+				embed: async ({text}) => {
+					embedded.push(text)
+					return [9, 9]
+				}
+			},
+			embeddingProcessing: {concurrency: 1, batchSize: 8},
+			store: {
+				upsert: async (chunks) => {
+					stored = chunks
+					return {documentId: chunks[0]?.documentId ?? ''}
+				},
+				query: async () => [],
+				delete: async () => {}
+			},
+			defaults: {chunkSize: 200, chunkOverlap: 40},
+			chunker: (content, options) => {
+				expect(options.embedding?.name).toBe('p')
+				return String(content)
+					.split('|')
+					.map((part, index) => ({
+						index,
+						content: part,
+						tokenCount: 1,
+						...(index === 0 ? {embedding: [1, 2]} : {})
+					}))
+			},
+			idGenerator: () => crypto.randomUUID(),
+			extractors: [],
+			storage: {storeChunkContent: true, storeDocumentContent: true},
+			assetProcessing: defaultAssetProcessingConfig
+		}
+
+		await ingest(config, {sourceId: 'docs:late', content: 'a|b'})
+
+		expect(embedded).toEqual(['b'])
+		expect(stored.map((c) => c.embedding)).toEqual([
+			[1, 2],
+			[9, 9]
+		])
+	})
+})
@@ -121,7 +121,10 @@ describe('raw-sql store adapter', () => {
 		expect(deleteChunksIdx).toBeGreaterThan(upsertIdx)
 
 		// Verify the delete uses the canonical document id
-		expect(queries[deleteChunksIdx]?.values).toEqual([canonicalDocId])
+		expect(queries[deleteChunksIdx]?.values).toEqual([
+			canonicalDocId,
+			'default'
+		])
 
 		// Verify chunk insert uses the canonical document id
 		const insertChunkIdx = normalized.findIndex((t) =>
@@ -177,4 +180,52 @@ describe('raw-sql store adapter', () => {
 		expect(likeIdx).toBeGreaterThanOrEqual(0)
 		expect(queries[likeIdx]?.values).toEqual(['tenant:acme:%'])
 	})
+
+	test('points to the doctor migration when content_hash is missing', async () => {
+		let error: unknown = Object.assign(
+			new Error('column d.content_hash does not exist'),
+			{code: '42703'}
+		)
+		const fail = async () => {
+			throw error
+		}
+		const pool = {
+			query: fail,
+			connect: async () => ({query: fail, release: () => {}})
+		} as unknown as Pool
+
+		const store = createRawSqlVectorStore(pool)
+		const hint = 'run the migration printed by `unrag doctor --db`'
+		await expect(store.getDocumentState?.({sourceId: 'a'})).rejects.toThrow(
+			hint
+		)
+		await expect(
+			store.getChunkEmbeddings?.({sourceId: 'a', contentHashes: ['h']})
+		).rejects.toThrow(hint)
+		await expect(
+			store.upsert([
+				{
+					id: 'c1',
+					documentId: 'd1',
+					sourceId: 'a',
+					index: 0,
+					content: 'hello',
+					tokenCount: 1,
+					metadata: {},
+					documentContent: 'hello',
+					embedding: [1, 0]
+				}
+			])
+		).rejects.toThrow(hint)
+		await expect(store.query({embedding: [1, 0], topK: 1})).rejects.toThrow(
+			hint
+		)
+
+		error = Object.assign(new Error('connection refused'), {
+			code: 'ECONNREFUSED'
+		})
+		await expect(store.getDocumentState?.({sourceId: 'a'})).rejects.toThrow(
+			'connection refused'
+		)
+	})
 })
@@ -0,0 +1,143 @@
+import {describe, expect, test} from 'bun:test'
+import {resolveConfig} from '@registry/core/config'
+import {
+	createMemoryEmbeddingCache,
+	embeddingCacheKey,
+	withEmbeddingCache
+} from '@registry/core/embedding-cache'
+import type {EmbeddingInput, EmbeddingProvider} from '@registry/core/types'
+import {createRawSqlEmbeddingCache} from '@registry/store/raw-sql/embedding-cache'
+import type {Pool} from 'pg'
+
+const input = (text: string): EmbeddingInput => ({
+	text,
+	metadata: {},
+	position: 0,
+	sourceId: 'docs:a',
+	documentId: 'doc-a'
+})
+
+const createProvider = (
+	name: string,
+	calls: string[][]
+): EmbeddingProvider => ({
+	name,
+	embed: async ({text}) => {
+		calls.push([text])
+		return [text.length]
+	},
+	embedMany: async (inputs) => {
+		calls.push(inputs.map((i) => i.text))
+		return inputs.map((i) => [i.text.length])
+	}
+})
+
+describe('core embedding cache', () => {
+	test('embed only calls the provider on a miss', async () => {
+		const calls: string[][] = []
+		const provider = withEmbeddingCache(
+			createProvider('p', calls),
+			createMemoryEmbeddingCache()
+		)
+
+		expect(await provider.embed(input('hello'))).toEqual([5])
+		expect(await provider.embed(input('hello'))).toEqual([5])
+		expect(calls).toEqual([['hello']])
+	})
+
+	test('embedMany sends deduplicated misses and preserves order', async () => {
+		const calls: string[][] = []
+		const provider = withEmbeddingCache(
+			createProvider('p', calls),
+			createMemoryEmbeddingCache()
+		)
+
+		await provider.embed(input('a'))
+		const result = await provider.embedMany?.([
+			input('bb'),
+			input('a'),
+			input('bb'),
+			input('ccc')
+		])
+
+		expect(result).toEqual([[2], [1], [2], [3]])
+		expect(calls).toEqual([['a'], ['bb', 'ccc']])
+	})
+
+	test('keys include the provider name', async () => {
+		const cache = createMemoryEmbeddingCache()
+		const calls: string[][] = []
+		await withEmbeddingCache(createProvider('model-a', calls), cache).embed(
+			input('same')
+		)
+		await withEmbeddingCache(createProvider('model-b', calls), cache).embed(
+			input('same')
+		)
+
+		expect(calls).toEqual([['same'], ['same']])
+		expect(await embeddingCacheKey('model-a', 'same')).toStartWith(
+			'model-a:'
+		)
+	})
+
+	test('memory cache evicts the least recently used entry', async () => {
+		const cache = createMemoryEmbeddingCache({maxEntries: 2})
+		await cache.setMany([
+			{key: 'a', embedding: [1]},
+			{key: 'b', embedding: [2]}
+		])
+		// Touch "a" so "b" becomes the eviction candidate.
+		await cache.getMany(['a'])
+		await cache.setMany([{key: 'c', embedding: [3]}])
+
+		expect(await cache.getMany(['a', 'b', 'c'])).toEqual([
+			[1],
+			undefined,
+			[3]
+		])
+	})
+
+	test('resolveConfig wraps the provider when a cache is configured', async () => {
+		const calls: string[][] = []
+		const resolved = resolveConfig({
+			embedding: createProvider('p', calls),
+			store: {
+				upsert: async () => ({documentId: 'd'}),
+				query: async () => [],
+				delete: async () => {}
+			},
+			embeddingCache: createMemoryEmbeddingCache()
+		})
+
+		await resolved.embedding.embed(input('q'))
+		await resolved.embedding.embed(input('q'))
+		expect(resolved.embedding.name).toBe('p')
+		expect(calls).toHaveLength(1)
+	})
+})
+
+describe('raw-sql embedding cache', () => {
+	test('reads and writes the embedding_cache table', async () => {
+		const queries: Array<{text: string; values?: unknown[]}> = []
+		const pool = {
+			query: async (text: string, values?: unknown[]) => {
+				queries.push({text, values})
+				return {
+					rows: text.includes('select cache_key')
+						? [{cache_key: 'k2', embedding: '[0.5,1]'}]
+						: []
+				}
+			}
+		} as unknown as Pool
+
+		const cache = createRawSqlEmbeddingCache(pool)
+		expect(await cache.getMany(['k1', 'k2'])).toEqual([undefined, [0.5, 1]])
+		await cache.setMany([{key: 'k1', embedding: [1, 2]}])
+
+		expect(queries[0]?.values).toEqual([['k1', 'k2']])
+		expect(queries[1]?.text.replace(/\s+/g, ' ')).toContain(
+			'on conflict (cache_key) do nothing'
+		)
+		expect(queries[1]?.values).toEqual([['k1'], ['[1,2]']])
+	})
+})
@@ -0,0 +1,217 @@
+import {describe, expect, test} from 'bun:test'
+import {defaultAssetProcessingConfig} from '@registry/core/config'
+import {getDebugEmitter, resetDebugEmitter} from '@registry/core/debug-emitter'
+import type {DebugEvent} from '@registry/core/debug-events'
+import {
+	getRetryAfterMs,
+	isRetryableEmbeddingError,
+	withEmbeddingRetry
+} from '@registry/core/embedding-retry'
+import {ingest} from '@registry/core/ingest'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	EmbeddingProcessingConfig,
+	ResolvedContextEngineConfig
+} from '@registry/core/types'
+
+const httpError = (
+	statusCode: number,
+	responseHeaders: Record<string, string> = {}
+) =>
+	Object.assign(new Error(`HTTP ${statusCode}`), {
+		statusCode,
+		responseHeaders
+	})
+
+const processing: EmbeddingProcessingConfig = {
+	concurrency: 2,
+	batchSize: 2,
+	retry: {
+		maxAttempts: 3,
+		initialDelayMs: 1,
+		maxDelayMs: 5,
+		backoffMultiplier: 2,
+		jitter: false,
+		respectRetryAfter: true
+	}
+}
+
+const createConfig = (
+	embedding: ResolvedContextEngineConfig['embedding']
+): ResolvedContextEngineConfig => ({
+	embedding,
+	embeddingProcessing: processing,
+	store: {
+		upsert: async (chunks) => ({documentId: chunks[0]?.documentId ?? ''}),
+		query: async () => [],
+		delete: async () => {}
+	},
+	defaults: {chunkSize: 200, chunkOverlap: 40},
+	chunker: (content) =>
+		String(content ?? '')
+			.split('|')
+			.map((p, i) => ({index: i, content: p, tokenCount: 1})),
+	idGenerator: () => crypto.randomUUID(),
+	extractors: [],
+	storage: {storeChunkContent: true, storeDocumentContent: true},
+	assetProcessing: defaultAssetProcessingConfig
+})
+
+describe('core embedding retry', () => {
+	test('classifies rate limits, 5xx and network failures as retryable', () => {
+		expect(isRetryableEmbeddingError(httpError(429))).toBe(true)
+		expect(isRetryableEmbeddingError(httpError(503))).toBe(true)
+		expect(isRetryableEmbeddingError(httpError(400))).toBe(false)
+		expect(isRetryableEmbeddingError(httpError(401))).toBe(false)
+		expect(
+			isRetryableEmbeddingError(
+				Object.assign(new Error('socket hang up'), {code: 'ECONNRESET'})
+			)
+		).toBe(true)
+		// AI SDK RetryError wraps the last API error.
+		expect(
+			isRetryableEmbeddingError(
+				Object.assign(new Error('Failed after 3 attempts'), {
+					lastError: httpError(429)
+				})
+			)
+		).toBe(true)
+		expect(isRetryableEmbeddingError(new Error('boom'))).toBe(false)
+	})
+
+	test('reads Retry-After in seconds, milliseconds and from fetch responses', () => {
+		expect(getRetryAfterMs(httpError(429, {'Retry-After': '2'}))).toBe(2000)
+		expect(getRetryAfterMs(httpError(429, {'retry-after-ms': '150'}))).toBe(
+			150
+		)
+		const fetchStyle = Object.assign(new Error('rate limited'), {
+			response: {
+				status: 429,
+				headers: new Headers({'retry-after': '1'})
+			}
+		})
+		expect(getRetryAfterMs(fetchStyle)).toBe(1000)
+		expect(getRetryAfterMs(httpError(429))).toBeUndefined()
+	})
+
+	test('retries with backoff until success, honoring Retry-After', async () => {
+		const delays: number[] = []
+		let calls = 0
+		const result = await withEmbeddingRetry(
+			processing,
+			{operation: 'embed', onRetry: (r) => delays.push(r.delayMs)},
+			async () => {
+				calls++
+				if (calls === 1) {
+					throw httpError(500)
+				}
+				if (calls === 2) {
+					throw httpError(429, {'retry-after-ms': '4'})
+				}
+				return [1, 2]
+			}
+		)
+
+		expect(result).toEqual([1, 2])
+		expect(calls).toBe(3)
+		expect(delays).toEqual([1, 4])
+	})
+
+	test('fails fast when Retry-After exceeds maxDelayMs', async () => {
+		let calls = 0
+		await expect(
+			withEmbeddingRetry(processing, {operation: 'embed'}, async () => {
+				calls++
+				throw httpError(429, {'Retry-After': '60'})
+			})
+		).rejects.toThrow('HTTP 429')
+		expect(calls).toBe(1)
+	})
+
+	test('gives up after maxAttempts and does not retry client errors', async () => {
+		let calls = 0
+		await expect(
+			withEmbeddingRetry(processing, {operation: 'embed'}, async () => {
+				calls++
+				throw httpError(503)
+			})
+		).rejects.toThrow('HTTP 503')
+		expect(calls).toBe(3)
+
+		calls = 0
+		await expect(
+			withEmbeddingRetry(processing, {operation: 'embed'}, async () => {
+				calls++
+				throw httpError(400)
+			})
+		).rejects.toThrow('HTTP 400')
+		expect(calls).toBe(1)
+	})
+
+	test('ingest retries embedMany batches and emits retry debug events', async () => {
+		const previous = process.env.UNRAG_DEBUG
+		process.env.UNRAG_DEBUG = 'true'
+		resetDebugEmitter()
+		const events: DebugEvent[] = []
+		getDebugEmitter().onEvent((e) => events.push(e))
+		let calls = 0
+		const config = createConfig({
+			name: 'flaky',
+			embed: async () => [0],
+			embedMany: async (inputs) => {
+				calls++
+				if (calls === 1) {
+					throw httpError(429)
+				}
+				return inputs.map(() => [1])
+			}
+		})
+
+		try {
+			const result = await ingest(config, {
+				sourceId: 'docs:retry',
+				content: 'a|b'
+			})
+			expect(result.chunkCount).toBe(2)
+			expect(calls).toBe(2)
+		} finally {
+			resetDebugEmitter()
+			if (previous === undefined) {
+				Reflect.deleteProperty(process.env, 'UNRAG_DEBUG')
+			} else {
+				process.env.UNRAG_DEBUG = previous
+			}
+		}
+
+		const retries = events.filter(
+			(e) => e.type === 'ingest:embedding-retry'
+		)
+		expect(retries).toHaveLength(1)
+		expect(retries[0]).toMatchObject({
+			operation: 'embedMany',
+			attempt: 1,
+			maxAttempts: 3,
+			statusCode: 429,
+			embeddingProvider: 'flaky',
+			sourceId: 'docs:retry'
+		})
+	})
+
+	test('retrieve retries the query embedding', async () => {
+		let calls = 0
+		const config = createConfig({
+			name: 'flaky',
+			embed: async () => {
+				calls++
+				if (calls === 1) {
+					throw new TypeError('fetch failed')
+				}
+				return [0.5]
+			}
+		})
+
+		const result = await retrieve(config, {query: 'hello'})
+		expect(result.chunks).toEqual([])
+		expect(calls).toBe(2)
+	})
+})
@@ -0,0 +1,128 @@
+import {describe, expect, test} from 'bun:test'
+import {createContextEngine} from '@registry/core/context-engine'
+import type {Chunk} from '@registry/core/types'
+import {createHashEmbeddingProvider} from '@registry/embedding/hash'
+import {createMemoryVectorStore} from '@registry/store/memory/store'
+
+const createChunk = (index: number, content: string, embedding: number[]) =>
+	({
+		id: `kb:a#${index}`,
+		documentId: 'doc-a',
+		sourceId: 'kb:a',
+		index,
+		content,
+		tokenCount: 1,
+		metadata: {},
+		embedding,
+		documentContent: 'a'
+	}) satisfies Chunk
+
+describe('named indexes', () => {
+	test('engines with different models share a store through separate indexes', async () => {
+		const store = createMemoryVectorStore()
+		const small = createHashEmbeddingProvider({dimensions: 8})
+		const large = createHashEmbeddingProvider({dimensions: 16})
+		const current = createContextEngine({embedding: small, store})
+		const next = createContextEngine({embedding: large, store, index: 'v2'})
+
+		await current.ingest({sourceId: 'kb:a', content: 'reset your password'})
+		await next.ingest({sourceId: 'kb:a', content: 'reset your password'})
+
+		const engine = createContextEngine({
+			embedding: small,
+			store,
+			indexes: {v2: large}
+		})
+		const fromDefault = await engine.retrieve({query: 'password'})
+		const fromV2 = await engine.retrieve({query: 'password', index: 'v2'})
+
+		expect(fromDefault.embeddingModel).toBe('hash:8')
+		expect(fromV2.embeddingModel).toBe('hash:16')
+		expect(fromDefault.chunks.map((c) => c.sourceId)).toEqual(['kb:a'])
+		expect(fromV2.chunks.map((c) => c.sourceId)).toEqual(['kb:a'])
+
+		const {stats} = await store.inspector.storeStats()
+		expect(stats.totalVectors).toBe(2)
+	})
+
+	test('engines alternating on one store reuse their own embeddings', async () => {
+		const store = createMemoryVectorStore()
+		const current = createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 8}),
+			store
+		})
+		const next = createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 16}),
+			store,
+			index: 'v2'
+		})
+		const input = {sourceId: 'kb:a', content: 'reset your password'}
+
+		const first = [await current.ingest(input), await next.ingest(input)]
+		expect(first.map((r) => r.reusedEmbeddings)).toEqual([0, 0])
+
+		const second = [await current.ingest(input), await next.ingest(input)]
+		expect(second.map((r) => r.skipped)).toEqual([false, false])
+		expect(second.map((r) => r.reusedEmbeddings)).toEqual([1, 1])
+	})
+
+	test('a same-model engine still fills its own index', async () => {
+		const store = createMemoryVectorStore()
+		const embedding = createHashEmbeddingProvider({dimensions: 8})
+		const input = {sourceId: 'kb:a', content: 'reset your password'}
+
+		await createContextEngine({embedding, store}).ingest(input)
+		const result = await createContextEngine({
+			embedding,
+			store,
+			index: 'v2'
+		}).ingest(input)
+
+		expect(result.skipped).toBe(false)
+		expect(result.reusedEmbeddings).toBe(0)
+		const {stats} = await store.inspector.storeStats()
+		expect(stats.totalVectors).toBe(2)
+	})
+
+	test('retrieving from an unconfigured index throws', async () => {
+		const engine = createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 8}),
+			store: createMemoryVectorStore()
+		})
+
+		await expect(
+			engine.retrieve({query: 'password', index: 'v2'})
+		).rejects.toThrow('Unknown index "v2"')
+	})
+
+	test('re-upserting one index keeps vectors of unchanged chunks in others', async () => {
+		const store = createMemoryVectorStore()
+
+		await store.upsert([createChunk(0, 'kept', [1, 0])])
+		await store.upsert([createChunk(0, 'kept', [0, 1, 0])], {index: 'v2'})
+		await store.upsert([
+			createChunk(0, 'kept', [1, 0]),
+			createChunk(1, 'added', [0, 1])
+		])
+
+		const v2 = await store.query({
+			embedding: [0, 1, 0],
+			topK: 5,
+			index: 'v2'
+		})
+		expect(v2.map((c) => c.content)).toEqual(['kept'])
+
+		await store.upsert([createChunk(0, 'changed', [1, 0])])
+		expect(
+			await store.query({embedding: [0, 1, 0], topK: 5, index: 'v2'})
+		).toEqual([])
+	})
+
+	test('queries skip vectors of another dimension', async () => {
+		const store = createMemoryVectorStore()
+		await store.upsert([createChunk(0, 'two dims', [1, 0])])
+
+		expect(await store.query({embedding: [1, 0, 0], topK: 5})).toEqual([])
+		expect(await store.query({embedding: [1, 0], topK: 5})).toHaveLength(1)
+	})
+})
@@ -0,0 +1,207 @@
+import {describe, expect, test} from 'bun:test'
+import {nameChunker, resolveChunker} from '@registry/core/chunking'
+import {
+	defaultAssetProcessingConfig,
+	resolveConfig
+} from '@registry/core/config'
+import {ingest} from '@registry/core/ingest'
+import type {
+	Chunk,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+
+const pipeChunker: ResolvedContextEngineConfig['chunker'] = (content) =>
+	String(content ?? '')
+		.split('|')
+		.map((s) => s.trim())
+		.filter(Boolean)
+		.map((p, i) => ({index: i, content: p, tokenCount: 1}))
+
+/**
+ * In-memory store that records the last upserted chunks per sourceId.
+ */
+const createMemoryStore = () => {
+	const docs = new Map<string, Chunk[]>()
+	let upserts = 0
+	const store: VectorStore = {
+		upsert: async (chunks) => {
+			upserts++
+			const head = chunks[0]
+			const previous = head ? docs.get(head.sourceId) : undefined
+			const documentId =
+				previous?.[0]?.documentId ?? head?.documentId ?? ''
+			docs.set(
+				head?.sourceId ?? '',
+				chunks.map((c) => ({...c, documentId}))
+			)
+			return {documentId}
+		},
+		getDocumentState: async ({sourceId}) => {
+			const chunks = docs.get(sourceId)
+			if (!chunks?.[0]) {
+				return null
+			}
+			return {
+				documentId: chunks[0].documentId,
+				contentHash: chunks[0].documentContentHash ?? null,
+				chunkCount: chunks.length
+			}
+		},
+		getChunkEmbeddings: async ({sourceId, contentHashes}) =>
+			(docs.get(sourceId) ?? [])
+				.filter(
+					(c) =>
+						c.contentHash &&
+						c.embedding &&
+						contentHashes.includes(c.contentHash)
+				)
+				.map((c) => ({
+					contentHash: c.contentHash ?? '',
+					embedding: c.embedding ?? []
+				})),
+		query: async () => [],
+		delete: async () => {}
+	}
+	return {store, getUpserts: () => upserts}
+}
+
+const createConfig = (
+	store: VectorStore,
+	embedded: string[]
+): ResolvedContextEngineConfig => ({
+	embedding: {
+		name: 'test-embedding',
+		embed: async () => [0],
+		embedMany: async (inputs) => {
+			embedded.push(...inputs.map((i) => i.text))
+			return inputs.map((i) => [i.text.length])
+		}
+	},
+	embeddingProcessing: {concurrency: 1, batchSize: 8},
+	store,
+	defaults: {chunkSize: 200, chunkOverlap: 40},
+	chunker: pipeChunker,
+	idGenerator: () => crypto.randomUUID(),
+	extractors: [],
+	storage: {storeChunkContent: true, storeDocumentContent: true},
+	assetProcessing: defaultAssetProcessingConfig
+})
+
+describe('core ingest - incremental re-ingest', () => {
+	test('skips unchanged documents without chunking, embedding or writing', async () => {
+		const {store, getUpserts} = createMemoryStore()
+		const embedded: string[] = []
+		const config = createConfig(store, embedded)
+
+		const first = await ingest(config, {
+			sourceId: 'docs:a',
+			content: 'alpha|beta',
+			metadata: {lang: 'en'}
+		})
+		expect(first.skipped).toBe(false)
+		expect(first.reusedEmbeddings).toBe(0)
+		expect(embedded).toEqual(['alpha', 'beta'])
+
+		const second = await ingest(config, {
+			sourceId: 'docs:a',
+			content: 'alpha|beta',
+			metadata: {lang: 'en'}
+		})
+		expect(second.skipped).toBe(true)
+		expect(second.documentId).toBe(first.documentId)
+		expect(second.chunkCount).toBe(2)
+		expect(embedded).toEqual(['alpha', 'beta'])
+		expect(getUpserts()).toBe(1)
+	})
+
+	test('reuses embeddings for unchanged chunks when the document changes', async () => {
+		const {store, getUpserts} = createMemoryStore()
+		const embedded: string[] = []
+		const config = createConfig(store, embedded)
+
+		await ingest(config, {sourceId: 'docs:b', content: 'alpha|beta'})
+		embedded.length = 0
+
+		const result = await ingest(config, {
+			sourceId: 'docs:b',
+			content: 'alpha|gamma'
+		})
+
+		expect(result.skipped).toBe(false)
+		expect(result.reusedEmbeddings).toBe(1)
+		expect(embedded).toEqual(['gamma'])
+		expect(getUpserts()).toBe(2)
+	})
+
+	test('metadata changes and force re-run the pipeline', async () => {
+		const {store} = createMemoryStore()
+		const embedded: string[] = []
+		const config = createConfig(store, embedded)
+
+		await ingest(config, {
+			sourceId: 'docs:c',
+			content: 'alpha',
+			metadata: {v: 1}
+		})
+
+		const changed = await ingest(config, {
+			sourceId: 'docs:c',
+			content: 'alpha',
+			metadata: {v: 2}
+		})
+		expect(changed.skipped).toBe(false)
+		expect(changed.reusedEmbeddings).toBe(1)
+
+		const forced = await ingest(config, {
+			sourceId: 'docs:c',
+			content: 'alpha',
+			metadata: {v: 2},
+			force: true
+		})
+		expect(forced.skipped).toBe(false)
+		expect(forced.reusedEmbeddings).toBe(1)
+		expect(embedded).toEqual(['alpha'])
+	})
+
+	test('switching the chunking method re-chunks unchanged documents', async () => {
+		const {store, getUpserts} = createMemoryStore()
+		const embedded: string[] = []
+		const base = createConfig(store, embedded)
+		const input = {sourceId: 'docs:d', content: 'alpha beta gamma'}
+		const withMethod = (method: 'recursive' | 'token') =>
+			resolveConfig({
+				...base,
+				chunker: resolveChunker({method})
+			})
+
+		await ingest(withMethod('recursive'), input)
+		expect((await ingest(withMethod('recursive'), input)).skipped).toBe(
+			true
+		)
+
+		const switched = await ingest(withMethod('token'), input)
+		expect(switched.skipped).toBe(false)
+		expect(getUpserts()).toBe(2)
+	})
+
+	test('a per-input chunker with another name re-chunks', async () => {
+		const {store} = createMemoryStore()
+		const config = createConfig(store, [])
+		const input = {sourceId: 'docs:e', content: 'alpha|beta'}
+
+		await ingest(config, input)
+		const result = await ingest(config, {
+			...input,
+			chunker: nameChunker(
+				(content) =>
+					pipeChunker(content, {
+						chunkSize: 200,
+						chunkOverlap: 0
+					}),
+				'code'
+			)
+		})
+		expect(result.skipped).toBe(false)
+	})
+})
@@ -0,0 +1,204 @@
+import {describe, expect, test} from 'bun:test'
+import {defaultEmbeddingRetryConfig} from '@registry/core/config'
+import {createContextEngine} from '@registry/core/context-engine'
+import type {
+	Chunk,
+	EmbeddingInput,
+	EmbeddingProvider,
+	IngestManyProgress,
+	VectorStore
+} from '@registry/core/types'
+
+// Splits `a | b | c` into one chunk per part.
+const pipeChunker = (content: string) =>
+	content
+		.split('|')
+		.map((part) => part.trim())
+		.filter(Boolean)
+		.map((part, index) => ({
+			index,
+			content: part,
+			tokenCount: part.split(/\s+/).length
+		}))
+
+// Embeds `doc3 part1` as [3, 1] and fails any batch containing "bad".
+const createRecordingProvider = () => {
+	const calls: string[][] = []
+	const toEmbedding = (input: EmbeddingInput) =>
+		(input.text.match(/\d+/g) ?? []).map(Number)
+	const provider: EmbeddingProvider = {
+		name: 'recording',
+		dimensions: 2,
+		embed: async (input) => toEmbedding(input),
+		embedMany: async (inputs) => {
+			calls.push(inputs.map((i) => i.text))
+			if (inputs.some((i) => i.text.includes('bad'))) {
+				throw new Error('provider rejected input')
+			}
+			return inputs.map(toEmbedding)
+		}
+	}
+	return {provider, calls}
+}
+
+const createRecordingStore = () => {
+	const upserts: Chunk[][] = []
+	const store: VectorStore = {
+		upsert: async (chunks) => {
+			upserts.push(chunks)
+			return {documentId: chunks[0]?.documentId ?? 'doc'}
+		},
+		query: async () => [],
+		delete: async () => {}
+	}
+	return {store, upserts}
+}
+
+const doc = (n: number) => ({
+	sourceId: `kb:doc${n}`,
+	content: `doc${n} part0 | doc${n} part1 | doc${n} part2`
+})
+
+describe('ingestMany', () => {
+	test('fills embedMany batches across documents', async () => {
+		const {provider, calls} = createRecordingProvider()
+		const {store, upserts} = createRecordingStore()
+		const engine = createContextEngine({
+			embedding: provider,
+			store,
+			chunker: pipeChunker,
+			embeddingProcessing: {batchSize: 8, concurrency: 2}
+		})
+
+		const docs = [1, 2, 3, 4, 5, 6].map((n) => doc(n))
+		const report = await engine.ingestMany(docs, {concurrency: 6})
+
+		// 18 chunks from 6 documents: one ingest() per document would have made
+		// six calls of 3.
+		expect(calls.map((c) => c.length)).toEqual([8, 8, 2])
+		expect(report).toMatchObject({
+			succeeded: 6,
+			failed: 0,
+			cancelled: 0,
+			aborted: false
+		})
+		expect(
+			report.items.map((i) => [i.index, i.sourceId, i.status])
+		).toEqual(docs.map((d, index) => [index, d.sourceId, 'succeeded']))
+
+		// Every chunk got the embedding of its own text back.
+		const chunks = upserts.flat()
+		expect(chunks).toHaveLength(18)
+		for (const chunk of chunks) {
+			const [n, p] = chunk.content.match(/\d+/g) ?? []
+			expect(chunk.sourceId).toBe(`kb:doc${n}`)
+			expect(chunk.embedding).toEqual([Number(n), Number(p)])
+		}
+	})
+
+	test('continues past failures and isolates the failing document', async () => {
+		const {provider} = createRecordingProvider()
+		const {store, upserts} = createRecordingStore()
+		const engine = createContextEngine({
+			embedding: provider,
+			store,
+			chunker: pipeChunker,
+			embeddingProcessing: {batchSize: 16}
+		})
+		const progress: IngestManyProgress[] = []
+
+		const report = await engine.ingestMany(
+			[doc(1), {sourceId: 'kb:bad', content: 'bad input'}, doc(2)],
+			{onProgress: (event) => progress.push(event)}
+		)
+
+		expect(report).toMatchObject({succeeded: 2, failed: 1, aborted: false})
+		const failed = report.items[1]
+		expect(failed?.status).toBe('failed')
+		if (failed?.status === 'failed') {
+			expect(failed.error.message).toBe('provider rejected input')
+		}
+		expect(upserts.map((chunks) => chunks[0]?.sourceId).sort()).toEqual([
+			'kb:doc1',
+			'kb:doc2'
+		])
+
+		expect(progress).toHaveLength(3)
+		expect(progress.at(-1)).toMatchObject({
+			completed: 3,
+			succeeded: 2,
+			failed: 1,
+			total: 3
+		})
+	})
+
+	test('retries a rate-limited shared batch instead of splitting it', async () => {
+		const {provider, calls} = createRecordingProvider()
+		const embedMany = provider.embedMany
+		let rateLimited = false
+		provider.embedMany = async (inputs) => {
+			if (!rateLimited) {
+				rateLimited = true
+				calls.push(inputs.map((i) => i.text))
+				throw Object.assign(new Error('rate limited'), {
+					statusCode: 429
+				})
+			}
+			return (await embedMany?.(inputs)) ?? []
+		}
+		const {store} = createRecordingStore()
+		const engine = createContextEngine({
+			embedding: provider,
+			store,
+			chunker: pipeChunker,
+			embeddingProcessing: {
+				batchSize: 16,
+				retry: {
+					...defaultEmbeddingRetryConfig,
+					initialDelayMs: 1,
+					jitter: false
+				}
+			}
+		})
+
+		const report = await engine.ingestMany([doc(1), doc(2), doc(3)])
+
+		expect(report).toMatchObject({succeeded: 3, failed: 0})
+		// Every document backs off and retries; the retries share a batch again.
+		expect(calls.map((c) => c.length)).toEqual([9, 9])
+	})
+
+	test('abort stops starting new documents', async () => {
+		const {provider} = createRecordingProvider()
+		const {store, upserts} = createRecordingStore()
+		const engine = createContextEngine({
+			embedding: provider,
+			store,
+			chunker: pipeChunker
+		})
+
+		const report = await engine.ingestMany(
+			[
+				doc(1),
+				{sourceId: 'kb:bad', content: 'bad input'},
+				doc(2),
+				doc(3)
+			],
+			{concurrency: 1, onError: 'abort'}
+		)
+
+		expect(report).toMatchObject({
+			succeeded: 1,
+			failed: 1,
+			cancelled: 2,
+			aborted: true
+		})
+		expect(report.items.map((i) => i.status)).toEqual([
+			'succeeded',
+			'failed',
+			'cancelled',
+			'cancelled'
+		])
+		expect(upserts).toHaveLength(1)
+	})
+})
@@ -0,0 +1,223 @@
+import {describe, expect, test} from 'bun:test'
+import {
+	isChunkContentStorageDisabled,
+	parseReindexRunnerEvent
+} from '@cli/lib/reindex'
+import {createContextEngine} from '@registry/core/context-engine'
+import type {EmbeddingProvider, ReindexProgress} from '@registry/core/types'
+import {createHashEmbeddingProvider} from '@registry/embedding/hash'
+import {createMemoryVectorStore} from '@registry/store/memory/store'
+
+const passwordDoc = {
+	sourceId: 'kb:a',
+	content: 'reset your password from the settings page'
+}
+const invoiceDoc = {
+	sourceId: 'kb:b',
+	content: 'invoices are emailed on the first of the month'
+}
+const docs = [
+	passwordDoc,
+	invoiceDoc,
+	{sourceId: 'kb:c', content: 'export your data as a zip archive'}
+]
+
+// Counts every text sent to the wrapped provider; fails once `failAfter` is hit.
+const countingProvider = (
+	provider: EmbeddingProvider,
+	failAfter = Number.POSITIVE_INFINITY
+) => {
+	const texts: string[] = []
+	const counted: EmbeddingProvider = {
+		...provider,
+		embed: async (input) => {
+			if (texts.length >= failAfter) {
+				throw new Error('provider unavailable')
+			}
+			texts.push(input.text)
+			return provider.embed(input)
+		},
+		embedMany: undefined
+	}
+	return {provider: counted, texts}
+}
+
+describe('reindex', () => {
+	test('re-embeds stored chunks with the current provider and swaps vectors', async () => {
+		const store = createMemoryVectorStore()
+		const small = createHashEmbeddingProvider({dimensions: 8})
+		const large = createHashEmbeddingProvider({dimensions: 16})
+		await createContextEngine({embedding: small, store}).ingestMany(docs)
+
+		const engine = createContextEngine({embedding: large, store})
+		expect(
+			(await engine.retrieve({query: 'password'})).chunks
+		).toHaveLength(0)
+
+		const progress: ReindexProgress[] = []
+		const result = await engine.reindex({
+			batchSize: 2,
+			onProgress: (p) => progress.push(p)
+		})
+
+		expect(result).toMatchObject({
+			index: 'default',
+			embeddingModel: 'hash:16',
+			reembedded: 3,
+			skipped: 0,
+			swapped: 3
+		})
+		expect(progress).toEqual([
+			{reembedded: 2, skipped: 0},
+			{reembedded: 3, skipped: 0}
+		])
+
+		const retrieved = await engine.retrieve({query: 'password'})
+		expect(retrieved.chunks[0]?.sourceId).toBe('kb:a')
+		expect(retrieved.chunks).toHaveLength(3)
+
+		const {stats} = await store.inspector.storeStats()
+		expect(stats.totalVectors).toBe(3)
+	})
+
+	test('a later ingest of unchanged content reuses the re-embedded vectors', async () => {
+		const store = createMemoryVectorStore()
+		await createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 8}),
+			store
+		}).ingestMany(docs)
+
+		const {provider, texts} = countingProvider(
+			createHashEmbeddingProvider({dimensions: 16})
+		)
+		const engine = createContextEngine({embedding: provider, store})
+		await engine.reindex()
+		expect(texts).toHaveLength(3)
+
+		const ingested = await engine.ingest(passwordDoc)
+		expect(ingested.reusedEmbeddings).toBe(1)
+		expect(texts).toHaveLength(3)
+	})
+
+	test('reindexing a named index keeps embedding reuse in the default index', async () => {
+		const store = createMemoryVectorStore()
+		const {provider, texts} = countingProvider(
+			createHashEmbeddingProvider({dimensions: 8})
+		)
+		const current = createContextEngine({embedding: provider, store})
+		await current.ingestMany(docs)
+		expect(texts).toHaveLength(3)
+
+		await createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 16}),
+			store,
+			index: 'v2'
+		}).reindex()
+
+		const ingested = await current.ingest({...passwordDoc, force: true})
+		expect(ingested.reusedEmbeddings).toBe(1)
+		expect(texts).toHaveLength(3)
+	})
+
+	test('an interrupted run resumes without re-embedding finished chunks', async () => {
+		const store = createMemoryVectorStore()
+		await createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 8}),
+			store
+		}).ingestMany(docs)
+		const large = createHashEmbeddingProvider({dimensions: 16})
+
+		const failing = countingProvider(large, 1)
+		await expect(
+			createContextEngine({
+				embedding: failing.provider,
+				store
+			}).reindex({batchSize: 1})
+		).rejects.toThrow('provider unavailable')
+		expect(failing.texts).toHaveLength(1)
+
+		// Nothing was swapped: the live index still answers with the old model.
+		const old = await createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 8}),
+			store
+		}).retrieve({query: 'password'})
+		expect(old.chunks).toHaveLength(3)
+
+		const resumed = countingProvider(large)
+		const result = await createContextEngine({
+			embedding: resumed.provider,
+			store
+		}).reindex({batchSize: 1})
+
+		expect(resumed.texts).toHaveLength(2)
+		expect(result).toMatchObject({reembedded: 2, swapped: 3})
+	})
+
+	test('reports chunks without stored text and leaves their vectors alone', async () => {
+		const store = createMemoryVectorStore()
+		await store.upsert([
+			{
+				id: 'kb:img#0',
+				documentId: 'doc-img',
+				sourceId: 'kb:img',
+				index: 0,
+				content: '',
+				tokenCount: 0,
+				metadata: {extractor: 'image:embed'},
+				embedding: [1, 0],
+				documentContent: ''
+			}
+		])
+		const engine = createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 16}),
+			store
+		})
+		await engine.ingest(invoiceDoc)
+
+		const result = await engine.reindex()
+
+		expect(result).toMatchObject({
+			reembedded: 1,
+			skipped: 1,
+			skippedSourceIds: ['kb:img']
+		})
+		expect(await store.query({embedding: [1, 0], topK: 5})).toHaveLength(1)
+	})
+
+	test('refuses when chunk content is not stored', async () => {
+		const engine = createContextEngine({
+			embedding: createHashEmbeddingProvider({dimensions: 8}),
+			store: createMemoryVectorStore(),
+			storage: {storeChunkContent: false}
+		})
+
+		await expect(engine.reindex()).rejects.toThrow(
+			'storage.storeChunkContent is disabled'
+		)
+	})
+})
+
+describe('reindex CLI helpers', () => {
+	test('detects storeChunkContent: false in a generated config', () => {
+		expect(
+			isChunkContentStorageDisabled(
+				'storage: {\n  storeChunkContent: false, // __UNRAG_STORAGE_storeChunkContent__'
+			)
+		).toBe(true)
+		expect(
+			isChunkContentStorageDisabled(
+				'storage: {\n  storeChunkContent: true, // __UNRAG_STORAGE_storeChunkContent__'
+			)
+		).toBe(false)
+	})
+
+	test('parses runner events and ignores other output', () => {
+		expect(
+			parseReindexRunnerEvent(
+				'{"type":"progress","reembedded":4,"skipped":0}'
+			)
+		).toEqual({type: 'progress', reembedded: 4, skipped: 0})
+		expect(parseReindexRunnerEvent('[db] connected')).toBeNull()
+		expect(parseReindexRunnerEvent('{"level":"info"}')).toBeNull()
+	})
+})
@@ -0,0 +1,187 @@
+import {describe, expect, test} from 'bun:test'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	Chunk,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {Pool} from 'pg'
+
+const createHit = (
+	id: string,
+	sourceId: string,
+	score: number,
+	embedding: number[]
+): Chunk & {score: number} => ({
+	id,
+	documentId: `doc-${sourceId}`,
+	sourceId,
+	index: 0,
+	content: id,
+	tokenCount: 1,
+	metadata: {},
+	embedding,
+	score
+})
+
+// Vector distances, best first: four near-duplicates from one source, then two others.
+const candidates = [
+	createHit('faq-1', 'faq', 0.1, [1, 0, 0]),
+	createHit('faq-2', 'faq', 0.11, [0.99, 0.01, 0]),
+	createHit('faq-3', 'faq', 0.12, [0.98, 0.02, 0]),
+	createHit('faq-4', 'faq', 0.13, [0.97, 0.03, 0]),
+	createHit('guide-1', 'guide', 0.2, [0, 1, 0]),
+	createHit('blog-1', 'blog', 0.3, [0, 0, 1])
+]
+
+const createStore = (
+	calls: Array<{topK: number; includeEmbeddings?: boolean}>,
+	withEmbeddings = true
+): VectorStore => ({
+	upsert: async () => ({documentId: 'doc'}),
+	query: async ({topK, includeEmbeddings}) => {
+		calls.push({topK, includeEmbeddings})
+		return candidates
+			.slice(0, topK)
+			.map(({embedding, ...chunk}) =>
+				includeEmbeddings && withEmbeddings
+					? {...chunk, embedding}
+					: chunk
+			)
+	},
+	delete: async () => {}
+})
+
+const createConfig = (store: VectorStore): ResolvedContextEngineConfig =>
+	({
+		embedding: {
+			name: 'test-embed',
+			embed: async () => [1, 0, 0]
+		},
+		store,
+		defaults: {chunkSize: 200, chunkOverlap: 40},
+		chunker: () => [],
+		idGenerator: () => crypto.randomUUID(),
+		extractors: [],
+		storage: {storeChunkContent: true, storeDocumentContent: true},
+		assetProcessing:
+			{} as unknown as ResolvedContextEngineConfig['assetProcessing'],
+		embeddingProcessing: {concurrency: 4, batchSize: 32}
+	}) as ResolvedContextEngineConfig
+
+describe('core retrieve - diversity (MMR)', () => {
+	test('skips near-duplicates in favor of other sources', async () => {
+		const calls: Array<{topK: number; includeEmbeddings?: boolean}> = []
+		const config = createConfig(createStore(calls))
+
+		const plain = await retrieve(config, {query: 'q', topK: 3})
+		expect(plain.chunks.map((c) => c.id)).toEqual([
+			'faq-1',
+			'faq-2',
+			'faq-3'
+		])
+
+		const diverse = await retrieve(config, {
+			query: 'q',
+			topK: 3,
+			diversity: {lambda: 0.5}
+		})
+		expect(calls.at(-1)).toEqual({topK: 12, includeEmbeddings: true})
+		expect(diverse.chunks.map((c) => c.id)).toEqual([
+			'faq-1',
+			'guide-1',
+			'blog-1'
+		])
+		// Original distances are kept and embeddings are not returned.
+		expect(diverse.chunks[1]?.score).toBe(0.2)
+		expect(diverse.chunks.every((c) => c.embedding === undefined)).toBe(
+			true
+		)
+	})
+
+	test('lambda 1 keeps relevance order; maxPerSource caps each source', async () => {
+		const calls: Array<{topK: number; includeEmbeddings?: boolean}> = []
+		const config = createConfig(createStore(calls))
+
+		const relevance = await retrieve(config, {
+			query: 'q',
+			topK: 3,
+			diversity: {lambda: 1, fetchK: 5}
+		})
+		expect(calls.at(-1)?.topK).toBe(5)
+		expect(relevance.chunks.map((c) => c.id)).toEqual([
+			'faq-1',
+			'faq-2',
+			'faq-3'
+		])
+
+		const capped = await retrieve(config, {
+			query: 'q',
+			topK: 4,
+			diversity: {lambda: 1, maxPerSource: 2}
+		})
+		expect(capped.chunks.map((c) => c.id)).toEqual([
+			'faq-1',
+			'faq-2',
+			'guide-1',
+			'blog-1'
+		])
+	})
+
+	test('requires candidate embeddings from the store', async () => {
+		const config = createConfig(createStore([], false))
+		await expect(
+			retrieve(config, {query: 'q', diversity: {}})
+		).rejects.toThrow('returns chunk embeddings')
+	})
+})
+
+describe('raw-sql store - includeEmbeddings', () => {
+	test('selects and parses stored embeddings', async () => {
+		const queries: Array<{text: string; values?: unknown[]}> = []
+		const pool = {
+			query: async (text: string, values?: unknown[]) => {
+				queries.push({text, values})
+				return {
+					rows: [
+						{
+							id: 'c1',
+							document_id: 'd1',
+							source_id: 's1',
+							idx: 0,
+							content: 'text',
+							token_count: 1,
+							metadata: null,
+							embedding: text.includes('as embedding')
+								? '[0.5,0.25]'
+								: undefined,
+							score: 0.1
+						}
+					]
+				}
+			}
+		} as unknown as Pool
+
+		const store = createRawSqlVectorStore(pool)
+		const [withEmbedding] = await store.query({
+			embedding: [1, 0],
+			topK: 1,
+			includeEmbeddings: true
+		})
+		expect(withEmbedding?.embedding).toEqual([0.5, 0.25])
+
+		const [plain] = await store.query({embedding: [1, 0], topK: 1})
+		expect(plain).not.toHaveProperty('embedding')
+		expect(queries[1]?.text).not.toContain('as embedding')
+
+		await store.queryKeyword?.({
+			query: 'text',
+			topK: 1,
+			includeEmbeddings: true
+		})
+		expect(queries[2]?.text).toContain(
+			'left join embeddings as e on e.chunk_id = c.id'
+		)
+	})
+})
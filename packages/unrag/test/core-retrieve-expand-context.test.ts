@@ -0,0 +1,271 @@
+import {describe, expect, test} from 'bun:test'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	Chunk,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {Pool} from 'pg'
+
+const createChunk = (documentId: string, index: number): Chunk => ({
+	id: `${documentId}-${index}`,
+	documentId,
+	sourceId: `source-${documentId}`,
+	index,
+	content: `${documentId}#${index}`,
+	tokenCount: 1,
+	metadata: {}
+})
+
+type NeighborsParams = Parameters<NonNullable<VectorStore['getNeighbors']>>[0]
+
+// Two documents with ten chunks each.
+const stored = ['a', 'b'].flatMap((doc) =>
+	Array.from({length: 10}, (_, i) => createChunk(doc, i))
+)
+
+/**
+ * Creates an in-memory store whose vector query returns fixed hits (best first).
+ */
+const createStore = (
+	hits: [string, number][],
+	calls: NeighborsParams[]
+): VectorStore => ({
+	upsert: async () => ({documentId: 'doc'}),
+	query: async () =>
+		hits.map(([doc, index], rank) => ({
+			...createChunk(doc, index),
+			score: 0.1 * (rank + 1)
+		})),
+	getNeighbors: async (params) => {
+		calls.push(params)
+		return stored.filter((c) =>
+			params.anchors.some(
+				(a) =>
+					a.documentId === c.documentId &&
+					c.index >= a.index - params.before &&
+					c.index <= a.index + params.after
+			)
+		)
+	},
+	delete: async () => {}
+})
+
+const createConfig = (store: VectorStore): ResolvedContextEngineConfig =>
+	({
+		embedding: {
+			name: 'test-embed',
+			embed: async () => [0.1, 0.2]
+		},
+		store,
+		defaults: {chunkSize: 200, chunkOverlap: 40},
+		chunker: () => [],
+		idGenerator: () => crypto.randomUUID(),
+		extractors: [],
+		storage: {storeChunkContent: true, storeDocumentContent: true},
+		assetProcessing:
+			{} as unknown as ResolvedContextEngineConfig['assetProcessing'],
+		embeddingProcessing: {concurrency: 4, batchSize: 32}
+	}) as ResolvedContextEngineConfig
+
+describe('core retrieve - context expansion', () => {
+	test('merges overlapping windows of the same document into one passage', async () => {
+		const calls: NeighborsParams[] = []
+		const store = createStore(
+			[
+				['a', 5],
+				['b', 0],
+				['a', 3]
+			],
+			calls
+		)
+
+		const result = await retrieve(createConfig(store), {
+			query: 'q',
+			expandContext: {before: 1, after: 1}
+		})
+
+		expect(calls).toEqual([
+			{
+				anchors: [
+					{documentId: 'a', index: 5},
+					{documentId: 'b', index: 0},
+					{documentId: 'a', index: 3}
+				],
+				before: 1,
+				after: 1
+			}
+		])
+		expect(result.chunks).toHaveLength(3)
+		expect(
+			result.passages?.map((p) => ({
+				documentId: p.documentId,
+				chunkRange: p.chunkRange,
+				hitIds: p.hitIds,
+				score: p.score
+			}))
+		).toEqual([
+			{
+				documentId: 'a',
+				chunkRange: {from: 2, to: 6},
+				hitIds: ['a-5', 'a-3'],
+				score: 0.1
+			},
+			{
+				documentId: 'b',
+				chunkRange: {from: 0, to: 1},
+				hitIds: ['b-0'],
+				score: 0.2
+			}
+		])
+		expect(result.passages?.[0]?.content).toBe(
+			['a#2', 'a#3', 'a#4', 'a#5', 'a#6'].join('\n\n')
+		)
+	})
+
+	test('merges windows that only overlap after an earlier merge', async () => {
+		const store = createStore(
+			[
+				['a', 0],
+				['a', 9],
+				['a', 5]
+			],
+			[]
+		)
+
+		const result = await retrieve(createConfig(store), {
+			query: 'q',
+			expandContext: {before: 3, after: 3}
+		})
+
+		expect(
+			result.passages?.map((p) => ({
+				chunkRange: p.chunkRange,
+				chunkCount: p.chunks.length,
+				hitIds: p.hitIds
+			}))
+		).toEqual([
+			{
+				chunkRange: {from: 0, to: 9},
+				chunkCount: 10,
+				hitIds: ['a-0', 'a-9', 'a-5']
+			}
+		])
+	})
+
+	test('cuts chunk overlap from passage content using char spans', async () => {
+		const source = 'alpha beta gamma delta'
+		const spans: [number, number][] = [
+			[0, 10],
+			[6, 16],
+			[17, 22]
+		]
+		const chunks = spans.map(([charStart, charEnd], index) => ({
+			...createChunk('a', index),
+			content: source.slice(charStart, charEnd),
+			metadata: {charStart, charEnd}
+		}))
+		const store: VectorStore = {
+			upsert: async () => ({documentId: 'doc'}),
+			query: async () => [
+				{...chunks[1], score: 0.1} as Chunk & {score: number}
+			],
+			getNeighbors: async () => chunks,
+			delete: async () => {}
+		}
+
+		const result = await retrieve(createConfig(store), {
+			query: 'q',
+			expandContext: {before: 1, after: 1}
+		})
+
+		expect(result.passages?.[0]?.content).toBe('alpha beta gamma\n\ndelta')
+	})
+
+	test('keeps one passage per hit when mergeAdjacent is false', async () => {
+		const store = createStore(
+			[
+				['a', 5],
+				['a', 6]
+			],
+			[]
+		)
+
+		const result = await retrieve(createConfig(store), {
+			query: 'q',
+			expandContext: {before: 0, after: 2, mergeAdjacent: false}
+		})
+
+		expect(result.passages?.map((p) => p.chunkRange)).toEqual([
+			{from: 5, to: 7},
+			{from: 6, to: 8}
+		])
+	})
+
+	test('omits passages unless requested and requires getNeighbors', async () => {
+		const store = createStore([['a', 1]], [])
+		const plain = await retrieve(createConfig(store), {query: 'q'})
+		expect(plain.passages).toBeUndefined()
+
+		const {getNeighbors: _getNeighbors, ...withoutNeighbors} = store
+		await expect(
+			retrieve(createConfig(withoutNeighbors), {
+				query: 'q',
+				expandContext: {}
+			})
+		).rejects.toThrow('getNeighbors')
+	})
+})
+
+describe('raw-sql store - chunk lookups', () => {
+	test('getNeighbors queries index windows per anchor', async () => {
+		const queries: Array<{text: string; values?: unknown[]}> = []
+		const pool = {
+			query: async (text: string, values?: unknown[]) => {
+				queries.push({text, values})
+				return {
+					rows: [
+						{
+							id: 'c1',
+							document_id: 'd1',
+							source_id: 's1',
+							idx: 4,
+							content: 'text',
+							token_count: 1,
+							metadata: null
+						}
+					]
+				}
+			}
+		} as unknown as Pool
+
+		const store = createRawSqlVectorStore(pool)
+		const neighbors = await store.getNeighbors?.({
+			anchors: [
+				{documentId: 'd1', index: 5},
+				{documentId: 'd2', index: 0}
+			],
+			before: 1,
+			after: 2
+		})
+
+		expect(neighbors).toEqual([
+			{
+				id: 'c1',
+				documentId: 'd1',
+				sourceId: 's1',
+				index: 4,
+				content: 'text',
+				tokenCount: 1,
+				metadata: {}
+			}
+		])
+		expect(queries[0]?.text.replace(/\s+/g, ' ')).toContain(
+			'c.idx between a.idx - $3 and a.idx + $4'
+		)
+		expect(queries[0]?.values).toEqual([['d1', 'd2'], [5, 0], 1, 2])
+		expect(await store.getChunks?.({ids: []})).toEqual([])
+		expect(queries).toHaveLength(1)
+	})
+})
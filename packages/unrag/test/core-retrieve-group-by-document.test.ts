@@ -0,0 +1,154 @@
+import {describe, expect, test} from 'bun:test'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	Chunk,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+
+const createHit = (
+	documentId: string,
+	index: number,
+	score: number
+): Chunk & {score: number} => ({
+	id: `${documentId}-${index}`,
+	documentId,
+	sourceId: `tickets:${documentId}`,
+	index,
+	content: `${documentId}#${index}`,
+	tokenCount: 1,
+	metadata: {},
+	score
+})
+
+// Vector distances, best first: "a" has the single best hit, "b" has many good ones.
+const hits = [
+	createHit('a', 0, 0.1),
+	createHit('b', 0, 0.2),
+	createHit('b', 1, 0.25),
+	createHit('b', 2, 0.3),
+	createHit('c', 0, 0.6)
+]
+
+const createStore = (calls: {topK: number[]; documentIds: string[][]}) =>
+	({
+		upsert: async () => ({documentId: 'doc'}),
+		query: async ({topK}) => {
+			calls.topK.push(topK)
+			return hits.slice(0, topK)
+		},
+		getDocuments: async ({ids}) => {
+			calls.documentIds.push(ids)
+			return ids.map((id) => ({
+				documentId: id,
+				sourceId: `tickets:${id}`,
+				content: `full text of ${id}`,
+				metadata: {status: 'open'}
+			}))
+		},
+		delete: async () => {}
+	}) satisfies VectorStore
+
+const createConfig = (
+	store: VectorStore,
+	storeDocumentContent = true
+): ResolvedContextEngineConfig =>
+	({
+		embedding: {
+			name: 'test-embed',
+			embed: async () => [0.1, 0.2]
+		},
+		store,
+		defaults: {chunkSize: 200, chunkOverlap: 40},
+		chunker: () => [],
+		idGenerator: () => crypto.randomUUID(),
+		extractors: [],
+		storage: {storeChunkContent: true, storeDocumentContent},
+		assetProcessing:
+			{} as unknown as ResolvedContextEngineConfig['assetProcessing'],
+		embeddingProcessing: {concurrency: 4, batchSize: 32}
+	}) as ResolvedContextEngineConfig
+
+describe('core retrieve - groupBy document', () => {
+	test('ranks documents by best hit and returns stored content', async () => {
+		const calls = {topK: [] as number[], documentIds: [] as string[][]}
+		const result = await retrieve(createConfig(createStore(calls)), {
+			query: 'q',
+			topK: 2,
+			groupBy: 'document'
+		})
+
+		expect(calls.topK).toEqual([8])
+		expect(calls.documentIds).toEqual([['a', 'b']])
+		expect(
+			result.documents?.map((d) => ({
+				documentId: d.documentId,
+				score: d.score,
+				hits: d.hits.map((h) => h.id),
+				content: d.content,
+				metadata: d.metadata
+			}))
+		).toEqual([
+			{
+				documentId: 'a',
+				score: 0.9,
+				hits: ['a-0'],
+				content: 'full text of a',
+				metadata: {status: 'open'}
+			},
+			{
+				documentId: 'b',
+				score: 0.8,
+				hits: ['b-0', 'b-1', 'b-2'],
+				content: 'full text of b',
+				metadata: {status: 'open'}
+			}
+		])
+		// Only hits of returned documents are kept in `chunks`.
+		expect(result.chunks.map((c) => c.id)).toEqual([
+			'a-0',
+			'b-0',
+			'b-1',
+			'b-2'
+		])
+	})
+
+	test('sum and mean aggregations', async () => {
+		const calls = {topK: [] as number[], documentIds: [] as string[][]}
+		const config = createConfig(createStore(calls))
+
+		const sum = await retrieve(config, {
+			query: 'q',
+			topK: 3,
+			groupBy: 'document',
+			documents: {aggregate: 'sum'}
+		})
+		expect(sum.documents?.map((d) => d.documentId)).toEqual(['b', 'a', 'c'])
+		expect(sum.documents?.[0]?.score).toBeCloseTo(0.8 + 0.75 + 0.7)
+
+		const mean = await retrieve(config, {
+			query: 'q',
+			topK: 3,
+			groupBy: 'document',
+			documents: {aggregate: 'mean', candidateK: 4}
+		})
+		expect(calls.topK.at(-1)).toBe(4)
+		expect(mean.documents?.map((d) => d.documentId)).toEqual(['a', 'b'])
+		expect(mean.documents?.[1]?.score).toBeCloseTo((0.8 + 0.75 + 0.7) / 3)
+	})
+
+	test('returns only identifiers when document content is not stored', async () => {
+		const calls = {topK: [] as number[], documentIds: [] as string[][]}
+		const result = await retrieve(createConfig(createStore(calls), false), {
+			query: 'q',
+			topK: 1,
+			groupBy: 'document'
+		})
+
+		expect(calls.documentIds).toEqual([])
+		expect(result.documents).toHaveLength(1)
+		expect(result.documents?.[0]).not.toHaveProperty('content')
+		expect(result.documents?.[0]).not.toHaveProperty('metadata')
+		expect(result.documents?.[0]?.sourceId).toBe('tickets:a')
+	})
+})
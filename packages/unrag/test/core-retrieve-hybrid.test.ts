@@ -0,0 +1,194 @@
+import {describe, expect, test} from 'bun:test'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	Chunk,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {Pool} from 'pg'
+
+const createChunk = (id: string, score: number): Chunk & {score: number} => ({
+	id,
+	documentId: `doc-${id}`,
+	sourceId: `source-${id}`,
+	index: 0,
+	content: `content ${id}`,
+	tokenCount: 2,
+	metadata: {},
+	score
+})
+
+/**
+ * Creates a fake store with fixed vector (distance) and keyword (relevance) results.
+ */
+const createStore = (opts: {
+	vector: Array<Chunk & {score: number}>
+	keyword?: Array<Chunk & {score: number}>
+	calls: string[]
+}): VectorStore => ({
+	upsert: async () => ({documentId: 'doc'}),
+	query: async ({topK}) => {
+		opts.calls.push(`query:${topK}`)
+		return opts.vector.slice(0, topK)
+	},
+	...(opts.keyword
+		? {
+				queryKeyword: async ({query, topK}) => {
+					opts.calls.push(`keyword:${query}:${topK}`)
+					return (opts.keyword ?? []).slice(0, topK)
+				}
+			}
+		: {}),
+	delete: async () => {}
+})
+
+/**
+ * Creates a minimal resolved config around a store.
+ */
+const createConfig = (
+	store: VectorStore,
+	calls: string[]
+): ResolvedContextEngineConfig =>
+	({
+		embedding: {
+			name: 'test-embed',
+			dimensions: 2,
+			embed: async () => {
+				calls.push('embed')
+				return [0.1, 0.2]
+			}
+		},
+		store,
+		defaults: {chunkSize: 200, chunkOverlap: 40},
+		chunker: () => [],
+		idGenerator: () => crypto.randomUUID(),
+		extractors: [],
+		storage: {storeChunkContent: true, storeDocumentContent: true},
+		assetProcessing:
+			{} as unknown as ResolvedContextEngineConfig['assetProcessing'],
+		embeddingProcessing: {concurrency: 4, batchSize: 32}
+	}) as ResolvedContextEngineConfig
+
+describe('core retrieve - keyword and hybrid modes', () => {
+	test('keyword mode skips embedding and returns keyword results', async () => {
+		const calls: string[] = []
+		const store = createStore({
+			vector: [createChunk('v1', 0.1)],
+			keyword: [createChunk('k1', 0.9), createChunk('k2', 0.4)],
+			calls
+		})
+
+		const result = await retrieve(createConfig(store, calls), {
+			query: 'refund policy',
+			topK: 2,
+			mode: 'keyword'
+		})
+
+		expect(calls).toEqual(['keyword:refund policy:2'])
+		expect(result.chunks.map((c) => c.id)).toEqual(['k1', 'k2'])
+		expect(result.durations.embeddingMs).toBe(0)
+	})
+
+	test('keyword and hybrid modes require queryKeyword on the store', async () => {
+		const calls: string[] = []
+		const store = createStore({vector: [], calls})
+
+		await expect(
+			retrieve(createConfig(store, calls), {query: 'q', mode: 'hybrid'})
+		).rejects.toThrow('requires a store that implements queryKeyword()')
+	})
+
+	test('hybrid mode fuses both legs with reciprocal rank fusion', async () => {
+		const calls: string[] = []
+		const store = createStore({
+			// Vector scores are distances (lower is better).
+			vector: [
+				createChunk('a', 0.1),
+				createChunk('b', 0.2),
+				createChunk('c', 0.3)
+			],
+			// Keyword scores are relevance (higher is better).
+			keyword: [createChunk('c', 5), createChunk('d', 3)],
+			calls
+		})
+
+		const result = await retrieve(createConfig(store, calls), {
+			query: 'q',
+			topK: 2,
+			mode: 'hybrid'
+		})
+
+		// Both legs fetch topK * 4 candidates.
+		expect(calls).toContain('query:8')
+		expect(calls).toContain('keyword:q:8')
+		// "c" appears in both lists, so it ranks first.
+		expect(result.chunks.map((c) => c.id)).toEqual(['c', 'a'])
+		expect(result.chunks[0]?.score).toBeCloseTo(1 / 63 + 1 / 61, 10)
+	})
+
+	test('hybrid weighted fusion normalizes distances and relevance scores', async () => {
+		const calls: string[] = []
+		const store = createStore({
+			vector: [createChunk('a', 0.1), createChunk('b', 0.5)],
+			keyword: [createChunk('b', 8), createChunk('c', 2)],
+			calls
+		})
+
+		const result = await retrieve(createConfig(store, calls), {
+			query: 'q',
+			topK: 3,
+			mode: 'hybrid',
+			hybrid: {
+				fusion: {
+					method: 'weighted',
+					vectorWeight: 0.3,
+					keywordWeight: 0.7
+				},
+				candidateK: 5
+			}
+		})
+
+		expect(calls).toContain('query:5')
+		expect(result.chunks.map((c) => c.id)).toEqual(['b', 'a', 'c'])
+		expect(result.chunks[0]?.score).toBeCloseTo(0.7, 10)
+		expect(result.chunks[1]?.score).toBeCloseTo(0.3, 10)
+		expect(result.chunks[2]?.score).toBeCloseTo(0, 10)
+	})
+})
+
+describe('raw-sql store keyword search', () => {
+	test('ranks full-text matches with the configured text search config', async () => {
+		const queries: Array<{text: string; values?: unknown[]}> = []
+		const pool = {
+			query: async (text: string, values?: unknown[]) => {
+				queries.push({text, values})
+				return {rows: []}
+			}
+		} as unknown as Pool
+
+		const store = createRawSqlVectorStore(pool, {
+			textSearchConfig: 'simple'
+		})
+		await store.queryKeyword?.({
+			query: 'refund policy',
+			topK: 4,
+			scope: {sourceId: 'docs:'}
+		})
+
+		const text = (queries[0]?.text ?? '').replace(/\s+/g, ' ')
+		expect(text).toContain("plainto_tsquery('simple', $1)")
+		expect(text).toContain(
+			"where to_tsvector('simple', c.content) @@ q.query and c.source_id like $3"
+		)
+		expect(text).toContain('order by score desc limit $2')
+		expect(queries[0]?.values).toEqual(['refund policy', 4, 'docs:%'])
+	})
+
+	test('rejects invalid text search config names', () => {
+		const pool = {} as unknown as Pool
+		expect(() =>
+			createRawSqlVectorStore(pool, {textSearchConfig: "english'; drop"})
+		).toThrow('Invalid textSearchConfig')
+	})
+})
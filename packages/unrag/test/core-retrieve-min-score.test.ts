@@ -0,0 +1,137 @@
+import {describe, expect, test} from 'bun:test'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	Chunk,
+	DistanceMetric,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {Pool} from 'pg'
+
+const createHit = (id: string, score: number): Chunk & {score: number} => ({
+	id,
+	documentId: `doc-${id}`,
+	sourceId: `source-${id}`,
+	index: 0,
+	content: id,
+	tokenCount: 1,
+	metadata: {},
+	score
+})
+
+const createStore = (
+	distanceMetric: DistanceMetric | undefined,
+	vectorHits: Array<Chunk & {score: number}>,
+	keywordHits: Array<Chunk & {score: number}> = []
+): VectorStore => ({
+	...(distanceMetric ? {distanceMetric} : {}),
+	upsert: async () => ({documentId: 'doc'}),
+	query: async () => vectorHits,
+	queryKeyword: async () => keywordHits,
+	delete: async () => {}
+})
+
+const createConfig = (store: VectorStore): ResolvedContextEngineConfig =>
+	({
+		embedding: {
+			name: 'test-embed',
+			embed: async () => [0.1, 0.2]
+		},
+		store,
+		defaults: {chunkSize: 200, chunkOverlap: 40},
+		chunker: () => [],
+		idGenerator: () => crypto.randomUUID(),
+		extractors: [],
+		storage: {storeChunkContent: true, storeDocumentContent: true},
+		assetProcessing:
+			{} as unknown as ResolvedContextEngineConfig['assetProcessing'],
+		embeddingProcessing: {concurrency: 4, batchSize: 32}
+	}) as ResolvedContextEngineConfig
+
+describe('core retrieve - similarity and minScore', () => {
+	test('derives similarity from the store metric', async () => {
+		const cosine = await retrieve(
+			createConfig(createStore(undefined, [createHit('a', 0.25)])),
+			{query: 'q'}
+		)
+		expect(cosine.chunks[0]).toMatchObject({score: 0.25, similarity: 0.75})
+
+		const innerProduct = await retrieve(
+			createConfig(createStore('inner_product', [createHit('a', -0.8)])),
+			{query: 'q'}
+		)
+		expect(innerProduct.chunks[0]?.similarity).toBe(0.8)
+
+		const l2 = await retrieve(
+			createConfig(createStore('l2', [createHit('a', 1)])),
+			{query: 'q'}
+		)
+		expect(l2.chunks[0]?.similarity).toBe(0.5)
+	})
+
+	test('minScore drops weak vector hits and can return nothing', async () => {
+		const store = createStore('cosine', [
+			createHit('a', 0.1),
+			createHit('b', 0.3),
+			createHit('c', 0.6)
+		])
+
+		const filtered = await retrieve(createConfig(store), {
+			query: 'q',
+			minScore: 0.5
+		})
+		expect(filtered.chunks.map((c) => c.id)).toEqual(['a', 'b'])
+
+		const none = await retrieve(createConfig(store), {
+			query: 'q',
+			minScore: 0.95
+		})
+		expect(none.chunks).toEqual([])
+	})
+
+	test('hybrid keeps keyword hits and filters only the vector leg', async () => {
+		const store = createStore(
+			'cosine',
+			[createHit('a', 0.1), createHit('b', 0.8)],
+			[createHit('k', 3)]
+		)
+
+		const result = await retrieve(createConfig(store), {
+			query: 'q',
+			mode: 'hybrid',
+			minScore: 0.5
+		})
+		expect(result.chunks.map((c) => c.id).sort()).toEqual(['a', 'k'])
+		expect(result.chunks.find((c) => c.id === 'a')?.similarity).toBe(0.9)
+		expect(result.chunks.find((c) => c.id === 'k')).not.toHaveProperty(
+			'similarity'
+		)
+	})
+})
+
+describe('raw-sql store - distanceMetric', () => {
+	test('uses the operator of the configured metric', async () => {
+		const queries: string[] = []
+		const pool = {
+			query: async (text: string) => {
+				queries.push(text)
+				return {rows: []}
+			}
+		} as unknown as Pool
+
+		const store = createRawSqlVectorStore(pool, {distanceMetric: 'l2'})
+		expect(store.distanceMetric).toBe('l2')
+		await store.query({embedding: [1, 0], topK: 1})
+		expect(queries[0]).toContain(
+			'(e.embedding::vector(2) <-> $1::vector(2)) as score'
+		)
+
+		expect(createRawSqlVectorStore(pool).distanceMetric).toBe('cosine')
+		expect(() =>
+			createRawSqlVectorStore(pool, {
+				distanceMetric: 'hamming' as DistanceMetric
+			})
+		).toThrow('Invalid distanceMetric')
+	})
+})
@@ -0,0 +1,278 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test'
+import {getDebugEmitter, resetDebugEmitter} from '@registry/core/debug-emitter'
+import type {DebugEvent} from '@registry/core/debug-events'
+import {
+	createConversationalRewriteTransform,
+	createHydeTransform,
+	createMultiQueryTransform,
+	pipeQueryTransforms
+} from '@registry/core/query-transform'
+import {retrieve} from '@registry/core/retrieve'
+import type {
+	Chunk,
+	QueryTransform,
+	ResolvedContextEngineConfig,
+	VectorStore
+} from '@registry/core/types'
+
+const createHit = (id: string, score: number): Chunk & {score: number} => ({
+	id,
+	documentId: `doc-${id}`,
+	sourceId: `source-${id}`,
+	index: 0,
+	content: id,
+	tokenCount: 1,
+	metadata: {},
+	score
+})
+
+// Each query text embeds to its length; the store returns a fixed ranking per length.
+const rankings: Record<number, string[]> = {
+	1: ['a', 'b', 'c'],
+	2: ['b', 'c', 'd'],
+	3: ['c', 'b', 'e']
+}
+
+const createStore = (queried: number[]): VectorStore => ({
+	upsert: async () => ({documentId: 'doc'}),
+	query: async ({embedding, topK}) => {
+		const key = embedding[0] ?? 0
+		queried.push(key)
+		return (rankings[key] ?? [])
+			.slice(0, topK)
+			.map((id, rank) => createHit(id, 0.1 * (rank + 1)))
+	},
+	delete: async () => {}
+})
+
+const createConfig = (
+	store: VectorStore,
+	queryTransform?: QueryTransform
+): ResolvedContextEngineConfig =>
+	({
+		embedding: {
+			name: 'test-embed',
+			embed: async ({text}) => [text.length]
+		},
+		store,
+		defaults: {chunkSize: 200, chunkOverlap: 40},
+		chunker: () => [],
+		idGenerator: () => crypto.randomUUID(),
+		extractors: [],
+		storage: {storeChunkContent: true, storeDocumentContent: true},
+		assetProcessing:
+			{} as unknown as ResolvedContextEngineConfig['assetProcessing'],
+		embeddingProcessing: {concurrency: 4, batchSize: 32},
+		queryTransform
+	}) as ResolvedContextEngineConfig
+
+const fixedTransform: QueryTransform = {
+	name: 'fixed',
+	transform: async ({query}) => [
+		{text: query, kind: 'original'},
+		{text: 'xx', kind: 'multi-query'},
+		{text: 'XX', kind: 'multi-query'},
+		{text: 'yyy', kind: 'multi-query', weight: 2}
+	]
+}
+
+describe('core retrieve - query transforms', () => {
+	let events: DebugEvent[] = []
+	let unsubscribe: (() => void) | undefined
+
+	beforeEach(() => {
+		process.env.UNRAG_DEBUG = 'true'
+		resetDebugEmitter()
+		events = []
+		unsubscribe = getDebugEmitter().onEvent((event) => {
+			events.push(event)
+		})
+	})
+
+	afterEach(() => {
+		unsubscribe?.()
+		resetDebugEmitter()
+		Reflect.deleteProperty(process.env, 'UNRAG_DEBUG')
+	})
+
+	test('retrieves variants in parallel and fuses them with weighted RRF', async () => {
+		const queried: number[] = []
+		const result = await retrieve(
+			createConfig(createStore(queried), fixedTransform),
+			{query: 'q', topK: 3}
+		)
+
+		// "XX" duplicates "xx" and is searched once.
+		expect(queried.sort()).toEqual([1, 2, 3])
+		expect(result.queryVariants?.map((v) => v.text)).toEqual([
+			'q',
+			'xx',
+			'yyy'
+		])
+		// "c" is ranked first by the double-weighted variant and appears in all three.
+		expect(result.chunks.map((c) => c.id)).toEqual(['c', 'b', 'e'])
+		expect(result.chunks[0]?.score).toBeCloseTo(1 / 63 + 1 / 62 + 2 / 61)
+
+		const transformed = events.find(
+			(e) => e.type === 'retrieve:query-transformed'
+		)
+		expect(transformed).toMatchObject({
+			transform: 'fixed',
+			variants: [
+				{text: 'q', kind: 'original'},
+				{text: 'xx', kind: 'multi-query'},
+				{text: 'yyy', kind: 'multi-query', weight: 2}
+			]
+		})
+
+		const dbEvents = events.filter(
+			(e) => e.type === 'retrieve:database-complete'
+		)
+		expect(
+			dbEvents
+				.map((e) =>
+					e.type === 'retrieve:database-complete' ? e.variant : null
+				)
+				.sort((a, b) => (a?.index ?? 0) - (b?.index ?? 0))
+		).toEqual([
+			{index: 0, kind: 'original', text: 'q'},
+			{index: 1, kind: 'multi-query', text: 'xx'},
+			{index: 2, kind: 'multi-query', text: 'yyy'}
+		])
+		expect(
+			events.find((e) => e.type === 'retrieve:variants-fused')
+		).toMatchObject({variantsCount: 3, candidatesCount: 9, resultsCount: 3})
+	})
+
+	test('queryTransform: false searches the query verbatim', async () => {
+		const queried: number[] = []
+		const result = await retrieve(
+			createConfig(createStore(queried), fixedTransform),
+			{query: 'q', topK: 3, queryTransform: false}
+		)
+
+		expect(queried).toEqual([1])
+		expect(result.queryVariants).toBeUndefined()
+		expect(result.chunks.map((c) => c.id)).toEqual(['a', 'b', 'c'])
+		expect(result.chunks[0]?.score).toBe(0.1)
+		expect(
+			events.some((e) => e.type === 'retrieve:query-transformed')
+		).toBe(false)
+		const db = events.find((e) => e.type === 'retrieve:database-complete')
+		expect(db).not.toHaveProperty('variant', expect.anything())
+	})
+
+	test('falls back to the original query when the transform throws', async () => {
+		const queried: number[] = []
+		const result = await retrieve(createConfig(createStore(queried)), {
+			query: 'q',
+			queryTransform: {
+				name: 'broken',
+				transform: async () => {
+					throw new Error('llm down')
+				}
+			}
+		})
+
+		expect(queried).toEqual([1])
+		expect(result.queryVariants).toEqual([{text: 'q', kind: 'original'}])
+		expect(
+			events.find((e) => e.type === 'retrieve:query-transformed')
+		).toMatchObject({transform: 'broken', error: 'llm down'})
+	})
+})
+
+describe('built-in query transforms', () => {
+	test('multi-query parses generated lines and keeps the original', async () => {
+		const prompts: string[] = []
+		const transform = createMultiQueryTransform({
+			count: 2,
+			generate: async ({prompt}) => {
+				prompts.push(prompt)
+				return '1. reset password\n2. "recover account access"\n3. extra'
+			}
+		})
+
+		expect(await transform.transform({query: 'forgot login'})).toEqual([
+			{text: 'forgot login', kind: 'original'},
+			{text: 'reset password', kind: 'multi-query'},
+			{text: 'recover account access', kind: 'multi-query'}
+		])
+		expect(prompts[0]).toContain('Write 2 different search queries')
+	})
+
+	test('HyDE searches a generated answer and falls back on failure', async () => {
+		const hyde = createHydeTransform({
+			generate: async () =>
+				'  Passwords are reset from the settings page.  '
+		})
+		expect(await hyde.transform({query: 'reset?'})).toEqual([
+			{text: 'Passwords are reset from the settings page.', kind: 'hyde'}
+		])
+
+		const failing = createHydeTransform({
+			generate: async () => {
+				throw new Error('timeout')
+			}
+		})
+		expect(await failing.transform({query: 'reset?'})).toEqual([
+			{text: 'reset?', kind: 'original'}
+		])
+	})
+
+	test('conversational rewrite uses history and skips the LLM without it', async () => {
+		const prompts: string[] = []
+		const rewrite = createConversationalRewriteTransform({
+			maxHistoryMessages: 2,
+			generate: async ({prompt}) => {
+				prompts.push(prompt)
+				return 'pricing of the enterprise plan'
+			}
+		})
+
+		expect(await rewrite.transform({query: 'how much is it?'})).toEqual([
+			{text: 'how much is it?', kind: 'original'}
+		])
+		expect(prompts).toHaveLength(0)
+
+		const variants = await rewrite.transform({
+			query: 'how much is it?',
+			history: [
+				{role: 'user', content: 'hello'},
+				{role: 'user', content: 'tell me about the enterprise plan'},
+				{role: 'assistant', content: 'It includes SSO.'}
+			]
+		})
+		expect(variants).toEqual([
+			{text: 'pricing of the enterprise plan', kind: 'rewrite'}
+		])
+		expect(prompts[0]).toContain('user: tell me about the enterprise plan')
+		expect(prompts[0]).not.toContain('hello')
+	})
+
+	test('pipeQueryTransforms expands the rewritten query', async () => {
+		const transform = pipeQueryTransforms(
+			createConversationalRewriteTransform({
+				generate: async () => 'enterprise pricing'
+			}),
+			createMultiQueryTransform({
+				count: 1,
+				generate: async ({prompt}) =>
+					prompt.includes('enterprise pricing')
+						? 'enterprise plan cost'
+						: ''
+			})
+		)
+
+		expect(transform.name).toBe('conversational-rewrite+multi-query')
+		expect(
+			await transform.transform({
+				query: 'and the price?',
+				history: [{role: 'user', content: 'enterprise plan'}]
+			})
+		).toEqual([
+			{text: 'enterprise pricing', kind: 'rewrite'},
+			{text: 'enterprise plan cost', kind: 'multi-query'}
+		])
+	})
+})
@@ -0,0 +1,196 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test'
+import {mkdir, rm, utimes, writeFile} from 'node:fs/promises'
+import path from 'node:path'
+import {createPathFilter} from '@registry/connectors/filesystem/glob'
+import {
+	streamDirectory,
+	watchDirectory
+} from '@registry/connectors/filesystem/sync'
+import type {FilesystemCheckpoint} from '@registry/connectors/filesystem/types'
+import type {ConnectorEvent} from '@registry/core/connectors'
+
+const workspaceTmpRoot = path.join(process.cwd(), 'tmp', 'test-runs')
+
+async function writeFileDeep(filePath: string, data: string | Uint8Array) {
+	await mkdir(path.dirname(filePath), {recursive: true})
+	await writeFile(filePath, data)
+}
+
+async function collect(
+	stream: AsyncIterable<ConnectorEvent<FilesystemCheckpoint>>
+) {
+	const events: ConnectorEvent<FilesystemCheckpoint>[] = []
+	for await (const event of stream) {
+		events.push(event)
+	}
+	return events
+}
+
+const summarize = (events: ConnectorEvent<FilesystemCheckpoint>[]) => ({
+	upserts: events.flatMap((e) =>
+		e.type === 'upsert' ? [e.input.sourceId] : []
+	),
+	deletes: events.flatMap((e) =>
+		e.type === 'delete' && 'sourceId' in e.input ? [e.input.sourceId] : []
+	)
+})
+
+const lastCheckpoint = (events: ConnectorEvent<FilesystemCheckpoint>[]) => {
+	const checkpoints = events.flatMap((e) =>
+		e.type === 'checkpoint' ? [e.checkpoint] : []
+	)
+	return checkpoints[checkpoints.length - 1]
+}
+
+describe('filesystem connector: globs', () => {
+	test('include and exclude patterns', () => {
+		const filter = createPathFilter({
+			include: ['*.md', 'docs/**/*.{txt,pdf}'],
+			exclude: ['node_modules', 'drafts/**']
+		})
+
+		expect(filter.matches('README.md')).toBe(true)
+		expect(filter.matches('guides/setup.md')).toBe(true)
+		expect(filter.matches('docs/a/b/report.pdf')).toBe(true)
+		expect(filter.matches('docs/notes.txt')).toBe(true)
+		expect(filter.matches('src/index.ts')).toBe(false)
+		expect(filter.matches('drafts/wip.md')).toBe(false)
+		expect(filter.matches('pkg/node_modules/lib/README.md')).toBe(false)
+		expect(filter.skipsDirectory('pkg/node_modules')).toBe(true)
+		expect(filter.skipsDirectory('drafts')).toBe(true)
+		expect(filter.skipsDirectory('docs')).toBe(false)
+	})
+})
+
+describe('filesystem connector: streamDirectory', () => {
+	let runDir: string
+
+	beforeEach(async () => {
+		runDir = path.join(workspaceTmpRoot, crypto.randomUUID())
+		await mkdir(runDir, {recursive: true})
+	})
+
+	afterEach(async () => {
+		await rm(runDir, {recursive: true, force: true})
+	})
+
+	test('emits text content, routes binaries as assets and skips excluded files', async () => {
+		await writeFileDeep(path.join(runDir, 'guide.md'), '# Guide\n\nHello')
+		await writeFileDeep(path.join(runDir, 'docs/notes.txt'), 'notes')
+		await writeFileDeep(path.join(runDir, 'docs/report.pdf'), '%PDF-1.4')
+		await writeFileDeep(
+			path.join(runDir, 'data.bin'),
+			new Uint8Array([1, 0, 2])
+		)
+		await writeFileDeep(path.join(runDir, 'node_modules/x/README.md'), 'x')
+		await writeFileDeep(path.join(runDir, '.env'), 'SECRET=1')
+
+		const events = await collect(
+			streamDirectory({rootDir: runDir, sourceIdPrefix: 'kb:'})
+		)
+		const upserts = events.flatMap((e) =>
+			e.type === 'upsert' ? [e.input] : []
+		)
+
+		expect(upserts.map((u) => u.sourceId)).toEqual([
+			'kb:fs:path:data.bin',
+			'kb:fs:path:docs/notes.txt',
+			'kb:fs:path:docs/report.pdf',
+			'kb:fs:path:guide.md'
+		])
+		expect(upserts[3]).toMatchObject({
+			content: '# Guide\n\nHello',
+			assets: [],
+			metadata: {
+				connector: 'filesystem',
+				path: 'guide.md',
+				extension: 'md'
+			}
+		})
+		expect(upserts[2]?.assets?.[0]).toMatchObject({
+			assetId: 'docs/report.pdf',
+			kind: 'pdf',
+			data: {
+				kind: 'bytes',
+				mediaType: 'application/pdf',
+				filename: 'report.pdf'
+			}
+		})
+		expect(upserts[0]?.assets?.[0]).toMatchObject({
+			kind: 'file',
+			data: {mediaType: 'application/octet-stream'}
+		})
+		expect(Object.keys(lastCheckpoint(events)?.files ?? {}).sort()).toEqual(
+			['data.bin', 'docs/notes.txt', 'docs/report.pdf', 'guide.md']
+		)
+	})
+
+	test('checkpoints skip unchanged files and emit deletes for removed ones', async () => {
+		await writeFileDeep(path.join(runDir, 'a.md'), 'one')
+		await writeFileDeep(path.join(runDir, 'b.md'), 'two')
+		await writeFileDeep(path.join(runDir, 'c.md'), 'three')
+		const first = await collect(streamDirectory({rootDir: runDir}))
+		const checkpoint = lastCheckpoint(first)
+
+		await writeFile(path.join(runDir, 'a.md'), 'one, edited')
+		// Touched with identical content: re-hashed, not re-emitted.
+		const later = new Date(Date.now() + 5000)
+		await utimes(path.join(runDir, 'b.md'), later, later)
+		await rm(path.join(runDir, 'c.md'))
+		await writeFileDeep(path.join(runDir, 'd.md'), 'four')
+
+		const second = await collect(
+			streamDirectory({rootDir: runDir, checkpoint})
+		)
+		expect(summarize(second)).toEqual({
+			upserts: ['fs:path:a.md', 'fs:path:d.md'],
+			deletes: ['fs:path:c.md']
+		})
+		expect(lastCheckpoint(second)?.files['b.md']?.mtimeMs).toBe(
+			later.getTime()
+		)
+
+		const third = await collect(
+			streamDirectory({
+				rootDir: runDir,
+				checkpoint: lastCheckpoint(second)
+			})
+		)
+		expect(summarize(third)).toEqual({upserts: [], deletes: []})
+	})
+
+	test('watch streams edits and removals until aborted', async () => {
+		await writeFileDeep(path.join(runDir, 'a.md'), 'one')
+		const controller = new AbortController()
+		const events: ConnectorEvent<FilesystemCheckpoint>[] = []
+		const timeout = setTimeout(() => controller.abort(), 5000)
+		let changed = false
+
+		const stream = watchDirectory({
+			rootDir: runDir,
+			signal: controller.signal,
+			debounceMs: 50
+		})
+		for await (const event of stream) {
+			events.push(event)
+			if (event.type !== 'checkpoint') {
+				continue
+			}
+			const {upserts, deletes} = summarize(events)
+			if (!changed) {
+				// Initial sync done; change the tree.
+				changed = true
+				await writeFileDeep(path.join(runDir, 'docs/new.md'), 'new')
+				await rm(path.join(runDir, 'a.md'))
+			} else if (upserts.length >= 2 && deletes.length >= 1) {
+				controller.abort()
+			}
+		}
+		clearTimeout(timeout)
+
+		expect(summarize(events)).toEqual({
+			upserts: ['fs:path:a.md', 'fs:path:docs/new.md'],
+			deletes: ['fs:path:a.md']
+		})
+	})
+})
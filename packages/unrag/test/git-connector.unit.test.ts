@@ -0,0 +1,238 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test'
+import {execFileSync} from 'node:child_process'
+import {mkdir, rm, writeFile} from 'node:fs/promises'
+import path from 'node:path'
+import {streamRepository} from '@registry/connectors/git/sync'
+import type {GitCheckpoint} from '@registry/connectors/git/types'
+import type {ConnectorEvent} from '@registry/core/connectors'
+import type {Chunker} from '@registry/core/types'
+
+const workspaceTmpRoot = path.join(process.cwd(), 'tmp', 'test-runs')
+
+async function collect(stream: AsyncIterable<ConnectorEvent<GitCheckpoint>>) {
+	const events: ConnectorEvent<GitCheckpoint>[] = []
+	for await (const event of stream) {
+		events.push(event)
+	}
+	return events
+}
+
+const summarize = (events: ConnectorEvent<GitCheckpoint>[]) => ({
+	upserts: events.flatMap((e) =>
+		e.type === 'upsert' ? [e.input.sourceId] : []
+	),
+	deletes: events.flatMap((e) =>
+		e.type === 'delete' && 'sourceId' in e.input ? [e.input.sourceId] : []
+	)
+})
+
+const lastCheckpoint = (events: ConnectorEvent<GitCheckpoint>[]) => {
+	const checkpoints = events.flatMap((e) =>
+		e.type === 'checkpoint' ? [e.checkpoint] : []
+	)
+	return checkpoints[checkpoints.length - 1]
+}
+
+const noopChunker: Chunker = () => []
+
+describe('git connector: streamRepository', () => {
+	let repoDir: string
+
+	const git = (...args: string[]) =>
+		execFileSync(
+			'git',
+			[
+				'-C',
+				repoDir,
+				'-c',
+				'user.name=Test',
+				'-c',
+				'user.email=test@example.com',
+				'-c',
+				'commit.gpgsign=false',
+				...args
+			],
+			{encoding: 'utf8'}
+		).trim()
+
+	const write = async (rel: string, data: string | Uint8Array) => {
+		await mkdir(path.dirname(path.join(repoDir, rel)), {recursive: true})
+		await writeFile(path.join(repoDir, rel), data)
+	}
+
+	const commitAll = (message: string) => {
+		git('add', '-A')
+		git('commit', '-q', '-m', message)
+		return git('rev-parse', 'HEAD')
+	}
+
+	beforeEach(async () => {
+		repoDir = path.join(workspaceTmpRoot, crypto.randomUUID())
+		await mkdir(repoDir, {recursive: true})
+		git('init', '-q', '-b', 'main')
+	})
+
+	afterEach(async () => {
+		await rm(repoDir, {recursive: true, force: true})
+	})
+
+	test('emits tracked files with language hints and respects .gitignore and filters', async () => {
+		await write('.gitignore', 'dist/\n')
+		await write('src/index.ts', 'export const a = 1\n')
+		await write('scripts/build.py', 'print("hi")\n')
+		await write('README.md', '# Repo\n')
+		await write('docs/guide.pdf', '%PDF-1.4')
+		await write('assets/font.woff', new Uint8Array([0, 1, 2]))
+		await write('vendor/lib.js', 'module.exports = 1\n')
+		await write('dist/bundle.js', 'built')
+		git('add', '.')
+		// Force-added build output is tracked but still ignored.
+		git('add', '-f', 'dist/bundle.js')
+		const commit = commitAll('init')
+		// Untracked files are never read.
+		await write('notes.md', 'scratch')
+
+		const events = await collect(
+			streamRepository({
+				repoDir,
+				sourceIdPrefix: 'repo:',
+				options: {exclude: ['vendor/**'], codeChunker: noopChunker}
+			})
+		)
+		const upserts = events.flatMap((e) =>
+			e.type === 'upsert' ? [e.input] : []
+		)
+
+		expect(upserts.map((u) => u.sourceId)).toEqual([
+			'repo:git:path:.gitignore',
+			'repo:git:path:README.md',
+			'repo:git:path:docs/guide.pdf',
+			'repo:git:path:scripts/build.py',
+			'repo:git:path:src/index.ts'
+		])
+		expect(upserts[4]).toMatchObject({
+			content: 'export const a = 1\n',
+			chunking: {language: 'typescript'},
+			chunker: noopChunker,
+			metadata: {
+				connector: 'git',
+				path: 'src/index.ts',
+				language: 'typescript',
+				ref: 'HEAD',
+				commit
+			}
+		})
+		expect(upserts[1]).toMatchObject({chunking: {language: 'markdown'}})
+		expect(upserts[1]?.chunker).toBeUndefined()
+		expect(upserts[2]?.assets?.[0]).toMatchObject({
+			kind: 'pdf',
+			data: {kind: 'bytes', mediaType: 'application/pdf'}
+		})
+		expect(
+			events.flatMap((e) =>
+				e.type === 'warning' ? [[e.code, e.data?.path]] : []
+			)
+		).toEqual([['file_skipped', 'assets/font.woff']])
+		expect(lastCheckpoint(events)).toEqual({repoDir, ref: 'HEAD', commit})
+	})
+
+	test('checkpoints emit only the files changed in the diff', async () => {
+		await write('a.md', 'one')
+		await write('b.md', 'two')
+		await write('c.md', 'three')
+		await write('d.md', 'four')
+		commitAll('first')
+		const first = await collect(streamRepository({repoDir, ref: 'main'}))
+		const checkpoint = lastCheckpoint(first)
+
+		await write('a.md', 'one, edited')
+		git('rm', '-q', 'c.md')
+		git('mv', 'd.md', 'renamed.md')
+		await write('e.md', 'five')
+		const head = commitAll('second')
+
+		const second = await collect(
+			streamRepository({repoDir, ref: 'main', checkpoint})
+		)
+		expect(summarize(second)).toEqual({
+			upserts: ['git:path:a.md', 'git:path:e.md', 'git:path:renamed.md'],
+			deletes: ['git:path:c.md', 'git:path:d.md']
+		})
+		expect(lastCheckpoint(second)?.commit).toBe(head)
+
+		const third = await collect(
+			streamRepository({
+				repoDir,
+				ref: 'main',
+				checkpoint: lastCheckpoint(second)
+			})
+		)
+		expect(summarize(third)).toEqual({upserts: [], deletes: []})
+	})
+
+	test('deletes changed files that are now ignored, binary or too large', async () => {
+		await write('ignored.md', 'one')
+		await write('binary.dat', 'two')
+		await write('large.md', 'three')
+		await write('kept.md', 'five')
+		commitAll('first')
+		const checkpoint = lastCheckpoint(
+			await collect(streamRepository({repoDir}))
+		)
+
+		await write('.gitignore', 'ignored.md\n')
+		await write('ignored.md', 'one, edited')
+		await write('binary.dat', new Uint8Array([0, 1, 2]))
+		await write('large.md', 'three, but much longer')
+		await write('added.dat', new Uint8Array([0, 3, 4]))
+		commitAll('second')
+
+		const options = {maxBytesPerFile: 16}
+		const events = await collect(
+			streamRepository({repoDir, checkpoint, options})
+		)
+		expect(summarize(events)).toEqual({
+			upserts: ['git:path:.gitignore'],
+			deletes: [
+				'git:path:binary.dat',
+				'git:path:ignored.md',
+				'git:path:large.md'
+			]
+		})
+
+		const kept = await collect(
+			streamRepository({
+				repoDir,
+				checkpoint,
+				options: {...options, deleteOnRemoved: false}
+			})
+		)
+		expect(summarize(kept).deletes).toEqual([])
+	})
+
+	test('reads an older ref and re-syncs when the checkpoint commit is gone', async () => {
+		await write('a.md', 'one')
+		const v1 = commitAll('v1')
+		git('tag', 'v1')
+		await write('b.md', 'two')
+		commitAll('v2')
+
+		const atTag = await collect(streamRepository({repoDir, ref: 'v1'}))
+		expect(summarize(atTag).upserts).toEqual(['git:path:a.md'])
+		expect(lastCheckpoint(atTag)?.commit).toBe(v1)
+
+		const events = await collect(
+			streamRepository({
+				repoDir,
+				checkpoint: {repoDir, ref: 'HEAD', commit: 'f'.repeat(40)}
+			})
+		)
+		expect(events.find((e) => e.type === 'warning')).toMatchObject({
+			code: 'checkpoint_unreachable'
+		})
+		expect(summarize(events).upserts).toEqual([
+			'git:path:a.md',
+			'git:path:b.md'
+		])
+	})
+})
@@ -152,6 +152,14 @@ describe('unrag@latest init', () => {
 				path.join(runDir, 'lib/unrag/embedding/_shared.ts')
 			)
 		).toBe(false)
+		expect(
+			await pathExists(path.join(runDir, 'lib/unrag/embedding/hash.ts'))
+		).toBe(true)
+		expect(
+			await pathExists(
+				path.join(runDir, 'lib/unrag/store/memory/store.ts')
+			)
+		).toBe(true)
 
 		expect(
 			await pathExists(
@@ -264,6 +272,107 @@ describe('unrag@latest init', () => {
 		expect(pkg.devDependencies?.prisma).toBeTruthy()
 	})
 
+	test('installs sqlite adapter and wires sqlite-vec into the config', async () => {
+		await writeJson(path.join(runDir, 'package.json'), {
+			name: 'proj',
+			private: true,
+			type: 'module',
+			dependencies: {}
+		})
+
+		process.chdir(runDir)
+		await initCommand([
+			'--yes',
+			'--store',
+			'sqlite',
+			'--dir',
+			'lib/unrag',
+			'--no-install'
+		])
+
+		for (const file of ['index.ts', 'store.ts', 'schema.ts']) {
+			expect(
+				await pathExists(
+					path.join(runDir, 'lib/unrag/store/sqlite', file)
+				)
+			).toBe(true)
+		}
+
+		const config = await readFile(
+			path.join(runDir, 'unrag.config.ts'),
+			'utf8'
+		)
+		expect(config).toContain('sqliteVec.load(db)')
+		expect(config).toContain('createSqliteVectorStore(db)')
+
+		const pkg = await readJson<{
+			dependencies?: Record<string, string>
+			devDependencies?: Record<string, string>
+		}>(path.join(runDir, 'package.json'))
+
+		expect(pkg.dependencies?.['better-sqlite3']).toBeTruthy()
+		expect(pkg.dependencies?.['sqlite-vec']).toBeTruthy()
+		expect(pkg.dependencies?.pg).toBeUndefined()
+		expect(pkg.devDependencies?.['@types/better-sqlite3']).toBeTruthy()
+
+		const unragJson = await readJson<{storeAdapter?: string}>(
+			path.join(runDir, 'unrag.json')
+		)
+		expect(unragJson.storeAdapter).toBe('sqlite')
+	})
+
+	test('installs pglite adapter with the raw-sql store it runs on', async () => {
+		await writeJson(path.join(runDir, 'package.json'), {
+			name: 'proj',
+			private: true,
+			type: 'module',
+			dependencies: {}
+		})
+
+		process.chdir(runDir)
+		await initCommand([
+			'--yes',
+			'--store',
+			'pglite',
+			'--dir',
+			'lib/unrag',
+			'--no-install'
+		])
+
+		for (const file of [
+			'store/pglite/index.ts',
+			'store/pglite/store.ts',
+			'store/pglite/schema.ts',
+			'store/raw-sql/store.ts',
+			'store/raw-sql/embedding-cache.ts'
+		]) {
+			expect(await pathExists(path.join(runDir, 'lib/unrag', file))).toBe(
+				true
+			)
+		}
+
+		const config = await readFile(
+			path.join(runDir, 'unrag.config.ts'),
+			'utf8'
+		)
+		expect(config).toContain('extensions: { vector }')
+		expect(config).toContain('createPgliteVectorStore(db)')
+
+		const pkg = await readJson<{
+			dependencies?: Record<string, string>
+			devDependencies?: Record<string, string>
+		}>(path.join(runDir, 'package.json'))
+
+		expect(pkg.dependencies?.['@electric-sql/pglite']).toBeTruthy()
+		expect(pkg.dependencies?.pg).toBeUndefined()
+		expect(pkg.devDependencies?.['@types/pg']).toBeTruthy()
+
+		const unragJson = await readJson<{storeAdapter?: string}>(
+			path.join(runDir, 'unrag.json')
+		)
+		expect(unragJson.storeAdapter).toBe('pglite')
+	})
+
 	test('detects Next and patches tsconfig paths', async () => {
 		await writeJson(path.join(runDir, 'package.json'), {
 			name: 'nextproj',
@@ -0,0 +1,242 @@
+import {describe, expect, test} from 'bun:test'
+import {
+	lastEditedCheckpoints,
+	notionPropertiesToMetadata,
+	withLastEditedSince
+} from '@registry/connectors/notion/query'
+import {
+	type NotionBlockNode,
+	collectNotionMentions,
+	renderNotionBlocksToMarkdown
+} from '@registry/connectors/notion/render'
+
+describe('notion connector: database properties', () => {
+	test('maps property values into flat metadata', () => {
+		const metadata = notionPropertiesToMetadata({
+			Name: {
+				type: 'title',
+				title: [{plain_text: 'Ref'}, {plain_text: 'unds'}]
+			},
+			Status: {type: 'status', status: {name: 'Published'}},
+			Tags: {
+				type: 'multi_select',
+				multi_select: [{name: 'billing'}, {name: 'faq'}]
+			},
+			Priority: {type: 'number', number: 2},
+			Reviewed: {type: 'checkbox', checkbox: false},
+			Due: {type: 'date', date: {start: '2024-05-01', end: null}},
+			Owner: {
+				type: 'people',
+				people: [{id: 'u1', name: 'Sam'}, {id: 'u2'}]
+			},
+			Score: {type: 'formula', formula: {type: 'number', number: 7}},
+			Key: {type: 'unique_id', unique_id: {prefix: 'KB', number: 12}},
+			Empty: {type: 'select', select: null},
+			Files: {type: 'files', files: []}
+		})
+
+		expect(metadata).toEqual({
+			Name: 'Refunds',
+			Status: 'Published',
+			Tags: ['billing', 'faq'],
+			Priority: 2,
+			Reviewed: false,
+			Due: '2024-05-01',
+			Owner: ['Sam', 'u2'],
+			Score: 7,
+			Key: 'KB-12',
+			Empty: null
+		})
+	})
+
+	test('keeps only the requested properties', () => {
+		expect(
+			notionPropertiesToMetadata(
+				{
+					Name: {type: 'title', title: [{plain_text: 'A'}]},
+					Status: {type: 'select', select: {name: 'Draft'}}
+				},
+				['Status']
+			)
+		).toEqual({Status: 'Draft'})
+	})
+})
+
+describe('notion connector: incremental sync', () => {
+	test('ANDs the last_edited_time bound into database filters', () => {
+		const bound = {
+			timestamp: 'last_edited_time',
+			last_edited_time: {on_or_after: '2024-05-01T10:00:00.000Z'}
+		}
+		const status = {property: 'Status', status: {equals: 'Published'}}
+
+		expect(withLastEditedSince(status, undefined)).toBe(status)
+		expect(
+			withLastEditedSince(undefined, '2024-05-01T10:00:00.000Z')
+		).toEqual(bound)
+		expect(withLastEditedSince(status, '2024-05-01T10:00:00.000Z')).toEqual(
+			{
+				and: [status, bound]
+			}
+		)
+		expect(
+			withLastEditedSince({and: [status]}, '2024-05-01T10:00:00.000Z')
+		).toEqual({and: [status, bound]})
+	})
+
+	test('checkpoints never skip pages that are still pending', () => {
+		expect(
+			lastEditedCheckpoints('2024-05-01T00:00:00.000Z', [
+				'2024-05-03T00:00:00.000Z',
+				'2024-05-02T00:00:00.000Z',
+				'2024-05-04T00:00:00.000Z'
+			])
+		).toEqual([
+			'2024-05-02T00:00:00.000Z',
+			'2024-05-04T00:00:00.000Z',
+			'2024-05-04T00:00:00.000Z'
+		])
+		expect(lastEditedCheckpoints(undefined, [])).toEqual([])
+	})
+})
+
+const block = (
+	type: string,
+	payload: Record<string, unknown>,
+	children: NotionBlockNode[] = [],
+	id = `${type}-id`
+): NotionBlockNode => ({
+	block: {id, type, has_children: children.length > 0, [type]: payload},
+	children
+})
+
+const text = (plain: string, extra: Record<string, unknown> = {}) => ({
+	type: 'text',
+	plain_text: plain,
+	...extra
+})
+
+describe('notion connector: markdown rendering', () => {
+	test('renders headings, lists, to-dos and code as markdown', () => {
+		const markdown = renderNotionBlocksToMarkdown([
+			block('heading_2', {rich_text: [text('Setup')]}),
+			block('paragraph', {
+				rich_text: [
+					text('Run '),
+					text('bun install', {annotations: {code: true}}),
+					text(' then read the '),
+					text('guide ', {
+						annotations: {bold: true},
+						href: 'https://example.com/guide'
+					}),
+					text('first.')
+				]
+			}),
+			block('numbered_list_item', {rich_text: [text('First')]}, [
+				block('bulleted_list_item', {rich_text: [text('Nested')]})
+			]),
+			block('numbered_list_item', {rich_text: [text('Second')]}),
+			block('to_do', {rich_text: [text('Ship it')], checked: true}),
+			block('code', {
+				rich_text: [text('const x = 1')],
+				language: 'typescript'
+			}),
+			block('equation', {expression: 'e = mc^2'})
+		])
+
+		expect(markdown).toBe(
+			[
+				'## Setup',
+				'',
+				'Run `bun install` then read the [**guide**](https://example.com/guide) first.',
+				'',
+				'1. First',
+				'   - Nested',
+				'2. Second',
+				'',
+				'- [x] Ship it',
+				'',
+				'```typescript',
+				'const x = 1',
+				'```',
+				'',
+				'$$',
+				'e = mc^2',
+				'$$'
+			].join('\n')
+		)
+	})
+
+	test('renders tables, callouts, columns and child pages', () => {
+		const row = (...cells: string[]) =>
+			block('table_row', {cells: cells.map((c) => [text(c)])})
+
+		const markdown = renderNotionBlocksToMarkdown([
+			block('table', {has_column_header: true}, [
+				row('Plan', 'Price'),
+				row('Pro', '$10 | month')
+			]),
+			block('callout', {
+				rich_text: [text('Heads up')],
+				icon: {type: 'emoji', emoji: '💡'}
+			}),
+			block('column_list', {}, [
+				block('column', {}, [
+					block('paragraph', {rich_text: [text('Left')]})
+				]),
+				block('column', {}, [
+					block('paragraph', {rich_text: [text('Right')]})
+				])
+			]),
+			block('child_page', {title: 'Billing FAQ'}, [], 'abc-123')
+		])
+
+		expect(markdown).toBe(
+			[
+				'| Plan | Price |',
+				'| --- | --- |',
+				'| Pro | $10 \\| month |',
+				'',
+				'> 💡 Heads up',
+				'',
+				'Left',
+				'',
+				'Right',
+				'',
+				'[Billing FAQ](https://www.notion.so/abc123)'
+			].join('\n')
+		)
+	})
+
+	test('resolves user and page mentions to names', () => {
+		const nodes = [
+			block('paragraph', {
+				rich_text: [
+					text('Ask '),
+					{
+						type: 'mention',
+						plain_text: '@Anonymous',
+						mention: {type: 'user', user: {id: 'u-1'}}
+					},
+					text(' about '),
+					{
+						type: 'mention',
+						plain_text: 'Untitled',
+						href: 'https://www.notion.so/p1',
+						mention: {type: 'page', page: {id: 'p-1'}}
+					}
+				]
+			})
+		]
+
+		expect(collectNotionMentions(nodes)).toEqual({
+			userIds: ['u-1'],
+			pageIds: ['p-1']
+		})
+		expect(
+			renderNotionBlocksToMarkdown(nodes, {
+				mentions: {users: {'u-1': 'Sam'}, pages: {'p-1': 'Refunds'}}
+			})
+		).toBe('Ask @Sam about [Refunds](https://www.notion.so/p1)')
+	})
+})
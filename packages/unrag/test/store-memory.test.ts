@@ -0,0 +1,241 @@
+import {describe, expect, test} from 'bun:test'
+import {createContextEngine} from '@registry/core/context-engine'
+import type {Chunk} from '@registry/core/types'
+import {createHashEmbeddingProvider} from '@registry/embedding/hash'
+import {createEmbeddingProviderFromConfig} from '@registry/embedding/providers'
+import {createMemoryVectorStore} from '@registry/store/memory/store'
+
+const createChunk = (
+	sourceId: string,
+	index: number,
+	content: string,
+	overrides: Partial<Chunk> = {}
+): Chunk => ({
+	id: `${sourceId}#${index}`,
+	documentId: `doc-${sourceId}`,
+	sourceId,
+	index,
+	content,
+	tokenCount: content.split(' ').length,
+	metadata: {},
+	embedding: [index, 1],
+	documentContent: content,
+	...overrides
+})
+
+const input = (text: string) => ({
+	text,
+	metadata: {},
+	position: 0,
+	sourceId: 'test',
+	documentId: 'doc'
+})
+
+describe('hash embedding provider', () => {
+	test('is deterministic, normalized and word-sensitive', async () => {
+		const provider = createHashEmbeddingProvider({dimensions: 64})
+		const a = await provider.embed(input('Reset your password'))
+		const [b, c] =
+			(await provider.embedMany?.([
+				input('reset your PASSWORD'),
+				input('quarterly revenue report')
+			])) ?? []
+
+		expect(provider.name).toBe('hash:64')
+		expect(a).toHaveLength(64)
+		expect(b).toEqual(a)
+		const dot = (x: number[], y: number[]) =>
+			x.reduce((sum, v, i) => sum + v * (y[i] ?? 0), 0)
+		expect(dot(a, a)).toBeCloseTo(1)
+		expect(dot(a, c ?? [])).toBeLessThan(0.5)
+
+		expect(await provider.embed(input('   '))).toEqual(
+			new Array(64).fill(0)
+		)
+		expect(() => createHashEmbeddingProvider({dimensions: 0})).toThrow(
+			'positive integer'
+		)
+		expect(createEmbeddingProviderFromConfig({provider: 'hash'}).name).toBe(
+			'hash:256'
+		)
+	})
+})
+
+describe('memory store', () => {
+	test('ingests and retrieves end-to-end with the hash provider', async () => {
+		const engine = createContextEngine({
+			embedding: createHashEmbeddingProvider(),
+			store: createMemoryVectorStore()
+		})
+
+		await engine.ingest({
+			sourceId: 'kb:passwords',
+			content: 'To reset your password, open account settings.',
+			metadata: {lang: 'en'}
+		})
+		await engine.ingest({
+			sourceId: 'kb:billing',
+			content: 'Invoices are sent on the first day of each month.',
+			metadata: {lang: 'en'}
+		})
+		await engine.ingest({
+			sourceId: 'blog:launch',
+			content: 'We launched password-less login today.',
+			metadata: {lang: 'de'}
+		})
+
+		const result = await engine.retrieve({
+			query: 'how do I reset my password',
+			topK: 3
+		})
+		expect(result.chunks[0]?.sourceId).toBe('kb:passwords')
+		expect(result.chunks[0]?.similarity).toBeGreaterThan(0)
+
+		const scoped = await engine.retrieve({
+			query: 'password',
+			topK: 3,
+			scope: {sourceId: 'kb:'}
+		})
+		expect(scoped.chunks.map((c) => c.sourceId)).not.toContain(
+			'blog:launch'
+		)
+
+		const filtered = await engine.retrieve({
+			query: 'password',
+			topK: 3,
+			scope: {metadata: {op: 'eq', field: 'lang', value: 'de'}}
+		})
+		expect(filtered.chunks.map((c) => c.sourceId)).toEqual(['blog:launch'])
+
+		await engine.delete({sourceIdPrefix: 'kb:'})
+		const remaining = await engine.retrieve({query: 'invoices', topK: 3})
+		expect(remaining.chunks.map((c) => c.sourceId)).toEqual(['blog:launch'])
+	})
+
+	test('keeps document ids, reuses embeddings and evaluates filters', async () => {
+		const store = createMemoryVectorStore({distanceMetric: 'l2'})
+
+		await store.upsert([
+			createChunk('kb:a', 0, 'reset your password', {
+				metadata: {tags: ['auth'], year: 2023}
+			}),
+			createChunk('kb:a', 1, 'billing questions')
+		])
+		const {documentId} = await store.upsert([
+			createChunk('kb:a', 0, 'reset your password', {
+				documentId: 'ignored-new-id',
+				contentHash: 'h0',
+				documentContentHash: 'doc-hash',
+				metadata: {tags: ['auth'], year: 2023}
+			})
+		])
+		await store.upsert([
+			createChunk('KB:b', 0, 'password policy', {
+				embedding: [3, 4],
+				metadata: {tags: ['security'], year: 2019}
+			})
+		])
+
+		expect(documentId).toBe('doc-kb:a')
+		expect(await store.getDocumentState?.({sourceId: 'kb:a'})).toEqual({
+			documentId: 'doc-kb:a',
+			contentHash: 'doc-hash',
+			chunkCount: 1,
+			embeddedChunkCount: 1
+		})
+		expect(
+			await store.getChunkEmbeddings?.({
+				sourceId: 'kb:a',
+				contentHashes: ['h0', 'missing']
+			})
+		).toEqual([{contentHash: 'h0', embedding: [0, 1]}])
+
+		const hits = await store.query({embedding: [3, 4], topK: 5})
+		expect(hits.map((h) => [h.sourceId, h.score])).toEqual([
+			['KB:b', 0],
+			['kb:a', Math.sqrt(9 + 9)]
+		])
+
+		const filtered = await store.query({
+			embedding: [0, 1],
+			topK: 5,
+			scope: {
+				metadata: {
+					op: 'and',
+					filters: [
+						{op: 'contains', field: 'tags', value: 'security'},
+						{op: 'range', field: 'year', lt: 2020},
+						{op: 'not', filter: {op: 'exists', field: 'lang'}}
+					]
+				}
+			}
+		})
+		expect(filtered.map((h) => h.sourceId)).toEqual(['KB:b'])
+		await expect(
+			store.query({
+				embedding: [0, 1],
+				topK: 5,
+				scope: {metadata: {op: 'range', field: 'year'}}
+			})
+		).rejects.toThrow('Invalid range filter')
+
+		const keyword = await store.queryKeyword?.({
+			query: 'password',
+			topK: 5,
+			scope: {sourceId: 'kb:'},
+			includeEmbeddings: true
+		})
+		expect(keyword).toMatchObject([
+			{sourceId: 'kb:a', score: 1, embedding: [0, 1]}
+		])
+	})
+
+	test('neighbors, documents and inspector', async () => {
+		const store = createMemoryVectorStore()
+		await store.upsert(
+			[0, 1, 2, 3].map((i) => createChunk('kb:a', i, `part ${i}`))
+		)
+		await store.upsert([createChunk('other', 0, 'elsewhere')])
+
+		const neighbors = await store.getNeighbors?.({
+			anchors: [{documentId: 'doc-kb:a', index: 2}],
+			before: 1,
+			after: 0
+		})
+		expect(neighbors?.map((c) => c.index)).toEqual([1, 2])
+		expect(await store.getDocuments?.({ids: ['doc-other']})).toEqual([
+			{
+				documentId: 'doc-other',
+				sourceId: 'other',
+				content: 'elsewhere',
+				metadata: {}
+			}
+		])
+
+		expect(
+			await store.inspector.listDocuments({prefix: 'kb:'})
+		).toMatchObject({
+			documents: [{sourceId: 'kb:a', chunkCount: 4}],
+			total: 1
+		})
+		expect(
+			await store.inspector.deleteChunks({chunkIds: ['kb:a#3']})
+		).toEqual({deletedCount: 1})
+		expect(
+			(await store.inspector.getDocument({sourceId: 'kb:a'})).document
+				?.chunks
+		).toHaveLength(3)
+
+		expect(
+			await store.inspector.deleteDocument({sourceId: 'other'})
+		).toEqual({
+			deletedCount: 1
+		})
+		const {stats} = await store.inspector.storeStats()
+		expect(stats).toMatchObject({
+			adapter: 'memory',
+			embeddingDimension: 2,
+			totalVectors: 3
+		})
+	})
+})
@@ -0,0 +1,147 @@
+import {describe, expect, test} from 'bun:test'
+import type {MetadataFilter} from '@registry/core/types'
+import {createDrizzleVectorStore} from '@registry/store/drizzle/store'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {SQL} from 'drizzle-orm'
+import {PgDialect} from 'drizzle-orm/pg-core'
+import type {Pool} from 'pg'
+
+const createRecordingPool = () => {
+	const queries: Array<{text: string; values?: unknown[]}> = []
+	const pool = {
+		query: async (text: string, values?: unknown[]) => {
+			queries.push({text, values})
+			return {rows: []}
+		}
+	} as unknown as Pool
+	return {pool, queries}
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+describe('raw-sql store metadata filters', () => {
+	test('compiles eq/contains/range/exists under and/or/not with bound params', async () => {
+		const {pool, queries} = createRecordingPool()
+		const store = createRawSqlVectorStore(pool)
+
+		const filter: MetadataFilter = {
+			op: 'and',
+			filters: [
+				{op: 'eq', field: 'lang', value: 'en'},
+				{op: 'contains', field: 'tags', value: 'billing'},
+				{
+					op: 'or',
+					filters: [
+						{op: 'range', field: 'year', gte: 2020, lt: 2025},
+						{op: 'not', filter: {op: 'exists', field: 'archived'}}
+					]
+				}
+			]
+		}
+
+		await store.query({
+			embedding: [0.1, 0.2],
+			topK: 5,
+			scope: {sourceId: 'tenant:acme:', metadata: filter}
+		})
+
+		const q = queries[0]
+		expect(q).toBeDefined()
+		const text = normalize(q?.text ?? '')
+		expect(text).toContain(
+			"where c.source_id like $3 and (coalesce((c.metadata -> $4::text) = $5::jsonb, false) and coalesce((c.metadata -> $6::text) @> $7::jsonb, false) and (coalesce(jsonb_typeof((c.metadata -> $8::text)) = 'number' and (c.metadata -> $8::text) >= $9::jsonb and (c.metadata -> $8::text) < $10::jsonb, false) or not ((c.metadata -> $11::text) is not null)))"
+		)
+		expect(q?.values).toEqual([
+			'[0.1,0.2]',
+			5,
+			'tenant:acme:%',
+			'lang',
+			'"en"',
+			'tags',
+			'["billing"]',
+			'year',
+			'2020',
+			'2025',
+			'archived',
+			'default',
+			2
+		])
+	})
+
+	test('empty in-list matches nothing', async () => {
+		const {pool, queries} = createRecordingPool()
+		const store = createRawSqlVectorStore(pool)
+
+		await store.query({
+			embedding: [1],
+			topK: 1,
+			scope: {metadata: {op: 'in', field: 'lang', values: []}}
+		})
+
+		expect(normalize(queries[0]?.text ?? '')).toContain('where false')
+	})
+
+	test('rejects range filters with mixed or missing bounds', async () => {
+		const {pool} = createRecordingPool()
+		const store = createRawSqlVectorStore(pool)
+
+		await expect(
+			store.query({
+				embedding: [1],
+				topK: 1,
+				scope: {
+					metadata: {op: 'range', field: 'year', gte: 2020, lt: 'z'}
+				}
+			})
+		).rejects.toThrow('Invalid range filter on "year"')
+
+		await expect(
+			store.query({
+				embedding: [1],
+				topK: 1,
+				scope: {metadata: {op: 'range', field: 'year'}}
+			})
+		).rejects.toThrow('Invalid range filter on "year"')
+	})
+})
+
+describe('drizzle store metadata filters', () => {
+	test('adds the metadata predicate to the query where clause', async () => {
+		const executed: SQL[] = []
+		const db = {
+			execute: async (query: SQL) => {
+				executed.push(query)
+				return {rows: []}
+			}
+		} as unknown as Parameters<typeof createDrizzleVectorStore>[0]
+
+		const store = createDrizzleVectorStore(db)
+		await store.query({
+			embedding: [0.5],
+			topK: 3,
+			scope: {
+				metadata: {
+					op: 'in',
+					field: 'lang',
+					values: ['en', 'de']
+				}
+			}
+		})
+
+		const query = executed[0]
+		expect(query).toBeDefined()
+		const rendered = new PgDialect().sqlToQuery(query as SQL)
+		expect(normalize(rendered.sql)).toContain(
+			'where coalesce((c.metadata -> $2::text) in ($3::jsonb, $4::jsonb), false)'
+		)
+		expect(rendered.params).toEqual([
+			'[0.5]',
+			'lang',
+			'"en"',
+			'"de"',
+			'default',
+			1,
+			3
+		])
+	})
+})
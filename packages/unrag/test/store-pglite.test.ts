@@ -0,0 +1,169 @@
+import {describe, expect, test} from 'bun:test'
+import {runDbChecks} from '@cli/lib/doctor/dbChecks'
+import type {InferredInstallState} from '@cli/lib/doctor/types'
+import type {Chunk} from '@registry/core/types'
+import {createPgliteEmbeddingCache} from '@registry/store/pglite/embedding-cache'
+import {PGLITE_SCHEMA_SQL} from '@registry/store/pglite/schema'
+import {
+	type PgliteDatabase,
+	createPgliteVectorStore
+} from '@registry/store/pglite/store'
+
+type Call = {sql: string; params?: unknown[]}
+
+// Records statements in order; `hold` pauses matching statements until released.
+const createRecordingDb = (
+	respond: (sql: string) => Record<string, unknown>[] = () => []
+) => {
+	const calls: Call[] = []
+	const held: Array<() => void> = []
+	let holdPattern: RegExp | null = null
+
+	const db: PgliteDatabase = {
+		exec: async (sql) => {
+			calls.push({sql})
+			return []
+		},
+		query: async <T>(sql: string, params?: unknown[]) => {
+			calls.push({sql: sql.replace(/\s+/g, ' ').trim(), params})
+			if (holdPattern?.test(sql)) {
+				await new Promise<void>((resolve) => held.push(resolve))
+			}
+			const rows = respond(sql) as T[]
+			return {rows, affectedRows: rows.length}
+		}
+	}
+
+	return {
+		db,
+		calls,
+		hold: (pattern: RegExp) => {
+			holdPattern = pattern
+		},
+		releaseHeld: () => {
+			holdPattern = null
+			for (const resolve of held.splice(0)) {
+				resolve()
+			}
+		}
+	}
+}
+
+const chunk: Chunk = {
+	id: 'c1',
+	documentId: 'd1',
+	sourceId: 'kb:a',
+	index: 0,
+	content: 'hello',
+	tokenCount: 1,
+	metadata: {},
+	embedding: [1, 0],
+	documentContent: 'hello'
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+describe('pglite store', () => {
+	test('creates the schema before the first query', async () => {
+		const {db, calls} = createRecordingDb()
+		const store = createPgliteVectorStore(db)
+
+		await store.query({embedding: [1, 0], topK: 3})
+
+		expect(calls[0]?.sql).toBe(PGLITE_SCHEMA_SQL)
+		expect(calls[1]?.sql).toContain('from chunks as c')
+		expect(PGLITE_SCHEMA_SQL).toContain(
+			'create extension if not exists vector'
+		)
+	})
+
+	test('skips schema creation when createSchema is false', async () => {
+		const {db, calls} = createRecordingDb()
+		const store = createPgliteVectorStore(db, {createSchema: false})
+
+		await store.query({embedding: [1, 0], topK: 3})
+
+		expect(calls.map((c) => c.sql)).not.toContain(PGLITE_SCHEMA_SQL)
+	})
+
+	test('queues other queries until a transaction is released', async () => {
+		const {db, calls, hold, releaseHeld} = createRecordingDb((sql) =>
+			sql.includes('insert into documents') ? [{id: 'd1'}] : []
+		)
+		const store = createPgliteVectorStore(db)
+		const cache = createPgliteEmbeddingCache(db)
+
+		hold(/insert into documents/)
+		const upsert = store.upsert([chunk])
+		await flush()
+		const lookup = cache.getMany(['k1'])
+		await flush()
+
+		// The cache read must not run between `begin` and `commit`.
+		expect(calls.some((c) => c.sql.includes('from embedding_cache'))).toBe(
+			false
+		)
+
+		releaseHeld()
+		await upsert
+		await lookup
+
+		const statements = calls.map((c) => c.sql)
+		const commit = statements.indexOf('commit')
+		const cacheRead = statements.findIndex((s) =>
+			s.includes('from embedding_cache')
+		)
+		expect(statements.indexOf('begin')).toBeGreaterThan(0)
+		expect(cacheRead).toBeGreaterThan(commit)
+		expect(statements.filter((s) => s === PGLITE_SCHEMA_SQL)).toHaveLength(
+			1
+		)
+	})
+
+	test('reports the pglite adapter in store stats', async () => {
+		const {db} = createRecordingDb((sql) =>
+			sql.includes('documents_count')
+				? [
+						{
+							documents_count: 1,
+							chunks_count: 2,
+							embeddings_count: 2,
+							embedding_dimension: 3
+						}
+					]
+				: []
+		)
+		const store = createPgliteVectorStore(db)
+
+		const {stats} = await store.inspector.storeStats()
+		expect(stats).toMatchObject({
+			adapter: 'pglite',
+			embeddingDimension: 3,
+			totalVectors: 2
+		})
+	})
+})
+
+describe('doctor --db with pglite', () => {
+	test('fails early when the data directory does not exist', async () => {
+		const state = {
+			projectRoot: '/nonexistent/project',
+			storeAdapter: 'pglite',
+			installDir: null,
+			inferredDbEnvVar: null
+		} as unknown as InferredInstallState
+
+		const results = await runDbChecks(state, {
+			schema: 'public',
+			databaseUrl: 'file://data/pglite'
+		})
+
+		expect(results).toHaveLength(1)
+		expect(results[0]).toMatchObject({
+			id: 'db-url',
+			status: 'fail',
+			summary:
+				'PGlite data directory not found: /nonexistent/project/data/pglite'
+		})
+	})
+})
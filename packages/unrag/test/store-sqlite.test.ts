@@ -0,0 +1,284 @@
+import {Database} from 'bun:sqlite'
+import {describe, expect, test} from 'bun:test'
+import type {Chunk} from '@registry/core/types'
+import {createSqliteEmbeddingCache} from '@registry/store/sqlite/embedding-cache'
+import {
+	type SqliteDatabase,
+	createSqliteVectorStore
+} from '@registry/store/sqlite/store'
+
+const createChunk = (
+	sourceId: string,
+	index: number,
+	content: string,
+	overrides: Partial<Chunk> = {}
+): Chunk => ({
+	id: `${sourceId}#${index}`,
+	documentId: `doc-${sourceId}`,
+	sourceId,
+	index,
+	content,
+	tokenCount: content.split(' ').length,
+	metadata: {},
+	embedding: [index, 1],
+	documentContent: content,
+	...overrides
+})
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+describe('sqlite store', () => {
+	test('upserts, replaces chunks and reads them back', async () => {
+		const store = createSqliteVectorStore(new Database(':memory:'))
+
+		await store.upsert([
+			createChunk('kb:a', 0, 'reset your password', {
+				metadata: {lang: 'en'}
+			}),
+			createChunk('kb:a', 1, 'billing questions')
+		])
+		const {documentId} = await store.upsert([
+			createChunk('kb:a', 0, 'reset your password', {
+				documentId: 'ignored-new-id',
+				contentHash: 'h0',
+				documentContentHash: 'doc-hash'
+			})
+		])
+
+		expect(documentId).toBe('doc-kb:a')
+		expect(await store.getDocumentState?.({sourceId: 'kb:a'})).toEqual({
+			documentId: 'doc-kb:a',
+			contentHash: 'doc-hash',
+			chunkCount: 1,
+			embeddedChunkCount: 1
+		})
+		expect(
+			await store.getChunkEmbeddings?.({
+				sourceId: 'kb:a',
+				contentHashes: ['h0', 'missing']
+			})
+		).toEqual([{contentHash: 'h0', embedding: [0, 1]}])
+
+		const [chunk] = (await store.getChunks?.({ids: ['kb:a#0']})) ?? []
+		expect(chunk).toMatchObject({
+			documentId: 'doc-kb:a',
+			index: 0,
+			content: 'reset your password',
+			metadata: {}
+		})
+		expect(await store.getChunks?.({ids: ['kb:a#1']})).toEqual([])
+	})
+
+	test('keyword search, metadata filters and prefix scope', async () => {
+		const store = createSqliteVectorStore(new Database(':memory:'))
+		await store.upsert([
+			createChunk('kb:a', 0, 'how to reset a password', {
+				metadata: {lang: 'en', tags: ['auth'], year: 2023}
+			})
+		])
+		await store.upsert([
+			createChunk('KB:b', 0, 'password policy', {
+				metadata: {lang: 'de', tags: ['security'], year: 2019}
+			})
+		])
+
+		const all = await store.queryKeyword?.({query: 'password', topK: 5})
+		expect(all?.map((c) => c.sourceId).sort()).toEqual(['KB:b', 'kb:a'])
+
+		// Prefix scope is case-sensitive, unlike SQLite's LIKE.
+		const scoped = await store.queryKeyword?.({
+			query: 'password',
+			topK: 5,
+			scope: {sourceId: 'kb:'}
+		})
+		expect(scoped?.map((c) => c.sourceId)).toEqual(['kb:a'])
+
+		const filtered = await store.queryKeyword?.({
+			query: 'password',
+			topK: 5,
+			scope: {
+				metadata: {
+					op: 'and',
+					filters: [
+						{op: 'contains', field: 'tags', value: 'security'},
+						{op: 'range', field: 'year', lt: 2020},
+						{
+							op: 'not',
+							filter: {op: 'eq', field: 'lang', value: 'en'}
+						}
+					]
+				}
+			}
+		})
+		expect(filtered?.map((c) => c.sourceId)).toEqual(['KB:b'])
+
+		const ranked = await store.queryKeyword?.({
+			query: 'reset password',
+			topK: 5,
+			includeEmbeddings: true
+		})
+		expect(ranked?.[0]).toMatchObject({sourceId: 'kb:a', embedding: [0, 1]})
+		expect(await store.queryKeyword?.({query: '"*"', topK: 5})).toEqual([])
+	})
+
+	test('neighbors, documents, delete and inspector', async () => {
+		const store = createSqliteVectorStore(new Database(':memory:'))
+		await store.upsert(
+			[0, 1, 2, 3].map((i) => createChunk('kb:a', i, `part ${i}`))
+		)
+		await store.upsert([createChunk('other', 0, 'elsewhere')])
+
+		const neighbors = await store.getNeighbors?.({
+			anchors: [{documentId: 'doc-kb:a', index: 2}],
+			before: 1,
+			after: 0
+		})
+		expect(neighbors?.map((c) => c.index)).toEqual([1, 2])
+		expect(await store.getDocuments?.({ids: ['doc-other']})).toEqual([
+			{
+				documentId: 'doc-other',
+				sourceId: 'other',
+				content: 'elsewhere',
+				metadata: {}
+			}
+		])
+
+		const listed = await store.inspector.listDocuments({prefix: 'kb:'})
+		expect(listed).toMatchObject({
+			documents: [{sourceId: 'kb:a', chunkCount: 4}],
+			total: 1
+		})
+		expect(
+			await store.inspector.deleteChunks({chunkIds: ['kb:a#3']})
+		).toEqual({deletedCount: 1})
+
+		await store.delete({sourceIdPrefix: 'kb:'})
+		const {stats} = await store.inspector.storeStats()
+		expect(stats).toMatchObject({
+			adapter: 'sqlite',
+			embeddingDimension: 2,
+			totalVectors: 1
+		})
+		expect(await store.queryKeyword?.({query: 'part', topK: 5})).toEqual([])
+	})
+
+	test('scans chunks, stages embeddings and swaps them into the index', async () => {
+		const store = createSqliteVectorStore(new Database(':memory:'))
+		await store.upsert([
+			createChunk('kb:a', 0, 'reset your password'),
+			createChunk('kb:a', 1, 'billing questions'),
+			createChunk('kb:a', 2, 'export data')
+		])
+
+		const page = (await store.scanChunks?.({limit: 2})) ?? []
+		expect(page.map((c) => c.id)).toEqual(['kb:a#0', 'kb:a#1'])
+		expect(
+			(await store.scanChunks?.({after: 'kb:a#1', limit: 2}))?.map(
+				(c) => c.id
+			)
+		).toEqual(['kb:a#2'])
+
+		await store.writeEmbeddings?.({
+			index: 'default:reindex',
+			embeddings: [
+				{
+					chunkId: 'kb:a#0',
+					embedding: [7, 7],
+					model: 'm2',
+					contentHash: 'h2'
+				}
+			]
+		})
+		const remaining = await store.scanChunks?.({
+			limit: 10,
+			skipEmbedded: {index: 'default:reindex', model: 'm2'}
+		})
+		expect(remaining?.map((c) => c.id)).toEqual(['kb:a#1', 'kb:a#2'])
+
+		expect(
+			await store.swapIndex?.({from: 'default:reindex', to: 'default'})
+		).toEqual({swapped: 1})
+		expect(
+			await store.getChunkEmbeddings?.({
+				sourceId: 'kb:a',
+				contentHashes: ['h2']
+			})
+		).toEqual([{contentHash: 'h2', embedding: [7, 7]}])
+		expect(
+			await store.getChunkEmbeddings?.({
+				sourceId: 'kb:a',
+				contentHashes: ['h2'],
+				index: 'default:reindex'
+			})
+		).toEqual([])
+	})
+
+	test('vector query uses sqlite-vec distance functions', async () => {
+		const calls: Array<{sql: string; values: unknown[]}> = []
+		const db: SqliteDatabase = {
+			exec: () => {},
+			prepare: (sql) => ({
+				run: () => ({changes: 0}),
+				get: () => undefined,
+				all: (...values) => {
+					calls.push({sql, values})
+					return [
+						{
+							id: 'c1',
+							document_id: 'd1',
+							source_id: 's1',
+							idx: 0,
+							content: 'text',
+							token_count: 1,
+							metadata: '{"lang":"en"}',
+							score: 0.25
+						}
+					]
+				}
+			})
+		}
+
+		const store = createSqliteVectorStore(db, {distanceMetric: 'l2'})
+		const [hit] = await store.query({
+			embedding: [0.5, 0.25],
+			topK: 3,
+			scope: {
+				sourceId: 'kb:',
+				metadata: {op: 'eq', field: 'lang', value: 'en'}
+			}
+		})
+
+		expect(hit).toMatchObject({
+			id: 'c1',
+			score: 0.25,
+			metadata: {lang: 'en'}
+		})
+		const call = calls.find((c) => c.sql.includes('vec_distance'))
+		const text = normalize(call?.sql ?? '')
+		expect(text).toContain('vec_distance_l2(e.embedding, ?) as score')
+		expect(text).toContain(
+			'where instr(c.source_id, ?) = 1 and coalesce((c.metadata -> ?) = json(?), 0)'
+		)
+		const [blob, ...rest] = call?.values ?? []
+		expect(Array.from(new Float32Array((blob as Buffer).buffer))).toEqual([
+			0.5, 0.25
+		])
+		expect(rest).toEqual(['kb:', '$."lang"', '"en"', 'default', 2, 3])
+
+		expect(() =>
+			createSqliteVectorStore(db, {distanceMetric: 'inner_product'})
+		).toThrow('sqlite-vec supports cosine and l2')
+	})
+})
+
+describe('sqlite embedding cache', () => {
+	test('round-trips float32 embeddings', async () => {
+		const db = new Database(':memory:')
+		createSqliteVectorStore(db)
+		const cache = createSqliteEmbeddingCache(db)
+
+		await cache.setMany([{key: 'a', embedding: [0.5, -1]}])
+		await cache.setMany([{key: 'a', embedding: [9, 9]}])
+		expect(await cache.getMany(['a', 'b'])).toEqual([[0.5, -1], undefined])
+	})
+})
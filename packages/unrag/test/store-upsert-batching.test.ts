@@ -0,0 +1,165 @@
+import {describe, expect, test} from 'bun:test'
+import type {Chunk} from '@registry/core/types'
+import {createDrizzleVectorStore} from '@registry/store/drizzle/store'
+import {createPrismaVectorStore} from '@registry/store/prisma/store'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {Pool} from 'pg'
+
+// Round-trip latency of a typical managed Postgres from an app server.
+const SIMULATED_LATENCY_MS = 2
+const CHUNK_COUNT = 2000
+const DOCUMENT_ID = '11111111-1111-1111-1111-111111111111'
+
+const createChunks = (count: number): Chunk[] =>
+	Array.from({length: count}, (_, index) => ({
+		id: crypto.randomUUID(),
+		documentId: DOCUMENT_ID,
+		sourceId: 'docs:big-pdf',
+		index,
+		content: `chunk ${index}`,
+		tokenCount: 2,
+		metadata: {page: Math.floor(index / 10)},
+		// Every 4th chunk has no embedding (e.g. an asset that was skipped).
+		embedding: index % 4 === 3 ? undefined : [index, 0.5, -0.5],
+		documentContent: 'big pdf'
+	}))
+
+/**
+ * Pool whose client records statements and charges a fixed latency per round
+ * trip to a virtual clock, so the benchmark is deterministic.
+ */
+const createLatencyPool = () => {
+	const queries: Array<{text: string; values?: unknown[]}> = []
+	let elapsedMs = 0
+	const client = {
+		query: async (text: string, values?: unknown[]) => {
+			queries.push({text, values})
+			elapsedMs += SIMULATED_LATENCY_MS
+			return text.includes('returning id')
+				? {rows: [{id: DOCUMENT_ID}]}
+				: {rows: []}
+		},
+		release: () => {}
+	}
+	const pool = {connect: async () => client} as unknown as Pool
+	return {pool, queries, elapsedMs: () => elapsedMs}
+}
+
+describe('store upsert batching', () => {
+	test('raw-sql inserts 2,000 chunks in a handful of round trips', async () => {
+		const chunks = createChunks(CHUNK_COUNT)
+		const {pool, queries, elapsedMs} = createLatencyPool()
+		const store = createRawSqlVectorStore(pool)
+
+		await store.upsert(chunks)
+
+		const chunkInserts = queries.filter((q) =>
+			q.text.includes('insert into chunks')
+		)
+		const embeddingInserts = queries.filter((q) =>
+			q.text.includes('insert into embeddings')
+		)
+		expect(chunkInserts).toHaveLength(4)
+		expect(embeddingInserts).toHaveLength(4)
+		expect(
+			chunkInserts.map((q) => (q.values?.[0] as unknown[]).length)
+		).toEqual([500, 500, 500, 500])
+		expect(
+			embeddingInserts.reduce(
+				(sum, q) => sum + (q.values?.[0] as unknown[]).length,
+				0
+			)
+		).toBe(1500)
+		expect(embeddingInserts[0]?.values?.[3]).toContain('[0,0.5,-0.5]')
+
+		// Row-by-row upserts took begin + document + delete + one statement per
+		// chunk and per embedding + commit.
+		const rowByRowMs = (4 + CHUNK_COUNT + 1500) * SIMULATED_LATENCY_MS
+		expect(queries).toHaveLength(12)
+		expect(elapsedMs()).toBe(24)
+		expect(rowByRowMs / elapsedMs()).toBeGreaterThan(250)
+	})
+
+	test('batch size is configurable and validated', async () => {
+		const {pool, queries} = createLatencyPool()
+		const store = createRawSqlVectorStore(pool, {upsertBatchSize: 128})
+
+		await store.upsert(createChunks(300))
+
+		expect(
+			queries
+				.filter((q) => q.text.includes('insert into chunks'))
+				.map((q) => (q.values?.[0] as unknown[]).length)
+		).toEqual([128, 128, 44])
+		expect(() =>
+			createRawSqlVectorStore(pool, {upsertBatchSize: 0})
+		).toThrow('Invalid upsertBatchSize "0"')
+	})
+
+	test('drizzle uses one multi-row insert per batch', async () => {
+		const inserts: Array<{table: unknown; rows: unknown[]}> = []
+		const tx = {
+			execute: async () => [{id: DOCUMENT_ID}],
+			delete: () => ({where: async () => {}}),
+			insert: (table: unknown) => ({
+				values: async (rows: unknown[]) => {
+					inserts.push({table, rows})
+				}
+			})
+		}
+		const db = {
+			transaction: async <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx)
+		}
+		const store = createDrizzleVectorStore(
+			db as unknown as Parameters<typeof createDrizzleVectorStore>[0]
+		)
+
+		const {documentId} = await store.upsert(createChunks(CHUNK_COUNT))
+
+		expect(documentId).toBe(DOCUMENT_ID)
+		expect(inserts).toHaveLength(8)
+		expect(inserts.map((i) => i.rows.length)).toEqual([
+			500, 375, 500, 375, 500, 375, 500, 375
+		])
+		expect(inserts[0]?.rows[0]).toMatchObject({
+			documentId: DOCUMENT_ID,
+			index: 0,
+			metadata: {page: 0}
+		})
+		expect(inserts[1]?.rows[0]).toMatchObject({
+			embedding: [0, 0.5, -0.5],
+			embeddingDimension: 3
+		})
+	})
+
+	test('prisma builds multi-row VALUES lists per batch', async () => {
+		const statements: Array<{sql: string; values: unknown[]}> = []
+		const tx = {
+			$queryRaw: async () => [{id: DOCUMENT_ID}],
+			$executeRaw: async (query: {sql: string; values: unknown[]}) => {
+				statements.push(query)
+				return 0
+			}
+		}
+		const prisma = {
+			$transaction: async <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx)
+		}
+		const store = createPrismaVectorStore(
+			prisma as unknown as Parameters<typeof createPrismaVectorStore>[0],
+			{upsertBatchSize: 1000}
+		)
+
+		await store.upsert(createChunks(CHUNK_COUNT))
+
+		const chunkInserts = statements.filter((s) =>
+			s.sql.includes('insert into chunks')
+		)
+		const embeddingInserts = statements.filter((s) =>
+			s.sql.includes('insert into embeddings')
+		)
+		expect(chunkInserts.map((s) => s.values.length)).toEqual([7000, 7000])
+		expect(embeddingInserts.map((s) => s.values.length)).toEqual([
+			4500, 4500
+		])
+	})
+})
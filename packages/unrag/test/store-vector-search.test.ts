@@ -0,0 +1,167 @@
+import {describe, expect, test} from 'bun:test'
+import {
+	recommendedIvfflatLists,
+	renderCreateVectorIndexSql,
+	renderDropVectorIndexSql
+} from '@cli/lib/vectorIndex'
+import {createDrizzleVectorStore} from '@registry/store/drizzle/store'
+import {createRawSqlVectorStore} from '@registry/store/raw-sql/store'
+import type {SQL} from 'drizzle-orm'
+import {PgDialect} from 'drizzle-orm/pg-core'
+import type {Pool} from 'pg'
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Records pool queries and the statements of each checked-out client.
+const createRecordingPool = () => {
+	const pooled: string[] = []
+	const clients: string[][] = []
+	const pool = {
+		query: async (text: string) => {
+			pooled.push(normalize(text))
+			return {rows: []}
+		},
+		connect: async () => {
+			const statements: string[] = []
+			clients.push(statements)
+			return {
+				query: async (text: string) => {
+					statements.push(normalize(text))
+					return {rows: []}
+				},
+				release: () => {}
+			}
+		}
+	} as unknown as Pool
+	return {pool, pooled, clients}
+}
+
+describe('vectorSearch', () => {
+	test('raw-sql applies settings with set local inside a transaction', async () => {
+		const {pool, pooled, clients} = createRecordingPool()
+		const store = createRawSqlVectorStore(pool)
+
+		await store.query({
+			embedding: [0.5, 0.25],
+			topK: 5,
+			vectorSearch: {efSearch: 100, probes: 4}
+		})
+
+		expect(pooled).toEqual([])
+		const statements = clients[0] ?? []
+		expect(statements.slice(0, 3)).toEqual([
+			'begin',
+			'set local hnsw.ef_search = 100',
+			'set local ivfflat.probes = 4'
+		])
+		expect(statements[3]).toContain(
+			'(e.embedding::vector(2) <=> $1::vector(2)) as score'
+		)
+		expect(statements[4]).toBe('commit')
+	})
+
+	test('raw-sql queries without settings skip the transaction', async () => {
+		const {pool, pooled, clients} = createRecordingPool()
+		const store = createRawSqlVectorStore(pool)
+
+		await store.query({embedding: [1, 0, 0], topK: 5})
+
+		expect(clients).toEqual([])
+		expect(pooled[0]).toContain(
+			'(e.embedding::vector(3) <=> $1::vector(3)) as score'
+		)
+	})
+
+	test('rejects values that are not positive integers', async () => {
+		const {pool, pooled, clients} = createRecordingPool()
+		const store = createRawSqlVectorStore(pool)
+
+		await expect(
+			store.query({
+				embedding: [1],
+				topK: 1,
+				vectorSearch: {efSearch: 1.5}
+			})
+		).rejects.toThrow('Invalid vectorSearch.efSearch "1.5"')
+		expect(pooled).toEqual([])
+		expect(clients).toEqual([])
+	})
+
+	test('drizzle runs the settings and the query in one transaction', async () => {
+		const executed: SQL[] = []
+		const tx = {
+			execute: async (query: SQL) => {
+				executed.push(query)
+				return {rows: []}
+			}
+		}
+		const db = {
+			execute: async () => {
+				throw new Error('expected a transaction')
+			},
+			transaction: async (fn: (t: typeof tx) => Promise<unknown>) =>
+				fn(tx)
+		} as unknown as Parameters<typeof createDrizzleVectorStore>[0]
+
+		const store = createDrizzleVectorStore(db)
+		await store.query({
+			embedding: [0.5, 0.25],
+			topK: 5,
+			vectorSearch: {efSearch: 64}
+		})
+
+		const dialect = new PgDialect()
+		const rendered = executed.map((q) =>
+			normalize(dialect.sqlToQuery(q).sql)
+		)
+		expect(rendered[0]).toBe('set local hnsw.ef_search = 64')
+		expect(rendered[1]).toContain(
+			'(e.embedding::vector(2) <=> $1::vector(2)) as score'
+		)
+	})
+})
+
+describe('unrag index SQL', () => {
+	const base = {schema: 'public', table: 'embeddings'}
+
+	test('builds a partial expression index per named index and dimension', () => {
+		expect(
+			renderCreateVectorIndexSql(
+				{index: 'v2', dimensions: 1536, rowCount: 10},
+				{...base, method: 'hnsw', metric: 'cosine', m: 24}
+			)
+		).toBe(
+			[
+				'create index if not exists "embeddings_v2_1536_hnsw_idx"',
+				'on "public"."embeddings"',
+				'using hnsw ((embedding::vector(1536)) vector_cosine_ops)',
+				'with (m = 24)',
+				"where index_name = 'v2' and embedding_dimension = 1536;"
+			].join('\n')
+		)
+	})
+
+	test('sizes ivfflat lists from the row count and escapes index names', () => {
+		const sql = renderCreateVectorIndexSql(
+			{index: "team's:v1", dimensions: 8, rowCount: 250_000},
+			{...base, method: 'ivfflat', metric: 'l2', concurrently: true}
+		)
+		expect(sql).toContain(
+			'create index concurrently if not exists "embeddings_team_s_v1_8_ivfflat_idx"'
+		)
+		expect(sql).toContain('vector_l2_ops)\nwith (lists = 250)')
+		expect(sql).toContain("where index_name = 'team''s:v1'")
+
+		expect(recommendedIvfflatLists(0)).toBe(10)
+		expect(recommendedIvfflatLists(4_000_000)).toBe(2000)
+	})
+
+	test('rebuild drops either method', () => {
+		expect(
+			renderDropVectorIndexSql({index: 'default', dimensions: 3}, base)
+		).toEqual([
+			'drop index if exists "public"."embeddings_default_3_hnsw_idx";',
+			'drop index if exists "public"."embeddings_default_3_ivfflat_idx";'
+		])
+	})
+})
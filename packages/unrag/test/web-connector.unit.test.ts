@@ -0,0 +1,384 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test'
+import {parseWebPage} from '@registry/connectors/web/html'
+import {parseRobotsTxt} from '@registry/connectors/web/robots'
+import {streamSite} from '@registry/connectors/web/sync'
+import type {
+	StreamWebOptions,
+	WebCheckpoint
+} from '@registry/connectors/web/types'
+import type {ConnectorEvent} from '@registry/core/connectors'
+
+async function collect(stream: AsyncIterable<ConnectorEvent<WebCheckpoint>>) {
+	const events: ConnectorEvent<WebCheckpoint>[] = []
+	for await (const event of stream) {
+		events.push(event)
+	}
+	return events
+}
+
+const summarize = (events: ConnectorEvent<WebCheckpoint>[]) => ({
+	upserts: events.flatMap((e) =>
+		e.type === 'upsert' ? [e.input.sourceId] : []
+	),
+	deletes: events.flatMap((e) =>
+		e.type === 'delete' && 'sourceId' in e.input ? [e.input.sourceId] : []
+	)
+})
+
+const lastCheckpoint = (events: ConnectorEvent<WebCheckpoint>[]) => {
+	const checkpoints = events.flatMap((e) =>
+		e.type === 'checkpoint' ? [e.checkpoint] : []
+	)
+	return checkpoints[checkpoints.length - 1]
+}
+
+const page = (title: string, body: string) =>
+	`<!doctype html><html lang="en"><head><title>${title}</title></head><body>
+<header><a href="/">Home</a></header>
+<nav><a href="/docs/a">A</a> <a href="/docs/b">B</a></nav>
+<main>${body}</main>
+<footer>© Example Inc.</footer>
+</body></html>`
+
+describe('web connector: HTML to Markdown', () => {
+	test('keeps main content and drops navigation chrome', () => {
+		const parsed = parseWebPage(
+			`<html><head>
+				<title>Install &amp; setup</title>
+				<meta name="description" content="How to install">
+			</head><body>
+			<div class="sidebar"><a href="/other">Other</a></div>
+			<main>
+				<h1>Install</h1>
+				<p>Run the <code>add</code> command, then read <a href="../guide#top">the <b>guide</b> </a>.</p>
+				<ul><li>One<ul><li>Nested</li></ul></li><li>Two</ul>
+				<pre><code class="language-ts">const x = 1
+</code></pre>
+				<table><tr><th>Flag</th><th>Meaning</th></tr><tr><td>--yes</td><td>Skip | prompts</td></tr></table>
+				<blockquote><p>Note</p></blockquote>
+				<img src="/a.png"><img src="/b.png" alt="Diagram">
+				<script>alert(1)</script>
+			</main>
+			<footer><a href="/legal">Legal</a></footer>
+			</body></html>`,
+			'https://docs.example.com/docs/install/'
+		)
+
+		expect(parsed.title).toBe('Install & setup')
+		expect(parsed.description).toBe('How to install')
+		expect(parsed.markdown).toBe(
+			[
+				'# Install',
+				'Run the `add` command, then read [the **guide**](https://docs.example.com/docs/guide#top) .',
+				'- One\n  - Nested\n- Two',
+				'```ts\nconst x = 1\n```',
+				'| Flag | Meaning |\n| --- | --- |\n| --yes | Skip \\| prompts |',
+				'> Note',
+				'![Diagram](https://docs.example.com/b.png)'
+			].join('\n\n')
+		)
+		expect(parsed.links).toEqual([
+			'https://docs.example.com/other',
+			'https://docs.example.com/docs/guide',
+			'https://docs.example.com/legal'
+		])
+		expect(parsed.noindex).toBe(false)
+	})
+
+	test('reads robots meta directives', () => {
+		const parsed = parseWebPage(
+			'<meta name="robots" content="noindex, nofollow"><p>Hi <a href="/x">x</a></p>',
+			'https://example.com/'
+		)
+		expect(parsed).toMatchObject({noindex: true, nofollow: true, links: []})
+	})
+})
+
+describe('web connector: robots.txt', () => {
+	test('matches the most specific group and the longest rule', () => {
+		const robots = parseRobotsTxt(
+			[
+				'User-agent: *',
+				'Disallow: /',
+				'',
+				'User-agent: other-bot',
+				'User-agent: unrag-web-connector',
+				'Disallow: /private',
+				'Allow: /private/public',
+				'Disallow: /*.json$',
+				'Crawl-delay: 2',
+				'Sitemap: https://example.com/sitemap.xml'
+			].join('\n'),
+			'unrag-web-connector/1.0'
+		)
+
+		expect(robots.isAllowed('/docs')).toBe(true)
+		expect(robots.isAllowed('/private/x')).toBe(false)
+		expect(robots.isAllowed('/private/public/x')).toBe(true)
+		expect(robots.isAllowed('/data.json')).toBe(false)
+		expect(robots.isAllowed('/data.json?x=1')).toBe(true)
+		expect(robots.crawlDelayMs).toBe(2000)
+		expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml'])
+
+		const others = parseRobotsTxt('User-agent: *\nDisallow: /', 'somebot')
+		expect(others.isAllowed('/docs')).toBe(false)
+		expect(others.isAllowed('/robots.txt')).toBe(true)
+	})
+})
+
+describe('web connector: streamSite', () => {
+	type Route = {
+		status?: number
+		body?: string
+		headers?: Record<string, string>
+	}
+	let server: ReturnType<typeof Bun.serve>
+	let routes: Record<string, Route>
+	let requests: {path: string; headers: Headers; at: number}[]
+	let origin: string
+
+	const options = (extra: StreamWebOptions = {}): StreamWebOptions => ({
+		allowHttp: true,
+		allowPrivateHosts: true,
+		requestsPerSecond: 0,
+		...extra
+	})
+
+	beforeEach(() => {
+		routes = {}
+		requests = []
+		server = Bun.serve({
+			port: 0,
+			hostname: '127.0.0.1',
+			fetch(req) {
+				const url = new URL(req.url)
+				requests.push({
+					path: url.pathname,
+					headers: req.headers,
+					at: Date.now()
+				})
+				const route = routes[url.pathname]
+				if (!route) {
+					return new Response('not found', {status: 404})
+				}
+				const headers: Record<string, string> = {
+					'content-type': 'text/html',
+					...route.headers
+				}
+				const etag = headers.etag
+				if (etag && req.headers.get('if-none-match') === etag) {
+					return new Response(null, {status: 304, headers: {etag}})
+				}
+				const lastModified = headers['last-modified']
+				if (
+					lastModified &&
+					req.headers.get('if-modified-since') === lastModified
+				) {
+					return new Response(null, {status: 304})
+				}
+				return new Response(route.body ?? '', {
+					status: route.status ?? 200,
+					headers
+				})
+			}
+		})
+		origin = `http://127.0.0.1:${server.port}`
+	})
+
+	afterEach(() => {
+		server.stop(true)
+	})
+
+	test('crawls sitemap and links within scope, honoring robots.txt and depth', async () => {
+		routes['/robots.txt'] = {
+			body: 'User-agent: *\nDisallow: /private',
+			headers: {'content-type': 'text/plain'}
+		}
+		routes['/sitemap.xml'] = {
+			body: `<?xml version="1.0"?><urlset><url><loc>${origin}/docs/a</loc></url><url><loc>${origin}/docs/b</loc></url></urlset>`,
+			headers: {'content-type': 'application/xml'}
+		}
+		routes['/docs/a'] = {
+			body: page(
+				'A',
+				'<h1>Page A</h1><p>See <a href="/docs/deep">deep</a>, <a href="/private/x">private</a> and <a href="https://elsewhere.example.com/">elsewhere</a>.</p>'
+			),
+			headers: {etag: '"a1"'}
+		}
+		routes['/docs/b'] = {
+			body: page('B', '<h1>Page B</h1>'),
+			headers: {'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT'}
+		}
+		routes['/docs/deep'] = {
+			body: page('Deep', '<p>Deep <a href="/docs/deeper">deeper</a></p>')
+		}
+		routes['/docs/deeper'] = {body: page('Deeper', '<p>Too deep</p>')}
+		routes['/private/x'] = {body: page('Private', '<p>secret</p>')}
+
+		const events = await collect(
+			streamSite({
+				sitemaps: [`${origin}/sitemap.xml`],
+				sourceIdPrefix: 'docs:',
+				options: options({maxDepth: 1})
+			})
+		)
+
+		expect(summarize(events).upserts).toEqual([
+			`docs:web:url:${origin}/docs/a`,
+			`docs:web:url:${origin}/docs/b`,
+			`docs:web:url:${origin}/docs/deep`
+		])
+		const a = events.find((e) => e.type === 'upsert')
+		expect(a?.type === 'upsert' && a.input).toMatchObject({
+			content: `# Page A\n\nSee [deep](${origin}/docs/deep), [private](${origin}/private/x) and [elsewhere](https://elsewhere.example.com/).`,
+			metadata: {
+				connector: 'web',
+				url: `${origin}/docs/a`,
+				title: 'A',
+				lang: 'en',
+				etag: '"a1"',
+				depth: 0
+			}
+		})
+		expect(requests.map((r) => r.path)).not.toContain('/private/x')
+		expect(requests.map((r) => r.path)).not.toContain('/docs/deeper')
+		expect(Object.keys(lastCheckpoint(events)?.pages ?? {})).toEqual([
+			`${origin}/docs/a`,
+			`${origin}/docs/b`,
+			`${origin}/docs/deep`
+		])
+	})
+
+	test('recrawls with ETag/Last-Modified and deletes pages that are gone', async () => {
+		routes['/'] = {
+			body: page(
+				'Home',
+				'<p><a href="/docs/a">A</a> <a href="/docs/b">B</a> <a href="/docs/c">C</a></p>'
+			)
+		}
+		routes['/docs/a'] = {
+			body: page('A', '<p>A</p>'),
+			headers: {etag: '"a1"'}
+		}
+		routes['/docs/b'] = {
+			body: page('B', '<p>B</p>'),
+			headers: {'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT'}
+		}
+		routes['/docs/c'] = {body: page('C', '<p>C</p>')}
+
+		const first = await collect(
+			streamSite({seeds: [`${origin}/`], options: options()})
+		)
+		expect(summarize(first).upserts).toHaveLength(4)
+
+		routes['/docs/b'] = {
+			body: page('B', '<p>B, edited</p>'),
+			headers: {'last-modified': 'Tue, 02 Jan 2024 00:00:00 GMT'}
+		}
+		routes['/docs/c'] = {status: 404}
+		requests = []
+
+		const second = await collect(
+			streamSite({
+				seeds: [`${origin}/`],
+				options: options(),
+				checkpoint: lastCheckpoint(first)
+			})
+		)
+		expect(summarize(second)).toEqual({
+			upserts: [`web:url:${origin}/docs/b`],
+			deletes: [`web:url:${origin}/docs/c`]
+		})
+		const aRequest = requests.find((r) => r.path === '/docs/a')
+		expect(aRequest?.headers.get('if-none-match')).toBe('"a1"')
+		const bRequest = requests.find((r) => r.path === '/docs/b')
+		expect(bRequest?.headers.get('if-modified-since')).toBe(
+			'Mon, 01 Jan 2024 00:00:00 GMT'
+		)
+		expect(lastCheckpoint(second)?.pages[`${origin}/docs/b`]).toMatchObject(
+			{
+				lastModified: 'Tue, 02 Jan 2024 00:00:00 GMT'
+			}
+		)
+		expect(Object.keys(lastCheckpoint(second)?.pages ?? {}).sort()).toEqual(
+			[`${origin}/`, `${origin}/docs/a`, `${origin}/docs/b`]
+		)
+	})
+
+	test('keeps checkpointed pages when robots.txt is unavailable', async () => {
+		routes['/robots.txt'] = {
+			body: 'User-agent: *\nAllow: /',
+			headers: {'content-type': 'text/plain'}
+		}
+		routes['/'] = {body: page('Home', '<p><a href="/docs/a">A</a></p>')}
+		routes['/docs/a'] = {body: page('A', '<p>A</p>')}
+
+		const first = await collect(
+			streamSite({seeds: [`${origin}/`], options: options()})
+		)
+		expect(summarize(first).upserts).toHaveLength(2)
+
+		routes['/robots.txt'] = {status: 503}
+		requests = []
+		const second = await collect(
+			streamSite({
+				seeds: [`${origin}/`],
+				options: options(),
+				checkpoint: lastCheckpoint(first)
+			})
+		)
+		expect(summarize(second)).toEqual({upserts: [], deletes: []})
+		expect(second.find((e) => e.type === 'warning')).toMatchObject({
+			code: 'robots_unavailable'
+		})
+		expect(requests.map((r) => r.path)).toEqual(['/robots.txt'])
+		expect(lastCheckpoint(second)).toEqual(lastCheckpoint(first))
+	})
+
+	test('applies the SSRF policy to seeds and redirects', async () => {
+		await expect(
+			collect(streamSite({seeds: [`${origin}/`]}))
+		).rejects.toThrow('Only https:// URLs are allowed for web fetching')
+		await expect(
+			collect(
+				streamSite({seeds: [`${origin}/`], options: {allowHttp: true}})
+			)
+		).rejects.toThrow('Disallowed host for web fetch: 127.0.0.1')
+
+		routes['/'] = {
+			status: 302,
+			headers: {location: `http://localhost:${server.port}/`}
+		}
+		const events = await collect(
+			streamSite({seeds: [`${origin}/`], options: options()})
+		)
+		expect(events.find((e) => e.type === 'warning')).toMatchObject({
+			code: 'page_error',
+			message: 'Host not allowlisted for web fetch: localhost'
+		})
+		expect(summarize(events).upserts).toEqual([])
+	})
+
+	test('spaces requests to a host by the rate limit', async () => {
+		routes['/'] = {body: '<p><a href="/1">1</a> <a href="/2">2</a></p>'}
+		routes['/1'] = {body: '<p>1</p>'}
+		routes['/2'] = {body: '<p>2</p>'}
+
+		await collect(
+			streamSite({
+				seeds: [`${origin}/`],
+				options: options({requestsPerSecond: 20})
+			})
+		)
+		expect(requests.map((r) => r.path)).toEqual([
+			'/robots.txt',
+			'/',
+			'/1',
+			'/2'
+		])
+		for (let i = 1; i < requests.length; i++) {
+			const gap = (requests[i]?.at ?? 0) - (requests[i - 1]?.at ?? 0)
+			expect(gap).toBeGreaterThanOrEqual(40)
+		}
+	})
+})